@@ -5,7 +5,7 @@ import compression from 'compression';
 import morgan from 'morgan';
 import rateLimit from 'express-rate-limit';
 import swaggerUi from 'swagger-ui-express';
-import { logger } from './utils/logger.js';
+import { logger, redactUrl } from './utils/logger.js';
 import { errorHandler } from './middlewares/errorHandler.js';
 import { requestLogger } from './middlewares/requestLogger.js';
 import { swaggerSpec } from './config/swagger.js';
@@ -18,6 +18,8 @@ import onboardingRoutes from './modules/onboarding/route.js';
 import notificationRoutes from './modules/notifications/route.js';
 import analyticsRoutes from './modules/analytics/route.js';
 import { leaveRoutes } from './modules/leaves/route.js';
+import { attendanceRoutes } from './modules/attendance/route.js';
+import { jobRoutes } from './modules/jobs/route.js';
 const app = express();
 
 // Trust proxy for accurate IP addresses
@@ -45,7 +47,7 @@ app.use(
     origin: process.env.CORS_ORIGIN?.split(',') || '*',
     credentials: true,
     methods: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'OPTIONS'],
-    allowedHeaders: ['Content-Type', 'Authorization', 'x-user-id'],
+    allowedHeaders: ['Content-Type', 'Authorization', 'x-user-id', 'Last-Event-ID'],
   })
 );
 
@@ -100,6 +102,7 @@ app.use(
 );
 
 // HTTP request logging
+morgan.token('url', (req: express.Request) => redactUrl(req.originalUrl || req.url));
 if (process.env.NODE_ENV === 'development') {
   app.use(morgan('dev'));
 } else {
@@ -168,9 +171,11 @@ app.use('/api/v1/onboarding', onboardingRoutes);
 app.use('/api/v1/notifications', notificationRoutes);
 app.use('/api/v1/analytics', analyticsRoutes);
 app.use('/api/v1/leaves', leaveRoutes);
+app.use('/api/v1/attendance', attendanceRoutes);
+app.use('/api/v1/jobs', jobRoutes);
 // 404 handler
 app.use('*', (req, res) => {
-  logger.warn(`404 - Route not found: ${req.method} ${req.originalUrl}`);
+  logger.warn(`404 - Route not found: ${req.method} ${redactUrl(req.originalUrl)}`);
   res.status(404).json({
     success: false,
     message: `Route ${req.originalUrl} not found`,
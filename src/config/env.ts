@@ -1,14 +1,62 @@
 import { z } from 'zod';
 
-const envSchema = z.object({
-  NODE_ENV: z.enum(['development', 'production', 'test']).default('development'),
-  PORT: z.string().transform(Number).default('3000'),
-  DATABASE_URL: z.string().url(),
-  CORS_ORIGIN: z.string().optional(),
-  JWT_SECRET: z.string().min(32).optional(),
-  JWT_EXPIRES_IN: z.string().default('7d'),
-  LOG_LEVEL: z.enum(['error', 'warn', 'info', 'debug']).default('info'),
-});
+const envSchema = z
+  .object({
+    NODE_ENV: z.enum(['development', 'production', 'test']).default('development'),
+    PORT: z.string().transform(Number).default('3000'),
+    DATABASE_URL: z.string().url(),
+    CORS_ORIGIN: z.string().optional(),
+    JWT_SECRET: z.string().min(32).optional(),
+    JWT_EXPIRES_IN: z.string().default('7d'),
+    LOG_LEVEL: z.enum(['error', 'warn', 'info', 'debug']).default('info'),
+
+    // Email delivery; defaults to smtp in production and file elsewhere
+    EMAIL_TRANSPORT: z.enum(['smtp', 'file']).optional(),
+    EMAIL_FROM: z.string().default('HR Dashboard <no-reply@localhost>'),
+    EMAIL_FILE_DIR: z.string().default('tmp/mailbox'),
+    EMAIL_MAX_ATTEMPTS: z.string().transform(Number).default('3'),
+    EMAIL_RETRY_BASE_DELAY_MS: z.string().transform(Number).default('1000'),
+    SMTP_HOST: z.string().optional(),
+    SMTP_PORT: z.string().transform(Number).default('587'),
+    SMTP_SECURE: z
+      .enum(['true', 'false'])
+      .transform((value) => value === 'true')
+      .default('false'),
+    SMTP_USER: z.string().optional(),
+    SMTP_PASS: z.string().optional(),
+
+    // SMS delivery (no provider is wired in yet; both transports are local stand-ins)
+    SMS_TRANSPORT: z.enum(['file', 'console']).default('file'),
+    SMS_FROM: z.string().default('HRDASH'),
+    SMS_FILE_DIR: z.string().default('tmp/sms'),
+    SMS_MAX_ATTEMPTS: z.string().transform(Number).default('3'),
+    SMS_RETRY_BASE_DELAY_MS: z.string().transform(Number).default('1000'),
+    SMS_MAX_SEGMENTS: z.string().transform(Number).default('2'),
+    SMS_DEFAULT_COUNTRY_CODE: z
+      .string()
+      .regex(/^\+\d{1,3}$/, 'SMS_DEFAULT_COUNTRY_CODE must look like +91')
+      .optional(),
+
+    // Scheduled jobs; disable on instances that should only serve requests
+    JOB_SCHEDULER_ENABLED: z
+      .enum(['true', 'false'])
+      .transform((value) => value === 'true')
+      .default('true'),
+
+    // Notification retention
+    NOTIFICATION_RETENTION_DAYS: z.string().transform(Number).default('90'),
+    NOTIFICATION_RETENTION_MODE: z.enum(['archive', 'purge']).default('archive'),
+  })
+  .transform((data) => ({
+    ...data,
+    EMAIL_TRANSPORT:
+      data.EMAIL_TRANSPORT ??
+      (data.NODE_ENV === 'production' ? ('smtp' as const) : ('file' as const)),
+  }))
+  .refine((data) => data.EMAIL_TRANSPORT !== 'smtp' || !!data.SMTP_HOST, {
+    message: 'SMTP_HOST is required when EMAIL_TRANSPORT is smtp',
+    path: ['SMTP_HOST'],
+  });
 
 export type Env = z.infer<typeof envSchema>;
 
@@ -0,0 +1,41 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import { logger } from '../utils/logger.js';
+
+// Organisation leave policy document, kept at the repository root next to package.json
+const LEAVE_POLICY_FILE = path.resolve(process.cwd(), 'leave-policy.json');
+
+const yearlyResetRulesSchema = z.object({
+  resetDate: z.string().optional(),
+  // Most days of a policy (by policy code) that may carry into the next fiscal year
+  carryForwardLimits: z.record(z.number().min(0)).default({}),
+  // Policy codes whose unused days always lapse at year end
+  noCarryForwardLeaves: z.array(z.string()).default([]),
+});
+
+export type YearlyResetRules = z.infer<typeof yearlyResetRulesSchema>;
+
+let yearlyResetRules: YearlyResetRules | null | undefined;
+
+/**
+ * `yearlyResetRules` from leave-policy.json, read once. Returns null when the file is
+ * missing or the section is invalid, so the rollover falls back to the policies alone.
+ */
+export const getYearlyResetRules = (): YearlyResetRules | null => {
+  if (yearlyResetRules !== undefined) return yearlyResetRules;
+
+  try {
+    const document = JSON.parse(readFileSync(LEAVE_POLICY_FILE, 'utf8'));
+    const parsed = yearlyResetRulesSchema.safeParse(document.yearlyResetRules ?? {});
+    if (!parsed.success) {
+      logger.warn('Ignoring invalid yearlyResetRules in leave-policy.json:', parsed.error.errors);
+    }
+    yearlyResetRules = parsed.success ? parsed.data : null;
+  } catch (error) {
+    logger.warn(`Leave policy file not loaded (${LEAVE_POLICY_FILE}):`, error);
+    yearlyResetRules = null;
+  }
+
+  return yearlyResetRules;
+};
@@ -455,6 +455,14 @@ const swaggerDefinition: SwaggerDefinition = {
       description:
         'Leave management endpoints including policies, requests, balances, and approvals',
     },
+    {
+      name: 'Attendance',
+      description: 'Attendance check-in/check-out, corrections, and monthly summaries',
+    },
+    {
+      name: 'Jobs',
+      description: 'Scheduled background jobs, run history and on-demand runs',
+    },
   ],
 };
 
@@ -472,6 +480,7 @@ const options = {
     './dist/modules/notifications/route.js',
     './dist/modules/analytics/route.js',
     './dist/modules/leaves/route.js',
+    './dist/modules/attendance/route.js',
     './dist/app.js',
   ],
 };
@@ -1,7 +1,7 @@
 import { Request, Response, NextFunction } from 'express';
 import { ZodError } from 'zod';
 import { Prisma } from '@prisma/client';
-import { logger } from '../utils/logger.js';
+import { logger, redactUrl } from '../utils/logger.js';
 import { ResponseUtil } from '../utils/response.js';
 
 export interface AppError extends Error {
@@ -36,7 +36,7 @@ export const errorHandler = (
   logger.error('Error occurred:', {
     error: error.message,
     stack: error.stack,
-    url: req.url,
+    url: redactUrl(req.url),
     method: req.method,
     ip: req.ip,
     userAgent: req.get('User-Agent'),
@@ -1,5 +1,5 @@
 import { Request, Response, NextFunction } from 'express';
-import { logger } from '../utils/logger.js';
+import { logger, redactUrl } from '../utils/logger.js';
 
 export const requestLogger = (req: Request, res: Response, next: NextFunction): void => {
   const start = Date.now();
@@ -7,7 +7,7 @@ export const requestLogger = (req: Request, res: Response, next: NextFunction):
   // Log request
   logger.info('Incoming request', {
     method: req.method,
-    url: req.url,
+    url: redactUrl(req.url),
     ip: req.ip,
     userAgent: req.get('User-Agent'),
     timestamp: new Date().toISOString(),
@@ -20,7 +20,7 @@ export const requestLogger = (req: Request, res: Response, next: NextFunction):
 
     logger.info('Request completed', {
       method: req.method,
-      url: req.url,
+      url: redactUrl(req.url),
       statusCode: res.statusCode,
       duration: `${duration}ms`,
       ip: req.ip,
@@ -168,7 +168,7 @@ router.get('/tasks/:taskId', verifyToken, requireAdmin, AnalyticsController.getT
  * /api/v1/analytics/workflows/generate:
  *   post:
  *     summary: Generate analytics for all workflows
- *     description: Manually trigger analytics generation for all active workflows
+ *     description: Manually trigger analytics generation for all active workflows. This also runs nightly as the workflow-analytics job (see /api/v1/jobs).
  *     tags: [Analytics]
  *     security:
  *       - bearerAuth: []
@@ -203,7 +203,7 @@ router.post(
  * /api/v1/analytics/tasks/generate:
  *   post:
  *     summary: Generate analytics for all tasks
- *     description: Manually trigger analytics generation for all active tasks
+ *     description: Manually trigger analytics generation for all active tasks. This also runs nightly as the task-analytics job (see /api/v1/jobs).
  *     tags: [Analytics]
  *     security:
  *       - bearerAuth: []
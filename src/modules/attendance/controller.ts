@@ -0,0 +1,170 @@
+import { Response } from 'express';
+import { AuthenticatedRequest } from '../../middlewares/supabaseAuth.js';
+import { attendanceService } from './service.js';
+import {
+  checkInSchema,
+  checkOutSchema,
+  correctAttendanceSchema,
+  getAttendanceRecordsQuerySchema,
+  getMonthlySummaryQuerySchema,
+  reconcileAttendanceSchema,
+  applyLateMarkDeductionsSchema,
+  getLateMarkDeductionsQuerySchema,
+} from './schema.js';
+import { asyncHandler } from '../../utils/asyncHandler.js';
+import { successResponse, errorResponse } from '../../utils/response.js';
+
+export class AttendanceController {
+  // ==================== CHECK-IN / CHECK-OUT ====================
+
+  checkIn = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const validatedData = checkInSchema.parse(req.body);
+
+    validatedData.ipAddress = req.ip;
+    validatedData.userAgent = req.get('User-Agent');
+
+    const record = await attendanceService.checkIn(req.user?.id || '', validatedData);
+
+    return successResponse(res, record, 'Checked in successfully', 201);
+  });
+
+  checkOut = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const validatedData = checkOutSchema.parse(req.body);
+
+    const record = await attendanceService.checkOut(req.user?.id || '', validatedData);
+
+    return successResponse(res, record, 'Checked out successfully');
+  });
+
+  getTodayAttendance = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const record = await attendanceService.getTodayAttendance(req.user?.id || '');
+
+    return successResponse(res, record, "Today's attendance retrieved successfully");
+  });
+
+  // ==================== ATTENDANCE RECORDS ====================
+
+  getAttendanceRecords = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const query = getAttendanceRecordsQuerySchema.parse(req.query);
+
+    const result = await attendanceService.getAttendanceRecords(
+      query,
+      req.user?.role || '',
+      req.user?.id || ''
+    );
+
+    return successResponse(res, result, 'Attendance records retrieved successfully');
+  });
+
+  // ==================== CORRECTIONS ====================
+
+  correctAttendance = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    // Only managers and HR can correct attendance
+    if (!['MANAGER', 'ADMIN'].includes(req.user?.role || '')) {
+      return errorResponse(res, 'Insufficient permissions to correct attendance', 403);
+    }
+
+    const validatedData = correctAttendanceSchema.parse(req.body);
+
+    const record = await attendanceService.correctAttendance(
+      validatedData,
+      req.user?.id || '',
+      req.user?.role || ''
+    );
+
+    return successResponse(res, record, 'Attendance corrected successfully');
+  });
+
+  // ==================== MONTHLY SUMMARY ====================
+
+  getMonthlySummary = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { employeeId } = req.params;
+    const { year, month } = getMonthlySummaryQuerySchema.parse(req.query);
+    const now = new Date();
+
+    const summary = await attendanceService.getMonthlySummary(
+      employeeId,
+      year ?? now.getFullYear(),
+      month ?? now.getMonth() + 1,
+      req.user?.role || '',
+      req.user?.id || ''
+    );
+
+    return successResponse(res, summary, 'Monthly attendance summary retrieved successfully');
+  });
+
+  getMyMonthlySummary = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { year, month } = getMonthlySummaryQuerySchema.parse(req.query);
+    const now = new Date();
+
+    const employee = await attendanceService.findEmployeeByUserId(req.user?.id || '');
+    if (!employee) {
+      return errorResponse(res, 'Employee not found', 404);
+    }
+
+    const summary = await attendanceService.getMonthlySummary(
+      employee.id,
+      year ?? now.getFullYear(),
+      month ?? now.getMonth() + 1,
+      req.user?.role || '',
+      req.user?.id || ''
+    );
+
+    return successResponse(res, summary, 'Monthly attendance summary retrieved successfully');
+  });
+
+  // ==================== RECONCILIATION ====================
+
+  reconcileAttendance = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const validatedData = reconcileAttendanceSchema.parse(req.body);
+
+    const result = await attendanceService.reconcileAttendance(validatedData);
+
+    const message = validatedData.dryRun
+      ? 'Attendance reconciliation dry run completed'
+      : 'Attendance reconciliation completed successfully';
+    return successResponse(res, result, message);
+  });
+
+  // ==================== LATE MARKS ====================
+
+  applyLateMarkDeductions = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const validatedData = applyLateMarkDeductionsSchema.parse(req.body);
+
+    const result = await attendanceService.applyLateMarkDeductions(
+      validatedData,
+      req.user?.id || ''
+    );
+
+    const message = validatedData.dryRun
+      ? 'Late mark deduction dry run completed'
+      : 'Late mark deductions applied successfully';
+    return successResponse(res, result, message);
+  });
+
+  getLateMarkDeductions = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const query = getLateMarkDeductionsQuerySchema.parse(req.query);
+
+    const deductions = await attendanceService.getLateMarkDeductions(
+      query,
+      req.user?.role || '',
+      req.user?.id || ''
+    );
+
+    return successResponse(res, deductions, 'Late mark deductions retrieved successfully');
+  });
+
+  explainLateMarkDeduction = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { id } = req.params;
+
+    const explanation = await attendanceService.explainLateMarkDeduction(
+      id,
+      req.user?.role || '',
+      req.user?.id || ''
+    );
+
+    return successResponse(res, explanation, 'Late mark deduction explained successfully');
+  });
+}
+
+export const attendanceController = new AttendanceController();
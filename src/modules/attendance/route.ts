@@ -0,0 +1,322 @@
+import { Router } from 'express';
+import { attendanceController } from './controller.js';
+import { verifyTestToken } from '../../middlewares/testAuth.js';
+import { requireExactRole } from '../../middlewares/roleAuth.js';
+import { validateRequest } from '../../middlewares/validation.js';
+import {
+  checkInSchema,
+  checkOutSchema,
+  correctAttendanceSchema,
+  reconcileAttendanceSchema,
+  applyLateMarkDeductionsSchema,
+} from './schema.js';
+
+const router = Router();
+
+// Apply authentication to all routes
+router.use(verifyTestToken);
+
+// ==================== CHECK-IN / CHECK-OUT ROUTES ====================
+
+/**
+ * @swagger
+ * /api/v1/attendance/check-in:
+ *   post:
+ *     summary: Check in for today
+ *     description: Records the current user's check-in time for today
+ *     tags: [Attendance]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               workFromHome:
+ *                 type: boolean
+ *                 default: false
+ *               location:
+ *                 type: string
+ *               notes:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Checked in successfully
+ *       400:
+ *         description: Already checked in for today
+ */
+router.post('/check-in', validateRequest({ body: checkInSchema }), attendanceController.checkIn);
+
+/**
+ * @swagger
+ * /api/v1/attendance/check-out:
+ *   post:
+ *     summary: Check out for today
+ *     description: Records check-out time and derives the day's status from worked hours
+ *     tags: [Attendance]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               notes:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Checked out successfully
+ *       400:
+ *         description: No check-in found or already checked out
+ */
+router.post('/check-out', validateRequest({ body: checkOutSchema }), attendanceController.checkOut);
+
+/**
+ * @route   GET /api/v1/attendance/today
+ * @desc    Get the current user's attendance record for today
+ * @access  All authenticated users
+ */
+router.get('/today', attendanceController.getTodayAttendance);
+
+// ==================== ATTENDANCE RECORD ROUTES ====================
+
+/**
+ * @swagger
+ * /api/v1/attendance/records:
+ *   get:
+ *     summary: Get daily attendance records
+ *     description: Employees see their own records, managers their direct reports, HR everyone
+ *     tags: [Attendance]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: employeeId
+ *         in: query
+ *         schema:
+ *           type: string
+ *       - name: startDate
+ *         in: query
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - name: endDate
+ *         in: query
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - name: status
+ *         in: query
+ *         schema:
+ *           type: string
+ *           enum: [PRESENT, ABSENT, HALF_DAY, WORK_FROM_HOME, LATE]
+ *       - name: page
+ *         in: query
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - name: limit
+ *         in: query
+ *         schema:
+ *           type: integer
+ *           default: 31
+ *     responses:
+ *       200:
+ *         description: Attendance records retrieved successfully
+ *       403:
+ *         description: Insufficient permissions
+ */
+router.get('/records', attendanceController.getAttendanceRecords);
+
+// ==================== CORRECTION ROUTES ====================
+
+/**
+ * @swagger
+ * /api/v1/attendance/corrections:
+ *   post:
+ *     summary: Correct an attendance record
+ *     description: Managers can correct their direct reports; HR corrections require hrCanAdjustAttendance in leave settings. Correcting a day away from ABSENT cancels its auto-LWP.
+ *     tags: [Attendance]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [employeeId, date, reason]
+ *             properties:
+ *               employeeId:
+ *                 type: string
+ *               date:
+ *                 type: string
+ *                 format: date
+ *               checkInAt:
+ *                 type: string
+ *                 format: date-time
+ *               checkOutAt:
+ *                 type: string
+ *                 format: date-time
+ *               status:
+ *                 type: string
+ *                 enum: [PRESENT, ABSENT, HALF_DAY, WORK_FROM_HOME, LATE]
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Attendance corrected successfully
+ *       403:
+ *         description: Insufficient permissions or HR adjustments disabled
+ */
+router.post(
+  '/corrections',
+  requireExactRole(['MANAGER', 'ADMIN']),
+  validateRequest({ body: correctAttendanceSchema }),
+  attendanceController.correctAttendance
+);
+
+// ==================== SUMMARY ROUTES ====================
+
+/**
+ * @route   GET /api/v1/attendance/my/summary
+ * @desc    Get the current user's monthly attendance summary
+ * @access  All authenticated users
+ */
+router.get('/my/summary', attendanceController.getMyMonthlySummary);
+
+/**
+ * @swagger
+ * /api/v1/attendance/summary/{employeeId}:
+ *   get:
+ *     summary: Get monthly attendance summary
+ *     description: Per-employee monthly summary including approved leave days and holidays
+ *     tags: [Attendance]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: employeeId
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - name: year
+ *         in: query
+ *         schema:
+ *           type: integer
+ *       - name: month
+ *         in: query
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 12
+ *     responses:
+ *       200:
+ *         description: Monthly attendance summary retrieved successfully
+ *       403:
+ *         description: Insufficient permissions
+ *       404:
+ *         description: Employee not found
+ */
+router.get('/summary/:employeeId', attendanceController.getMonthlySummary);
+
+// ==================== RECONCILIATION ROUTES ====================
+
+/**
+ * @swagger
+ * /api/v1/attendance/reconcile:
+ *   post:
+ *     summary: Run attendance reconciliation for a date range
+ *     description: Marks days with no check-in and no approved leave as ABSENT, creates auto-LWP after the grace period and reverses auto-LWP covered by approved leave applied within the grace window. Use dryRun to preview the diff without writing.
+ *     tags: [Attendance]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [startDate, endDate]
+ *             properties:
+ *               startDate:
+ *                 type: string
+ *                 format: date
+ *               endDate:
+ *                 type: string
+ *                 format: date
+ *               dryRun:
+ *                 type: boolean
+ *                 default: false
+ *     responses:
+ *       200:
+ *         description: Reconciliation completed (or dry run diff returned)
+ *       403:
+ *         description: Admin access required
+ */
+router.post(
+  '/reconcile',
+  requireExactRole(['ADMIN']),
+  validateRequest({ body: reconcileAttendanceSchema }),
+  attendanceController.reconcileAttendance
+);
+
+// ==================== LATE MARK ROUTES ====================
+
+/**
+ * @swagger
+ * /api/v1/attendance/late-marks/apply:
+ *   post:
+ *     summary: Apply late-mark deductions for a month
+ *     description: Evaluates LeaveSettings.lateMarkRules and deducts leave for each complete block of late marks beyond the allowance, capped at the available balance (PARTIAL or NO_BALANCE when short). Re-running a month only applies new blocks.
+ *     tags: [Attendance]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [year, month]
+ *             properties:
+ *               year:
+ *                 type: integer
+ *               month:
+ *                 type: integer
+ *                 minimum: 1
+ *                 maximum: 12
+ *               employeeId:
+ *                 type: string
+ *               dryRun:
+ *                 type: boolean
+ *                 default: false
+ *     responses:
+ *       200:
+ *         description: Late mark deductions applied (or dry run returned)
+ *       403:
+ *         description: Admin access required
+ */
+router.post(
+  '/late-marks/apply',
+  requireExactRole(['ADMIN']),
+  validateRequest({ body: applyLateMarkDeductionsSchema }),
+  attendanceController.applyLateMarkDeductions
+);
+
+/**
+ * @route   GET /api/v1/attendance/late-marks/deductions
+ * @desc    List late-mark deductions (own for employees, filter by employeeId/year/month)
+ * @access  All authenticated users
+ */
+router.get('/late-marks/deductions', attendanceController.getLateMarkDeductions);
+
+/**
+ * @route   GET /api/v1/attendance/late-marks/deductions/:id/explain
+ * @desc    Show the late marks and rules that triggered a deduction
+ * @access  Employee (own), Manager (direct reports), Admin
+ */
+router.get('/late-marks/deductions/:id/explain', attendanceController.explainLateMarkDeduction);
+
+export { router as attendanceRoutes };
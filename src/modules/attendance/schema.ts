@@ -0,0 +1,158 @@
+import { z } from 'zod';
+import { AttendanceStatus } from '@prisma/client';
+
+// Base validation helpers
+const requiredString = z.string().min(1, 'Field is required');
+const dateFormat = z.string().datetime('Invalid date format').or(z.date());
+const dayFormat = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format')
+  .or(z.date());
+
+// Attendance Status Enum Schema
+export const attendanceStatusSchema = z.nativeEnum(AttendanceStatus);
+
+// ==================== CHECK-IN / CHECK-OUT SCHEMAS ====================
+
+export const checkInSchema = z.object({
+  workFromHome: z.boolean().default(false),
+  location: z.string().max(100, 'Location must not exceed 100 characters').optional(),
+  notes: z.string().max(500, 'Notes must not exceed 500 characters').optional(),
+
+  // Request metadata (set by controller)
+  ipAddress: z.string().optional(),
+  userAgent: z.string().optional(),
+});
+
+export type CheckInInput = z.infer<typeof checkInSchema>;
+
+export const checkOutSchema = z.object({
+  notes: z.string().max(500, 'Notes must not exceed 500 characters').optional(),
+});
+
+export type CheckOutInput = z.infer<typeof checkOutSchema>;
+
+// ==================== CORRECTION SCHEMAS ====================
+
+export const correctAttendanceSchema = z
+  .object({
+    employeeId: requiredString,
+    date: dayFormat,
+    checkInAt: dateFormat.optional(),
+    checkOutAt: dateFormat.optional(),
+    status: attendanceStatusSchema.optional(),
+    reason: requiredString.max(500, 'Reason must not exceed 500 characters'),
+  })
+  .refine(
+    (data) => {
+      if (data.checkInAt && data.checkOutAt) {
+        return new Date(data.checkInAt) < new Date(data.checkOutAt);
+      }
+      return true;
+    },
+    {
+      message: 'Check-out must be after check-in',
+      path: ['checkOutAt'],
+    }
+  )
+  .refine((data) => data.checkInAt || data.checkOutAt || data.status, {
+    message: 'At least one of checkInAt, checkOutAt or status must be provided',
+    path: ['status'],
+  });
+
+export type CorrectAttendanceInput = z.infer<typeof correctAttendanceSchema>;
+
+// ==================== QUERY SCHEMAS ====================
+
+export const getAttendanceRecordsQuerySchema = z
+  .object({
+    page: z.string().regex(/^\d+$/, 'Page must be a number').transform(Number).default('1'),
+    limit: z.string().regex(/^\d+$/, 'Limit must be a number').transform(Number).default('31'),
+    employeeId: z.string().min(1).optional(),
+    startDate: dayFormat.optional(),
+    endDate: dayFormat.optional(),
+    status: attendanceStatusSchema.optional(),
+  })
+  .refine(
+    (data) => {
+      if (data.startDate && data.endDate) {
+        return new Date(data.startDate) <= new Date(data.endDate);
+      }
+      return true;
+    },
+    {
+      message: 'Start date must be before or equal to end date',
+      path: ['endDate'],
+    }
+  );
+
+export type GetAttendanceRecordsQuery = z.infer<typeof getAttendanceRecordsQuerySchema>;
+
+export const getMonthlySummaryQuerySchema = z.object({
+  year: z
+    .string()
+    .regex(/^\d{4}$/, 'Year must be a 4 digit number')
+    .transform(Number)
+    .optional(),
+  month: z
+    .string()
+    .regex(/^(0?[1-9]|1[0-2])$/, 'Month must be between 1 and 12')
+    .transform(Number)
+    .optional(),
+});
+
+export type GetMonthlySummaryQuery = z.infer<typeof getMonthlySummaryQuerySchema>;
+
+// ==================== RECONCILIATION SCHEMAS ====================
+
+export const reconcileAttendanceSchema = z
+  .object({
+    startDate: dayFormat,
+    endDate: dayFormat,
+    dryRun: z.boolean().default(false),
+  })
+  .refine((data) => new Date(data.startDate) <= new Date(data.endDate), {
+    message: 'Start date must be before or equal to end date',
+    path: ['endDate'],
+  })
+  .refine(
+    (data) => {
+      const days =
+        (new Date(data.endDate).getTime() - new Date(data.startDate).getTime()) /
+        (24 * 60 * 60 * 1000);
+      return days <= 92;
+    },
+    {
+      message: 'Reconciliation range cannot exceed 92 days',
+      path: ['endDate'],
+    }
+  );
+
+export type ReconcileAttendanceInput = z.infer<typeof reconcileAttendanceSchema>;
+
+// ==================== LATE MARK SCHEMAS ====================
+
+export const applyLateMarkDeductionsSchema = z.object({
+  year: z.number().int().min(2020).max(2100),
+  month: z.number().int().min(1).max(12),
+  employeeId: z.string().min(1).optional(),
+  dryRun: z.boolean().default(false),
+});
+
+export type ApplyLateMarkDeductionsInput = z.infer<typeof applyLateMarkDeductionsSchema>;
+
+export const getLateMarkDeductionsQuerySchema = z.object({
+  employeeId: z.string().min(1).optional(),
+  year: z
+    .string()
+    .regex(/^\d{4}$/, 'Year must be a 4 digit number')
+    .transform(Number)
+    .optional(),
+  month: z
+    .string()
+    .regex(/^(0?[1-9]|1[0-2])$/, 'Month must be between 1 and 12')
+    .transform(Number)
+    .optional(),
+});
+
+export type GetLateMarkDeductionsQuery = z.infer<typeof getLateMarkDeductionsQuerySchema>;
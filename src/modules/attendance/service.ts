@@ -0,0 +1,1351 @@
+import {
+  PrismaClient,
+  AttendanceRecord,
+  AttendanceStatus,
+  LateMarkDeduction,
+  LeaveSettings,
+  Prisma,
+} from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime/library';
+import {
+  CheckInInput,
+  CheckOutInput,
+  CorrectAttendanceInput,
+  GetAttendanceRecordsQuery,
+  ReconcileAttendanceInput,
+  ApplyLateMarkDeductionsInput,
+  GetLateMarkDeductionsQuery,
+} from './schema.js';
+import { lateMarkRulesSchema, LateMarkRules } from '../leaves/schema.js';
+import { AppError } from '../../utils/response.js';
+import { logger } from '../../utils/logger.js';
+
+const prisma = new PrismaClient();
+
+const DAY_NAMES = ['SUNDAY', 'MONDAY', 'TUESDAY', 'WEDNESDAY', 'THURSDAY', 'FRIDAY', 'SATURDAY'];
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const MS_PER_HOUR = 60 * 60 * 1000;
+const SYSTEM_USER = 'SYSTEM';
+
+export interface ReconciliationChange {
+  employeeId: string;
+  employeeName: string;
+  date: string;
+  action: 'MARK_ABSENT' | 'CREATE_LWP' | 'REVERSE_LWP';
+  before: { status: AttendanceStatus | null; lwpLeaveRequestId: string | null };
+  after: { status: AttendanceStatus | null; lwpLeaveRequestId: string | null };
+  reason: string;
+}
+
+interface Lateness {
+  isLate: boolean;
+  lateByMinutes: number | null;
+  isHalfDay: boolean;
+}
+
+type LateMarkDeductionStatus = 'APPLIED' | 'PARTIAL' | 'NO_BALANCE';
+
+export class AttendanceService {
+  // ==================== CHECK-IN / CHECK-OUT ====================
+
+  async checkIn(userId: string, data: CheckInInput): Promise<AttendanceRecord> {
+    try {
+      const employee = await this.findEmployeeByUserId(userId);
+      if (!employee) {
+        throw new AppError('Employee not found', 404);
+      }
+
+      const now = new Date();
+      const date = this.toAttendanceDate(now);
+
+      const existing = await prisma.attendanceRecord.findUnique({
+        where: { employeeId_date: { employeeId: employee.id, date } },
+      });
+
+      if (existing?.checkInAt) {
+        throw new AppError('Already checked in for today', 400);
+      }
+
+      const settings = await this.getSettings();
+      const lateness = this.evaluateLateness(now, this.getLateMarkRules(settings));
+      const status = this.checkInStatus(data.workFromHome, lateness);
+
+      return await prisma.attendanceRecord.upsert({
+        where: { employeeId_date: { employeeId: employee.id, date } },
+        create: {
+          employeeId: employee.id,
+          date,
+          checkInAt: now,
+          status,
+          isLate: lateness.isLate,
+          lateByMinutes: lateness.lateByMinutes,
+          source: 'SELF',
+          location: data.location,
+          notes: data.notes,
+          ipAddress: data.ipAddress,
+          userAgent: data.userAgent,
+        },
+        update: {
+          checkInAt: now,
+          status,
+          isLate: lateness.isLate,
+          lateByMinutes: lateness.lateByMinutes,
+          location: data.location,
+          notes: data.notes,
+          ipAddress: data.ipAddress,
+          userAgent: data.userAgent,
+        },
+      });
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to check in', 500);
+    }
+  }
+
+  async checkOut(userId: string, data: CheckOutInput): Promise<AttendanceRecord> {
+    try {
+      const employee = await this.findEmployeeByUserId(userId);
+      if (!employee) {
+        throw new AppError('Employee not found', 404);
+      }
+
+      const now = new Date();
+      const date = this.toAttendanceDate(now);
+
+      const record = await prisma.attendanceRecord.findUnique({
+        where: { employeeId_date: { employeeId: employee.id, date } },
+      });
+
+      if (!record?.checkInAt) {
+        throw new AppError('No check-in found for today', 400);
+      }
+
+      if (record.checkOutAt) {
+        throw new AppError('Already checked out for today', 400);
+      }
+
+      const settings = await this.getSettings();
+      const workedHours = this.calculateWorkedHours(record.checkInAt, now);
+      const lateness = this.evaluateLateness(record.checkInAt, this.getLateMarkRules(settings));
+
+      return await prisma.attendanceRecord.update({
+        where: { id: record.id },
+        data: {
+          checkOutAt: now,
+          workedHours: new Decimal(workedHours),
+          status: this.determineStatus(record.status, workedHours, settings, lateness.isHalfDay),
+          notes: data.notes ?? record.notes,
+        },
+      });
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to check out', 500);
+    }
+  }
+
+  async getTodayAttendance(userId: string): Promise<AttendanceRecord | null> {
+    const employee = await this.findEmployeeByUserId(userId);
+    if (!employee) {
+      throw new AppError('Employee not found', 404);
+    }
+
+    return prisma.attendanceRecord.findUnique({
+      where: {
+        employeeId_date: { employeeId: employee.id, date: this.toAttendanceDate(new Date()) },
+      },
+    });
+  }
+
+  // ==================== ATTENDANCE RECORDS ====================
+
+  async getAttendanceRecords(query: GetAttendanceRecordsQuery, userRole: string, userId: string) {
+    try {
+      const { page, limit, employeeId, startDate, endDate, status } = query;
+      const skip = (page - 1) * limit;
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const whereClause: Record<string, any> = {};
+
+      if (employeeId) {
+        await this.assertCanViewEmployee(employeeId, userRole, userId);
+        whereClause.employeeId = employeeId;
+      } else if (userRole === 'EMPLOYEE') {
+        const self = await this.findEmployeeByUserId(userId);
+        whereClause.employeeId = self?.id || userId;
+      } else if (userRole === 'MANAGER') {
+        const manager = await this.findEmployeeByUserId(userId);
+        whereClause.employee = { reportingManager: { in: [manager?.id || userId, userId] } };
+      }
+
+      if (startDate || endDate) {
+        whereClause.date = {
+          ...(startDate && { gte: this.parseDay(startDate) }),
+          ...(endDate && { lte: this.parseDay(endDate) }),
+        };
+      }
+
+      if (status) {
+        whereClause.status = status;
+      }
+
+      const [records, total] = await Promise.all([
+        prisma.attendanceRecord.findMany({
+          where: whereClause,
+          include: {
+            employee: {
+              select: {
+                id: true,
+                firstName: true,
+                lastName: true,
+                email: true,
+                department: true,
+              },
+            },
+          },
+          orderBy: [{ date: 'desc' }, { employeeId: 'asc' }],
+          skip,
+          take: limit,
+        }),
+        prisma.attendanceRecord.count({ where: whereClause }),
+      ]);
+
+      return {
+        records,
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      };
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to fetch attendance records', 500);
+    }
+  }
+
+  // ==================== CORRECTIONS ====================
+
+  async correctAttendance(
+    data: CorrectAttendanceInput,
+    correctorId: string,
+    correctorRole: string
+  ): Promise<AttendanceRecord> {
+    try {
+      const employee = await prisma.employee.findUnique({
+        where: { id: data.employeeId },
+        select: { id: true, reportingManager: true },
+      });
+
+      if (!employee) {
+        throw new AppError('Employee not found', 404);
+      }
+
+      const settings = await this.getSettings();
+
+      if (correctorRole === 'ADMIN') {
+        if (settings && !settings.hrCanAdjustAttendance) {
+          throw new AppError('HR attendance adjustments are disabled in leave settings', 403);
+        }
+      } else if (correctorRole === 'MANAGER') {
+        const manager = await this.findEmployeeByUserId(correctorId);
+        const managerIds = [correctorId, manager?.id].filter(Boolean);
+        if (!employee.reportingManager || !managerIds.includes(employee.reportingManager)) {
+          throw new AppError('Managers can only correct attendance of their direct reports', 403);
+        }
+      } else {
+        throw new AppError('Insufficient permissions to correct attendance', 403);
+      }
+
+      const date = this.parseDay(data.date);
+      if (date > this.toAttendanceDate(new Date())) {
+        throw new AppError('Cannot correct attendance for a future date', 400);
+      }
+
+      const existing = await prisma.attendanceRecord.findUnique({
+        where: { employeeId_date: { employeeId: employee.id, date } },
+      });
+
+      const checkInAt = data.checkInAt ? new Date(data.checkInAt) : existing?.checkInAt || null;
+      const checkOutAt = data.checkOutAt ? new Date(data.checkOutAt) : existing?.checkOutAt || null;
+
+      if (checkInAt && checkOutAt && checkOutAt <= checkInAt) {
+        throw new AppError('Check-out must be after check-in', 400);
+      }
+
+      const workedHours =
+        checkInAt && checkOutAt ? this.calculateWorkedHours(checkInAt, checkOutAt) : null;
+
+      const lateness: Lateness = checkInAt
+        ? this.evaluateLateness(checkInAt, this.getLateMarkRules(settings))
+        : { isLate: false, lateByMinutes: null, isHalfDay: false };
+      const checkInStatus = this.checkInStatus(existing?.status === 'WORK_FROM_HOME', lateness);
+
+      // Explicit status wins; otherwise derive it from the corrected times
+      const status =
+        data.status ||
+        (workedHours !== null
+          ? this.determineStatus(checkInStatus, workedHours, settings, lateness.isHalfDay)
+          : checkInStatus);
+
+      const correction = {
+        checkInAt,
+        checkOutAt,
+        workedHours: workedHours !== null ? new Decimal(workedHours) : null,
+        status,
+        isLate: data.status ? data.status === 'LATE' : lateness.isLate,
+        lateByMinutes: lateness.lateByMinutes,
+        isCorrected: true,
+        correctedBy: correctorId,
+        correctedByRole: correctorRole === 'ADMIN' ? 'HR' : 'MANAGER',
+        correctedAt: new Date(),
+        correctionReason: data.reason,
+      };
+
+      if (existing) {
+        // A day corrected away from ABSENT no longer warrants its auto-LWP
+        if (existing.lwpLeaveRequestId && !existing.lwpReversedAt && status !== 'ABSENT') {
+          await this.reverseAutoLwp(
+            existing.id,
+            existing.lwpLeaveRequestId,
+            {
+              cancellation: `Attendance corrected to ${status}`,
+              audit: `Attendance corrected to ${status}: ${data.reason}`,
+            },
+            { id: correctorId, role: correction.correctedByRole, name: 'Attendance Correction' }
+          );
+        }
+
+        return await prisma.attendanceRecord.update({
+          where: { id: existing.id },
+          data: {
+            ...correction,
+            previousValues: {
+              checkInAt: existing.checkInAt?.toISOString() || null,
+              checkOutAt: existing.checkOutAt?.toISOString() || null,
+              workedHours: existing.workedHours?.toNumber() ?? null,
+              status: existing.status,
+              isLate: existing.isLate,
+            },
+          },
+        });
+      }
+
+      return await prisma.attendanceRecord.create({
+        data: {
+          employeeId: employee.id,
+          date,
+          source: 'CORRECTION',
+          ...correction,
+        },
+      });
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to correct attendance', 500);
+    }
+  }
+
+  // ==================== MONTHLY SUMMARY ====================
+
+  async getMonthlySummary(
+    employeeId: string,
+    year: number,
+    month: number,
+    userRole: string,
+    userId: string
+  ) {
+    try {
+      await this.assertCanViewEmployee(employeeId, userRole, userId);
+
+      const employee = await prisma.employee.findUnique({
+        where: { id: employeeId },
+        select: { id: true, firstName: true, lastName: true, workLocation: true },
+      });
+
+      if (!employee) {
+        throw new AppError('Employee not found', 404);
+      }
+
+      const monthStart = new Date(Date.UTC(year, month - 1, 1));
+      const monthEnd = new Date(Date.UTC(year, month, 0));
+      const today = this.toAttendanceDate(new Date());
+
+      const [settings, records, holidays, leaveRequests] = await Promise.all([
+        this.getSettings(),
+        prisma.attendanceRecord.findMany({
+          where: { employeeId, date: { gte: monthStart, lte: monthEnd } },
+        }),
+        prisma.holiday.findMany({
+          where: {
+            isActive: true,
+            isOptional: false,
+            date: { gte: monthStart, lt: new Date(monthEnd.getTime() + MS_PER_DAY) },
+          },
+        }),
+        prisma.leaveRequest.findMany({
+          where: {
+            employeeId,
+            status: 'APPROVED',
+            startDate: { lt: new Date(monthEnd.getTime() + MS_PER_DAY) },
+            endDate: { gte: monthStart },
+          },
+        }),
+      ]);
+
+      const weekendDays = settings?.weekendDays || ['SATURDAY', 'SUNDAY'];
+      const recordsByDay = new Map(records.map((r) => [this.toDayKey(r.date), r]));
+      const holidayKeys = new Set(
+        holidays
+          .filter(
+            (h) =>
+              h.applicableLocations.length === 0 ||
+              h.applicableLocations.includes(employee.workLocation)
+          )
+          .map((h) => this.toDayKey(h.date))
+      );
+
+      // Approved leave per day (half-day requests count as 0.5)
+      const leaveByDay = new Map<string, { leaveType: string; days: number }>();
+      for (const request of leaveRequests) {
+        const start = this.toAttendanceDate(request.startDate);
+        const end = this.toAttendanceDate(request.endDate);
+        for (let day = start; day <= end; day = new Date(day.getTime() + MS_PER_DAY)) {
+          leaveByDay.set(this.toDayKey(day), {
+            leaveType: request.leaveType,
+            days: request.isHalfDay ? 0.5 : 1,
+          });
+        }
+      }
+
+      const summary = {
+        totalDays: 0,
+        weekendDays: 0,
+        holidays: 0,
+        workingDays: 0,
+        present: 0,
+        halfDay: 0,
+        workFromHome: 0,
+        late: 0,
+        absent: 0,
+        approvedLeaveDays: 0,
+        leaveWithoutPayDays: 0,
+        unmarkedDays: 0,
+        totalWorkedHours: 0,
+      };
+      const leaveByType: Record<string, number> = {};
+
+      for (let day = monthStart; day <= monthEnd; day = new Date(day.getTime() + MS_PER_DAY)) {
+        const key = this.toDayKey(day);
+        const record = recordsByDay.get(key);
+        const leave = leaveByDay.get(key);
+        summary.totalDays++;
+
+        if (record?.workedHours) {
+          summary.totalWorkedHours += record.workedHours.toNumber();
+        }
+
+        if (weekendDays.includes(DAY_NAMES[day.getUTCDay()])) {
+          summary.weekendDays++;
+          continue;
+        }
+
+        if (holidayKeys.has(key)) {
+          summary.holidays++;
+          continue;
+        }
+
+        summary.workingDays++;
+
+        if (leave && leave.leaveType !== 'WORK_FROM_HOME') {
+          leaveByType[leave.leaveType] = (leaveByType[leave.leaveType] || 0) + leave.days;
+          if (leave.leaveType === 'LEAVE_WITHOUT_PAY') {
+            summary.leaveWithoutPayDays += leave.days;
+          } else {
+            summary.approvedLeaveDays += leave.days;
+          }
+          // A half-day leave still expects attendance for the other half
+          if (leave.days === 1 || !record) continue;
+        }
+
+        if (record) {
+          if (record.isLate) summary.late++;
+          switch (record.status) {
+            case 'PRESENT':
+              summary.present++;
+              break;
+            case 'LATE':
+              summary.present++;
+              break;
+            case 'HALF_DAY':
+              summary.halfDay++;
+              break;
+            case 'WORK_FROM_HOME':
+              summary.workFromHome++;
+              break;
+            case 'ABSENT':
+              summary.absent++;
+              break;
+          }
+        } else if (leave?.leaveType === 'WORK_FROM_HOME') {
+          summary.workFromHome++;
+        } else if (day < today) {
+          summary.unmarkedDays++;
+        }
+      }
+
+      const attendedDays = summary.present + summary.workFromHome + summary.halfDay * 0.5;
+
+      return {
+        employeeId: employee.id,
+        employeeName: `${employee.firstName} ${employee.lastName}`,
+        year,
+        month,
+        period: { start: monthStart, end: monthEnd },
+        ...summary,
+        totalWorkedHours: Math.round(summary.totalWorkedHours * 100) / 100,
+        leaveByType,
+        attendancePercentage:
+          summary.workingDays > 0
+            ? Math.round(
+                ((attendedDays + summary.approvedLeaveDays) / summary.workingDays) * 10000
+              ) / 100
+            : 0,
+      };
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to generate attendance summary', 500);
+    }
+  }
+
+  // ==================== RECONCILIATION ====================
+
+  /**
+   * Reconcile attendance for past working days in the range.
+   *
+   * - No check-in and no approved leave: the day is marked ABSENT (autoAbsentIfNoCheckIn).
+   * - Once the day has ended and gracePeriodHours have elapsed with no leave applied at all,
+   *   a LEAVE_WITHOUT_PAY request is created against the active LWP policy (autoLWPIfNoLeave).
+   * - An auto-LWP is reversed when a leave request covering the day was applied within
+   *   gracePeriodHours of the LWP being created (convertLWPWithinGrace).
+   */
+  async reconcileAttendance(data: ReconcileAttendanceInput) {
+    try {
+      const settings = await this.getSettings();
+      const autoAbsent = settings?.autoAbsentIfNoCheckIn ?? true;
+      const autoLwp = settings?.autoLWPIfNoLeave ?? true;
+      const graceMs = (settings?.gracePeriodHours ?? 48) * MS_PER_HOUR;
+      const weekendDays = settings?.weekendDays || ['SATURDAY', 'SUNDAY'];
+
+      const now = new Date();
+      const yesterday = new Date(this.toAttendanceDate(now).getTime() - MS_PER_DAY);
+      const startDate = this.parseDay(data.startDate);
+      const requestedEnd = this.parseDay(data.endDate);
+      // Today is never reconciled - employees may still check in
+      const endDate = requestedEnd > yesterday ? yesterday : requestedEnd;
+      const rangeEnd = new Date(endDate.getTime() + MS_PER_DAY);
+
+      const changes: ReconciliationChange[] = [];
+      const warnings: string[] = [];
+
+      if (startDate > endDate) {
+        return this.buildReconciliationResult(data, startDate, endDate, 0, changes, warnings);
+      }
+
+      const [employees, records, leaveRequests, holidays, lwpPolicy] = await Promise.all([
+        prisma.employee.findMany({
+          where: { isActive: true, hireDate: { lt: rangeEnd } },
+          select: { id: true, firstName: true, lastName: true, workLocation: true, hireDate: true },
+        }),
+        prisma.attendanceRecord.findMany({
+          where: { date: { gte: startDate, lte: endDate } },
+        }),
+        prisma.leaveRequest.findMany({
+          where: {
+            status: { in: ['PENDING', 'APPROVED'] },
+            startDate: { lt: rangeEnd },
+            endDate: { gte: startDate },
+          },
+          select: {
+            id: true,
+            employeeId: true,
+            leaveType: true,
+            status: true,
+            startDate: true,
+            endDate: true,
+            appliedAt: true,
+          },
+        }),
+        prisma.holiday.findMany({
+          where: { isActive: true, isOptional: false, date: { gte: startDate, lt: rangeEnd } },
+        }),
+        prisma.leavePolicy.findFirst({
+          where: { leaveType: 'LEAVE_WITHOUT_PAY', isActive: true },
+        }),
+      ]);
+
+      if (autoLwp && !lwpPolicy) {
+        warnings.push('No active LEAVE_WITHOUT_PAY policy found; auto-LWP entries were skipped');
+      }
+
+      const recordsByKey = new Map(
+        records.map((r) => [`${r.employeeId}|${this.toDayKey(r.date)}`, r])
+      );
+
+      for (let day = startDate; day <= endDate; day = new Date(day.getTime() + MS_PER_DAY)) {
+        if (weekendDays.includes(DAY_NAMES[day.getUTCDay()])) continue;
+
+        const key = this.toDayKey(day);
+        const dayEnd = new Date(day.getTime() + MS_PER_DAY);
+
+        for (const employee of employees) {
+          if (this.toAttendanceDate(employee.hireDate) > day) continue;
+
+          const isHoliday = holidays.some(
+            (h) =>
+              this.toDayKey(h.date) === key &&
+              (h.applicableLocations.length === 0 ||
+                h.applicableLocations.includes(employee.workLocation))
+          );
+          if (isHoliday) continue;
+
+          const record = recordsByKey.get(`${employee.id}|${key}`);
+          const employeeName = `${employee.firstName} ${employee.lastName}`;
+
+          // Present, or adjusted by a manager/HR - leave it alone
+          if (record?.checkInAt || record?.isCorrected) continue;
+
+          const coveringLeaves = leaveRequests.filter(
+            (lr) =>
+              lr.employeeId === employee.id &&
+              lr.id !== record?.lwpLeaveRequestId &&
+              this.toAttendanceDate(lr.startDate) <= day &&
+              this.toAttendanceDate(lr.endDate) >= day
+          );
+
+          // Existing auto-LWP: reverse it if a leave was applied within the grace window
+          if (record?.lwpLeaveRequestId) {
+            if (record.lwpReversedAt) continue;
+
+            // Only an approved leave replaces the LWP; a pending one may still be withdrawn
+            const replacement = coveringLeaves.find(
+              (lr) =>
+                lr.status === 'APPROVED' &&
+                lr.leaveType !== 'LEAVE_WITHOUT_PAY' &&
+                record.lwpAppliedAt &&
+                lr.appliedAt.getTime() <= record.lwpAppliedAt.getTime() + graceMs
+            );
+
+            if (replacement && (settings?.convertLWPWithinGrace ?? true)) {
+              changes.push({
+                employeeId: employee.id,
+                employeeName,
+                date: key,
+                action: 'REVERSE_LWP',
+                before: { status: record.status, lwpLeaveRequestId: record.lwpLeaveRequestId },
+                after: { status: record.status, lwpLeaveRequestId: null },
+                reason: `Leave request ${replacement.id} applied within the grace window`,
+              });
+              if (!data.dryRun) {
+                await this.reverseAutoLwp(
+                  record.id,
+                  record.lwpLeaveRequestId,
+                  this.replacementReason(replacement.id)
+                );
+              }
+            }
+            continue;
+          }
+
+          if (coveringLeaves.some((lr) => lr.status === 'APPROVED')) continue;
+
+          let status: AttendanceStatus | null = record?.status ?? null;
+
+          if (autoAbsent && status !== 'ABSENT') {
+            changes.push({
+              employeeId: employee.id,
+              employeeName,
+              date: key,
+              action: 'MARK_ABSENT',
+              before: { status, lwpLeaveRequestId: null },
+              after: { status: 'ABSENT', lwpLeaveRequestId: null },
+              reason: 'No check-in and no approved leave',
+            });
+            status = 'ABSENT';
+            if (!data.dryRun) {
+              await prisma.attendanceRecord.upsert({
+                where: { employeeId_date: { employeeId: employee.id, date: day } },
+                create: { employeeId: employee.id, date: day, status: 'ABSENT', source: 'SYSTEM' },
+                update: { status: 'ABSENT', source: 'SYSTEM' },
+              });
+            }
+          }
+
+          const graceElapsed = dayEnd.getTime() + graceMs <= now.getTime();
+
+          if (autoLwp && lwpPolicy && graceElapsed && coveringLeaves.length === 0) {
+            let lwpLeaveRequestId: string | null = null;
+            if (!data.dryRun) {
+              lwpLeaveRequestId = await this.createAutoLwp(employee.id, day, lwpPolicy.id);
+              // Another reconcile created it first
+              if (!lwpLeaveRequestId) continue;
+            }
+            changes.push({
+              employeeId: employee.id,
+              employeeName,
+              date: key,
+              action: 'CREATE_LWP',
+              before: { status, lwpLeaveRequestId: null },
+              after: { status, lwpLeaveRequestId },
+              reason: `No leave applied within ${settings?.gracePeriodHours ?? 48}h grace period`,
+            });
+          }
+        }
+      }
+
+      if (!data.dryRun) {
+        logger.info(
+          `Attendance reconciliation ${this.toDayKey(startDate)}..${this.toDayKey(endDate)} applied ${changes.length} changes`
+        );
+      }
+
+      return this.buildReconciliationResult(
+        data,
+        startDate,
+        endDate,
+        employees.length,
+        changes,
+        warnings
+      );
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      logger.error('Attendance reconciliation failed:', error);
+      throw new AppError('Failed to reconcile attendance', 500);
+    }
+  }
+
+  /**
+   * Nightly run: reconciles every day whose grace period may have just elapsed
+   */
+  async runNightlyReconciliation() {
+    const settings = await this.getSettings();
+    const graceDays = Math.ceil((settings?.gracePeriodHours ?? 48) / 24);
+    const today = this.toAttendanceDate(new Date());
+
+    return this.reconcileAttendance({
+      startDate: new Date(today.getTime() - (graceDays + 1) * MS_PER_DAY),
+      endDate: new Date(today.getTime() - MS_PER_DAY),
+      dryRun: false,
+    });
+  }
+
+  /**
+   * Reverse auto-LWP entries covered by an approved leave request that was applied within
+   * the grace window
+   */
+  async reverseAutoLwpForLeaveRequest(leaveRequest: {
+    id: string;
+    employeeId: string;
+    leaveType: string;
+    status: string;
+    startDate: Date;
+    endDate: Date;
+    appliedAt: Date;
+  }): Promise<number> {
+    if (leaveRequest.status !== 'APPROVED' || leaveRequest.leaveType === 'LEAVE_WITHOUT_PAY') {
+      return 0;
+    }
+
+    const settings = await this.getSettings();
+    if (settings && !settings.convertLWPWithinGrace) return 0;
+
+    const graceMs = (settings?.gracePeriodHours ?? 48) * MS_PER_HOUR;
+
+    const records = await prisma.attendanceRecord.findMany({
+      where: {
+        employeeId: leaveRequest.employeeId,
+        date: {
+          gte: this.toAttendanceDate(leaveRequest.startDate),
+          lte: this.toAttendanceDate(leaveRequest.endDate),
+        },
+        lwpLeaveRequestId: { not: null },
+        lwpReversedAt: null,
+      },
+    });
+
+    let reversed = 0;
+    for (const record of records) {
+      if (
+        record.lwpLeaveRequestId &&
+        record.lwpAppliedAt &&
+        leaveRequest.appliedAt.getTime() <= record.lwpAppliedAt.getTime() + graceMs
+      ) {
+        const wasReversed = await this.reverseAutoLwp(
+          record.id,
+          record.lwpLeaveRequestId,
+          this.replacementReason(leaveRequest.id)
+        );
+        if (wasReversed) reversed++;
+      }
+    }
+
+    return reversed;
+  }
+
+  /**
+   * Create an approved LWP for a missed day and link it to the attendance record, all in
+   * one transaction. Returns null when the day already has an auto-LWP, e.g. because a
+   * manual reconcile ran alongside the nightly job.
+   */
+  private async createAutoLwp(
+    employeeId: string,
+    day: Date,
+    policyId: string
+  ): Promise<string | null> {
+    const now = new Date();
+
+    try {
+      return await prisma.$transaction(async (tx) => {
+        const lwpRequest = await tx.leaveRequest.create({
+          data: {
+            employeeId,
+            policyId,
+            leaveType: 'LEAVE_WITHOUT_PAY',
+            startDate: day,
+            endDate: day,
+            totalDays: new Decimal(1),
+            reason: `Auto LWP: no check-in or leave applied for ${this.toDayKey(day)}`,
+            status: 'APPROVED',
+            finalApprovedBy: SYSTEM_USER,
+            finalApprovedAt: now,
+            finalStatus: 'APPROVED',
+            isBackdated: true,
+          },
+        });
+
+        await tx.leaveAuditLog.create({
+          data: {
+            leaveRequestId: lwpRequest.id,
+            action: 'AUTO_LWP',
+            performedBy: SYSTEM_USER,
+            performedByEmail: '',
+            performedByRole: SYSTEM_USER,
+            performedByName: 'Attendance Reconciliation',
+            newStatus: 'APPROVED',
+            reason: 'No check-in and no leave applied within the grace period',
+          },
+        });
+
+        // Only link a record without an auto-LWP; if one exists the create branch hits the
+        // unique (employee, date) key and the whole transaction rolls back
+        await tx.attendanceRecord.upsert({
+          where: { employeeId_date: { employeeId, date: day }, lwpLeaveRequestId: null },
+          create: {
+            employeeId,
+            date: day,
+            status: 'ABSENT',
+            source: 'SYSTEM',
+            lwpLeaveRequestId: lwpRequest.id,
+            lwpAppliedAt: now,
+          },
+          update: { lwpLeaveRequestId: lwpRequest.id, lwpAppliedAt: now },
+        });
+
+        return lwpRequest.id;
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        logger.warn(
+          `Auto-LWP for employee ${employeeId} on ${this.toDayKey(day)} was already created`
+        );
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Cancel an auto-LWP because a leave replaced it (reconciliation) or the day was corrected.
+   * Returns false when the record's auto-LWP was already reversed.
+   */
+  private async reverseAutoLwp(
+    recordId: string,
+    lwpLeaveRequestId: string,
+    reason: { cancellation: string; audit: string },
+    performedBy: { id: string; role: string; name: string } = {
+      id: SYSTEM_USER,
+      role: SYSTEM_USER,
+      name: 'Attendance Reconciliation',
+    }
+  ): Promise<boolean> {
+    const now = new Date();
+
+    return prisma.$transaction(async (tx) => {
+      // Claim the reversal first so concurrent runs cancel the LWP only once
+      const claimed = await tx.attendanceRecord.updateMany({
+        where: { id: recordId, lwpLeaveRequestId, lwpReversedAt: null },
+        data: { lwpReversedAt: now },
+      });
+      if (claimed.count === 0) return false;
+
+      await tx.leaveRequest.update({
+        where: { id: lwpLeaveRequestId },
+        data: {
+          status: 'CANCELLED',
+          finalStatus: 'CANCELLED',
+          cancelledBy: performedBy.id,
+          cancelledAt: now,
+          cancellationReason: reason.cancellation,
+        },
+      });
+
+      await tx.leaveAuditLog.create({
+        data: {
+          leaveRequestId: lwpLeaveRequestId,
+          action: 'AUTO_LWP_REVERSED',
+          performedBy: performedBy.id,
+          performedByEmail: '',
+          performedByRole: performedBy.role,
+          performedByName: performedBy.name,
+          previousStatus: 'APPROVED',
+          newStatus: 'CANCELLED',
+          reason: reason.audit,
+        },
+      });
+
+      return true;
+    });
+  }
+
+  private replacementReason(replacementRequestId: string) {
+    return {
+      cancellation: `Replaced by leave request ${replacementRequestId}`,
+      audit: `Leave request ${replacementRequestId} applied within the grace window`,
+    };
+  }
+
+  private buildReconciliationResult(
+    data: ReconcileAttendanceInput,
+    startDate: Date,
+    endDate: Date,
+    employeesChecked: number,
+    changes: ReconciliationChange[],
+    warnings: string[]
+  ) {
+    return {
+      dryRun: data.dryRun,
+      startDate: this.toDayKey(startDate),
+      endDate: this.toDayKey(endDate),
+      summary: {
+        employeesChecked,
+        markedAbsent: changes.filter((c) => c.action === 'MARK_ABSENT').length,
+        lwpCreated: changes.filter((c) => c.action === 'CREATE_LWP').length,
+        lwpReversed: changes.filter((c) => c.action === 'REVERSE_LWP').length,
+      },
+      changes,
+      warnings,
+    };
+  }
+
+  // ==================== LATE MARKS ====================
+
+  /**
+   * Apply late-mark deductions for a period.
+   *
+   * Late marks beyond `allowedLatePerPeriod` are grouped into blocks of
+   * `deduction.lateCount`; each complete block deducts `deduction.deductDays`
+   * from the employee's balance for `deduction.leaveType`, capped at the available
+   * balance (PARTIAL, or NO_BALANCE when nothing is left). Blocks are numbered per
+   * period, so re-running the same period only applies new blocks.
+   */
+  async applyLateMarkDeductions(data: ApplyLateMarkDeductionsInput, appliedBy: string) {
+    try {
+      const settings = await this.getSettings();
+      const rules = this.getLateMarkRules(settings);
+
+      if (!rules?.deduction) {
+        return {
+          dryRun: data.dryRun,
+          year: data.year,
+          month: data.month,
+          rules,
+          deductions: [],
+          message: 'Late mark deductions are not enabled in leave settings',
+        };
+      }
+
+      const { deduction } = rules;
+      const periodStart = new Date(Date.UTC(data.year, data.month - 1, 1));
+      const periodEnd = new Date(Date.UTC(data.year, data.month, 0));
+      const fiscalYear = this.getFiscalYear(periodStart, settings);
+
+      const lateRecords = await prisma.attendanceRecord.findMany({
+        where: {
+          isLate: true,
+          date: { gte: periodStart, lte: periodEnd },
+          ...(data.employeeId && { employeeId: data.employeeId }),
+        },
+        orderBy: [{ employeeId: 'asc' }, { date: 'asc' }],
+      });
+
+      const recordsByEmployee = new Map<string, AttendanceRecord[]>();
+      for (const record of lateRecords) {
+        const list = recordsByEmployee.get(record.employeeId) || [];
+        list.push(record);
+        recordsByEmployee.set(record.employeeId, list);
+      }
+
+      const results = [];
+
+      for (const [employeeId, records] of recordsByEmployee) {
+        const chargeable = records.slice(rules.allowedLatePerPeriod);
+        const totalBlocks = Math.floor(chargeable.length / deduction.lateCount);
+        if (totalBlocks === 0) continue;
+
+        const existingBlocks = await prisma.lateMarkDeduction.count({
+          where: { employeeId, periodStart },
+        });
+
+        const balance = await prisma.leaveBalance.findFirst({
+          where: { employeeId, fiscalYear, policy: { leaveType: deduction.leaveType } },
+        });
+
+        // Dry runs project the balance forward block by block; real runs re-read it per block
+        let projectedBalance = balance?.availableBalance ?? null;
+
+        for (let block = existingBlocks + 1; block <= totalBlocks; block++) {
+          const triggering = chargeable.slice(
+            (block - 1) * deduction.lateCount,
+            block * deduction.lateCount
+          );
+          const result = {
+            employeeId,
+            blockNumber: block,
+            leaveType: deduction.leaveType,
+            requestedDays: deduction.deductDays,
+            lateMarkDates: triggering.map((r) => this.toDayKey(r.date)),
+          };
+
+          if (data.dryRun) {
+            const capped = this.capLateMarkDeduction(projectedBalance, deduction.deductDays);
+            projectedBalance = projectedBalance?.sub(capped.days) ?? null;
+            results.push({ ...result, days: capped.days.toNumber(), status: capped.status });
+            continue;
+          }
+
+          // The deduction row and the debit commit together; the unique block number makes a
+          // concurrent run for the same period fail here instead of deducting twice
+          let capped: { days: Decimal; status: LateMarkDeductionStatus };
+          try {
+            capped = await prisma.$transaction(async (tx) => {
+              const current = balance
+                ? await tx.leaveBalance.findUniqueOrThrow({ where: { id: balance.id } })
+                : null;
+              const outcome = this.capLateMarkDeduction(
+                current?.availableBalance ?? null,
+                deduction.deductDays
+              );
+
+              const lateMarkDeduction = await tx.lateMarkDeduction.create({
+                data: {
+                  employeeId,
+                  periodStart,
+                  periodEnd,
+                  blockNumber: block,
+                  leaveType: deduction.leaveType,
+                  leaveBalanceId: balance?.id,
+                  days: outcome.days,
+                  status: outcome.status,
+                  attendanceRecordIds: triggering.map((r) => r.id),
+                  lateMarkDates: triggering.map((r) => r.date),
+                  ruleSnapshot: rules,
+                  appliedBy,
+                },
+              });
+
+              if (current && outcome.days.gt(0)) {
+                const updated = await tx.leaveBalance.update({
+                  where: { id: current.id },
+                  data: {
+                    usedLeaves: { increment: outcome.days },
+                    availableBalance: { decrement: outcome.days },
+                    lastUpdated: new Date(),
+                    updatedBy: appliedBy,
+                  },
+                });
+
+                await tx.leaveBalanceTransaction.create({
+                  data: {
+                    leaveBalanceId: current.id,
+                    employeeId,
+                    type: 'DEBIT',
+                    days: outcome.days.neg(),
+                    usedChange: outcome.days,
+                    balanceAfter: updated.availableBalance,
+                    referenceType: 'LATE_MARK_DEDUCTION',
+                    referenceId: lateMarkDeduction.id,
+                    description: `Late mark deduction (block ${block})`,
+                    performedBy: appliedBy,
+                  },
+                });
+              }
+
+              return outcome;
+            });
+          } catch (error) {
+            if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+              logger.warn(
+                `Late mark block ${block} for employee ${employeeId} (${this.toDayKey(periodStart)}) was already applied`
+              );
+              continue;
+            }
+            throw error;
+          }
+
+          results.push({ ...result, days: capped.days.toNumber(), status: capped.status });
+
+          logger.info(
+            `Late mark deduction: ${capped.days} ${deduction.leaveType} for employee ${employeeId} (block ${block}, ${this.toDayKey(periodStart)})`
+          );
+        }
+      }
+
+      return {
+        dryRun: data.dryRun,
+        year: data.year,
+        month: data.month,
+        rules,
+        deductions: results,
+      };
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      logger.error('Late mark deduction failed:', error);
+      throw new AppError('Failed to apply late mark deductions', 500);
+    }
+  }
+
+  async getLateMarkDeductions(
+    query: GetLateMarkDeductionsQuery,
+    userRole: string,
+    userId: string
+  ): Promise<LateMarkDeduction[]> {
+    try {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const whereClause: Record<string, any> = {};
+
+      if (query.employeeId) {
+        await this.assertCanViewEmployee(query.employeeId, userRole, userId);
+        whereClause.employeeId = query.employeeId;
+      } else if (userRole !== 'ADMIN') {
+        const self = await this.findEmployeeByUserId(userId);
+        whereClause.employeeId = self?.id || userId;
+      }
+
+      if (query.year && query.month) {
+        whereClause.periodStart = new Date(Date.UTC(query.year, query.month - 1, 1));
+      } else if (query.year) {
+        whereClause.periodStart = {
+          gte: new Date(Date.UTC(query.year, 0, 1)),
+          lte: new Date(Date.UTC(query.year, 11, 1)),
+        };
+      }
+
+      return await prisma.lateMarkDeduction.findMany({
+        where: whereClause,
+        orderBy: [{ periodStart: 'desc' }, { blockNumber: 'asc' }],
+      });
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to fetch late mark deductions', 500);
+    }
+  }
+
+  async explainLateMarkDeduction(deductionId: string, userRole: string, userId: string) {
+    try {
+      const deduction = await prisma.lateMarkDeduction.findUnique({
+        where: { id: deductionId },
+      });
+
+      if (!deduction) {
+        throw new AppError('Late mark deduction not found', 404);
+      }
+
+      await this.assertCanViewEmployee(deduction.employeeId, userRole, userId);
+
+      const lateMarks = await prisma.attendanceRecord.findMany({
+        where: { id: { in: deduction.attendanceRecordIds } },
+        select: {
+          id: true,
+          date: true,
+          checkInAt: true,
+          lateByMinutes: true,
+          status: true,
+          isLate: true,
+          isCorrected: true,
+        },
+        orderBy: { date: 'asc' },
+      });
+
+      const rules = lateMarkRulesSchema.parse(deduction.ruleSnapshot);
+      const firstMark =
+        rules.allowedLatePerPeriod +
+        (deduction.blockNumber - 1) * (rules.deduction?.lateCount || 0) +
+        1;
+      const lastMark = firstMark + deduction.attendanceRecordIds.length - 1;
+
+      return {
+        deduction,
+        rules,
+        lateMarks: lateMarks.map((mark) => ({
+          ...mark,
+          // Late marks later corrected away no longer count, but the deduction stands until reversed
+          stillLate: mark.isLate,
+        })),
+        explanation:
+          `Late marks ${firstMark}-${lastMark} of the period (${rules.allowedLatePerPeriod} allowed) ` +
+          `triggered a deduction of ${deduction.days.toNumber()} ${deduction.leaveType} ` +
+          `(every ${rules.deduction?.lateCount} late marks = ${rules.deduction?.deductDays} day(s))` +
+          (deduction.status === 'NO_BALANCE' ? '; no matching leave balance was found' : ''),
+      };
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to explain late mark deduction', 500);
+    }
+  }
+
+  // ==================== HELPER METHODS ====================
+
+  // Resolve an employee from either an Employee ID or a User ID (supabaseId)
+  async findEmployeeByUserId(userId: string) {
+    const select = { id: true, reportingManager: true, workLocation: true };
+
+    return (
+      (await prisma.employee.findUnique({ where: { id: userId }, select })) ||
+      (await prisma.employee.findUnique({ where: { supabaseId: userId }, select }))
+    );
+  }
+
+  private async assertCanViewEmployee(
+    employeeId: string,
+    userRole: string,
+    userId: string
+  ): Promise<void> {
+    if (userRole === 'ADMIN') return;
+
+    const self = await this.findEmployeeByUserId(userId);
+    const selfIds = [userId, self?.id].filter(Boolean);
+
+    if (selfIds.includes(employeeId)) return;
+
+    if (userRole === 'MANAGER') {
+      const employee = await prisma.employee.findUnique({
+        where: { id: employeeId },
+        select: { reportingManager: true },
+      });
+      if (employee?.reportingManager && selfIds.includes(employee.reportingManager)) return;
+    }
+
+    throw new AppError('Insufficient permissions to view attendance for this employee', 403);
+  }
+
+  private async getSettings(): Promise<LeaveSettings | null> {
+    return prisma.leaveSettings.findFirst({
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  private getLateMarkRules(settings: LeaveSettings | null): LateMarkRules | null {
+    if (!settings?.lateMarkRules) return null;
+
+    const parsed = lateMarkRulesSchema.safeParse(settings.lateMarkRules);
+    if (!parsed.success) {
+      logger.warn('Ignoring invalid LeaveSettings.lateMarkRules:', parsed.error.errors);
+      return null;
+    }
+
+    return parsed.data.enabled ? parsed.data : null;
+  }
+
+  /**
+   * How much of a late-mark block can be deducted; balances are never pushed below zero
+   */
+  private capLateMarkDeduction(
+    availableBalance: Decimal | null,
+    deductDays: number
+  ): { days: Decimal; status: LateMarkDeductionStatus } {
+    if (!availableBalance || availableBalance.lte(0)) {
+      return { days: new Decimal(0), status: 'NO_BALANCE' };
+    }
+    if (availableBalance.lt(deductDays)) {
+      return { days: availableBalance, status: 'PARTIAL' };
+    }
+    return { days: new Decimal(deductDays), status: 'APPLIED' };
+  }
+
+  private evaluateLateness(checkInAt: Date, rules: LateMarkRules | null): Lateness {
+    if (!rules) return { isLate: false, lateByMinutes: null, isHalfDay: false };
+
+    const [hours, minutes] = rules.workdayStartTime.split(':').map(Number);
+    const workdayStart = new Date(checkInAt);
+    workdayStart.setHours(hours, minutes, 0, 0);
+
+    const lateByMinutes = Math.floor((checkInAt.getTime() - workdayStart.getTime()) / 60000);
+    if (lateByMinutes <= rules.graceMinutes) {
+      return { isLate: false, lateByMinutes: null, isHalfDay: false };
+    }
+
+    const isHalfDay =
+      rules.halfDayAfterMinutes !== undefined && lateByMinutes > rules.halfDayAfterMinutes;
+
+    return { isLate: !isHalfDay, lateByMinutes, isHalfDay };
+  }
+
+  private checkInStatus(workFromHome: boolean, lateness: Lateness): AttendanceStatus {
+    if (lateness.isHalfDay) return 'HALF_DAY';
+    if (workFromHome) return 'WORK_FROM_HOME';
+    return lateness.isLate ? 'LATE' : 'PRESENT';
+  }
+
+  // Fiscal year containing the date, per LeaveSettings.fiscalYearStart (DD-MM)
+  private getFiscalYear(date: Date, settings: LeaveSettings | null): number {
+    const [day, month] = (settings?.fiscalYearStart || '01-04').split('-').map(Number);
+    const fiscalStart = new Date(Date.UTC(date.getUTCFullYear(), month - 1, day));
+    return date >= fiscalStart ? date.getUTCFullYear() : date.getUTCFullYear() - 1;
+  }
+
+  private calculateWorkedHours(checkInAt: Date, checkOutAt: Date): number {
+    const hours = (checkOutAt.getTime() - checkInAt.getTime()) / (1000 * 60 * 60);
+    return Math.round(hours * 100) / 100;
+  }
+
+  private determineStatus(
+    currentStatus: AttendanceStatus,
+    workedHours: number,
+    settings: LeaveSettings | null,
+    lateHalfDay: boolean = false
+  ): AttendanceStatus {
+    const halfDayHours = settings?.halfDayHours.toNumber() ?? 4;
+
+    // Anyone who checked in was at work: days under halfDayHours are half days, never
+    // ABSENT, so they can't attract an auto-LWP. Very late check-ins are capped at a
+    // half day regardless of hours worked.
+    if (workedHours < halfDayHours || lateHalfDay) return 'HALF_DAY';
+
+    // Otherwise the day keeps the check-in status (WFH, late, present)
+    return currentStatus === 'ABSENT' || currentStatus === 'HALF_DAY' ? 'PRESENT' : currentStatus;
+  }
+
+  // Attendance days are stored as UTC midnight of the local calendar day
+  private toAttendanceDate(date: Date): Date {
+    return new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()));
+  }
+
+  private parseDay(value: string | Date): Date {
+    if (value instanceof Date) return this.toAttendanceDate(value);
+    const [year, month, day] = value.split('-').map(Number);
+    return new Date(Date.UTC(year, month - 1, day));
+  }
+
+  private toDayKey(date: Date): string {
+    return date.toISOString().slice(0, 10);
+  }
+}
+
+export const attendanceService = new AttendanceService();
@@ -33,6 +33,7 @@ export class EmployeeController {
         data: {
           employee: result.employee,
           supabaseUser: result.supabaseUser,
+          onboarding: result.onboarding,
         },
         timestamp: new Date().toISOString(),
       });
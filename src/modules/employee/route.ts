@@ -130,6 +130,22 @@ const router = Router();
  *                           type: string
  *                         temporaryPassword:
  *                           type: string
+ *                     onboarding:
+ *                       type: object
+ *                       description: ACTIVE auto-start workflows started for the employee, skipped because their conditions don't match, or that failed to start. Onboarding failures don't undo the employee creation.
+ *                       properties:
+ *                         started:
+ *                           type: array
+ *                           items:
+ *                             type: object
+ *                         skipped:
+ *                           type: array
+ *                           items:
+ *                             type: object
+ *                         failed:
+ *                           type: array
+ *                           items:
+ *                             type: object
  *       400:
  *         description: Validation error
  *       401:
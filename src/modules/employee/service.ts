@@ -3,6 +3,7 @@ import { supabaseAdmin } from '../../config/supabase.js';
 import { logger } from '../../utils/logger.js';
 import { RoleAssignmentService } from '../../services/roleAssignmentService.js';
 import { NotificationService } from '../../services/notificationService.js';
+import { OnboardingService } from '../onboarding/service.js';
 import {
   CreateSupabaseUserInput,
   CreateFullEmployeeInput,
@@ -111,6 +112,10 @@ export class EmployeeService {
       employeeId = employee.id;
       logger.info(`Step 3 completed: Employee profile created with ID: ${employeeId}`);
 
+      // Step 4: Start auto-start onboarding workflows. The employee is kept even if this fails
+      logger.info(`Step 4: Starting auto-start onboarding workflows`);
+      const onboarding = await this.startOnboarding(employee.id, createdBy);
+
       logger.info(`Full employee creation completed successfully for: ${data.emailAddress}`);
 
       return {
@@ -120,6 +125,7 @@ export class EmployeeService {
           email: supabaseUser.user.email,
           temporaryPassword: password,
         },
+        onboarding,
         message: 'Employee created successfully. Temporary password provided for first login.',
       };
     } catch (error) {
@@ -488,6 +494,24 @@ export class EmployeeService {
     }
   }
 
+  /**
+   * Helper method to start auto-start onboarding workflows for a new employee. Never throws:
+   * a failure is reported in the result so the employee isn't rolled back
+   */
+  private static async startOnboarding(employeeId: string, createdBy: string) {
+    try {
+      return await OnboardingService.startAutoStartWorkflows(employeeId, createdBy);
+    } catch (error) {
+      logger.error(`Failed to start onboarding workflows for employee ${employeeId}:`, error);
+      return {
+        started: [],
+        skipped: [],
+        failed: [],
+        error: error instanceof Error ? error.message : 'Failed to start onboarding workflows',
+      };
+    }
+  }
+
   /**
    * Helper method to parse date string (dd/mm/yyyy) to Date object
    */
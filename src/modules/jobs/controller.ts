@@ -0,0 +1,51 @@
+import { Response } from 'express';
+import { AuthenticatedRequest } from '../../middlewares/supabaseAuth.js';
+import { jobService } from './service.js';
+import { getJobRunsQuerySchema } from './schema.js';
+import { asyncHandler } from '../../utils/asyncHandler.js';
+import { successResponse, errorResponse } from '../../utils/response.js';
+
+export class JobController {
+  // ==================== JOBS ====================
+
+  listJobs = asyncHandler(async (_req: AuthenticatedRequest, res: Response) => {
+    const jobs = await jobService.listJobs();
+
+    return successResponse(res, jobs, 'Scheduled jobs retrieved successfully');
+  });
+
+  getJob = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const job = await jobService.getJob(req.params.jobName);
+
+    return successResponse(res, job, 'Scheduled job retrieved successfully');
+  });
+
+  runJob = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const run = await jobService.runJob(req.params.jobName, {
+      trigger: 'MANUAL',
+      triggeredBy: req.user?.id,
+    });
+
+    if (run?.status === 'SKIPPED') {
+      return errorResponse(res, 'Job is already running', 409, run.id);
+    }
+
+    return successResponse(
+      res,
+      run,
+      run?.status === 'FAILED' ? 'Job run failed' : 'Job run completed successfully'
+    );
+  });
+
+  // ==================== RUN HISTORY ====================
+
+  getRuns = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const query = getJobRunsQuerySchema.parse(req.query);
+
+    const result = await jobService.getRuns(query);
+
+    return successResponse(res, result, 'Job runs retrieved successfully');
+  });
+}
+
+export const jobController = new JobController();
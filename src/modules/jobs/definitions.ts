@@ -0,0 +1,171 @@
+import { JobRunTrigger } from '@prisma/client';
+import { attendanceService } from '../attendance/service.js';
+import { leaveService } from '../leaves/service.js';
+import { NotificationService } from '../../services/notificationService.js';
+import { NotificationDigestService } from '../../services/notificationDigestService.js';
+import { AnalyticsService } from '../../services/analyticsService.js';
+
+const SYSTEM_USER = 'SYSTEM';
+const ANALYTICS_WINDOW_DAYS = 30;
+
+export interface JobContext {
+  trigger: JobRunTrigger;
+  triggeredBy?: string;
+  // Cron slot being run; null for on-demand runs
+  scheduledFor: Date | null;
+  startedAt: Date;
+}
+
+export interface ScheduledJobDefinition {
+  name: string;
+  description: string;
+  // Five-field cron expression in server local time
+  schedule: string;
+  // Lease on the job lock, renewed while the run is alive; a run that stops renewing it
+  // (e.g. its instance crashed) is failed and its lock taken over once it expires
+  lockTtlMs?: number;
+  // The returned summary is stored on the JobRun
+  handler: (context: JobContext) => Promise<unknown>;
+}
+
+// Nightly runs close out the day (and month) before the one they start in
+const previousDay = (date: Date) => new Date(date.getTime() - 24 * 60 * 60 * 1000);
+
+export const scheduledJobs: ScheduledJobDefinition[] = [
+  // ==================== ATTENDANCE & LEAVE ====================
+  {
+    name: 'attendance-reconciliation',
+    description:
+      'Mark missed days ABSENT, create/reverse auto-LWP, then apply late-mark deductions for the month containing yesterday',
+    schedule: '30 0 * * *',
+    handler: async ({ startedAt }) => {
+      const reconciliation = await attendanceService.runNightlyReconciliation();
+      const yesterday = previousDay(startedAt);
+      const lateMarks = await attendanceService.applyLateMarkDeductions(
+        { year: yesterday.getFullYear(), month: yesterday.getMonth() + 1, dryRun: false },
+        SYSTEM_USER
+      );
+      return {
+        reconciliation: reconciliation.summary,
+        lateMarkDeductions: lateMarks.deductions?.length ?? 0,
+      };
+    },
+  },
+  {
+    name: 'carry-forward-expiry',
+    description: 'Expire carried forward leave past its expiry date',
+    schedule: '35 0 * * *',
+    handler: async () => {
+      const { balancesExpired, totalExpiredDays } = await leaveService.expireCarriedForwardLeaves();
+      return { balancesExpired, totalExpiredDays };
+    },
+  },
+  {
+    name: 'comp-off-expiry',
+    description: 'Expire comp-off credits past their expiry date',
+    schedule: '40 0 * * *',
+    handler: async () => {
+      const { creditsExpired } = await leaveService.expireCompOffCredits();
+      return { creditsExpired };
+    },
+  },
+  {
+    name: 'leave-escalation',
+    description: 'Escalate leave requests pending longer than the configured threshold to HR',
+    schedule: '15 * * * *',
+    handler: async () => {
+      const { enabled, requestsEscalated } = await leaveService.escalateStalePendingRequests(
+        { dryRun: false },
+        SYSTEM_USER
+      );
+      return { enabled, requestsEscalated };
+    },
+  },
+  {
+    name: 'leave-reminders',
+    description:
+      'Remind employees and managers of approved leave starting soon, and employees of carried forward and comp-off days about to expire',
+    schedule: '0 8 * * *',
+    handler: async () => {
+      const { enabled, upcomingLeaveReminders, balanceExpiryReminders } =
+        await leaveService.sendLeaveReminders({ dryRun: false });
+      return { enabled, upcomingLeaveReminders, balanceExpiryReminders };
+    },
+  },
+  {
+    name: 'fiscal-year-rollover',
+    description:
+      'On the first day of a fiscal year, carry forward or lapse the closing balances of the year that ended and open the new balances',
+    schedule: '50 0 * * *',
+    handler: async ({ startedAt }) => {
+      const rollover = await leaveService.runYearEndRollover(startedAt);
+      return rollover ? rollover.summary : { skipped: 'Not the first day of a fiscal year' };
+    },
+  },
+  {
+    name: 'monthly-leave-accrual',
+    description: 'Credit monthly and earned leave for the month that just ended',
+    schedule: '45 0 1 * *',
+    handler: async ({ startedAt }) => {
+      const lastMonth = previousDay(startedAt);
+      const accrual = await leaveService.runMonthlyAccrual(
+        { year: lastMonth.getFullYear(), month: lastMonth.getMonth() + 1, dryRun: false },
+        SYSTEM_USER
+      );
+      return accrual.summary;
+    },
+  },
+
+  // ==================== NOTIFICATIONS ====================
+  {
+    name: 'notification-dispatch',
+    description: 'Send email and SMS held back by quiet hours once their window ends',
+    schedule: '*/5 * * * *',
+    handler: async () => ({
+      dispatched: await NotificationService.dispatchScheduledNotifications(),
+    }),
+  },
+  {
+    name: 'notification-digests',
+    description: 'Send digest emails to users whose digest slot has passed',
+    schedule: '*/5 * * * *',
+    handler: async () => {
+      const { processed, sent } = await NotificationDigestService.sendDueDigests();
+      return { processed, sent };
+    },
+  },
+  {
+    name: 'notification-retention',
+    description: 'Archive or purge read notifications older than the retention age',
+    schedule: '0 1 * * *',
+    handler: () => NotificationService.applyRetentionPolicy(),
+  },
+
+  // ==================== ONBOARDING ====================
+  {
+    name: 'overdue-task-check',
+    description: 'Flag onboarding tasks past their due date as OVERDUE and notify the assignee',
+    schedule: '0 * * * *',
+    handler: async () => ({ overdueTasks: await NotificationService.checkOverdueTasks() }),
+  },
+  {
+    name: 'workflow-analytics',
+    description: `Generate workflow analytics snapshots for the last ${ANALYTICS_WINDOW_DAYS} days`,
+    schedule: '0 2 * * *',
+    lockTtlMs: 60 * 60 * 1000,
+    handler: async () => {
+      const results = await AnalyticsService.generateAllWorkflowAnalytics(ANALYTICS_WINDOW_DAYS);
+      return { generatedCount: results.length };
+    },
+  },
+  {
+    name: 'task-analytics',
+    description: `Generate task analytics snapshots for the last ${ANALYTICS_WINDOW_DAYS} days`,
+    schedule: '30 2 * * *',
+    lockTtlMs: 60 * 60 * 1000,
+    handler: async () => {
+      const results = await AnalyticsService.generateAllTaskAnalytics(ANALYTICS_WINDOW_DAYS);
+      return { generatedCount: results.length };
+    },
+  },
+];
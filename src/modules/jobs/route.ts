@@ -0,0 +1,117 @@
+import { Router } from 'express';
+import { jobController } from './controller.js';
+import { verifyTestToken } from '../../middlewares/testAuth.js';
+import { requireAdmin } from '../../middlewares/roleAuth.js';
+
+const router = Router();
+
+// Scheduled jobs are an admin-only concern
+router.use(verifyTestToken, requireAdmin);
+
+// ==================== JOB ROUTES ====================
+
+/**
+ * @swagger
+ * /api/v1/jobs:
+ *   get:
+ *     summary: List scheduled jobs
+ *     description: Every registered job with its cron schedule (server local time), next run, whether it is currently running and its most recent run.
+ *     tags: [Jobs]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Scheduled jobs retrieved successfully
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Admin access required
+ */
+router.get('/', jobController.listJobs);
+
+/**
+ * @swagger
+ * /api/v1/jobs/runs:
+ *   get:
+ *     summary: List job runs
+ *     description: Run history across all jobs, newest first
+ *     tags: [Jobs]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/Page'
+ *       - $ref: '#/components/parameters/Limit'
+ *       - name: jobName
+ *         in: query
+ *         schema:
+ *           type: string
+ *       - name: status
+ *         in: query
+ *         schema:
+ *           type: string
+ *           enum: [RUNNING, SUCCEEDED, FAILED, SKIPPED]
+ *       - name: trigger
+ *         in: query
+ *         schema:
+ *           type: string
+ *           enum: [SCHEDULE, MANUAL]
+ *     responses:
+ *       200:
+ *         description: Job runs retrieved successfully
+ *       400:
+ *         description: Invalid query parameters
+ *       404:
+ *         description: Job not found
+ */
+router.get('/runs', jobController.getRuns);
+
+/**
+ * @swagger
+ * /api/v1/jobs/{jobName}:
+ *   get:
+ *     summary: Get a scheduled job
+ *     description: Job details with its 20 most recent runs
+ *     tags: [Jobs]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: jobName
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: overdue-task-check
+ *     responses:
+ *       200:
+ *         description: Scheduled job retrieved successfully
+ *       404:
+ *         description: Job not found
+ */
+router.get('/:jobName', jobController.getJob);
+
+/**
+ * @swagger
+ * /api/v1/jobs/{jobName}/run:
+ *   post:
+ *     summary: Run a job now
+ *     description: Runs the job immediately and waits for it to finish. The run is recorded with trigger MANUAL. Returns 409 if the job is already running on any instance.
+ *     tags: [Jobs]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: jobName
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The completed run, including its result summary or error
+ *       404:
+ *         description: Job not found
+ *       409:
+ *         description: Job is already running
+ */
+router.post('/:jobName/run', jobController.runJob);
+
+export { router as jobRoutes };
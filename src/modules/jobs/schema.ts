@@ -0,0 +1,28 @@
+import { z } from 'zod';
+import { JobRunStatus, JobRunTrigger } from '@prisma/client';
+
+// Job Run Enum Schemas
+export const jobRunStatusSchema = z.nativeEnum(JobRunStatus);
+export const jobRunTriggerSchema = z.nativeEnum(JobRunTrigger);
+
+// ==================== QUERY SCHEMAS ====================
+
+export const getJobRunsQuerySchema = z.object({
+  page: z
+    .string()
+    .regex(/^\d+$/, 'Page must be a number')
+    .transform(Number)
+    .refine((page) => page >= 1, 'Page must be at least 1')
+    .default('1'),
+  limit: z
+    .string()
+    .regex(/^\d+$/, 'Limit must be a number')
+    .transform(Number)
+    .refine((limit) => limit >= 1 && limit <= 100, 'Limit must be between 1 and 100')
+    .default('20'),
+  jobName: z.string().min(1).optional(),
+  status: jobRunStatusSchema.optional(),
+  trigger: jobRunTriggerSchema.optional(),
+});
+
+export type GetJobRunsQuery = z.infer<typeof getJobRunsQuerySchema>;
@@ -0,0 +1,384 @@
+import os from 'os';
+import { randomUUID } from 'crypto';
+import { JobRun, JobRunTrigger, Prisma, PrismaClient } from '@prisma/client';
+import { AppError } from '../../utils/response.js';
+import { logger } from '../../utils/logger.js';
+import { CronSchedule, getNextCronTime, parseCronExpression } from '../../utils/cron.js';
+import { JobContext, ScheduledJobDefinition, scheduledJobs } from './definitions.js';
+import { GetJobRunsQuery } from './schema.js';
+
+const prisma = new PrismaClient();
+
+const DEFAULT_LOCK_TTL_MS = 15 * 60 * 1000;
+// How often each instance looks for runs abandoned by a crashed instance
+const STALE_RUN_SWEEP_INTERVAL_MS = 5 * 60 * 1000;
+// Extra wait past the lock TTL so the abandoned run's lock has expired before the re-run
+const STALE_RUN_GRACE_MS = 60 * 1000;
+// setTimeout overflows past ~24.8 days; longer waits are re-armed in steps
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+interface RegisteredJob extends ScheduledJobDefinition {
+  cron: CronSchedule;
+  timer?: NodeJS.Timeout;
+  nextRunAt?: Date;
+}
+
+export interface RunJobOptions {
+  trigger?: JobRunTrigger;
+  triggeredBy?: string;
+  scheduledFor?: Date | null;
+}
+
+const isUniqueConstraintError = (error: unknown): boolean =>
+  error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+
+/**
+ * In-process cron scheduler. Every instance arms the same timers; a JobRun row per
+ * cron slot and a JobLock row per job make sure each slot runs on one instance and
+ * runs of the same job never overlap. Running jobs renew their lock and heartbeat;
+ * runs whose heartbeat goes stale are failed and their cron slot is run again.
+ */
+export class JobService {
+  readonly instanceId = `${os.hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+  private jobs = new Map<string, RegisteredJob>();
+  private running = false;
+  private sweepTimer?: NodeJS.Timeout;
+
+  constructor(definitions: ScheduledJobDefinition[]) {
+    definitions.forEach((definition) => this.register(definition));
+  }
+
+  register(definition: ScheduledJobDefinition) {
+    if (this.jobs.has(definition.name)) {
+      throw new Error(`Job "${definition.name}" is already registered`);
+    }
+    this.jobs.set(definition.name, {
+      ...definition,
+      cron: parseCronExpression(definition.schedule),
+    });
+  }
+
+  // ==================== SCHEDULING ====================
+
+  start() {
+    if (this.running) return;
+    this.running = true;
+    this.jobs.forEach((job) => this.scheduleNext(job));
+    this.sweepTimer = setInterval(() => this.sweepStaleRuns(), STALE_RUN_SWEEP_INTERVAL_MS);
+    this.sweepStaleRuns();
+    logger.info(`Job scheduler started with ${this.jobs.size} jobs (instance ${this.instanceId})`);
+  }
+
+  stop() {
+    this.running = false;
+    clearInterval(this.sweepTimer);
+    this.sweepTimer = undefined;
+    this.jobs.forEach((job) => {
+      clearTimeout(job.timer);
+      job.timer = undefined;
+      job.nextRunAt = undefined;
+    });
+  }
+
+  private scheduleNext(job: RegisteredJob, from = new Date()) {
+    if (!this.running) return;
+
+    const nextRunAt = getNextCronTime(job.cron, from);
+    job.nextRunAt = nextRunAt;
+    this.armTimer(job, nextRunAt);
+  }
+
+  private armTimer(job: RegisteredJob, runAt: Date) {
+    const delay = runAt.getTime() - Date.now();
+
+    job.timer = setTimeout(
+      async () => {
+        if (runAt.getTime() > Date.now()) {
+          this.armTimer(job, runAt);
+          return;
+        }
+
+        try {
+          await this.runJob(job.name, { trigger: 'SCHEDULE', scheduledFor: runAt });
+        } catch (error) {
+          logger.error(`Scheduled job ${job.name} failed to start:`, error);
+        }
+        this.scheduleNext(job, runAt);
+      },
+      Math.min(Math.max(delay, 0), MAX_TIMER_DELAY_MS)
+    );
+  }
+
+  // ==================== EXECUTION ====================
+
+  /**
+   * Run a job now and record the run. Scheduled runs claim their cron slot first, so a
+   * slot another instance already ran returns null. Runs that find the job locked are
+   * recorded as SKIPPED.
+   */
+  async runJob(name: string, options: RunJobOptions = {}): Promise<JobRun | null> {
+    const job = this.getRegisteredJob(name);
+    const trigger = options.trigger ?? 'MANUAL';
+    const scheduledFor = options.scheduledFor ?? null;
+
+    let run: JobRun;
+    try {
+      run = await prisma.jobRun.create({
+        data: {
+          jobName: name,
+          trigger,
+          triggeredBy: options.triggeredBy,
+          scheduledFor,
+          instanceId: this.instanceId,
+        },
+      });
+    } catch (error) {
+      if (scheduledFor && isUniqueConstraintError(error)) return null;
+      throw error;
+    }
+
+    const lockTtlMs = job.lockTtlMs ?? DEFAULT_LOCK_TTL_MS;
+    let locked = false;
+    try {
+      locked = await this.acquireLock(name, lockTtlMs);
+    } catch (error) {
+      await prisma.jobRun.update({
+        where: { id: run.id },
+        data: { status: 'FAILED', finishedAt: new Date(), error: 'Could not acquire job lock' },
+      });
+      throw error;
+    }
+
+    if (!locked) {
+      logger.warn(`Job ${name} is already running elsewhere; skipping`);
+      return prisma.jobRun.update({
+        where: { id: run.id },
+        data: {
+          status: 'SKIPPED',
+          finishedAt: new Date(),
+          durationMs: 0,
+          error: 'Job is already running',
+        },
+      });
+    }
+
+    const context: JobContext = {
+      trigger,
+      triggeredBy: options.triggeredBy,
+      scheduledFor,
+      startedAt: run.startedAt,
+    };
+
+    const heartbeat = setInterval(() => this.heartbeat(name, run.id, lockTtlMs), lockTtlMs / 3);
+
+    try {
+      logger.info(`Job ${name} started (${trigger.toLowerCase()})`);
+      const result = await job.handler(context);
+      const finishedAt = new Date();
+
+      logger.info(`Job ${name} succeeded in ${finishedAt.getTime() - run.startedAt.getTime()}ms`);
+      return await prisma.jobRun.update({
+        where: { id: run.id },
+        data: {
+          status: 'SUCCEEDED',
+          finishedAt,
+          durationMs: finishedAt.getTime() - run.startedAt.getTime(),
+          result: (result ?? undefined) as Prisma.InputJsonValue | undefined,
+        },
+      });
+    } catch (error) {
+      const finishedAt = new Date();
+
+      logger.error(`Job ${name} failed:`, error);
+      return await prisma.jobRun.update({
+        where: { id: run.id },
+        data: {
+          status: 'FAILED',
+          finishedAt,
+          durationMs: finishedAt.getTime() - run.startedAt.getTime(),
+          error: error instanceof Error ? error.message : String(error),
+        },
+      });
+    } finally {
+      clearInterval(heartbeat);
+      await this.releaseLock(name);
+    }
+  }
+
+  // Extend the lock lease and mark the run alive while its handler is still working
+  private async heartbeat(name: string, runId: string, lockTtlMs: number) {
+    const now = new Date();
+    try {
+      const [lock] = await Promise.all([
+        prisma.jobLock.updateMany({
+          where: { jobName: name, lockedBy: this.instanceId },
+          data: { expiresAt: new Date(now.getTime() + lockTtlMs) },
+        }),
+        prisma.jobRun.update({ where: { id: runId }, data: { heartbeatAt: now } }),
+      ]);
+      if (lock.count === 0) {
+        logger.warn(`Job ${name} lost its lock while running (instance ${this.instanceId})`);
+      }
+    } catch (error) {
+      logger.error(`Failed to renew lock for job ${name}:`, error);
+    }
+  }
+
+  /**
+   * Fail RUNNING runs whose heartbeat is older than their job's lock TTL (the instance
+   * running them died) and run their cron slot again. The slot is released from the
+   * failed run so the re-run can claim it; only one instance wins each stale run.
+   */
+  async sweepStaleRuns(now = new Date()) {
+    try {
+      const runs = await prisma.jobRun.findMany({ where: { status: 'RUNNING' } });
+
+      for (const run of runs) {
+        const job = this.jobs.get(run.jobName);
+        const lastSeen = run.heartbeatAt ?? run.startedAt;
+        const staleAfterMs = (job?.lockTtlMs ?? DEFAULT_LOCK_TTL_MS) + STALE_RUN_GRACE_MS;
+        if (now.getTime() - lastSeen.getTime() < staleAfterMs) continue;
+
+        const slot = run.scheduledFor;
+        const { count } = await prisma.jobRun.updateMany({
+          where: { id: run.id, status: 'RUNNING', heartbeatAt: run.heartbeatAt },
+          data: {
+            status: 'FAILED',
+            finishedAt: now,
+            durationMs: now.getTime() - run.startedAt.getTime(),
+            scheduledFor: null,
+            error: `Abandoned: no heartbeat from ${run.instanceId} since ${lastSeen.toISOString()}${
+              slot ? `; slot ${slot.toISOString()} re-run` : ''
+            }`,
+          },
+        });
+        if (count === 0) continue;
+
+        logger.warn(`Job ${run.jobName} run ${run.id} was abandoned by ${run.instanceId}`);
+        if (slot && job) {
+          this.runJob(job.name, { trigger: 'SCHEDULE', scheduledFor: slot }).catch((error) =>
+            logger.error(`Re-run of abandoned job ${job.name} failed to start:`, error)
+          );
+        }
+      }
+    } catch (error) {
+      logger.error('Failed to sweep stale job runs:', error);
+    }
+  }
+
+  private async acquireLock(name: string, ttlMs: number): Promise<boolean> {
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + ttlMs);
+
+    try {
+      await prisma.jobLock.create({
+        data: { jobName: name, lockedBy: this.instanceId, lockedAt: now, expiresAt },
+      });
+      return true;
+    } catch (error) {
+      if (!isUniqueConstraintError(error)) throw error;
+    }
+
+    // Take over a lock whose holder died without releasing it
+    const { count } = await prisma.jobLock.updateMany({
+      where: { jobName: name, expiresAt: { lt: now } },
+      data: { lockedBy: this.instanceId, lockedAt: now, expiresAt },
+    });
+    return count === 1;
+  }
+
+  private async releaseLock(name: string) {
+    try {
+      await prisma.jobLock.deleteMany({ where: { jobName: name, lockedBy: this.instanceId } });
+    } catch (error) {
+      logger.error(`Failed to release lock for job ${name}:`, error);
+    }
+  }
+
+  // ==================== QUERIES ====================
+
+  /**
+   * Registered jobs with their schedule, next run and most recent run
+   */
+  async listJobs() {
+    const jobs = [...this.jobs.values()];
+    const [lastRuns, locks] = await Promise.all([
+      Promise.all(
+        jobs.map((job) =>
+          prisma.jobRun.findFirst({ where: { jobName: job.name }, orderBy: { startedAt: 'desc' } })
+        )
+      ),
+      prisma.jobLock.findMany({ where: { expiresAt: { gt: new Date() } } }),
+    ]);
+
+    return jobs.map((job, index) => this.toJobSummary(job, lastRuns[index], locks));
+  }
+
+  async getJob(name: string) {
+    const job = this.getRegisteredJob(name);
+    const [recentRuns, locks] = await Promise.all([
+      prisma.jobRun.findMany({
+        where: { jobName: name },
+        orderBy: { startedAt: 'desc' },
+        take: 20,
+      }),
+      prisma.jobLock.findMany({ where: { jobName: name, expiresAt: { gt: new Date() } } }),
+    ]);
+
+    return { ...this.toJobSummary(job, recentRuns[0] ?? null, locks), recentRuns };
+  }
+
+  async getRuns(query: GetJobRunsQuery) {
+    const { jobName, status, trigger, page, limit } = query;
+    if (jobName) this.getRegisteredJob(jobName);
+
+    const where: Prisma.JobRunWhereInput = { jobName, status, trigger };
+    const [runs, total] = await Promise.all([
+      prisma.jobRun.findMany({
+        where,
+        orderBy: { startedAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.jobRun.count({ where }),
+    ]);
+
+    return {
+      runs,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+        hasNextPage: page * limit < total,
+        hasPrevPage: page > 1,
+      },
+    };
+  }
+
+  private getRegisteredJob(name: string): RegisteredJob {
+    const job = this.jobs.get(name);
+    if (!job) throw new AppError(`Job "${name}" not found`, 404);
+    return job;
+  }
+
+  private toJobSummary(
+    job: RegisteredJob,
+    lastRun: JobRun | null,
+    locks: Array<{ jobName: string; lockedBy: string }>
+  ) {
+    const lock = locks.find((candidate) => candidate.jobName === job.name);
+    return {
+      name: job.name,
+      description: job.description,
+      schedule: job.schedule,
+      nextRunAt: job.nextRunAt ?? getNextCronTime(job.cron),
+      scheduled: !!job.timer,
+      running: !!lock,
+      runningOn: lock?.lockedBy ?? null,
+      lastRun,
+    };
+  }
+}
+
+export const jobService = new JobService(scheduledJobs);
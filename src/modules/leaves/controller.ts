@@ -29,6 +29,30 @@ import {
   getLeaveTrendsReportQuerySchema,
   getLeaveBalanceReportQuerySchema,
   exportReportSchema,
+  // Approval delegation schemas
+  createApprovalDelegationSchema,
+  revokeApprovalDelegationSchema,
+  getApprovalDelegationsQuerySchema,
+  // Fiscal year rollover schemas
+  fiscalYearRolloverSchema,
+  fiscalYearRolloverPreviewQuerySchema,
+  expireCarryForwardSchema,
+  monthlyAccrualSchema,
+  getBalanceLedgerQuerySchema,
+  balanceConsistencyQuerySchema,
+  createEncashmentRequestSchema,
+  approveEncashmentRequestSchema,
+  getEncashmentRequestsQuerySchema,
+  getEncashmentPayrollLinesQuerySchema,
+  processEncashmentPayrollLinesSchema,
+  upsertSalaryGradeSchema,
+  createCompOffClaimSchema,
+  approveCompOffClaimSchema,
+  getCompOffClaimsQuerySchema,
+  getCompOffCreditsQuerySchema,
+  expireCompOffCreditsSchema,
+  escalateLeaveRequestsSchema,
+  sendLeaveRemindersSchema,
 } from './schema.js';
 import { asyncHandler } from '../../utils/asyncHandler.js';
 import { successResponse, errorResponse } from '../../utils/response.js';
@@ -287,7 +311,7 @@ export class LeaveController {
 
     // Apply preset filters
     if (preset) {
-      searchQuery = this.applyPresetFilter(preset, searchQuery, req.user);
+      searchQuery = await this.applyPresetFilter(preset, searchQuery, req.user);
     }
 
     // Apply custom search query
@@ -403,14 +427,17 @@ export class LeaveController {
       includeAuditLogs: false,
     };
 
+    const overdueCutoff = await this.getOverdueCutoff();
+
     // Apply status filter
     if (status === 'pending') {
       searchQuery.status = 'PENDING';
     } else if (status === 'overdue') {
       searchQuery.status = 'PENDING';
-      const threeDaysAgo = new Date();
-      threeDaysAgo.setDate(threeDaysAgo.getDate() - 3);
-      searchQuery.appliedDateTo = threeDaysAgo.toISOString();
+      searchQuery.appliedDateTo = overdueCutoff.toISOString();
+    } else if (status === 'escalated') {
+      searchQuery.status = 'PENDING';
+      searchQuery.isEscalated = true;
     }
 
     // Apply priority filter
@@ -440,20 +467,29 @@ export class LeaveController {
       const policy = (request as any).policy;
       const isManagerApprovalNeeded = !request.managerApprovedBy && 
         ['MANAGER', 'BOTH'].includes(policy?.approvalLevel || '');
+      const isEscalated = !!request.escalatedAt;
       const isHRApprovalNeeded = !request.hrApprovedBy && 
         ['HR', 'BOTH'].includes(policy?.approvalLevel || '') &&
-        (policy?.approvalLevel !== 'BOTH' || request.managerApprovalStatus === 'APPROVED');
+        (policy?.approvalLevel !== 'BOTH' ||
+          request.managerApprovalStatus === 'APPROVED' ||
+          isEscalated);
 
       return {
         ...request,
         approvalInfo: {
-          nextApprover: isManagerApprovalNeeded ? 'MANAGER' : isHRApprovalNeeded ? 'HR' : null,
+          // Escalated requests are HR's to decide
+          nextApprover: isEscalated
+            ? 'HR'
+            : isManagerApprovalNeeded ? 'MANAGER' : isHRApprovalNeeded ? 'HR' : null,
           canCurrentUserApprove: (
             (isManagerApprovalNeeded && req.user?.role === 'MANAGER') ||
             (isHRApprovalNeeded && req.user?.role === 'ADMIN') ||
             req.user?.role === 'ADMIN'
           ),
           daysPending: Math.floor((Date.now() - request.appliedAt.getTime()) / (1000 * 60 * 60 * 24)),
+          isOverdue: request.status === 'PENDING' && request.appliedAt <= overdueCutoff,
+          isEscalated,
+          escalatedAt: request.escalatedAt,
         },
       };
     });
@@ -517,6 +553,8 @@ export class LeaveController {
       leaveService.getLeaveRequests({ ...baseQuery, status: 'REJECTED' }, req.user?.role, req.user?.id),
     ]);
 
+    const overdueCutoff = await this.getOverdueCutoff();
+
     // Calculate approval time statistics
     const approvalTimes = approvedRequests.requests
       .filter(req => req.finalApprovedAt)
@@ -539,6 +577,8 @@ export class LeaveController {
         const daysPending = (Date.now() - req.appliedAt.getTime()) / (1000 * 60 * 60 * 24);
         return daysPending > 3;
       }).length,
+      pendingOverdue: pendingRequests.requests.filter(req => req.appliedAt <= overdueCutoff).length,
+      pendingEscalated: pendingRequests.requests.filter(req => req.escalatedAt).length,
     };
 
     return successResponse(res, stats, 'Approval statistics retrieved successfully');
@@ -546,32 +586,18 @@ export class LeaveController {
 
   // Set Approval Delegation
   setApprovalDelegation = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
-    const { delegateToUserId, reason, validUntil, delegationType = 'FULL' } = req.body;
-
     // Only managers and admins can set delegations
     if (!['MANAGER', 'ADMIN'].includes(req.user?.role || '')) {
       return errorResponse(res, 'Insufficient permissions to set approval delegations', 403);
     }
 
-    // Validate delegate user
-    const delegateUser = await leaveService.getEmployeeById(delegateToUserId);
-    if (!delegateUser) {
-      return errorResponse(res, 'Delegate user not found', 404);
-    }
+    const validatedData = createApprovalDelegationSchema.parse(req.body);
 
-    // In a full implementation, this would create a delegation record
-    // For now, we'll return a success response with the delegation details
-    const delegation = {
-      id: `delegation_${Date.now()}`,
-      delegatedBy: req.user?.id,
-      delegatedTo: delegateToUserId,
-      delegateToName: `${delegateUser.firstName} ${delegateUser.lastName}`,
-      reason,
-      validUntil: validUntil ? new Date(validUntil) : new Date(Date.now() + 30 * 24 * 60 * 60 * 1000),
-      type: delegationType,
-      isActive: true,
-      createdAt: new Date(),
-    };
+    const delegation = await leaveService.createApprovalDelegation(
+      validatedData,
+      req.user?.id || '',
+      req.user?.role === 'ADMIN' ? 'HR' : 'MANAGER'
+    );
 
     return successResponse(res, delegation, 'Approval delegation set successfully', 201);
   });
@@ -583,25 +609,49 @@ export class LeaveController {
       return errorResponse(res, 'Insufficient permissions to view delegations', 403);
     }
 
-    // In a full implementation, this would query a delegations table
-    // For now, we'll return a placeholder response
-    const delegations = [
-      {
-        id: 'delegation_example',
-        delegatedBy: req.user?.id,
-        delegatedTo: 'user_123',
-        delegateToName: 'John Smith',
-        reason: 'Vacation coverage',
-        validUntil: new Date(Date.now() + 15 * 24 * 60 * 60 * 1000),
-        type: 'FULL',
-        isActive: true,
-        createdAt: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000),
-      },
-    ];
+    const query = getApprovalDelegationsQuerySchema.parse(req.query);
+
+    const delegations = await leaveService.getApprovalDelegations(req.user?.id || '', query);
 
     return successResponse(res, delegations, 'Active delegations retrieved successfully');
   });
 
+  // Revoke Approval Delegation
+  revokeApprovalDelegation = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { id } = req.params;
+
+    // Only managers and admins can revoke delegations
+    if (!['MANAGER', 'ADMIN'].includes(req.user?.role || '')) {
+      return errorResponse(res, 'Insufficient permissions to revoke delegations', 403);
+    }
+
+    const validatedData = revokeApprovalDelegationSchema.parse(req.body);
+
+    const delegation = await leaveService.revokeApprovalDelegation(
+      id,
+      validatedData,
+      req.user?.id || '',
+      req.user?.role
+    );
+
+    return successResponse(res, delegation, 'Approval delegation revoked successfully');
+  });
+
+  // Escalate Stale Pending Requests
+  escalateStalePendingRequests = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const validatedData = escalateLeaveRequestsSchema.parse(req.body);
+
+    const result = await leaveService.escalateStalePendingRequests(
+      validatedData,
+      req.user?.id || ''
+    );
+
+    const message = validatedData.dryRun
+      ? 'Leave escalation preview generated successfully'
+      : 'Leave escalation completed successfully';
+    return successResponse(res, result, message);
+  });
+
   // ==================== CALENDAR INTEGRATION APIs ====================
 
   // Get Calendar View
@@ -813,6 +863,14 @@ export class LeaveController {
 
   // ==================== HELPER METHODS ====================
 
+  // Pending requests applied on or before this are overdue and due for escalation
+  private async getOverdueCutoff(): Promise<Date> {
+    const settings = await leaveService.getLeaveSettings();
+    const cutoff = new Date();
+    cutoff.setDate(cutoff.getDate() - (settings?.escalationAfterDays ?? 3));
+    return cutoff;
+  }
+
   private async analyzeTeamCoverageForPeriod(
     startDate: Date,
     endDate: Date,
@@ -1055,12 +1113,12 @@ export class LeaveController {
   });
 
   // Helper methods
-  private applyPresetFilter(
+  private async applyPresetFilter(
     preset: string, 
     query: GetLeaveRequestsQuery,
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     user: any
-  ): GetLeaveRequestsQuery {
+  ): Promise<GetLeaveRequestsQuery> {
     const updatedQuery = { ...query };
 
     switch (preset) {
@@ -1075,10 +1133,7 @@ export class LeaveController {
         break;
       case 'overdue_approvals':
         updatedQuery.status = 'PENDING';
-        // Add date filter for requests older than 3 days
-        const threeDaysAgo = new Date();
-        threeDaysAgo.setDate(threeDaysAgo.getDate() - 3);
-        updatedQuery.appliedDateTo = threeDaysAgo.toISOString();
+        updatedQuery.appliedDateTo = (await this.getOverdueCutoff()).toISOString();
         break;
       case 'emergency_requests':
         updatedQuery.isEmergency = true;
@@ -1202,6 +1257,222 @@ export class LeaveController {
     return successResponse(res, balance, 'Leave balance retrieved successfully');
   });
 
+  getBalanceLedger = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { id } = req.params;
+    const query = getBalanceLedgerQuerySchema.parse(req.query);
+
+    const ledger = await leaveService.getBalanceLedger(
+      id,
+      query,
+      req.user?.role || '',
+      req.user?.id || ''
+    );
+
+    return successResponse(res, ledger, 'Balance ledger retrieved successfully');
+  });
+
+  checkBalanceConsistency = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const query = balanceConsistencyQuerySchema.parse(req.query);
+
+    const report = await leaveService.checkBalanceConsistency(query);
+
+    return successResponse(res, report, 'Balance consistency check completed');
+  });
+
+  // ==================== FISCAL YEAR ROLLOVER ====================
+
+  previewFiscalYearRollover = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { fromFiscalYear } = fiscalYearRolloverPreviewQuerySchema.parse(req.query);
+
+    const preview = await leaveService.runFiscalYearRollover(
+      { fromFiscalYear, dryRun: true },
+      req.user?.id || ''
+    );
+
+    return successResponse(res, preview, 'Fiscal year rollover preview generated successfully');
+  });
+
+  runFiscalYearRollover = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const validatedData = fiscalYearRolloverSchema.parse(req.body);
+
+    const result = await leaveService.runFiscalYearRollover(validatedData, req.user?.id || '');
+
+    const message = validatedData.dryRun
+      ? 'Fiscal year rollover preview generated successfully'
+      : 'Fiscal year rollover completed successfully';
+    return successResponse(res, result, message);
+  });
+
+  expireCarriedForwardLeaves = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const validatedData = expireCarryForwardSchema.parse(req.body);
+
+    const result = await leaveService.expireCarriedForwardLeaves(validatedData);
+
+    return successResponse(res, result, 'Carried forward leave expiry completed successfully');
+  });
+
+  // ==================== MONTHLY ACCRUAL ====================
+
+  runMonthlyAccrual = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const validatedData = monthlyAccrualSchema.parse(req.body);
+
+    const result = await leaveService.runMonthlyAccrual(validatedData, req.user?.id || '');
+
+    const message = validatedData.dryRun
+      ? 'Monthly accrual dry run completed'
+      : 'Monthly accrual completed successfully';
+    return successResponse(res, result, message);
+  });
+
+  // ==================== LEAVE ENCASHMENT ====================
+
+  createEncashmentRequest = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const validatedData = createEncashmentRequestSchema.parse(req.body);
+
+    const request = await leaveService.createEncashmentRequest(validatedData, req.user?.id || '');
+
+    return successResponse(res, request, 'Encashment request submitted successfully', 201);
+  });
+
+  getEncashmentRequests = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const query = getEncashmentRequestsQuerySchema.parse(req.query);
+
+    const result = await leaveService.getEncashmentRequests(
+      query,
+      req.user?.role || '',
+      req.user?.id || ''
+    );
+
+    return successResponse(res, result, 'Encashment requests retrieved successfully');
+  });
+
+  approveEncashmentRequest = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { id } = req.params;
+    const validatedData = approveEncashmentRequestSchema.parse(req.body);
+
+    const request = await leaveService.approveEncashmentRequest(
+      id,
+      validatedData,
+      req.user?.id || '',
+      req.user?.role || ''
+    );
+
+    const action = validatedData.action === 'APPROVE' ? 'approved' : 'rejected';
+    return successResponse(res, request, `Encashment request ${action} successfully`);
+  });
+
+  cancelEncashmentRequest = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { id } = req.params;
+
+    const request = await leaveService.cancelEncashmentRequest(id, req.user?.id || '');
+
+    return successResponse(res, request, 'Encashment request cancelled successfully');
+  });
+
+  getEncashmentPayrollLines = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const query = getEncashmentPayrollLinesQuerySchema.parse(req.query);
+
+    const lines = await leaveService.getEncashmentPayrollLines(query);
+
+    return successResponse(res, lines, 'Encashment payroll lines retrieved successfully');
+  });
+
+  processEncashmentPayrollLines = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const validatedData = processEncashmentPayrollLinesSchema.parse(req.body);
+
+    const result = await leaveService.processEncashmentPayrollLines(
+      validatedData,
+      req.user?.id || ''
+    );
+
+    return successResponse(res, result, 'Encashment payroll lines marked as processed');
+  });
+
+  getSalaryGrades = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const grades = await leaveService.getSalaryGrades();
+
+    return successResponse(res, grades, 'Salary grades retrieved successfully');
+  });
+
+  upsertSalaryGrade = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { code } = req.params;
+    const validatedData = upsertSalaryGradeSchema.parse(req.body);
+
+    const grade = await leaveService.upsertSalaryGrade(code, validatedData, req.user?.id || '');
+
+    return successResponse(res, grade, 'Salary grade saved successfully');
+  });
+
+  // ==================== COMP-OFF ====================
+
+  createCompOffClaim = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const validatedData = createCompOffClaimSchema.parse(req.body);
+
+    const claim = await leaveService.createCompOffClaim(validatedData, req.user?.id || '');
+
+    return successResponse(res, claim, 'Comp-off claim submitted successfully', 201);
+  });
+
+  getCompOffClaims = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const query = getCompOffClaimsQuerySchema.parse(req.query);
+
+    const claims = await leaveService.getCompOffClaims(
+      query,
+      req.user?.role || '',
+      req.user?.id || ''
+    );
+
+    return successResponse(res, claims, 'Comp-off claims retrieved successfully');
+  });
+
+  approveCompOffClaim = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { id } = req.params;
+    const validatedData = approveCompOffClaimSchema.parse(req.body);
+
+    const claim = await leaveService.approveCompOffClaim(
+      id,
+      validatedData,
+      req.user?.id || '',
+      req.user?.role || ''
+    );
+
+    const action = validatedData.action === 'APPROVE' ? 'approved' : 'rejected';
+    return successResponse(res, claim, `Comp-off claim ${action} successfully`);
+  });
+
+  getCompOffCredits = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const query = getCompOffCreditsQuerySchema.parse(req.query);
+
+    const credits = await leaveService.getCompOffCredits(
+      query,
+      req.user?.role || '',
+      req.user?.id || ''
+    );
+
+    return successResponse(res, credits, 'Comp-off credits retrieved successfully');
+  });
+
+  expireCompOffCredits = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const validatedData = expireCompOffCreditsSchema.parse(req.body);
+
+    const result = await leaveService.expireCompOffCredits(validatedData);
+
+    return successResponse(res, result, 'Comp-off credit expiry completed successfully');
+  });
+
+  // ==================== LEAVE REMINDERS ====================
+
+  sendLeaveReminders = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const validatedData = sendLeaveRemindersSchema.parse(req.body);
+
+    const result = await leaveService.sendLeaveReminders(validatedData);
+
+    const message = validatedData.dryRun
+      ? 'Leave reminder preview generated successfully'
+      : 'Leave reminders sent successfully';
+    return successResponse(res, result, message);
+  });
+
   // ==================== LEAVE SETTINGS ====================
 
   createLeaveSettings = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
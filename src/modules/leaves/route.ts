@@ -26,6 +26,21 @@ import {
   getLeaveTrendsReportQuerySchema,
   getLeaveBalanceReportQuerySchema,
   exportReportSchema,
+  createApprovalDelegationSchema,
+  revokeApprovalDelegationSchema,
+  getApprovalDelegationsQuerySchema,
+  fiscalYearRolloverSchema,
+  expireCarryForwardSchema,
+  monthlyAccrualSchema,
+  createEncashmentRequestSchema,
+  approveEncashmentRequestSchema,
+  processEncashmentPayrollLinesSchema,
+  upsertSalaryGradeSchema,
+  createCompOffClaimSchema,
+  approveCompOffClaimSchema,
+  expireCompOffCreditsSchema,
+  escalateLeaveRequestsSchema,
+  sendLeaveRemindersSchema,
 } from './schema.js';
 
 const router = Router();
@@ -442,7 +457,7 @@ router.put(
  *       401:
  *         description: Unauthorized
  *       403:
- *         description: Forbidden - Manager or Admin access required
+ *         description: Forbidden - Manager or Admin access required or approver is the requester
  *       404:
  *         $ref: '#/components/responses/NotFound'
  *       500:
@@ -791,9 +806,9 @@ router.get(
  *         in: query
  *         schema:
  *           type: string
- *           enum: [pending, overdue, all]
+ *           enum: [pending, overdue, escalated, all]
  *           default: pending
- *         description: Filter by approval status
+ *         description: Filter by approval status. Overdue requests have been pending longer than the escalationAfterDays leave setting.
  *       - name: priority
  *         in: query
  *         schema:
@@ -880,11 +895,25 @@ router.get(
  *                 type: string
  *                 format: date-time
  *                 description: "When delegation expires (default: 30 days)"
+ *               validFrom:
+ *                 type: string
+ *                 format: date-time
+ *                 description: "When delegation starts (default: now)"
  *               delegationType:
  *                 type: string
  *                 enum: [FULL, PARTIAL]
  *                 default: FULL
  *                 description: Type of delegation
+ *               leaveTypes:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 description: Leave types covered by a PARTIAL delegation
+ *               departments:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 description: Departments covered by a PARTIAL delegation
  *     responses:
  *       201:
  *         description: Approval delegation set successfully
@@ -892,10 +921,13 @@ router.get(
  *         description: Insufficient permissions
  *       404:
  *         description: Delegate user not found
+ *       409:
+ *         description: Overlapping delegation already exists
  */
 router.post(
   '/approval/delegation',
   requireExactRole(['MANAGER', 'ADMIN']),
+  validateRequest({ body: createApprovalDelegationSchema }),
   leaveController.setApprovalDelegation
 );
 
@@ -904,10 +936,24 @@ router.post(
  * /api/v1/leaves/approval/delegations:
  *   get:
  *     summary: Get active delegations
- *     description: Retrieve list of active approval delegations
+ *     description: Retrieve approval delegations given or received by the current user
  *     tags: [Leave Management]
  *     security:
  *       - bearerAuth: []
+ *     parameters:
+ *       - name: direction
+ *         in: query
+ *         schema:
+ *           type: string
+ *           enum: [given, received, all]
+ *           default: all
+ *         description: Delegations given by or received by the current user
+ *       - name: includeInactive
+ *         in: query
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *         description: Include revoked and expired delegations
  *     responses:
  *       200:
  *         description: Active delegations retrieved successfully
@@ -917,9 +963,86 @@ router.post(
 router.get(
   '/approval/delegations',
   requireExactRole(['MANAGER', 'ADMIN']),
+  validateRequest({ query: getApprovalDelegationsQuerySchema }),
   leaveController.getActiveDelegations
 );
 
+/**
+ * @swagger
+ * /api/v1/leaves/approval/delegations/{id}/revoke:
+ *   post:
+ *     summary: Revoke approval delegation
+ *     description: Revoke an approval delegation before it expires
+ *     tags: [Leave Management]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: id
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               reason:
+ *                 type: string
+ *                 description: Reason for revocation
+ *     responses:
+ *       200:
+ *         description: Approval delegation revoked successfully
+ *       403:
+ *         description: Only the delegator can revoke this delegation
+ *       404:
+ *         description: Approval delegation not found
+ */
+router.post(
+  '/approval/delegations/:id/revoke',
+  requireExactRole(['MANAGER', 'ADMIN']),
+  validateRequest({ body: revokeApprovalDelegationSchema }),
+  leaveController.revokeApprovalDelegation
+);
+
+/**
+ * @swagger
+ * /api/v1/leaves/approval/escalations/run:
+ *   post:
+ *     summary: Escalate stale pending requests
+ *     description: Escalates PENDING requests older than the escalationAfterDays leave setting. HR is added as approver and can approve without the manager step, the escalation recipients are notified and an ESCALATED audit entry is recorded. Does nothing unless escalationEnabled is set. Also runs hourly as the leave-escalation job.
+ *     tags: [Leave Management]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               asOf:
+ *                 type: string
+ *                 format: date-time
+ *                 description: "Reference time for the threshold (default: now)"
+ *               dryRun:
+ *                 type: boolean
+ *                 default: false
+ *                 description: List the requests that would be escalated without changing them
+ *     responses:
+ *       200:
+ *         description: Leave escalation completed successfully
+ *       403:
+ *         description: Admin access required
+ */
+router.post(
+  '/approval/escalations/run',
+  requireExactRole(['ADMIN']),
+  validateRequest({ body: escalateLeaveRequestsSchema }),
+  leaveController.escalateStalePendingRequests
+);
+
 // ==================== CALENDAR INTEGRATION ROUTES ====================
 
 /**
@@ -1324,6 +1447,57 @@ router.put(
  */
 router.get('/balances', leaveController.getLeaveBalances);
 
+/**
+ * @route   GET /api/v1/leaves/balances/consistency?fiscalYear=2025&driftOnly=true
+ * @desc    Recompute balances from the ledger and report drift
+ * @access  Admin only
+ */
+router.get(
+  '/balances/consistency',
+  requireExactRole(['ADMIN']),
+  leaveController.checkBalanceConsistency
+);
+
+/**
+ * @swagger
+ * /api/v1/leaves/balances/{id}/ledger:
+ *   get:
+ *     summary: Get the transaction ledger for a leave balance
+ *     description: Every accrual, debit, pending hold, release, adjustment, encashment, carry forward and expiry applied to the balance, newest first
+ *     tags: [Leave Management]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: id
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - name: type
+ *         in: query
+ *         schema:
+ *           type: string
+ *           enum: [ACCRUAL, DEBIT, PENDING_HOLD, RELEASE, ADJUSTMENT, ENCASHMENT, CARRY_FORWARD, EXPIRY]
+ *       - name: page
+ *         in: query
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - name: limit
+ *         in: query
+ *         schema:
+ *           type: integer
+ *           default: 50
+ *     responses:
+ *       200:
+ *         description: Balance ledger retrieved successfully
+ *       403:
+ *         description: Access denied
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ */
+router.get('/balances/:id/ledger', leaveController.getBalanceLedger);
+
 /**
  * @route   GET /api/v1/leaves/balances/:employeeId/:policyId
  * @desc    Get specific employee leave balance for a policy
@@ -1331,6 +1505,282 @@ router.get('/balances', leaveController.getLeaveBalances);
  */
 router.get('/balances/:employeeId/:policyId', leaveController.getEmployeeLeaveBalance);
 
+// ==================== FISCAL YEAR ROLLOVER ROUTES ====================
+
+/**
+ * @route   GET /api/v1/leaves/rollover/preview?fromFiscalYear=2025
+ * @desc    Preview year-end rollover (carry forward, lapse, new balances) without writing
+ * @access  Admin only
+ */
+router.get(
+  '/rollover/preview',
+  requireExactRole(['ADMIN']),
+  leaveController.previewFiscalYearRollover
+);
+
+/**
+ * @route   POST /api/v1/leaves/rollover
+ * @desc    Close a fiscal year and open next year's balances (idempotent, supports dryRun)
+ * @access  Admin only
+ */
+router.post(
+  '/rollover',
+  requireExactRole(['ADMIN']),
+  validateRequest({ body: fiscalYearRolloverSchema }),
+  leaveController.runFiscalYearRollover
+);
+
+/**
+ * @route   POST /api/v1/leaves/rollover/expire-carry-forward
+ * @desc    Expire unused carried forward days past their expiry date
+ * @access  Admin only
+ */
+router.post(
+  '/rollover/expire-carry-forward',
+  requireExactRole(['ADMIN']),
+  validateRequest({ body: expireCarryForwardSchema }),
+  leaveController.expireCarriedForwardLeaves
+);
+
+// ==================== MONTHLY ACCRUAL ROUTES ====================
+
+/**
+ * @route   POST /api/v1/leaves/accrual/run
+ * @desc    Credit a month of MONTHLY/EARNED leave (idempotent per month, supports dryRun)
+ * @access  Admin only
+ */
+router.post(
+  '/accrual/run',
+  requireExactRole(['ADMIN']),
+  validateRequest({ body: monthlyAccrualSchema }),
+  leaveController.runMonthlyAccrual
+);
+
+// ==================== LEAVE ENCASHMENT ROUTES ====================
+
+/**
+ * @swagger
+ * /api/v1/leaves/encashment:
+ *   post:
+ *     summary: Submit a leave encashment request
+ *     description: Validated against policy encashLimitPerYear, maxEncashmentPercent of the available balance and one request per encashment period
+ *     tags: [Leave Management]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [policyId, days]
+ *             properties:
+ *               policyId:
+ *                 type: string
+ *               days:
+ *                 type: number
+ *                 minimum: 0.5
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Encashment request submitted successfully
+ *       400:
+ *         description: Encashment disabled, policy not encashable or limits exceeded
+ */
+router.post(
+  '/encashment',
+  validateRequest({ body: createEncashmentRequestSchema }),
+  leaveController.createEncashmentRequest
+);
+
+/**
+ * @route   GET /api/v1/leaves/encashment
+ * @desc    List encashment requests (own for employees, direct reports for managers)
+ * @access  All authenticated users
+ */
+router.get('/encashment', leaveController.getEncashmentRequests);
+
+/**
+ * @route   GET /api/v1/leaves/encashment/payroll-lines?payPeriod=2025-06&status=PENDING
+ * @desc    Encashment lines (days x daily rate) awaiting or consumed by payroll
+ * @access  Admin only
+ */
+router.get(
+  '/encashment/payroll-lines',
+  requireExactRole(['ADMIN']),
+  leaveController.getEncashmentPayrollLines
+);
+
+/**
+ * @route   POST /api/v1/leaves/encashment/payroll-lines/process
+ * @desc    Mark encashment lines as consumed by a payroll run
+ * @access  Admin only
+ */
+router.post(
+  '/encashment/payroll-lines/process',
+  requireExactRole(['ADMIN']),
+  validateRequest({ body: processEncashmentPayrollLinesSchema }),
+  leaveController.processEncashmentPayrollLines
+);
+
+/**
+ * @route   GET /api/v1/leaves/encashment/salary-grades
+ * @desc    List salary grade rates used to price encashment
+ * @access  Admin only
+ */
+router.get(
+  '/encashment/salary-grades',
+  requireExactRole(['ADMIN']),
+  leaveController.getSalaryGrades
+);
+
+/**
+ * @route   PUT /api/v1/leaves/encashment/salary-grades/:code
+ * @desc    Create or update the monthly salary rates for a salary grade
+ * @access  Admin only
+ */
+router.put(
+  '/encashment/salary-grades/:code',
+  requireExactRole(['ADMIN']),
+  validateRequest({ body: upsertSalaryGradeSchema }),
+  leaveController.upsertSalaryGrade
+);
+
+/**
+ * @route   POST /api/v1/leaves/encashment/:id/approve
+ * @desc    Approve or reject an encashment request (manager first, then HR final approval)
+ * @access  Manager (direct reports), Admin
+ */
+router.post(
+  '/encashment/:id/approve',
+  requireExactRole(['MANAGER', 'ADMIN']),
+  validateRequest({ body: approveEncashmentRequestSchema }),
+  leaveController.approveEncashmentRequest
+);
+
+/**
+ * @route   POST /api/v1/leaves/encashment/:id/cancel
+ * @desc    Cancel own pending encashment request
+ * @access  Employee (own)
+ */
+router.post('/encashment/:id/cancel', leaveController.cancelEncashmentRequest);
+
+// ==================== COMP-OFF ROUTES ====================
+
+/**
+ * @swagger
+ * /api/v1/leaves/comp-off/claims:
+ *   post:
+ *     summary: Claim comp-off for work on a holiday or weekend
+ *     description: The work date must be an active holiday for the employee's location or a configured weekend day. Credits are granted on manager approval.
+ *     tags: [Leave Management]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [workDate, reason]
+ *             properties:
+ *               workDate:
+ *                 type: string
+ *                 format: date
+ *               isHalfDay:
+ *                 type: boolean
+ *                 default: false
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Comp-off claim submitted successfully
+ *       400:
+ *         description: Not a holiday or weekend, or already claimed
+ */
+router.post(
+  '/comp-off/claims',
+  validateRequest({ body: createCompOffClaimSchema }),
+  leaveController.createCompOffClaim
+);
+
+/**
+ * @route   GET /api/v1/leaves/comp-off/claims
+ * @desc    List comp-off claims (own for employees, direct reports for managers)
+ * @access  All authenticated users
+ */
+router.get('/comp-off/claims', leaveController.getCompOffClaims);
+
+/**
+ * @route   POST /api/v1/leaves/comp-off/claims/:id/approve
+ * @desc    Approve (credit COMP_OFF balance) or reject a comp-off claim
+ * @access  Manager (direct reports), Admin
+ */
+router.post(
+  '/comp-off/claims/:id/approve',
+  requireExactRole(['MANAGER', 'ADMIN']),
+  validateRequest({ body: approveCompOffClaimSchema }),
+  leaveController.approveCompOffClaim
+);
+
+/**
+ * @route   GET /api/v1/leaves/comp-off/credits
+ * @desc    Unexpired comp-off credits with remaining days and expiry dates
+ * @access  Employee (own), Manager (direct reports), Admin
+ */
+router.get('/comp-off/credits', leaveController.getCompOffCredits);
+
+/**
+ * @route   POST /api/v1/leaves/comp-off/expire
+ * @desc    Expire unused comp-off credits past their expiry date
+ * @access  Admin only
+ */
+router.post(
+  '/comp-off/expire',
+  requireExactRole(['ADMIN']),
+  validateRequest({ body: expireCompOffCreditsSchema }),
+  leaveController.expireCompOffCredits
+);
+
+// ==================== LEAVE REMINDER ROUTES ====================
+
+/**
+ * @swagger
+ * /api/v1/leaves/reminders/run:
+ *   post:
+ *     summary: Send leave reminders
+ *     description: Reminds employees and their managers of approved leave starting within reminderBeforeDays (with the work handover notes), and employees of carried forward days and comp-off credits expiring within the same window. Each request, balance and credit is reminded once. Does nothing unless reminderEnabled is set. Also runs daily as the leave-reminders job.
+ *     tags: [Leave Management]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               asOf:
+ *                 type: string
+ *                 format: date-time
+ *                 description: "Reference time for the reminder window (default: now)"
+ *               dryRun:
+ *                 type: boolean
+ *                 default: false
+ *                 description: List the reminders that would be sent without sending them
+ *     responses:
+ *       200:
+ *         description: Leave reminders sent successfully
+ *       403:
+ *         description: Admin access required
+ */
+router.post(
+  '/reminders/run',
+  requireExactRole(['ADMIN']),
+  validateRequest({ body: sendLeaveRemindersSchema }),
+  leaveController.sendLeaveReminders
+);
+
 // ==================== LEAVE SETTINGS ROUTES ====================
 
 /**
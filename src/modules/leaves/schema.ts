@@ -1,5 +1,13 @@
 import { z } from 'zod';
-import { LeaveType, LeaveRequestStatus, LeaveApprovalLevel, LeaveCreditType } from '@prisma/client';
+import {
+  LeaveType,
+  LeaveRequestStatus,
+  LeaveApprovalLevel,
+  LeaveCreditType,
+  DelegationScope,
+  Department,
+  LeaveBalanceTransactionType,
+} from '@prisma/client';
 
 // Base validation helpers
 const positiveNumber = z.number().min(0, 'Must be a positive number');
@@ -19,6 +27,35 @@ export const leaveApprovalLevelSchema = z.nativeEnum(LeaveApprovalLevel);
 // Leave Credit Type Enum Schema
 export const leaveCreditTypeSchema = z.nativeEnum(LeaveCreditType);
 
+// Delegation Scope Enum Schema
+export const delegationScopeSchema = z.nativeEnum(DelegationScope);
+
+// Late Mark Rules Schema (stored in LeaveSettings.lateMarkRules)
+export const lateMarkRulesSchema = z.object({
+  enabled: z.boolean().default(false),
+  // Check-ins after workdayStartTime + graceMinutes are late marks
+  workdayStartTime: z
+    .string()
+    .regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Workday start time must be in HH:mm format')
+    .default('09:30'),
+  graceMinutes: z.number().int().min(0).max(60).default(15),
+  // Check-ins later than this many minutes count as a half day instead
+  halfDayAfterMinutes: z.number().int().min(1).max(480).optional(),
+  period: z.enum(['MONTHLY']).default('MONTHLY'),
+  // Late marks allowed per period before deductions start
+  allowedLatePerPeriod: z.number().int().min(0).max(31).default(3),
+  // Every `lateCount` late marks beyond the allowance deduct `deductDays` of `leaveType`
+  deduction: z
+    .object({
+      lateCount: z.number().int().min(1).max(31),
+      deductDays: z.number().min(0.5).max(5),
+      leaveType: leaveTypeSchema.default('CASUAL'),
+    })
+    .optional(),
+});
+
+export type LateMarkRules = z.infer<typeof lateMarkRulesSchema>;
+
 // Leave Policy Schemas
 export const createLeavePolicySchema = z
   .object({
@@ -42,6 +79,7 @@ export const createLeavePolicySchema = z
       .min(0)
       .max(31, 'Accrual rate cannot exceed 31 days per month')
       .optional(),
+    lwpAccrualMode: z.enum(['PRORATE', 'SKIP']).default('PRORATE'),
 
     // Carry Forward Rules
     carryForward: z.boolean().default(false),
@@ -168,6 +206,7 @@ export const updateLeavePolicySchema = z.object({
   quota: positiveNumber.max(365, 'Quota cannot exceed 365 days').optional(),
   creditType: leaveCreditTypeSchema.optional(),
   accrualRate: z.number().min(0).max(31, 'Accrual rate cannot exceed 31 days per month').optional(),
+  lwpAccrualMode: z.enum(['PRORATE', 'SKIP']).optional(),
 
   // Carry Forward Rules
   carryForward: z.boolean().optional(),
@@ -485,21 +524,8 @@ export const createLeaveSettingsSchema = z
     autoAbsentIfNoCheckIn: z.boolean().default(true),
     autoLWPIfNoLeave: z.boolean().default(true),
     gracePeriodHours: z.number().min(0).max(72, 'Grace period cannot exceed 72 hours').default(48),
-    lateMarkRules: z
-      .object({
-        enabled: z.boolean().default(false),
-        graceMinutes: z.number().min(0).max(60).default(15),
-        deductionRules: z
-          .array(
-            z.object({
-              minutesLate: z.number().min(1),
-              deductionType: z.enum(['MINUTES', 'HOURS', 'HALF_DAY']),
-              deductionValue: z.number().min(0),
-            })
-          )
-          .optional(),
-      })
-      .optional(),
+    convertLWPWithinGrace: z.boolean().default(true),
+    lateMarkRules: lateMarkRulesSchema.optional(),
 
     // Compliance and Security
     require2FA: z.boolean().default(false),
@@ -531,6 +557,7 @@ export const createLeaveSettingsSchema = z
       .min(0)
       .max(100, 'Encashment percentage cannot exceed 100')
       .optional(),
+    encashmentDaysPerMonth: z.number().int().min(1).max(31).default(30),
 
     // Metadata
     lastUpdatedBy: requiredString,
@@ -674,21 +701,8 @@ export const updateLeaveSettingsSchema = z.object({
   autoAbsentIfNoCheckIn: z.boolean().optional(),
   autoLWPIfNoLeave: z.boolean().optional(),
   gracePeriodHours: z.number().min(0).max(72, 'Grace period cannot exceed 72 hours').optional(),
-  lateMarkRules: z
-    .object({
-      enabled: z.boolean().default(false),
-      graceMinutes: z.number().min(0).max(60).default(15),
-      deductionRules: z
-        .array(
-          z.object({
-            minutesLate: z.number().min(1),
-            deductionType: z.enum(['MINUTES', 'HOURS', 'HALF_DAY']),
-            deductionValue: z.number().min(0),
-          })
-        )
-        .optional(),
-    })
-    .optional(),
+  convertLWPWithinGrace: z.boolean().optional(),
+  lateMarkRules: lateMarkRulesSchema.optional(),
 
   // Compliance and Security
   require2FA: z.boolean().optional(),
@@ -716,6 +730,7 @@ export const updateLeaveSettingsSchema = z.object({
     .min(0)
     .max(100, 'Encashment percentage cannot exceed 100')
     .optional(),
+  encashmentDaysPerMonth: z.number().int().min(1).max(31).optional(),
 
   // Metadata
   lastUpdatedBy: requiredString,
@@ -795,6 +810,10 @@ export const getLeaveRequestsQuerySchema = z.object({
     (val) => (typeof val === 'string' ? val.toLowerCase() === 'true' : val),
     z.boolean().optional()
   ),
+  isEscalated: z.preprocess(
+    (val) => (typeof val === 'string' ? val.toLowerCase() === 'true' : val),
+    z.boolean().optional()
+  ),
   approvalLevel: z.enum(['MANAGER', 'HR', 'BOTH', 'AUTO']).optional(),
   employmentType: z.enum(['FULL_TIME', 'PART_TIME', 'INTERN', 'CONTRACT']).optional(),
   
@@ -1194,3 +1213,261 @@ export const exportReportSchema = z.object({
 });
 
 export type ExportReportInput = z.infer<typeof exportReportSchema>;
+
+// ==================== FISCAL YEAR ROLLOVER SCHEMAS ====================
+
+export const fiscalYearRolloverSchema = z.object({
+  fromFiscalYear: z.number().int().min(2020).max(2050, 'Invalid fiscal year'),
+  dryRun: z.boolean().default(false),
+});
+
+export type FiscalYearRolloverInput = z.infer<typeof fiscalYearRolloverSchema>;
+
+export const fiscalYearRolloverPreviewQuerySchema = z.object({
+  fromFiscalYear: z
+    .string()
+    .regex(/^\d{4}$/, 'Fiscal year must be a 4 digit number')
+    .transform(Number),
+});
+
+export const expireCarryForwardSchema = z.object({
+  asOf: dateFormat.optional(),
+});
+
+export type ExpireCarryForwardInput = z.infer<typeof expireCarryForwardSchema>;
+
+// ==================== MONTHLY ACCRUAL SCHEMAS ====================
+
+export const monthlyAccrualSchema = z.object({
+  year: z.number().int().min(2020).max(2050, 'Invalid year'),
+  month: z.number().int().min(1).max(12),
+  employeeId: z.string().min(1).optional(),
+  policyId: z.string().min(1).optional(),
+  dryRun: z.boolean().default(false),
+});
+
+export type MonthlyAccrualInput = z.infer<typeof monthlyAccrualSchema>;
+
+// ==================== BALANCE LEDGER SCHEMAS ====================
+
+export const getBalanceLedgerQuerySchema = z.object({
+  type: z.nativeEnum(LeaveBalanceTransactionType).optional(),
+  page: z.string().regex(/^\d+$/, 'Page must be a number').transform(Number).default('1'),
+  limit: z.string().regex(/^\d+$/, 'Limit must be a number').transform(Number).default('50'),
+});
+
+export type GetBalanceLedgerQuery = z.infer<typeof getBalanceLedgerQuerySchema>;
+
+export const balanceConsistencyQuerySchema = z.object({
+  employeeId: z.string().min(1).optional(),
+  fiscalYear: z.preprocess(
+    (val) => (typeof val === 'string' ? parseInt(val) : val),
+    z.number().min(2020).max(2050).optional()
+  ),
+  driftOnly: z.preprocess((val) => {
+    if (typeof val === 'string') {
+      return val.toLowerCase() === 'true';
+    }
+    return val;
+  }, z.boolean().default(true)),
+});
+
+export type BalanceConsistencyQuery = z.infer<typeof balanceConsistencyQuerySchema>;
+
+// ==================== LEAVE ENCASHMENT SCHEMAS ====================
+
+export const createEncashmentRequestSchema = z.object({
+  policyId: requiredString,
+  days: z
+    .number()
+    .positive('Days must be greater than 0')
+    .max(365)
+    .refine((days) => Number.isInteger(days * 2), 'Days must be in multiples of 0.5'),
+  reason: z.string().max(500, 'Reason must not exceed 500 characters').optional(),
+});
+
+export type CreateEncashmentRequestInput = z.infer<typeof createEncashmentRequestSchema>;
+
+export const approveEncashmentRequestSchema = z
+  .object({
+    action: z.enum(['APPROVE', 'REJECT']),
+    comments: z.string().max(1000, 'Comments must not exceed 1000 characters').optional(),
+  })
+  .refine((data) => data.action !== 'REJECT' || !!data.comments, {
+    message: 'Comments are required for rejection',
+    path: ['comments'],
+  });
+
+export type ApproveEncashmentRequestInput = z.infer<typeof approveEncashmentRequestSchema>;
+
+export const getEncashmentRequestsQuerySchema = z.object({
+  page: z.string().regex(/^\d+$/, 'Page must be a number').transform(Number).default('1'),
+  limit: z.string().regex(/^\d+$/, 'Limit must be a number').transform(Number).default('20'),
+  employeeId: z.string().min(1).optional(),
+  status: leaveRequestStatusSchema.optional(),
+  fiscalYear: z.preprocess(
+    (val) => (typeof val === 'string' ? parseInt(val) : val),
+    z.number().min(2020).max(2050).optional()
+  ),
+});
+
+export type GetEncashmentRequestsQuery = z.infer<typeof getEncashmentRequestsQuerySchema>;
+
+export const getEncashmentPayrollLinesQuerySchema = z.object({
+  payPeriod: z
+    .string()
+    .regex(/^\d{4}-(0[1-9]|1[0-2])$/, 'Pay period must be in YYYY-MM format')
+    .optional(),
+  status: z.enum(['PENDING', 'PROCESSED']).optional(),
+  employeeId: z.string().min(1).optional(),
+});
+
+export type GetEncashmentPayrollLinesQuery = z.infer<typeof getEncashmentPayrollLinesQuerySchema>;
+
+export const processEncashmentPayrollLinesSchema = z.object({
+  lineIds: z.array(requiredString).min(1, 'At least one line is required').max(500),
+  payrollReference: requiredString.max(100, 'Payroll reference must not exceed 100 characters'),
+});
+
+export type ProcessEncashmentPayrollLinesInput = z.infer<
+  typeof processEncashmentPayrollLinesSchema
+>;
+
+export const upsertSalaryGradeSchema = z
+  .object({
+    name: z.string().max(100).optional(),
+    basicMonthlySalary: z.number().positive('Basic salary must be greater than 0'),
+    grossMonthlySalary: z.number().positive('Gross salary must be greater than 0'),
+    currency: z.string().length(3, 'Currency must be a 3 letter code').default('INR'),
+    isActive: z.boolean().default(true),
+  })
+  .refine((data) => data.grossMonthlySalary >= data.basicMonthlySalary, {
+    message: 'Gross salary cannot be lower than basic salary',
+    path: ['grossMonthlySalary'],
+  });
+
+export type UpsertSalaryGradeInput = z.infer<typeof upsertSalaryGradeSchema>;
+
+// ==================== COMP-OFF SCHEMAS ====================
+
+export const createCompOffClaimSchema = z.object({
+  workDate: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'Work date must be in YYYY-MM-DD format')
+    .refine((date) => new Date(date) <= new Date(), 'Work date cannot be in the future'),
+  isHalfDay: z.boolean().default(false),
+  reason: requiredString.max(500, 'Reason must not exceed 500 characters'),
+});
+
+export type CreateCompOffClaimInput = z.infer<typeof createCompOffClaimSchema>;
+
+export const approveCompOffClaimSchema = z
+  .object({
+    action: z.enum(['APPROVE', 'REJECT']),
+    comments: z.string().max(1000, 'Comments must not exceed 1000 characters').optional(),
+  })
+  .refine((data) => data.action !== 'REJECT' || !!data.comments, {
+    message: 'Comments are required for rejection',
+    path: ['comments'],
+  });
+
+export type ApproveCompOffClaimInput = z.infer<typeof approveCompOffClaimSchema>;
+
+export const getCompOffClaimsQuerySchema = z.object({
+  employeeId: z.string().min(1).optional(),
+  status: leaveRequestStatusSchema.optional(),
+});
+
+export type GetCompOffClaimsQuery = z.infer<typeof getCompOffClaimsQuerySchema>;
+
+export const getCompOffCreditsQuerySchema = z.object({
+  employeeId: z.string().min(1).optional(),
+  includeExpired: z.preprocess((val) => {
+    if (typeof val === 'string') {
+      return val.toLowerCase() === 'true';
+    }
+    return val;
+  }, z.boolean().default(false)),
+});
+
+export type GetCompOffCreditsQuery = z.infer<typeof getCompOffCreditsQuerySchema>;
+
+export const expireCompOffCreditsSchema = z.object({
+  asOf: dateFormat.optional(),
+});
+
+export type ExpireCompOffCreditsInput = z.infer<typeof expireCompOffCreditsSchema>;
+
+// ==================== LEAVE REMINDER SCHEMAS ====================
+
+export const sendLeaveRemindersSchema = z.object({
+  asOf: dateFormat.optional(),
+  dryRun: z.boolean().default(false),
+});
+
+export type SendLeaveRemindersInput = z.infer<typeof sendLeaveRemindersSchema>;
+
+// ==================== APPROVAL DELEGATION SCHEMAS ====================
+
+export const createApprovalDelegationSchema = z
+  .object({
+    delegateToUserId: requiredString,
+    reason: requiredString.max(500, 'Reason must not exceed 500 characters'),
+    validFrom: dateFormat.optional(),
+    validUntil: dateFormat.optional(),
+    delegationType: delegationScopeSchema.default('FULL'),
+    leaveTypes: z.array(leaveTypeSchema).default([]),
+    departments: z.array(z.nativeEnum(Department)).default([]),
+  })
+  .refine(
+    (data) => {
+      if (data.validFrom && data.validUntil) {
+        return new Date(data.validFrom) < new Date(data.validUntil);
+      }
+      return true;
+    },
+    {
+      message: 'Valid until must be after valid from',
+      path: ['validUntil'],
+    }
+  )
+  .refine(
+    (data) => {
+      // Partial delegations must be narrowed by leave type or department
+      if (data.delegationType === 'PARTIAL') {
+        return data.leaveTypes.length > 0 || data.departments.length > 0;
+      }
+      return true;
+    },
+    {
+      message: 'Partial delegation requires at least one leave type or department',
+      path: ['delegationType'],
+    }
+  );
+
+export type CreateApprovalDelegationInput = z.infer<typeof createApprovalDelegationSchema>;
+
+export const revokeApprovalDelegationSchema = z.object({
+  reason: z.string().max(500, 'Reason must not exceed 500 characters').optional(),
+});
+
+export type RevokeApprovalDelegationInput = z.infer<typeof revokeApprovalDelegationSchema>;
+
+export const getApprovalDelegationsQuerySchema = z.object({
+  direction: z.enum(['given', 'received', 'all']).default('all'),
+  includeInactive: z.preprocess(
+    (val) => (typeof val === 'string' ? val.toLowerCase() === 'true' : val),
+    z.boolean().default(false)
+  ),
+});
+
+export type GetApprovalDelegationsQuery = z.infer<typeof getApprovalDelegationsQuerySchema>;
+
+// ==================== APPROVAL ESCALATION SCHEMAS ====================
+
+export const escalateLeaveRequestsSchema = z.object({
+  asOf: dateFormat.optional(),
+  dryRun: z.boolean().default(false),
+});
+
+export type EscalateLeaveRequestsInput = z.infer<typeof escalateLeaveRequestsSchema>;
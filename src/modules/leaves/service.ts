@@ -1,6 +1,15 @@
-import { PrismaClient, Department } from '@prisma/client';
+import { PrismaClient, Prisma, Department } from '@prisma/client';
 import { Decimal } from '@prisma/client/runtime/library';
-import { LeaveType, LeavePolicy, LeaveRequest, LeaveBalance, LeaveSettings } from '@prisma/client';
+import {
+  LeaveType,
+  LeavePolicy,
+  LeaveRequest,
+  LeaveBalance,
+  LeaveSettings,
+  ApprovalDelegation,
+  LeaveBalanceTransactionType,
+  NotificationChannel,
+} from '@prisma/client';
 import {
   CreateLeavePolicyInput,
   UpdateLeavePolicyInput,
@@ -14,11 +23,70 @@ import {
   UpdateLeaveSettingsInput,
   GetLeaveRequestsQuery,
   GetLeaveBalanceQuery,
+  CreateApprovalDelegationInput,
+  RevokeApprovalDelegationInput,
+  GetApprovalDelegationsQuery,
+  FiscalYearRolloverInput,
+  ExpireCarryForwardInput,
+  MonthlyAccrualInput,
+  GetBalanceLedgerQuery,
+  BalanceConsistencyQuery,
+  CreateEncashmentRequestInput,
+  ApproveEncashmentRequestInput,
+  GetEncashmentRequestsQuery,
+  GetEncashmentPayrollLinesQuery,
+  ProcessEncashmentPayrollLinesInput,
+  UpsertSalaryGradeInput,
+  CreateCompOffClaimInput,
+  ApproveCompOffClaimInput,
+  GetCompOffClaimsQuery,
+  GetCompOffCreditsQuery,
+  ExpireCompOffCreditsInput,
+  EscalateLeaveRequestsInput,
+  SendLeaveRemindersInput,
 } from './schema.js';
 import { AppError } from '../../utils/response.js';
+import { getYearlyResetRules } from '../../config/leavePolicy.js';
+import { attendanceService } from '../attendance/service.js';
+import { NotificationService, NotificationData } from '../../services/notificationService.js';
 
 const prisma = new PrismaClient();
 
+type LeaveNotificationEvent =
+  | 'APPLIED'
+  | 'PENDING_APPROVAL'
+  | 'APPROVED'
+  | 'REJECTED'
+  | 'CANCELLED'
+  | 'ESCALATED'
+  | 'REMINDER';
+
+interface LeaveNotificationRecipient {
+  recipientId: string;
+  userId?: string;
+  email?: string;
+  phone?: string;
+}
+
+// Carried forward days or a comp-off credit close to expiry
+interface ExpiringLeaveItem {
+  source: 'CARRY_FORWARD' | 'COMP_OFF';
+  id: string;
+  description: string;
+  days: number;
+  expiresAt: Date;
+}
+
+interface ApprovalDelegationInfo {
+  isDelegated: boolean;
+  delegationId?: string;
+  delegatedBy?: string;
+  delegatedByName?: string;
+  scope?: string;
+  reason?: string;
+  validUntil?: Date;
+}
+
 export class LeaveService {
   // ==================== LEAVE POLICIES ====================
 
@@ -189,6 +257,11 @@ export class LeaveService {
 
       // Real-time balance checking with detailed breakdown
       const balanceValidation = await this.validateLeaveBalance(data.employeeId, data.policyId, totalDays, policy);
+
+      // Comp-off must be covered by credits that are still valid on the last leave day
+      if (policy.leaveType === 'COMP_OFF') {
+        await this.validateCompOffCredits(data.employeeId, endDate, totalDays);
+      }
       
       // Advanced overlap detection with conflict resolution
       await this.validateLeaveOverlaps(data.employeeId, startDate, endDate, data.leaveType);
@@ -203,41 +276,57 @@ export class LeaveService {
       // Team coverage analysis
       const teamCoverageImpact = await this.analyzeTeamCoverageImpact(employeeWithRole, startDate, endDate);
 
-      // Create leave request with enhanced metadata
-      const leaveRequest = await prisma.leaveRequest.create({
-        data: {
-          ...data,
-          totalDays,
-          leaveType: policy.leaveType,
-          appliedAt: new Date(),
-          isBackdated: this.isBackdatedRequest(startDate),
-        },
-        include: {
-          employee: {
-            select: {
-              firstName: true,
-              lastName: true,
-              email: true,
-              department: true,
-              employmentType: true,
-              workLocation: true,
-              jobTitle: true,
-            },
+      // Create leave request with enhanced metadata; the request, the balance hold and any
+      // comp-off credit consumption commit together
+      const leaveRequest = await prisma.$transaction(async (tx) => {
+        const created = await tx.leaveRequest.create({
+          data: {
+            ...data,
+            totalDays,
+            leaveType: policy.leaveType,
+            appliedAt: new Date(),
+            isBackdated: this.isBackdatedRequest(startDate),
           },
-          policy: {
-            select: {
-              name: true,
-              code: true,
-              approvalLevel: true,
-              autoApprovalEnabled: true,
-              noticePeriodDays: true,
+          include: {
+            employee: {
+              select: {
+                firstName: true,
+                lastName: true,
+                email: true,
+                department: true,
+                employmentType: true,
+                workLocation: true,
+                jobTitle: true,
+              },
+            },
+            policy: {
+              select: {
+                name: true,
+                code: true,
+                approvalLevel: true,
+                autoApprovalEnabled: true,
+                noticePeriodDays: true,
+              },
             },
           },
-        },
-      });
+        });
+
+        // Update balance with precise tracking
+        await this.updateBalanceAfterRequest(
+          tx,
+          balanceValidation.balance,
+          totalDays,
+          'PENDING',
+          created.id,
+          data.employeeId
+        );
+
+        if (policy.leaveType === 'COMP_OFF') {
+          await this.consumeCompOffCredits(tx, created.id, data.employeeId, endDate, totalDays);
+        }
 
-      // Update balance with precise tracking
-      await this.updateBalanceAfterRequest(balanceValidation.balance, totalDays, 'PENDING');
+        return created;
+      });
 
       // Create comprehensive audit log
       await this.createAuditLog(leaveRequest.id, 'CREATED', data.employeeId, 'Employee', {
@@ -256,10 +345,11 @@ export class LeaveService {
       // Auto-approval logic if conditions are met
       if (policy.autoApprovalEnabled && this.canAutoApprove(totalDays, policy, employee)) {
         await this.autoApproveLeaveRequest(leaveRequest.id, policy);
+        await this.reverseCoveredAutoLwp({ ...leaveRequest, status: 'APPROVED' });
       }
 
       // Send comprehensive notifications
-      await this.sendLeaveNotifications(leaveRequest, 'APPLIED');
+      await this.sendLeaveNotifications(leaveRequest, 'APPLIED', { urgent: isEmergencyLeave });
 
       // Trigger workflow automation
       await this.triggerLeaveWorkflow(leaveRequest);
@@ -336,19 +426,20 @@ export class LeaveService {
         throw new AppError('Leave request is not pending approval', 400);
       }
 
-      // Enhanced authority validation
-      await this.validateApprovalAuthority(
+      // Check for delegation if approver is not the direct authority
+      const delegationInfo = await this.checkApprovalDelegation(
         leaveRequest,
         approverId,
-        data.approverRole,
-        data.action
+        data.approverRole
       );
 
-      // Check for delegation if approver is not the direct authority
-      const delegationInfo = await this.checkApprovalDelegation(
+      // Enhanced authority validation
+      await this.validateApprovalAuthority(
         leaveRequest,
         approverId,
-        data.approverRole
+        data.approverRole,
+        data.action,
+        delegationInfo
       );
 
       // Determine approval flow and execute
@@ -369,6 +460,17 @@ export class LeaveService {
           comments: data.comments,
           delegatedBy: delegationInfo?.delegatedBy,
           delegationReason: delegationInfo?.reason,
+          fieldChanges: delegationInfo
+            ? {
+                delegation: {
+                  id: delegationInfo.delegationId,
+                  delegatedBy: delegationInfo.delegatedBy,
+                  delegatedByName: delegationInfo.delegatedByName,
+                  scope: delegationInfo.scope,
+                  validUntil: delegationInfo.validUntil?.toISOString(),
+                },
+              }
+            : undefined,
           approvalLevel: leaveRequest.policy.approvalLevel,
           isManagerApproval: data.approverRole === 'MANAGER',
           isHRApproval: data.approverRole === 'HR',
@@ -379,8 +481,12 @@ export class LeaveService {
         }
       );
 
+      if (approvalResult.status === 'APPROVED') {
+        await this.reverseCoveredAutoLwp(approvalResult);
+      }
+
       // Send notifications
-      await this.sendApprovalNotifications(approvalResult, data.action, delegationInfo);
+      await this.sendApprovalNotifications(approvalResult, data.action, delegationInfo, approverId);
 
       // Trigger next steps in workflow if needed
       await this.triggerNextApprovalStep(approvalResult);
@@ -421,14 +527,19 @@ export class LeaveService {
 
       // Restore balance if was approved or pending
       if (leaveRequest.status === 'APPROVED') {
-        await this.restoreApprovedBalance(leaveRequest);
+        await this.restoreApprovedBalance(leaveRequest, userId);
       } else if (leaveRequest.status === 'PENDING') {
-        await this.restorePendingBalance(leaveRequest);
+        await this.restorePendingBalance(leaveRequest, userId);
       }
 
       // Create audit log
       await this.createAuditLog(data.id, 'CANCELLED', userId, 'Employee');
 
+      await this.sendLeaveNotifications(updatedRequest, 'CANCELLED', {
+        actorId: userId,
+        previousStatus: leaveRequest.status,
+      });
+
       return updatedRequest;
     } catch (error) {
       if (error instanceof AppError) throw error;
@@ -539,6 +650,9 @@ export class LeaveService {
     if (filters.isBackdated !== undefined) {
       whereClause.isBackdated = filters.isBackdated;
     }
+    if (filters.isEscalated !== undefined) {
+      whereClause.escalatedAt = filters.isEscalated ? { not: null } : null;
+    }
 
     // Employment type filter (through employee relationship)
     if (filters.employmentType) {
@@ -676,12 +790,34 @@ export class LeaveService {
         );
       }
 
-      const balance = await prisma.leaveBalance.create({
-        data: {
-          ...data,
-          availableBalance: data.totalEntitlement + data.carriedForward,
-          lastUpdated: new Date(),
-        },
+      const balance = await prisma.$transaction(async (tx) => {
+        const created = await tx.leaveBalance.create({
+          data: {
+            ...data,
+            availableBalance: data.totalEntitlement + data.carriedForward,
+            lastUpdated: new Date(),
+          },
+        });
+
+        await this.recordBalanceTransaction(tx, {
+          balance: created,
+          type: 'ACCRUAL',
+          days: data.totalEntitlement,
+          balanceAfter: data.totalEntitlement,
+          description: `Opening entitlement for fiscal year ${data.fiscalYear}`,
+          performedBy: data.updatedBy,
+        });
+        if (data.carriedForward > 0) {
+          await this.recordBalanceTransaction(tx, {
+            balance: created,
+            type: 'CARRY_FORWARD',
+            days: data.carriedForward,
+            description: 'Opening carried forward days',
+            performedBy: data.updatedBy,
+          });
+        }
+
+        return created;
       });
 
       return balance;
@@ -693,32 +829,60 @@ export class LeaveService {
 
   async updateLeaveBalance(data: UpdateLeaveBalanceInput): Promise<LeaveBalance> {
     try {
-      const existingBalance = await prisma.leaveBalance.findUnique({
-        where: { id: data.id },
-      });
+      const balance = await prisma.$transaction(async (tx) => {
+        // Read inside the transaction so the recalculation sees the latest pending days
+        const existingBalance = await tx.leaveBalance.findUnique({
+          where: { id: data.id },
+        });
 
-      if (!existingBalance) {
-        throw new AppError('Leave balance not found', 404);
-      }
+        if (!existingBalance) {
+          throw new AppError('Leave balance not found', 404);
+        }
 
-      // Recalculate available balance
-      const totalEntitlement = data.totalEntitlement ?? existingBalance.totalEntitlement;
-      const carriedForward = data.carriedForward ?? existingBalance.carriedForward;
-      const usedLeaves = data.usedLeaves ?? existingBalance.usedLeaves;
-      const pendingLeaves = existingBalance.pendingLeaves;
+        // Recalculate available balance
+        const totalEntitlement = data.totalEntitlement ?? existingBalance.totalEntitlement;
+        const carriedForward = data.carriedForward ?? existingBalance.carriedForward;
+        const usedLeaves = data.usedLeaves ?? existingBalance.usedLeaves;
+        const pendingLeaves = existingBalance.pendingLeaves;
+
+        const availableBalance = new Decimal(totalEntitlement)
+          .add(carriedForward)
+          .sub(usedLeaves)
+          .sub(pendingLeaves);
+
+        const updated = await tx.leaveBalance.update({
+          where: { id: data.id },
+          data: {
+            ...data,
+            availableBalance,
+            lastUpdated: new Date(),
+          },
+        });
 
-      const availableBalance = new Decimal(totalEntitlement)
-        .add(carriedForward)
-        .sub(usedLeaves)
-        .sub(pendingLeaves);
+        await this.recordBalanceTransaction(tx, {
+          balance: updated,
+          type: 'ADJUSTMENT',
+          days: availableBalance.sub(existingBalance.availableBalance),
+          usedChange: new Decimal(usedLeaves).sub(existingBalance.usedLeaves),
+          description: 'Manual balance adjustment',
+          metadata: {
+            previous: {
+              totalEntitlement: existingBalance.totalEntitlement.toNumber(),
+              carriedForward: existingBalance.carriedForward.toNumber(),
+              usedLeaves: existingBalance.usedLeaves.toNumber(),
+              encashedThisYear: existingBalance.encashedThisYear.toNumber(),
+            },
+            new: {
+              totalEntitlement: updated.totalEntitlement.toNumber(),
+              carriedForward: updated.carriedForward.toNumber(),
+              usedLeaves: updated.usedLeaves.toNumber(),
+              encashedThisYear: updated.encashedThisYear.toNumber(),
+            },
+          },
+          performedBy: data.updatedBy,
+        });
 
-      const balance = await prisma.leaveBalance.update({
-        where: { id: data.id },
-        data: {
-          ...data,
-          availableBalance,
-          lastUpdated: new Date(),
-        },
+        return updated;
       });
 
       return balance;
@@ -783,125 +947,2038 @@ export class LeaveService {
     });
   }
 
-  // ==================== LEAVE SETTINGS ====================
-
-  async createLeaveSettings(data: CreateLeaveSettingsInput): Promise<LeaveSettings> {
+  // ==================== FISCAL YEAR ROLLOVER ====================
+
+  /**
+   * Close `fromFiscalYear` balances and open the next year's balances.
+   *
+   * Unused days carry forward up to `maxCarryForward` for carry-forward
+   * policies and lapse otherwise. `yearlyResetRules` in leave-policy.json can
+   * lower the limit per policy code or stop a policy carrying forward at all.
+   * Negative balances carry into the new year as a deficit only where days may
+   * carry forward. Carried days expire `carryForwardExpiry` days into the new
+   * year. Each source balance is claimed via `rolledOverAt`, so re-runs skip it.
+   */
+  async runFiscalYearRollover(data: FiscalYearRolloverInput, performedBy: string) {
     try {
-      // Check if settings already exist
-      const existingSettings = await prisma.leaveSettings.findFirst();
+      const { fromFiscalYear, dryRun } = data;
+      const toFiscalYear = fromFiscalYear + 1;
+      const settings = await this.getLeaveSettings();
+      const newYearStart = this.getFiscalYearStartDate(toFiscalYear, settings);
+      const resetRules = getYearlyResetRules();
 
-      if (existingSettings) {
-        throw new AppError('Leave settings already exist. Use update instead.', 400);
+      const balances = await prisma.leaveBalance.findMany({
+        where: { fiscalYear: fromFiscalYear, employee: { isActive: true } },
+        include: { policy: true },
+        orderBy: [{ employeeId: 'asc' }, { policyId: 'asc' }],
+      });
+
+      const items = [];
+
+      for (const balance of balances) {
+        const { policy } = balance;
+        const closingAvailable = balance.availableBalance;
+        const remaining = Decimal.max(closingAvailable, 0);
+        const allowsCarry =
+          policy.carryForward && !resetRules?.noCarryForwardLeaves.includes(policy.code);
+        // A deficit is only carried where days may carry; elsewhere it is written off
+        const deficit = allowsCarry ? Decimal.min(closingAvailable, 0) : new Decimal(0);
+
+        let carried = new Decimal(0);
+        if (allowsCarry) {
+          const limits = [policy.maxCarryForward, resetRules?.carryForwardLimits[policy.code]];
+          carried = limits.reduce<Decimal>(
+            (days, limit) => (limit == null ? days : Decimal.min(days, limit)),
+            remaining
+          );
+        }
+        const lapsed = remaining.sub(carried);
+        const openingCarry = carried.add(deficit);
+        const entitlement = new Decimal(policy.creditType === 'YEARLY' ? policy.quota || 0 : 0);
+        const carryForwardExpiresAt =
+          carried.gt(0) && policy.carryForwardExpiry
+            ? new Date(newYearStart.getTime() + policy.carryForwardExpiry * 24 * 60 * 60 * 1000)
+            : null;
+
+        const item = {
+          balanceId: balance.id,
+          employeeId: balance.employeeId,
+          policyId: policy.id,
+          policyCode: policy.code,
+          leaveType: policy.leaveType,
+          closingAvailable: closingAvailable.toNumber(),
+          carriedForward: openingCarry.toNumber(),
+          lapsed: lapsed.toNumber(),
+          deficitWrittenOff: deficit.sub(Decimal.min(closingAvailable, 0)).toNumber(),
+          newEntitlement: entitlement.toNumber(),
+          newAvailable: entitlement.add(openingCarry).toNumber(),
+          carryForwardExpiresAt,
+          action: 'OPEN' as 'OPEN' | 'MERGE' | 'SKIP_ALREADY_ROLLED' | 'SKIP_INACTIVE_POLICY',
+        };
+
+        if (balance.rolledOverAt) {
+          item.action = 'SKIP_ALREADY_ROLLED';
+          items.push(item);
+          continue;
+        }
+
+        if (!policy.isActive) {
+          // Nothing to open - everything lapses
+          item.carriedForward = 0;
+          item.lapsed = remaining.toNumber();
+          item.newEntitlement = 0;
+          item.newAvailable = 0;
+          item.action = 'SKIP_INACTIVE_POLICY';
+        }
+
+        const existingTarget = await prisma.leaveBalance.findUnique({
+          where: {
+            employeeId_policyId_fiscalYear: {
+              employeeId: balance.employeeId,
+              policyId: policy.id,
+              fiscalYear: toFiscalYear,
+            },
+          },
+        });
+        if (existingTarget && item.action === 'OPEN') {
+          item.action = 'MERGE';
+        }
+
+        items.push(item);
+        if (dryRun) continue;
+
+        await prisma.$transaction(async (tx) => {
+          // Claim the source balance; a concurrent or repeated run finds it already rolled
+          const claimed = await tx.leaveBalance.updateMany({
+            where: { id: balance.id, rolledOverAt: null },
+            data: {
+              rolledOverAt: new Date(),
+              lapsedLeaves: new Decimal(item.lapsed),
+              updatedBy: performedBy,
+            },
+          });
+          if (claimed.count === 0) {
+            item.action = 'SKIP_ALREADY_ROLLED';
+            return;
+          }
+
+          if (item.action === 'SKIP_INACTIVE_POLICY') return;
+
+          let target;
+          if (existingTarget) {
+            // Balance opened early (e.g. bulk import) - add the carry forward to it, keeping
+            // whichever carry forward expiry comes first
+            const expiries = [existingTarget.carryForwardExpiresAt, carryForwardExpiresAt];
+            const earliestExpiry = expiries
+              .filter((expiry): expiry is Date => expiry !== null)
+              .sort((a, b) => a.getTime() - b.getTime())[0];
+            target = await tx.leaveBalance.update({
+              where: { id: existingTarget.id },
+              data: {
+                carriedForward: { increment: openingCarry },
+                availableBalance: { increment: openingCarry },
+                carryForwardExpiresAt: earliestExpiry ?? null,
+                lastUpdated: new Date(),
+                updatedBy: performedBy,
+              },
+            });
+          } else {
+            target = await tx.leaveBalance.create({
+              data: {
+                employeeId: balance.employeeId,
+                policyId: policy.id,
+                fiscalYear: toFiscalYear,
+                totalEntitlement: entitlement,
+                carriedForward: openingCarry,
+                availableBalance: entitlement.add(openingCarry),
+                carryForwardExpiresAt,
+                lastUpdated: new Date(),
+                updatedBy: performedBy,
+              },
+            });
+          }
+
+          if (!existingTarget && entitlement.gt(0)) {
+            await this.recordBalanceTransaction(tx, {
+              balance: target,
+              type: 'ACCRUAL',
+              days: entitlement,
+              balanceAfter: entitlement,
+              description: `Opening entitlement for fiscal year ${toFiscalYear}`,
+              performedBy,
+            });
+          }
+          if (!openingCarry.eq(0)) {
+            await this.recordBalanceTransaction(tx, {
+              balance: target,
+              type: 'CARRY_FORWARD',
+              days: openingCarry,
+              referenceType: 'LEAVE_BALANCE',
+              referenceId: balance.id,
+              description: openingCarry.gt(0)
+                ? `Carried forward from fiscal year ${fromFiscalYear}`
+                : `Deficit carried from fiscal year ${fromFiscalYear}`,
+              metadata: { lapsed: item.lapsed, carryForwardExpiresAt },
+              performedBy,
+            });
+          }
+
+          await tx.leaveBalance.update({
+            where: { id: balance.id },
+            data: { rolledOverToId: target.id },
+          });
+        });
       }
 
-      const settings = await prisma.leaveSettings.create({
-        data: {
-          ...data,
-          lastUpdatedAt: new Date(),
-        },
-      });
+      const processed = items.filter((i) => i.action !== 'SKIP_ALREADY_ROLLED');
 
-      return settings;
+      return {
+        fromFiscalYear,
+        toFiscalYear,
+        dryRun,
+        summary: {
+          balancesFound: balances.length,
+          opened: items.filter((i) => i.action === 'OPEN').length,
+          merged: items.filter((i) => i.action === 'MERGE').length,
+          skippedAlreadyRolled: items.filter((i) => i.action === 'SKIP_ALREADY_ROLLED').length,
+          skippedInactivePolicy: items.filter((i) => i.action === 'SKIP_INACTIVE_POLICY').length,
+          totalCarriedForward: processed.reduce((sum, i) => sum + Math.max(i.carriedForward, 0), 0),
+          totalLapsed: processed.reduce((sum, i) => sum + i.lapsed, 0),
+        },
+        items,
+      };
     } catch (error) {
       if (error instanceof AppError) throw error;
-      throw new AppError('Failed to create leave settings', 500);
+      console.error('Fiscal year rollover failed:', error);
+      throw new AppError('Failed to run fiscal year rollover', 500);
     }
   }
 
-  async updateLeaveSettings(data: UpdateLeaveSettingsInput): Promise<LeaveSettings> {
-    try {
-      const existingSettings = await prisma.leaveSettings.findUnique({
-        where: { id: data.id },
-      });
+  /**
+   * Scheduled year-end run: on the first day of a fiscal year, roll over the year that just
+   * ended. `date` is read by its local calendar day, like the scheduler's cron slots; any
+   * other day returns null.
+   */
+  async runYearEndRollover(date: Date) {
+    const settings = await this.getLeaveSettings();
+    const day = new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()));
+    const fiscalYear = this.getFiscalYearForDate(day, settings);
+
+    if (day.getTime() !== this.getFiscalYearStartDate(fiscalYear, settings).getTime()) {
+      return null;
+    }
 
-      if (!existingSettings) {
-        throw new AppError('Leave settings not found', 404);
-      }
+    return this.runFiscalYearRollover({ fromFiscalYear: fiscalYear - 1, dryRun: false }, 'SYSTEM');
+  }
 
-      const settings = await prisma.leaveSettings.update({
-        where: { id: data.id },
-        data: {
-          ...data,
-          version: existingSettings.version + 1,
-          lastUpdatedAt: new Date(),
+  /**
+   * Expire unused carried forward days whose expiry date has passed.
+   * Carried days are treated as consumed first (used and pending leave).
+   */
+  async expireCarriedForwardLeaves(data: ExpireCarryForwardInput = {}) {
+    try {
+      const asOf = data.asOf ? new Date(data.asOf) : new Date();
+
+      const balances = await prisma.leaveBalance.findMany({
+        where: {
+          carryForwardExpiresAt: { lte: asOf },
+          carryForwardExpiredAt: null,
+          carriedForward: { gt: 0 },
         },
+        select: { id: true },
       });
 
-      return settings;
+      const expired = [];
+
+      for (const { id } of balances) {
+        const result = await prisma.$transaction(async (tx) => {
+          // Re-read inside the transaction; the claim below makes a concurrent run a no-op
+          const balance = await tx.leaveBalance.findUnique({ where: { id } });
+          if (!balance || balance.carryForwardExpiredAt) return null;
+
+          const consumed = balance.usedLeaves.add(balance.pendingLeaves);
+          const unused = Decimal.max(balance.carriedForward.sub(consumed), 0);
+
+          const claimed = await tx.leaveBalance.updateMany({
+            where: { id, carryForwardExpiredAt: null },
+            data: {
+              availableBalance: { decrement: unused },
+              expiredLeaves: { increment: unused },
+              carryForwardExpiredAt: asOf,
+              lastUpdated: new Date(),
+            },
+          });
+          if (claimed.count === 0) return null;
+
+          const updated = await tx.leaveBalance.findUniqueOrThrow({ where: { id } });
+          await this.recordBalanceTransaction(tx, {
+            balance: updated,
+            type: 'EXPIRY',
+            days: unused.neg(),
+            description: 'Unused carried forward days expired',
+            metadata: {
+              carriedForward: balance.carriedForward.toNumber(),
+              consumed: consumed.toNumber(),
+            },
+            performedBy: 'SYSTEM',
+          });
+
+          return { balance, unused };
+        });
+        if (!result) continue;
+
+        expired.push({
+          balanceId: id,
+          employeeId: result.balance.employeeId,
+          policyId: result.balance.policyId,
+          fiscalYear: result.balance.fiscalYear,
+          expiredDays: result.unused.toNumber(),
+        });
+      }
+
+      return {
+        asOf,
+        balancesExpired: expired.length,
+        totalExpiredDays: expired.reduce((sum, e) => sum + e.expiredDays, 0),
+        expired,
+      };
     } catch (error) {
       if (error instanceof AppError) throw error;
-      throw new AppError('Failed to update leave settings', 500);
+      throw new AppError('Failed to expire carried forward leaves', 500);
     }
   }
 
-  async getLeaveSettings(): Promise<LeaveSettings | null> {
-    return prisma.leaveSettings.findFirst({
-      orderBy: { createdAt: 'desc' },
-    });
-  }
+  // ==================== MONTHLY ACCRUAL ====================
+
+  /**
+   * Credit one month of leave for MONTHLY and EARNED policies.
+   *
+   * `quota` is the yearly entitlement for every credit type. The monthly rate
+   * is `accrualRate`, or `quota / 12` when no rate is set. Employees hired
+   * mid-month get the calendar-day share of the month. For EARNED policies,
+   * approved LWP days in the month either prorate the credit or skip it
+   * entirely, per `lwpAccrualMode`. Entitlement never exceeds `quota`. Each
+   * credit is written as an ACCRUAL ledger entry, which also makes re-running a
+   * month a no-op for balances already credited.
+   */
+  async runMonthlyAccrual(data: MonthlyAccrualInput, performedBy: string) {
+    try {
+      const { year, month, dryRun } = data;
+      const periodStart = new Date(Date.UTC(year, month - 1, 1));
+      const periodEnd = new Date(Date.UTC(year, month, 0));
+      const nextPeriodStart = new Date(Date.UTC(year, month, 1));
+      const daysInMonth = periodEnd.getUTCDate();
 
-  // ==================== HELPER METHODS ====================
+      const settings = await this.getLeaveSettings();
+      const fiscalYear = this.getFiscalYearForDate(periodStart, settings);
 
-  private calculateLeaveDays(startDate: Date, endDate: Date, isHalfDay: boolean = false): number {
-    if (isHalfDay) return 0.5;
+      const policies = await prisma.leavePolicy.findMany({
+        where: {
+          isActive: true,
+          creditType: { in: ['MONTHLY', 'EARNED'] },
+          effectiveFrom: { lt: nextPeriodStart },
+          OR: [{ effectiveUntil: null }, { effectiveUntil: { gte: periodStart } }],
+          ...(data.policyId && { id: data.policyId }),
+        },
+      });
 
-    const diffTime = Math.abs(endDate.getTime() - startDate.getTime());
-    const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24)) + 1; // +1 to include both start and end dates
-    return diffDays;
-  }
+      const employees = await prisma.employee.findMany({
+        where: {
+          isActive: true,
+          hireDate: { lt: nextPeriodStart },
+          ...(data.employeeId && { id: data.employeeId }),
+        },
+        select: { id: true, hireDate: true, department: true, workLocation: true },
+      });
 
-  private async calculateBusinessDays(startDate: Date, endDate: Date, isHalfDay: boolean = false): Promise<number> {
-    if (isHalfDay) return 0.5;
+      const lwpDaysByEmployee = await this.getLwpDaysInPeriod(
+        employees.map((e) => e.id),
+        periodStart,
+        nextPeriodStart
+      );
 
-    let businessDays = 0;
-    const currentDate = new Date(startDate);
-    
-    while (currentDate <= endDate) {
-      const dayOfWeek = currentDate.getDay();
-      // Skip weekends (0 = Sunday, 6 = Saturday)
-      if (dayOfWeek !== 0 && dayOfWeek !== 6) {
-        // Check if it's not a holiday
-        const isHoliday = await this.isHoliday(currentDate);
-        if (!isHoliday) {
-          businessDays++;
-        }
-      }
-      currentDate.setDate(currentDate.getDate() + 1);
-    }
-    
-    return businessDays;
-  }
+      const items = [];
 
-  private async isHoliday(date: Date): Promise<boolean> {
-    const holiday = await prisma.holiday.findFirst({
-      where: {
-        date: date,
-        isActive: true,
-      },
-    });
-    return !!holiday;
-  }
+      for (const policy of policies) {
+        const monthlyRate = policy.accrualRate ?? new Decimal(policy.quota || 0).div(12);
+        if (monthlyRate.lte(0)) continue;
 
-  private isEmergencyLeave(data: CreateLeaveRequestInput, policy: LeavePolicy): boolean {
-    // Emergency leave criteria
-    const emergencyTypes = ['SICK', 'BEREAVEMENT'];
-    const isEmergencyType = emergencyTypes.includes(data.leaveType);
-    const isShortNotice = this.isBackdatedRequest(new Date(data.startDate)) || 
-      new Date(data.startDate).getTime() - Date.now() < 24 * 60 * 60 * 1000; // Less than 24 hours notice
-    
-    return isEmergencyType && isShortNotice;
-  }
+        for (const employee of employees) {
+          if (
+            (policy.applicableDepartments.length > 0 &&
+              !policy.applicableDepartments.includes(employee.department)) ||
+            (policy.applicableLocations.length > 0 &&
+              !policy.applicableLocations.includes(employee.workLocation))
+          ) {
+            continue;
+          }
 
-  private determineApprovalLevel(
-    policy: LeavePolicy, 
-    totalDays: number, 
-    isEmergency: boolean,
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    employee: any
-  ): string {
-    // Auto approval conditions
-    if (policy.autoApprovalEnabled && this.canAutoApprove(totalDays, policy, employee)) {
-      return 'AUTO';
+          // Hire proration: only days from the hire date onwards earn leave
+          const hireDay = new Date(
+            Date.UTC(
+              employee.hireDate.getUTCFullYear(),
+              employee.hireDate.getUTCMonth(),
+              employee.hireDate.getUTCDate()
+            )
+          );
+          const eligibleFrom = hireDay > periodStart ? hireDay : periodStart;
+          const eligibleDays = daysInMonth - eligibleFrom.getUTCDate() + 1;
+          const hireFactor = new Decimal(eligibleDays).div(daysInMonth);
+
+          const lwpDays =
+            policy.creditType === 'EARNED' ? lwpDaysByEmployee.get(employee.id) || 0 : 0;
+          let lwpFactor = new Decimal(1);
+          if (lwpDays > 0) {
+            lwpFactor =
+              policy.lwpAccrualMode === 'SKIP'
+                ? new Decimal(0)
+                : Decimal.max(new Decimal(1).sub(new Decimal(lwpDays).div(eligibleDays)), 0);
+          }
+
+          let credit = monthlyRate.mul(hireFactor).mul(lwpFactor).toDecimalPlaces(2);
+
+          const balance = await prisma.leaveBalance.findUnique({
+            where: {
+              employeeId_policyId_fiscalYear: {
+                employeeId: employee.id,
+                policyId: policy.id,
+                fiscalYear,
+              },
+            },
+          });
+
+          const item = {
+            employeeId: employee.id,
+            policyId: policy.id,
+            policyCode: policy.code,
+            creditType: policy.creditType,
+            balanceId: balance?.id ?? null,
+            monthlyRate: monthlyRate.toDecimalPlaces(2).toNumber(),
+            eligibleDays,
+            daysInMonth,
+            lwpDays,
+            credit: 0,
+            action: 'CREDIT' as
+              | 'CREDIT'
+              | 'SKIP_ALREADY_ACCRUED'
+              | 'SKIP_LWP'
+              | 'SKIP_QUOTA_REACHED'
+              | 'SKIP_ZERO_CREDIT',
+          };
+
+          if (balance) {
+            const existing = await prisma.leaveBalanceTransaction.findUnique({
+              where: {
+                leaveBalanceId_type_periodStart: {
+                  leaveBalanceId: balance.id,
+                  type: 'ACCRUAL',
+                  periodStart,
+                },
+              },
+            });
+            if (existing) {
+              item.credit = existing.days.toNumber();
+              item.action = 'SKIP_ALREADY_ACCRUED';
+              items.push(item);
+              continue;
+            }
+          }
+
+          if (policy.quota !== null) {
+            const headroom = Decimal.max(
+              new Decimal(policy.quota).sub(balance?.totalEntitlement ?? 0),
+              0
+            );
+            if (credit.gt(headroom)) {
+              credit = headroom;
+              if (credit.eq(0)) item.action = 'SKIP_QUOTA_REACHED';
+            }
+          }
+          if (lwpFactor.eq(0)) item.action = 'SKIP_LWP';
+          else if (credit.eq(0) && item.action === 'CREDIT') item.action = 'SKIP_ZERO_CREDIT';
+
+          item.credit = credit.toNumber();
+          items.push(item);
+          if (dryRun || item.action !== 'CREDIT') continue;
+
+          try {
+            await prisma.$transaction(async (tx) => {
+              const target =
+                balance ??
+                (await tx.leaveBalance.create({
+                  data: {
+                    employeeId: employee.id,
+                    policyId: policy.id,
+                    fiscalYear,
+                    totalEntitlement: 0,
+                    availableBalance: 0,
+                    lastUpdated: new Date(),
+                    updatedBy: performedBy,
+                  },
+                }));
+
+              const updated = await tx.leaveBalance.update({
+                where: { id: target.id },
+                data: {
+                  totalEntitlement: { increment: credit },
+                  availableBalance: { increment: credit },
+                  lastUpdated: new Date(),
+                  updatedBy: performedBy,
+                },
+              });
+
+              // Unique per balance and period - a concurrent run rolls back here
+              await this.recordBalanceTransaction(tx, {
+                balance: updated,
+                type: 'ACCRUAL',
+                days: credit,
+                periodStart,
+                periodEnd,
+                description: `${policy.code} accrual for ${year}-${String(month).padStart(2, '0')}`,
+                metadata: {
+                  policyCode: policy.code,
+                  creditType: policy.creditType,
+                  monthlyRate: item.monthlyRate,
+                  eligibleDays,
+                  daysInMonth,
+                  lwpDays,
+                  lwpAccrualMode: policy.lwpAccrualMode,
+                  quota: policy.quota,
+                },
+                performedBy,
+              });
+
+              item.balanceId = target.id;
+            });
+          } catch (error) {
+            if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+              item.action = 'SKIP_ALREADY_ACCRUED';
+              continue;
+            }
+            throw error;
+          }
+        }
+      }
+
+      const credited = items.filter((i) => i.action === 'CREDIT');
+
+      return {
+        year,
+        month,
+        fiscalYear,
+        dryRun,
+        summary: {
+          policies: policies.length,
+          employees: employees.length,
+          credited: credited.length,
+          skippedAlreadyAccrued: items.filter((i) => i.action === 'SKIP_ALREADY_ACCRUED').length,
+          skippedLwp: items.filter((i) => i.action === 'SKIP_LWP').length,
+          skippedQuotaReached: items.filter((i) => i.action === 'SKIP_QUOTA_REACHED').length,
+          totalCredited: credited.reduce((sum, i) => sum + i.credit, 0),
+        },
+        items,
+      };
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      console.error('Monthly accrual failed:', error);
+      throw new AppError('Failed to run monthly accrual', 500);
+    }
+  }
+
+  // ==================== BALANCE LEDGER ====================
+
+  async getBalanceLedger(
+    balanceId: string,
+    query: GetBalanceLedgerQuery,
+    userRole: string,
+    userId: string
+  ) {
+    try {
+      const balance = await prisma.leaveBalance.findUnique({
+        where: { id: balanceId },
+        include: {
+          employee: {
+            select: { firstName: true, lastName: true, email: true, reportingManager: true },
+          },
+          policy: { select: { name: true, code: true, leaveType: true } },
+        },
+      });
+
+      if (!balance) {
+        throw new AppError('Leave balance not found', 404);
+      }
+
+      if (userRole !== 'ADMIN') {
+        const requester = await this.findEmployeeByUserId(userId);
+        const isOwn = requester?.id === balance.employeeId;
+        const isReport =
+          userRole === 'MANAGER' &&
+          !!requester &&
+          balance.employee.reportingManager === requester.id;
+        if (!isOwn && !isReport) {
+          throw new AppError('Access denied', 403);
+        }
+      }
+
+      const where = {
+        leaveBalanceId: balanceId,
+        ...(query.type && { type: query.type }),
+      };
+      const skip = (query.page - 1) * query.limit;
+
+      const [transactions, total, totals] = await Promise.all([
+        prisma.leaveBalanceTransaction.findMany({
+          where,
+          orderBy: { createdAt: 'desc' },
+          skip,
+          take: query.limit,
+        }),
+        prisma.leaveBalanceTransaction.count({ where }),
+        prisma.leaveBalanceTransaction.aggregate({
+          where: { leaveBalanceId: balanceId },
+          _sum: { days: true, usedChange: true, pendingChange: true },
+        }),
+      ]);
+
+      return {
+        balance,
+        ledgerTotals: {
+          availableBalance: totals._sum.days?.toNumber() ?? 0,
+          usedLeaves: totals._sum.usedChange?.toNumber() ?? 0,
+          pendingLeaves: totals._sum.pendingChange?.toNumber() ?? 0,
+        },
+        transactions,
+        pagination: {
+          page: query.page,
+          limit: query.limit,
+          total,
+          totalPages: Math.ceil(total / query.limit),
+        },
+      };
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to fetch balance ledger', 500);
+    }
+  }
+
+  /**
+   * Recompute available, used and pending days from the ledger and compare
+   * them with the stored balance. Balances created before the ledger existed
+   * have no entries and are reported as NO_LEDGER rather than drift.
+   */
+  async checkBalanceConsistency(query: BalanceConsistencyQuery) {
+    try {
+      const fiscalYear = query.fiscalYear || this.getCurrentFiscalYear();
+
+      const balances = await prisma.leaveBalance.findMany({
+        where: {
+          fiscalYear,
+          ...(query.employeeId && { employeeId: query.employeeId }),
+        },
+        include: { policy: { select: { code: true } } },
+        orderBy: [{ employeeId: 'asc' }, { policyId: 'asc' }],
+      });
+
+      const sums = await prisma.leaveBalanceTransaction.groupBy({
+        by: ['leaveBalanceId'],
+        where: { leaveBalanceId: { in: balances.map((b) => b.id) } },
+        _sum: { days: true, usedChange: true, pendingChange: true },
+        _count: { _all: true },
+      });
+      const sumsByBalance = new Map(sums.map((s) => [s.leaveBalanceId, s]));
+
+      const results = balances.map((balance) => {
+        const ledger = sumsByBalance.get(balance.id);
+        const ledgerAvailable = ledger?._sum.days ?? new Decimal(0);
+        const ledgerUsed = ledger?._sum.usedChange ?? new Decimal(0);
+        const ledgerPending = ledger?._sum.pendingChange ?? new Decimal(0);
+
+        const drift = {
+          availableBalance: balance.availableBalance.sub(ledgerAvailable).toNumber(),
+          usedLeaves: balance.usedLeaves.sub(ledgerUsed).toNumber(),
+          pendingLeaves: balance.pendingLeaves.sub(ledgerPending).toNumber(),
+        };
+
+        let status: 'OK' | 'DRIFT' | 'NO_LEDGER' = 'OK';
+        if (!ledger) status = 'NO_LEDGER';
+        else if (Object.values(drift).some((d) => d !== 0)) status = 'DRIFT';
+
+        return {
+          balanceId: balance.id,
+          employeeId: balance.employeeId,
+          policyCode: balance.policy.code,
+          fiscalYear: balance.fiscalYear,
+          status,
+          entries: ledger?._count._all ?? 0,
+          stored: {
+            availableBalance: balance.availableBalance.toNumber(),
+            usedLeaves: balance.usedLeaves.toNumber(),
+            pendingLeaves: balance.pendingLeaves.toNumber(),
+          },
+          ledger: {
+            availableBalance: ledgerAvailable.toNumber(),
+            usedLeaves: ledgerUsed.toNumber(),
+            pendingLeaves: ledgerPending.toNumber(),
+          },
+          drift,
+        };
+      });
+
+      return {
+        fiscalYear,
+        summary: {
+          balancesChecked: results.length,
+          consistent: results.filter((r) => r.status === 'OK').length,
+          drifted: results.filter((r) => r.status === 'DRIFT').length,
+          noLedger: results.filter((r) => r.status === 'NO_LEDGER').length,
+        },
+        balances: query.driftOnly ? results.filter((r) => r.status !== 'OK') : results,
+      };
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to check balance consistency', 500);
+    }
+  }
+
+  // ==================== LEAVE ENCASHMENT ====================
+
+  async createEncashmentRequest(data: CreateEncashmentRequestInput, userId: string) {
+    try {
+      const employee = await this.findEmployeeByUserId(userId);
+      if (!employee) {
+        throw new AppError('Employee not found', 404);
+      }
+
+      const settings = await this.getLeaveSettings();
+      if (!settings?.encashmentEnabled) {
+        throw new AppError('Leave encashment is not enabled', 400);
+      }
+
+      const policy = await prisma.leavePolicy.findUnique({ where: { id: data.policyId } });
+      if (!policy || !policy.isActive) {
+        throw new AppError('Leave policy not found or inactive', 404);
+      }
+      if (!policy.encashable) {
+        throw new AppError(`${policy.name} is not encashable`, 400);
+      }
+
+      const fiscalYear = this.getFiscalYearForDate(new Date(), settings);
+      const balance = await prisma.leaveBalance.findUnique({
+        where: {
+          employeeId_policyId_fiscalYear: {
+            employeeId: employee.id,
+            policyId: policy.id,
+            fiscalYear,
+          },
+        },
+      });
+      if (!balance) {
+        throw new AppError('No leave balance found for this policy', 400);
+      }
+
+      const period = this.getEncashmentPeriod(new Date(), settings);
+      const samePeriod = await prisma.leaveEncashmentRequest.findFirst({
+        where: {
+          employeeId: employee.id,
+          policyId: policy.id,
+          period,
+          status: { in: ['PENDING', 'APPROVED'] },
+        },
+      });
+      if (samePeriod) {
+        throw new AppError(`An encashment request already exists for period ${period}`, 400);
+      }
+
+      await this.validateEncashmentLimits(balance, policy, settings, new Decimal(data.days));
+
+      if (!(await this.getSalaryGradeRate(employee.id))) {
+        throw new AppError('No salary grade rate is configured for this employee', 400);
+      }
+
+      return await prisma.leaveEncashmentRequest.create({
+        data: {
+          employeeId: employee.id,
+          policyId: policy.id,
+          leaveBalanceId: balance.id,
+          fiscalYear,
+          period,
+          days: new Decimal(data.days),
+          reason: data.reason,
+        },
+        include: { policy: { select: { name: true, code: true, leaveType: true } } },
+      });
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to create encashment request', 500);
+    }
+  }
+
+  async getEncashmentRequests(query: GetEncashmentRequestsQuery, userRole: string, userId: string) {
+    try {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const whereClause: Record<string, any> = {
+        ...(query.status && { status: query.status }),
+        ...(query.fiscalYear && { fiscalYear: query.fiscalYear }),
+        ...(query.employeeId && { employeeId: query.employeeId }),
+      };
+
+      if (userRole !== 'ADMIN') {
+        const requester = await this.findEmployeeByUserId(userId);
+        if (!requester) {
+          throw new AppError('Employee not found', 404);
+        }
+
+        if (userRole === 'MANAGER') {
+          whereClause.OR = [
+            { employeeId: requester.id },
+            { employee: { reportingManager: requester.id } },
+          ];
+        } else {
+          whereClause.employeeId = requester.id;
+        }
+      }
+
+      const skip = (query.page - 1) * query.limit;
+      const [requests, total] = await Promise.all([
+        prisma.leaveEncashmentRequest.findMany({
+          where: whereClause,
+          include: {
+            employee: { select: { firstName: true, lastName: true, email: true } },
+            policy: { select: { name: true, code: true, leaveType: true } },
+            payrollLine: true,
+          },
+          orderBy: { appliedAt: 'desc' },
+          skip,
+          take: query.limit,
+        }),
+        prisma.leaveEncashmentRequest.count({ where: whereClause }),
+      ]);
+
+      return {
+        requests,
+        pagination: {
+          page: query.page,
+          limit: query.limit,
+          total,
+          totalPages: Math.ceil(total / query.limit),
+        },
+      };
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to fetch encashment requests', 500);
+    }
+  }
+
+  /**
+   * Manager approval is the first step for employees with a reporting
+   * manager; HR (ADMIN) gives the final approval, which debits the balance
+   * and creates the payroll line. HR may skip the manager step only when
+   * hrCanForceApprove is enabled.
+   */
+  async approveEncashmentRequest(
+    id: string,
+    data: ApproveEncashmentRequestInput,
+    userId: string,
+    userRole: string
+  ) {
+    try {
+      const request = await prisma.leaveEncashmentRequest.findUnique({
+        where: { id },
+        include: { employee: { select: { reportingManager: true } }, policy: true },
+      });
+      if (!request) {
+        throw new AppError('Encashment request not found', 404);
+      }
+      if (request.status !== 'PENDING') {
+        throw new AppError(`Encashment request is already ${request.status.toLowerCase()}`, 400);
+      }
+
+      const approver = await this.findEmployeeByUserId(userId);
+      const approverId = approver?.id || userId;
+      if (approverId === request.employeeId) {
+        throw new AppError('You cannot approve your own encashment request', 403);
+      }
+
+      const now = new Date();
+
+      if (userRole === 'MANAGER') {
+        if (request.employee.reportingManager !== approverId) {
+          throw new AppError('Only the reporting manager can approve this request', 403);
+        }
+        if (request.managerApprovalStatus) {
+          throw new AppError('Manager decision already recorded; awaiting HR approval', 400);
+        }
+
+        const isApproved = data.action === 'APPROVE';
+        return await prisma.leaveEncashmentRequest.update({
+          where: { id },
+          data: {
+            managerApprovedBy: approverId,
+            managerApprovedAt: now,
+            managerComments: data.comments,
+            managerApprovalStatus: isApproved ? 'APPROVED' : 'REJECTED',
+            ...(!isApproved && {
+              status: 'REJECTED',
+              rejectedBy: approverId,
+              rejectedAt: now,
+              rejectionReason: data.comments,
+            }),
+          },
+        });
+      }
+
+      if (userRole !== 'ADMIN') {
+        throw new AppError('Insufficient permissions to approve encashment requests', 403);
+      }
+
+      if (data.action === 'REJECT') {
+        return await prisma.leaveEncashmentRequest.update({
+          where: { id },
+          data: {
+            status: 'REJECTED',
+            hrApprovedBy: approverId,
+            hrApprovedAt: now,
+            hrComments: data.comments,
+            hrApprovalStatus: 'REJECTED',
+            rejectedBy: approverId,
+            rejectedAt: now,
+            rejectionReason: data.comments,
+          },
+        });
+      }
+
+      const settings = await this.getLeaveSettings();
+      if (
+        request.employee.reportingManager &&
+        request.managerApprovalStatus !== 'APPROVED' &&
+        !settings?.hrCanForceApprove
+      ) {
+        throw new AppError('Manager approval is required before HR approval', 400);
+      }
+
+      const balance = await prisma.leaveBalance.findUnique({
+        where: { id: request.leaveBalanceId },
+      });
+      if (!balance) {
+        throw new AppError('Leave balance not found', 404);
+      }
+      await this.validateEncashmentLimits(balance, request.policy, settings, request.days, id);
+
+      const rate = await this.getSalaryGradeRate(request.employeeId);
+      if (!rate) {
+        throw new AppError('No salary grade rate is configured for this employee', 400);
+      }
+
+      const calculationBasis = settings?.encashmentCalculation || 'BASIC_SALARY';
+      const monthlySalary =
+        calculationBasis === 'GROSS_SALARY' ? rate.grossMonthlySalary : rate.basicMonthlySalary;
+      const dailyRate = monthlySalary
+        .div(settings?.encashmentDaysPerMonth || 30)
+        .toDecimalPlaces(2);
+      const amount = dailyRate.mul(request.days).toDecimalPlaces(2);
+      const payPeriod = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`;
+
+      return await prisma.$transaction(async (tx) => {
+        const updatedBalance = await tx.leaveBalance.update({
+          where: { id: balance.id },
+          data: {
+            availableBalance: { decrement: request.days },
+            encashedThisYear: { increment: request.days },
+            lastUpdated: now,
+            updatedBy: approverId,
+          },
+        });
+
+        await this.recordBalanceTransaction(tx, {
+          balance: updatedBalance,
+          type: 'ENCASHMENT',
+          days: request.days.neg(),
+          referenceType: 'ENCASHMENT_REQUEST',
+          referenceId: id,
+          description: `Encashed ${request.days.toNumber()} day(s) of ${request.policy.code}`,
+          metadata: { dailyRate: dailyRate.toNumber(), amount: amount.toNumber() },
+          performedBy: approverId,
+        });
+
+        await tx.encashmentPayrollLine.create({
+          data: {
+            encashmentRequestId: id,
+            employeeId: request.employeeId,
+            payPeriod,
+            leaveType: request.policy.leaveType,
+            days: request.days,
+            dailyRate,
+            amount,
+            currency: rate.currency,
+          },
+        });
+
+        return tx.leaveEncashmentRequest.update({
+          where: { id },
+          data: {
+            status: 'APPROVED',
+            hrApprovedBy: approverId,
+            hrApprovedAt: now,
+            hrComments: data.comments,
+            hrApprovalStatus: 'APPROVED',
+            finalApprovedBy: approverId,
+            finalApprovedAt: now,
+            salaryGrade: rate.code,
+            calculationBasis,
+            monthlySalary,
+            dailyRate,
+            amount,
+          },
+          include: { payrollLine: true },
+        });
+      });
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to process encashment request', 500);
+    }
+  }
+
+  async cancelEncashmentRequest(id: string, userId: string) {
+    try {
+      const request = await prisma.leaveEncashmentRequest.findUnique({ where: { id } });
+      if (!request) {
+        throw new AppError('Encashment request not found', 404);
+      }
+
+      const employee = await this.findEmployeeByUserId(userId);
+      if (employee?.id !== request.employeeId) {
+        throw new AppError('You can only cancel your own encashment requests', 403);
+      }
+      if (request.status !== 'PENDING') {
+        throw new AppError('Only pending encashment requests can be cancelled', 400);
+      }
+
+      return await prisma.leaveEncashmentRequest.update({
+        where: { id },
+        data: { status: 'CANCELLED', cancelledBy: employee.id, cancelledAt: new Date() },
+      });
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to cancel encashment request', 500);
+    }
+  }
+
+  async getEncashmentPayrollLines(query: GetEncashmentPayrollLinesQuery) {
+    try {
+      return await prisma.encashmentPayrollLine.findMany({
+        where: {
+          ...(query.payPeriod && { payPeriod: query.payPeriod }),
+          ...(query.status && { status: query.status }),
+          ...(query.employeeId && { employeeId: query.employeeId }),
+        },
+        include: {
+          encashmentRequest: {
+            select: {
+              fiscalYear: true,
+              salaryGrade: true,
+              calculationBasis: true,
+              employee: { select: { firstName: true, lastName: true, email: true } },
+            },
+          },
+        },
+        orderBy: [{ payPeriod: 'asc' }, { createdAt: 'asc' }],
+      });
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to fetch encashment payroll lines', 500);
+    }
+  }
+
+  async processEncashmentPayrollLines(data: ProcessEncashmentPayrollLinesInput, userId: string) {
+    try {
+      const result = await prisma.encashmentPayrollLine.updateMany({
+        where: { id: { in: data.lineIds }, status: 'PENDING' },
+        data: {
+          status: 'PROCESSED',
+          processedAt: new Date(),
+          processedBy: userId,
+          payrollReference: data.payrollReference,
+        },
+      });
+
+      return { processed: result.count, skipped: data.lineIds.length - result.count };
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to process encashment payroll lines', 500);
+    }
+  }
+
+  async getSalaryGrades() {
+    return prisma.salaryGrade.findMany({ orderBy: { code: 'asc' } });
+  }
+
+  async upsertSalaryGrade(code: string, data: UpsertSalaryGradeInput, userId: string) {
+    try {
+      return await prisma.salaryGrade.upsert({
+        where: { code },
+        create: { ...data, code, createdBy: userId },
+        update: { ...data, updatedBy: userId },
+      });
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to save salary grade', 500);
+    }
+  }
+
+  // ==================== COMP-OFF ====================
+
+  async createCompOffClaim(data: CreateCompOffClaimInput, userId: string) {
+    try {
+      const employee = await this.findEmployeeByUserId(userId);
+      if (!employee) {
+        throw new AppError('Employee not found', 404);
+      }
+
+      const { workLocation } = await prisma.employee.findUniqueOrThrow({
+        where: { id: employee.id },
+        select: { workLocation: true },
+      });
+
+      const workDate = new Date(`${data.workDate}T00:00:00.000Z`);
+      const nextDay = new Date(workDate.getTime() + 24 * 60 * 60 * 1000);
+
+      const holiday = await prisma.holiday.findFirst({
+        where: {
+          date: { gte: workDate, lt: nextDay },
+          isActive: true,
+          OR: [
+            { applicableLocations: { isEmpty: true } },
+            { applicableLocations: { has: workLocation } },
+          ],
+        },
+      });
+
+      const settings = await this.getLeaveSettings();
+      const weekendDays = settings?.weekendDays || ['SATURDAY', 'SUNDAY'];
+      const dayName = workDate
+        .toLocaleDateString('en-US', { weekday: 'long', timeZone: 'UTC' })
+        .toUpperCase();
+
+      if (!holiday && !weekendDays.includes(dayName)) {
+        throw new AppError('Comp-off can only be claimed for work on a holiday or weekend', 400);
+      }
+
+      const existingClaim = await prisma.compOffClaim.findUnique({
+        where: { employeeId_workDate: { employeeId: employee.id, workDate } },
+      });
+      if (existingClaim && existingClaim.status !== 'REJECTED') {
+        throw new AppError('A comp-off claim already exists for this date', 400);
+      }
+
+      const attendance = await prisma.attendanceRecord.findUnique({
+        where: { employeeId_date: { employeeId: employee.id, date: workDate } },
+        select: { workedHours: true },
+      });
+
+      const claimData = {
+        dayType: holiday ? 'HOLIDAY' : 'WEEKEND',
+        holidayId: holiday?.id ?? null,
+        isHalfDay: data.isHalfDay,
+        days: new Decimal(data.isHalfDay ? 0.5 : 1),
+        hoursWorked: attendance?.workedHours ?? null,
+        reason: data.reason,
+      };
+
+      // A rejected claim for the same day can be resubmitted
+      if (existingClaim) {
+        return await prisma.compOffClaim.update({
+          where: { id: existingClaim.id },
+          data: {
+            ...claimData,
+            status: 'PENDING',
+            approvedBy: null,
+            approvedAt: null,
+            approverComments: null,
+          },
+        });
+      }
+
+      return await prisma.compOffClaim.create({
+        data: { ...claimData, employeeId: employee.id, workDate },
+      });
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to create comp-off claim', 500);
+    }
+  }
+
+  async getCompOffClaims(query: GetCompOffClaimsQuery, userRole: string, userId: string) {
+    try {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const whereClause: Record<string, any> = {
+        ...(query.status && { status: query.status }),
+        ...(query.employeeId && { employeeId: query.employeeId }),
+      };
+
+      if (userRole !== 'ADMIN') {
+        const requester = await this.findEmployeeByUserId(userId);
+        if (!requester) {
+          throw new AppError('Employee not found', 404);
+        }
+
+        if (userRole === 'MANAGER') {
+          whereClause.OR = [
+            { employeeId: requester.id },
+            { employee: { reportingManager: requester.id } },
+          ];
+        } else {
+          whereClause.employeeId = requester.id;
+        }
+      }
+
+      return await prisma.compOffClaim.findMany({
+        where: whereClause,
+        include: {
+          employee: { select: { firstName: true, lastName: true, email: true } },
+          credit: true,
+        },
+        orderBy: { workDate: 'desc' },
+      });
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to fetch comp-off claims', 500);
+    }
+  }
+
+  /**
+   * Approve or reject a comp-off claim. Approval credits the COMP_OFF balance
+   * for the current fiscal year and creates a credit that expires
+   * `expiryDays` after the work date (never, if the policy has no expiry).
+   */
+  async approveCompOffClaim(
+    id: string,
+    data: ApproveCompOffClaimInput,
+    userId: string,
+    userRole: string
+  ) {
+    try {
+      const claim = await prisma.compOffClaim.findUnique({
+        where: { id },
+        include: { employee: { select: { reportingManager: true } } },
+      });
+      if (!claim) {
+        throw new AppError('Comp-off claim not found', 404);
+      }
+      if (claim.status !== 'PENDING') {
+        throw new AppError(`Comp-off claim is already ${claim.status.toLowerCase()}`, 400);
+      }
+
+      const approver = await this.findEmployeeByUserId(userId);
+      const approverId = approver?.id || userId;
+      if (approverId === claim.employeeId) {
+        throw new AppError('You cannot approve your own comp-off claim', 403);
+      }
+      if (userRole === 'MANAGER' && claim.employee.reportingManager !== approverId) {
+        throw new AppError('Only the reporting manager can approve this claim', 403);
+      }
+
+      const now = new Date();
+
+      if (data.action === 'REJECT') {
+        return await prisma.compOffClaim.update({
+          where: { id },
+          data: {
+            status: 'REJECTED',
+            approvedBy: approverId,
+            approvedAt: now,
+            approverComments: data.comments,
+          },
+        });
+      }
+
+      const policy = await prisma.leavePolicy.findFirst({
+        where: { leaveType: 'COMP_OFF', isActive: true },
+      });
+      if (!policy) {
+        throw new AppError('No active comp-off leave policy found', 400);
+      }
+
+      const expiresAt = policy.expiryDays
+        ? new Date(claim.workDate.getTime() + policy.expiryDays * 24 * 60 * 60 * 1000)
+        : null;
+      if (expiresAt && expiresAt <= now) {
+        throw new AppError('This comp-off claim is past its expiry window', 400);
+      }
+
+      const fiscalYear = this.getCurrentFiscalYear();
+
+      return await prisma.$transaction(async (tx) => {
+        const balance = await tx.leaveBalance.upsert({
+          where: {
+            employeeId_policyId_fiscalYear: {
+              employeeId: claim.employeeId,
+              policyId: policy.id,
+              fiscalYear,
+            },
+          },
+          create: {
+            employeeId: claim.employeeId,
+            policyId: policy.id,
+            fiscalYear,
+            totalEntitlement: claim.days,
+            availableBalance: claim.days,
+            lastUpdated: now,
+            updatedBy: approverId,
+          },
+          update: {
+            totalEntitlement: { increment: claim.days },
+            availableBalance: { increment: claim.days },
+            lastUpdated: now,
+            updatedBy: approverId,
+          },
+        });
+
+        await this.recordBalanceTransaction(tx, {
+          balance,
+          type: 'ACCRUAL',
+          days: claim.days,
+          referenceType: 'COMP_OFF_CLAIM',
+          referenceId: claim.id,
+          description: `Comp-off earned for ${claim.dayType.toLowerCase()} work on ${claim.workDate.toISOString().split('T')[0]}`,
+          metadata: { expiresAt },
+          performedBy: approverId,
+        });
+
+        await tx.compOffCredit.create({
+          data: {
+            employeeId: claim.employeeId,
+            claimId: claim.id,
+            leaveBalanceId: balance.id,
+            earnedOn: claim.workDate,
+            days: claim.days,
+            remainingDays: claim.days,
+            expiresAt,
+          },
+        });
+
+        return tx.compOffClaim.update({
+          where: { id },
+          data: {
+            status: 'APPROVED',
+            approvedBy: approverId,
+            approvedAt: now,
+            approverComments: data.comments,
+          },
+          include: { credit: true },
+        });
+      });
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to process comp-off claim', 500);
+    }
+  }
+
+  async getCompOffCredits(query: GetCompOffCreditsQuery, userRole: string, userId: string) {
+    try {
+      const requester = await this.findEmployeeByUserId(userId);
+      let employeeId = query.employeeId || requester?.id;
+
+      if (!employeeId) {
+        throw new AppError('Employee not found', 404);
+      }
+
+      if (userRole !== 'ADMIN' && employeeId !== requester?.id) {
+        const employee = await prisma.employee.findUnique({
+          where: { id: employeeId },
+          select: { reportingManager: true },
+        });
+        if (userRole !== 'MANAGER' || employee?.reportingManager !== requester?.id) {
+          employeeId = requester?.id;
+        }
+      }
+
+      const now = new Date();
+      const credits = await prisma.compOffCredit.findMany({
+        where: {
+          employeeId,
+          ...(!query.includeExpired && {
+            remainingDays: { gt: 0 },
+            OR: [{ expiresAt: null }, { expiresAt: { gt: now } }],
+          }),
+        },
+        include: { usages: { where: { releasedAt: null } } },
+        orderBy: { earnedOn: 'asc' },
+      });
+
+      return {
+        employeeId,
+        totalRemaining: credits
+          .filter((c) => !c.expiresAt || c.expiresAt > now)
+          .reduce((sum, c) => sum + c.remainingDays.toNumber(), 0),
+        credits,
+      };
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to fetch comp-off credits', 500);
+    }
+  }
+
+  // Expire the unused part of comp-off credits whose expiry date has passed
+  async expireCompOffCredits(data: ExpireCompOffCreditsInput = {}) {
+    try {
+      const asOf = data.asOf ? new Date(data.asOf) : new Date();
+
+      const credits = await prisma.compOffCredit.findMany({
+        where: { expiresAt: { lte: asOf }, remainingDays: { gt: 0 } },
+      });
+
+      const expired = [];
+
+      for (const credit of credits) {
+        await prisma.$transaction(async (tx) => {
+          await tx.compOffCredit.update({
+            where: { id: credit.id },
+            data: {
+              remainingDays: 0,
+              expiredDays: { increment: credit.remainingDays },
+              expiredAt: asOf,
+            },
+          });
+
+          const balance = await tx.leaveBalance.update({
+            where: { id: credit.leaveBalanceId },
+            data: {
+              availableBalance: { decrement: credit.remainingDays },
+              expiredLeaves: { increment: credit.remainingDays },
+              lastUpdated: new Date(),
+            },
+          });
+
+          await this.recordBalanceTransaction(tx, {
+            balance,
+            type: 'EXPIRY',
+            days: credit.remainingDays.neg(),
+            referenceType: 'COMP_OFF_CREDIT',
+            referenceId: credit.id,
+            description: 'Unused comp-off credit expired',
+            performedBy: 'SYSTEM',
+          });
+        });
+
+        expired.push({
+          creditId: credit.id,
+          employeeId: credit.employeeId,
+          earnedOn: credit.earnedOn,
+          expiredDays: credit.remainingDays.toNumber(),
+        });
+      }
+
+      return {
+        asOf,
+        creditsExpired: expired.length,
+        totalExpiredDays: expired.reduce((sum, e) => sum + e.expiredDays, 0),
+        expired,
+      };
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to expire comp-off credits', 500);
+    }
+  }
+
+  // ==================== LEAVE REMINDERS ====================
+
+  /**
+   * Send the reminders configured by `reminderEnabled` and `reminderBeforeDays`.
+   *
+   * Approved leave starting within the window is announced to the employee and their
+   * manager along with the work handover notes. Employees with carried forward days
+   * or comp-off credits expiring within the same window get one reminder listing
+   * them. Each request, balance and credit is reminded once.
+   */
+  async sendLeaveReminders(data: SendLeaveRemindersInput) {
+    try {
+      const asOf = data.asOf ? new Date(data.asOf) : new Date();
+      const settings = await this.getLeaveSettings();
+
+      if (!(settings?.reminderEnabled ?? true)) {
+        return {
+          asOf,
+          enabled: false,
+          dryRun: data.dryRun,
+          upcomingLeaveReminders: 0,
+          balanceExpiryReminders: 0,
+          upcomingLeave: [],
+          expiringBalances: [],
+        };
+      }
+
+      const reminderBeforeDays = settings?.reminderBeforeDays ?? 7;
+      const windowStart = new Date(asOf);
+      windowStart.setHours(0, 0, 0, 0);
+      const windowEnd = new Date(windowStart);
+      windowEnd.setDate(windowEnd.getDate() + reminderBeforeDays + 1);
+
+      const upcomingLeave = await this.sendUpcomingLeaveReminders(
+        windowStart,
+        windowEnd,
+        data.dryRun
+      );
+      const expiringBalances = await this.sendBalanceExpiryReminders(
+        asOf,
+        windowEnd,
+        settings,
+        data.dryRun
+      );
+
+      return {
+        asOf,
+        enabled: true,
+        dryRun: data.dryRun,
+        reminderBeforeDays,
+        upcomingLeaveReminders: upcomingLeave.length,
+        balanceExpiryReminders: expiringBalances.length,
+        upcomingLeave,
+        expiringBalances,
+      };
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to send leave reminders', 500);
+    }
+  }
+
+  private async sendUpcomingLeaveReminders(windowStart: Date, windowEnd: Date, dryRun: boolean) {
+    const requests = await prisma.leaveRequest.findMany({
+      where: {
+        status: 'APPROVED',
+        reminderSentAt: null,
+        startDate: { gte: windowStart, lt: windowEnd },
+      },
+      include: { employee: { select: { firstName: true, lastName: true } } },
+      orderBy: { startDate: 'asc' },
+    });
+
+    const reminders = [];
+
+    for (const request of requests) {
+      const startDay = new Date(request.startDate);
+      startDay.setHours(0, 0, 0, 0);
+      const daysUntilStart = Math.round(
+        (startDay.getTime() - windowStart.getTime()) / (1000 * 60 * 60 * 24)
+      );
+
+      if (!dryRun) {
+        // Another run may have reminded it, or it was cancelled, since it was read
+        const { count } = await prisma.leaveRequest.updateMany({
+          where: { id: request.id, status: 'APPROVED', reminderSentAt: null },
+          data: { reminderSentAt: new Date() },
+        });
+        if (count === 0) continue;
+
+        await this.sendLeaveNotifications(request, 'REMINDER', { daysUntilStart });
+      }
+
+      reminders.push({
+        leaveRequestId: request.id,
+        employeeId: request.employeeId,
+        employeeName: `${request.employee.firstName} ${request.employee.lastName}`,
+        startDate: request.startDate,
+        daysUntilStart,
+        hasWorkHandover: !!request.workHandover,
+      });
+    }
+
+    return reminders;
+  }
+
+  private async sendBalanceExpiryReminders(
+    asOf: Date,
+    windowEnd: Date,
+    settings: LeaveSettings | null,
+    dryRun: boolean
+  ) {
+    const [balances, credits] = await Promise.all([
+      prisma.leaveBalance.findMany({
+        where: {
+          carryForwardExpiresAt: { gt: asOf, lt: windowEnd },
+          carryForwardExpiredAt: null,
+          carryForwardReminderSentAt: null,
+          carriedForward: { gt: 0 },
+        },
+        include: { policy: { select: { name: true } } },
+      }),
+      prisma.compOffCredit.findMany({
+        where: {
+          expiresAt: { gt: asOf, lt: windowEnd },
+          expiryReminderSentAt: null,
+          remainingDays: { gt: 0 },
+        },
+      }),
+    ]);
+
+    const itemsByEmployee = new Map<string, ExpiringLeaveItem[]>();
+    const addItem = (employeeId: string, item: ExpiringLeaveItem) =>
+      itemsByEmployee.set(employeeId, [...(itemsByEmployee.get(employeeId) ?? []), item]);
+
+    for (const balance of balances) {
+      // Same rule as expiry: days taken or pending are drawn from carried forward first
+      const consumed = balance.usedLeaves.add(balance.pendingLeaves);
+      const unused = Decimal.max(balance.carriedForward.sub(consumed), 0);
+      if (unused.lte(0)) continue;
+
+      addItem(balance.employeeId, {
+        source: 'CARRY_FORWARD',
+        id: balance.id,
+        description: `carried forward ${balance.policy.name}`,
+        days: unused.toNumber(),
+        expiresAt: balance.carryForwardExpiresAt as Date,
+      });
+    }
+    for (const credit of credits) {
+      addItem(credit.employeeId, {
+        source: 'COMP_OFF',
+        id: credit.id,
+        description: 'comp-off',
+        days: credit.remainingDays.toNumber(),
+        expiresAt: credit.expiresAt as Date,
+      });
+    }
+
+    if (itemsByEmployee.size === 0) return [];
+
+    const employees = await prisma.employee.findMany({
+      where: { id: { in: [...itemsByEmployee.keys()] } },
+      select: {
+        id: true,
+        supabaseId: true,
+        firstName: true,
+        lastName: true,
+        email: true,
+        contactNumber: true,
+      },
+    });
+    const channels = this.getNotificationChannels(settings).filter(
+      (channel) => channel !== 'SMS'
+    );
+
+    const reminders = [];
+
+    for (const employee of employees) {
+      const items = (itemsByEmployee.get(employee.id) ?? []).sort(
+        (a, b) => a.expiresAt.getTime() - b.expiresAt.getTime()
+      );
+      const totalDays = items.reduce((sum, item) => sum + item.days, 0);
+      const employeeName = `${employee.firstName} ${employee.lastName}`;
+
+      if (!dryRun) {
+        const balanceIds = items.filter((i) => i.source === 'CARRY_FORWARD').map((i) => i.id);
+        const creditIds = items.filter((i) => i.source === 'COMP_OFF').map((i) => i.id);
+        const now = new Date();
+
+        await prisma.$transaction([
+          prisma.leaveBalance.updateMany({
+            where: { id: { in: balanceIds } },
+            data: { carryForwardReminderSentAt: now },
+          }),
+          prisma.compOffCredit.updateMany({
+            where: { id: { in: creditIds } },
+            data: { expiryReminderSentAt: now },
+          }),
+        ]);
+
+        const details = items
+          .map((item) => {
+            const expiresOn = item.expiresAt.toISOString().split('T')[0];
+            return `${item.days} ${item.description} day(s) on ${expiresOn}`;
+          })
+          .join('; ');
+
+        if (channels.length > 0) {
+          try {
+            await NotificationService.createNotification({
+              type: 'LEAVE_BALANCE_EXPIRING',
+              title: 'Leave Expiring Soon',
+              message: `${totalDays} unused leave day(s) will expire soon: ${details}`,
+              recipientId: employee.id,
+              recipientEmail: employee.email,
+              recipientPhone: employee.contactNumber,
+              employeeId: employee.id,
+              channels,
+              data: {
+                employeeName,
+                totalDays,
+                items: items.map((item) => ({
+                  ...item,
+                  expiresAt: item.expiresAt.toISOString().split('T')[0],
+                })),
+              },
+            });
+          } catch (error) {
+            console.error(`Failed to send expiry reminder to employee ${employee.id}:`, error);
+          }
+        }
+      }
+
+      reminders.push({ employeeId: employee.id, employeeName, totalDays, items });
+    }
+
+    return reminders;
+  }
+
+  // ==================== LEAVE SETTINGS ====================
+
+  async createLeaveSettings(data: CreateLeaveSettingsInput): Promise<LeaveSettings> {
+    try {
+      // Check if settings already exist
+      const existingSettings = await prisma.leaveSettings.findFirst();
+
+      if (existingSettings) {
+        throw new AppError('Leave settings already exist. Use update instead.', 400);
+      }
+
+      const settings = await prisma.leaveSettings.create({
+        data: {
+          ...data,
+          lastUpdatedAt: new Date(),
+        },
+      });
+
+      return settings;
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to create leave settings', 500);
+    }
+  }
+
+  async updateLeaveSettings(data: UpdateLeaveSettingsInput): Promise<LeaveSettings> {
+    try {
+      const existingSettings = await prisma.leaveSettings.findUnique({
+        where: { id: data.id },
+      });
+
+      if (!existingSettings) {
+        throw new AppError('Leave settings not found', 404);
+      }
+
+      const settings = await prisma.leaveSettings.update({
+        where: { id: data.id },
+        data: {
+          ...data,
+          version: existingSettings.version + 1,
+          lastUpdatedAt: new Date(),
+        },
+      });
+
+      return settings;
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to update leave settings', 500);
+    }
+  }
+
+  async getLeaveSettings(): Promise<LeaveSettings | null> {
+    return prisma.leaveSettings.findFirst({
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  // ==================== APPROVAL DELEGATION ====================
+
+  async createApprovalDelegation(
+    data: CreateApprovalDelegationInput,
+    delegatorUserId: string,
+    delegatorRole: 'MANAGER' | 'HR'
+  ): Promise<ApprovalDelegation> {
+    try {
+      const delegator = await this.findEmployeeByUserId(delegatorUserId);
+      const delegatorId = delegator?.id || delegatorUserId;
+
+      const delegate = await this.findEmployeeByUserId(data.delegateToUserId);
+      if (!delegate) {
+        throw new AppError('Delegate user not found', 404);
+      }
+
+      if (delegate.id === delegatorId) {
+        throw new AppError('Cannot delegate approval authority to yourself', 400);
+      }
+
+      const validFrom = data.validFrom ? new Date(data.validFrom) : new Date();
+      const validUntil = data.validUntil
+        ? new Date(data.validUntil)
+        : new Date(validFrom.getTime() + 30 * 24 * 60 * 60 * 1000);
+
+      if (validUntil <= new Date()) {
+        throw new AppError('Delegation must end in the future', 400);
+      }
+
+      // Prevent stacking overlapping delegations to the same delegate
+      const overlapping = await prisma.approvalDelegation.findFirst({
+        where: {
+          delegatorId,
+          delegateId: delegate.id,
+          isActive: true,
+          validFrom: { lte: validUntil },
+          validUntil: { gte: validFrom },
+        },
+      });
+
+      if (overlapping) {
+        throw new AppError('An overlapping delegation to this user already exists', 409);
+      }
+
+      const isPartial = data.delegationType === 'PARTIAL';
+
+      return await prisma.approvalDelegation.create({
+        data: {
+          delegatorId,
+          delegatorRole,
+          delegateId: delegate.id,
+          scope: data.delegationType,
+          leaveTypes: isPartial ? data.leaveTypes : [],
+          departments: isPartial ? data.departments : [],
+          reason: data.reason,
+          validFrom,
+          validUntil,
+          createdBy: delegatorUserId,
+        },
+      });
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to create approval delegation', 500);
+    }
+  }
+
+  async getApprovalDelegations(userId: string, query: GetApprovalDelegationsQuery) {
+    try {
+      const employee = await this.findEmployeeByUserId(userId);
+      const userIds = employee ? [employee.id, userId] : [userId];
+      const now = new Date();
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const whereClause: Record<string, any> = {};
+
+      if (query.direction === 'given') {
+        whereClause.delegatorId = { in: userIds };
+      } else if (query.direction === 'received') {
+        whereClause.delegateId = { in: userIds };
+      } else {
+        whereClause.OR = [{ delegatorId: { in: userIds } }, { delegateId: { in: userIds } }];
+      }
+
+      if (!query.includeInactive) {
+        whereClause.isActive = true;
+        whereClause.validFrom = { lte: now };
+        whereClause.validUntil = { gte: now };
+      }
+
+      const delegations = await prisma.approvalDelegation.findMany({
+        where: whereClause,
+        orderBy: { validFrom: 'desc' },
+      });
+
+      // Resolve names for both sides of each delegation
+      const employeeIds = [...new Set(delegations.flatMap((d) => [d.delegatorId, d.delegateId]))];
+      const employees = await prisma.employee.findMany({
+        where: { id: { in: employeeIds } },
+        select: { id: true, firstName: true, lastName: true },
+      });
+      const names = new Map(employees.map((e) => [e.id, `${e.firstName} ${e.lastName}`]));
+
+      return delegations.map((delegation) => ({
+        ...delegation,
+        delegatorName: names.get(delegation.delegatorId) || null,
+        delegateName: names.get(delegation.delegateId) || null,
+        isCurrentlyValid:
+          delegation.isActive && delegation.validFrom <= now && delegation.validUntil >= now,
+      }));
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to fetch approval delegations', 500);
+    }
+  }
+
+  async revokeApprovalDelegation(
+    delegationId: string,
+    data: RevokeApprovalDelegationInput,
+    userId: string,
+    userRole?: string
+  ): Promise<ApprovalDelegation> {
+    try {
+      const delegation = await prisma.approvalDelegation.findUnique({
+        where: { id: delegationId },
+      });
+
+      if (!delegation) {
+        throw new AppError('Approval delegation not found', 404);
+      }
+
+      // Only the delegator (or an admin) may revoke
+      if (userRole !== 'ADMIN') {
+        const employee = await this.findEmployeeByUserId(userId);
+        const userIds = employee ? [employee.id, userId] : [userId];
+        if (!userIds.includes(delegation.delegatorId)) {
+          throw new AppError('Only the delegator can revoke this delegation', 403);
+        }
+      }
+
+      if (!delegation.isActive) {
+        throw new AppError('Approval delegation is already revoked', 400);
+      }
+
+      return await prisma.approvalDelegation.update({
+        where: { id: delegationId },
+        data: {
+          isActive: false,
+          revokedAt: new Date(),
+          revokedBy: userId,
+          revocationReason: data.reason,
+        },
+      });
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to revoke approval delegation', 500);
+    }
+  }
+
+  // ==================== APPROVAL ESCALATION ====================
+
+  /**
+   * Escalate PENDING requests that have waited longer than `escalationAfterDays`.
+   *
+   * HR users are added as approvers, and from then on HR can approve without waiting
+   * for the manager step. The escalation recipients (or all of HR when none are
+   * configured) and the manager are notified, and an ESCALATED audit entry is
+   * written. A request is escalated once; `escalatedAt` marks it.
+   */
+  async escalateStalePendingRequests(data: EscalateLeaveRequestsInput, performedBy: string) {
+    try {
+      const asOf = data.asOf ? new Date(data.asOf) : new Date();
+      const settings = await this.getLeaveSettings();
+
+      if (!settings?.escalationEnabled) {
+        return { asOf, enabled: false, dryRun: data.dryRun, requestsEscalated: 0, escalated: [] };
+      }
+
+      const threshold = new Date(asOf);
+      threshold.setDate(threshold.getDate() - settings.escalationAfterDays);
+
+      const [requests, hrUsers] = await Promise.all([
+        prisma.leaveRequest.findMany({
+          where: { status: 'PENDING', escalatedAt: null, appliedAt: { lte: threshold } },
+          include: { employee: { select: { firstName: true, lastName: true } } },
+          orderBy: { appliedAt: 'asc' },
+        }),
+        prisma.user.findMany({ where: { role: 'ADMIN' }, select: { id: true } }),
+      ]);
+      const escalatedTo = hrUsers.map((user) => user.id);
+
+      const escalated = [];
+
+      for (const request of requests) {
+        const daysPending = Math.floor(
+          (asOf.getTime() - request.appliedAt.getTime()) / (1000 * 60 * 60 * 24)
+        );
+
+        if (!data.dryRun) {
+          // Skip requests approved, rejected or escalated since they were read
+          const { count } = await prisma.leaveRequest.updateMany({
+            where: { id: request.id, status: 'PENDING', escalatedAt: null },
+            data: { escalatedAt: new Date(), escalatedTo },
+          });
+          if (count === 0) continue;
+
+          await this.createAuditLog(request.id, 'ESCALATED', performedBy, 'SYSTEM', {
+            previousStatus: request.status,
+            newStatus: request.status,
+            comments: `Pending for ${daysPending} day(s); escalated to HR after ${settings.escalationAfterDays} day(s)`,
+            fieldChanges: {
+              escalatedTo: { from: request.escalatedTo, to: escalatedTo },
+              escalationRecipients: settings.escalationRecipients,
+            },
+          });
+
+          await this.sendLeaveNotifications(request, 'ESCALATED');
+        }
+
+        escalated.push({
+          leaveRequestId: request.id,
+          employeeId: request.employeeId,
+          employeeName: `${request.employee.firstName} ${request.employee.lastName}`,
+          appliedAt: request.appliedAt,
+          daysPending,
+        });
+      }
+
+      return {
+        asOf,
+        enabled: true,
+        dryRun: data.dryRun,
+        escalationAfterDays: settings.escalationAfterDays,
+        requestsEscalated: escalated.length,
+        escalated,
+      };
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to escalate pending leave requests', 500);
+    }
+  }
+
+  // ==================== HELPER METHODS ====================
+
+  private calculateLeaveDays(startDate: Date, endDate: Date, isHalfDay: boolean = false): number {
+    if (isHalfDay) return 0.5;
+
+    const diffTime = Math.abs(endDate.getTime() - startDate.getTime());
+    const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24)) + 1; // +1 to include both start and end dates
+    return diffDays;
+  }
+
+  private async calculateBusinessDays(startDate: Date, endDate: Date, isHalfDay: boolean = false): Promise<number> {
+    if (isHalfDay) return 0.5;
+
+    let businessDays = 0;
+    const currentDate = new Date(startDate);
+    
+    while (currentDate <= endDate) {
+      const dayOfWeek = currentDate.getDay();
+      // Skip weekends (0 = Sunday, 6 = Saturday)
+      if (dayOfWeek !== 0 && dayOfWeek !== 6) {
+        // Check if it's not a holiday
+        const isHoliday = await this.isHoliday(currentDate);
+        if (!isHoliday) {
+          businessDays++;
+        }
+      }
+      currentDate.setDate(currentDate.getDate() + 1);
+    }
+    
+    return businessDays;
+  }
+
+  private async isHoliday(date: Date): Promise<boolean> {
+    const holiday = await prisma.holiday.findFirst({
+      where: {
+        date: date,
+        isActive: true,
+      },
+    });
+    return !!holiday;
+  }
+
+  private isEmergencyLeave(data: CreateLeaveRequestInput, policy: LeavePolicy): boolean {
+    // Emergency leave criteria
+    const emergencyTypes = ['SICK', 'BEREAVEMENT'];
+    const isEmergencyType = emergencyTypes.includes(data.leaveType);
+    const isShortNotice = this.isBackdatedRequest(new Date(data.startDate)) || 
+      new Date(data.startDate).getTime() - Date.now() < 24 * 60 * 60 * 1000; // Less than 24 hours notice
+    
+    return isEmergencyType && isShortNotice;
+  }
+
+  private determineApprovalLevel(
+    policy: LeavePolicy, 
+    totalDays: number, 
+    isEmergency: boolean,
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    employee: any
+  ): string {
+    // Auto approval conditions
+    if (policy.autoApprovalEnabled && this.canAutoApprove(totalDays, policy, employee)) {
+      return 'AUTO';
     }
 
     // Emergency leaves may have different approval levels
@@ -997,25 +3074,41 @@ export class LeaveService {
   }
 
   private async updateBalanceAfterRequest(
+    client: Prisma.TransactionClient,
     balance: LeaveBalance, 
     days: number, 
-    status: 'PENDING' | 'APPROVED'
+    status: 'PENDING' | 'APPROVED',
+    leaveRequestId: string,
+    performedBy: string
   ): Promise<void> {
+    // Relative updates, so concurrent accruals and comp-off credits on the row are kept
     const updateData = {
       lastUpdated: new Date(),
       ...(status === 'PENDING' ? {
-        pendingLeaves: balance.pendingLeaves.add(days),
-        availableBalance: balance.availableBalance.sub(days),
+        pendingLeaves: { increment: days },
+        availableBalance: { decrement: days },
       } : {
-        usedLeaves: balance.usedLeaves.add(days),
-        pendingLeaves: balance.pendingLeaves.sub(days),
+        usedLeaves: { increment: days },
+        pendingLeaves: { decrement: days },
       }),
     };
 
-    await prisma.leaveBalance.update({
+    const updated = await client.leaveBalance.update({
       where: { id: balance.id },
       data: updateData,
     });
+
+    await this.recordBalanceTransaction(client, {
+      balance: updated,
+      ...(status === 'PENDING'
+        ? { type: 'PENDING_HOLD', days: -days, pendingChange: days }
+        : { type: 'DEBIT', days: 0, usedChange: days, pendingChange: -days }),
+      referenceType: 'LEAVE_REQUEST',
+      referenceId: leaveRequestId,
+      description:
+        status === 'PENDING' ? 'Days held for pending leave request' : 'Leave request approved',
+      performedBy,
+    });
   }
 
   private canAutoApprove(
@@ -1056,6 +3149,18 @@ export class LeaveService {
     });
   }
 
+  /**
+   * Replace any auto-LWP for the request's days once it is approved. Pending requests don't
+   * count, so applying for leave and withdrawing it can't clear an LWP.
+   */
+  private async reverseCoveredAutoLwp(leaveRequest: LeaveRequest): Promise<void> {
+    try {
+      await attendanceService.reverseAutoLwpForLeaveRequest(leaveRequest);
+    } catch (reversalError) {
+      console.error('Auto-LWP reversal failed:', reversalError);
+    }
+  }
+
   private async triggerLeaveWorkflow(leaveRequest: LeaveRequest): Promise<void> {
     // Placeholder for workflow automation integration
     // This could trigger external workflow systems, calendar integrations, etc.
@@ -1133,58 +3238,39 @@ export class LeaveService {
     },
     approverId: string,
     approverRole: string,
-    action: string
+    action: string,
+    delegationInfo: ApprovalDelegationInfo | null
   ): Promise<void> {
-    // Get approver details - approverId could be User ID (supabaseId) or Employee ID
-    let approver = await prisma.employee.findUnique({
-      where: { id: approverId },
-      select: {
-        id: true,
-        department: true,
-        reportingManager: true,
-        jobTitle: true,
-      },
-    });
+    const approver = await this.findEmployeeByUserId(approverId);
 
-    // If not found by Employee ID, try to find by supabaseId (User ID)
     if (!approver) {
-      approver = await prisma.employee.findUnique({
-        where: { supabaseId: approverId },
-        select: {
-          id: true,
-          department: true,
-          reportingManager: true,
-          jobTitle: true,
-        },
-      });
+      throw new AppError('Approver not found', 404);
     }
 
-    if (!approver) {
-      throw new AppError('Approver not found', 404);
+    // No authority, delegated or direct, covers acting on one's own request
+    if (leaveRequest.employeeId === approver.id) {
+      throw new AppError('You cannot approve or reject your own leave request', 403);
+    }
+
+    // An active delegation grants the delegator's authority for this request
+    if (delegationInfo?.isDelegated) {
+      return;
     }
 
     // Validate manager approval authority
-    if (approverRole === 'MANAGER') {
-      // Check if approver is the employee's reporting manager or in same department
-      const isDirectManager = leaveRequest.employee.reportingManager === approverId;
-      const isDepartmentManager = approver.department === leaveRequest.employee.department &&
-        approver.jobTitle?.toLowerCase().includes('manager');
-      
-      if (!isDirectManager && !isDepartmentManager) {
-        throw new AppError('Insufficient authority to approve this leave request as manager', 403);
-      }
+    if (
+      approverRole === 'MANAGER' &&
+      !this.hasDirectApprovalAuthority(leaveRequest, approver, approverId, approverRole)
+    ) {
+      throw new AppError('Insufficient authority to approve this leave request as manager', 403);
     }
 
     // Validate HR approval authority
-    if (approverRole === 'HR') {
-      // Check if approver is in HR department or has HR role
-      const isHR = approver.department === 'ADMIN' || 
-        approver.jobTitle?.toLowerCase().includes('hr') ||
-        approver.jobTitle?.toLowerCase().includes('human resource');
-      
-      if (!isHR) {
-        throw new AppError('Insufficient authority to approve this leave request as HR', 403);
-      }
+    if (
+      approverRole === 'HR' &&
+      !this.hasDirectApprovalAuthority(leaveRequest, approver, approverId, approverRole)
+    ) {
+      throw new AppError('Insufficient authority to approve this leave request as HR', 403);
     }
 
     // Special validation for rejection
@@ -1194,6 +3280,38 @@ export class LeaveService {
     }
   }
 
+  private hasDirectApprovalAuthority(
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    leaveRequest: LeaveRequest & { employee: any },
+    approver: { id: string; department: Department; jobTitle: string | null },
+    approverId: string,
+    approverRole: string
+  ): boolean {
+    if (approverRole === 'MANAGER') {
+      // Approver is the employee's reporting manager or a manager in the same department
+      const isDirectManager =
+        leaveRequest.employee.reportingManager === approverId ||
+        leaveRequest.employee.reportingManager === approver.id;
+      const isDepartmentManager =
+        approver.department === leaveRequest.employee.department &&
+        !!approver.jobTitle?.toLowerCase().includes('manager');
+
+      return isDirectManager || isDepartmentManager;
+    }
+
+    if (approverRole === 'HR') {
+      // Approver is in HR department, has HR role or was added as approver on escalation
+      return (
+        leaveRequest.escalatedTo.includes(approverId) ||
+        approver.department === 'ADMIN' ||
+        !!approver.jobTitle?.toLowerCase().includes('hr') ||
+        !!approver.jobTitle?.toLowerCase().includes('human resource')
+      );
+    }
+
+    return false;
+  }
+
   private async checkApprovalDelegation(
     leaveRequest: LeaveRequest & {
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -1201,37 +3319,66 @@ export class LeaveService {
     },
     approverId: string,
     approverRole: string
-  ): Promise<{
-    isDelegated: boolean;
-    delegatedBy?: string;
-    delegatedByName?: string;
-    reason?: string;
-    validUntil?: Date;
-  } | null> {
-    // Check if there's an active delegation for this approver role
-    // This would integrate with a delegation system if available
-    
-    // For now, we'll check if the approver is acting on behalf of someone else
-    // This is a placeholder for future delegation system integration
-    
-    if (approverRole === 'MANAGER') {
-      const directManager = leaveRequest.employee.reportingManager;
-      
-      // If current approver is not the direct manager, check for delegation
-      if (directManager && directManager !== approverId) {
-        // In a real system, you'd query a delegation table here
-        // For now, we'll assume it's a valid delegation if they have manager rights
-        return {
-          isDelegated: true,
-          delegatedBy: directManager,
-          delegatedByName: 'Direct Manager',
-          reason: 'Manager delegation',
-          validUntil: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000), // 30 days
-        };
-      }
+  ): Promise<ApprovalDelegationInfo | null> {
+    const approver = await this.findEmployeeByUserId(approverId);
+
+    // Approvers acting on their own authority don't need a delegation
+    if (
+      !approver ||
+      this.hasDirectApprovalAuthority(leaveRequest, approver, approverId, approverRole)
+    ) {
+      return null;
+    }
+
+    const reportingManager: string | null = leaveRequest.employee.reportingManager;
+    if (approverRole === 'MANAGER' && !reportingManager) {
+      return null;
+    }
+
+    const now = new Date();
+    const delegations = await prisma.approvalDelegation.findMany({
+      where: {
+        delegateId: { in: [approver.id, approverId] },
+        delegatorRole: approverRole,
+        isActive: true,
+        validFrom: { lte: now },
+        validUntil: { gte: now },
+        // Manager delegations only cover the delegator's own reports
+        ...(approverRole === 'MANAGER' && { delegatorId: reportingManager as string }),
+      },
+      orderBy: { validFrom: 'asc' },
+    });
+
+    const delegation = delegations.find((candidate) => {
+      if (candidate.scope === 'FULL') return true;
+
+      const matchesLeaveType =
+        candidate.leaveTypes.length === 0 || candidate.leaveTypes.includes(leaveRequest.leaveType);
+      const matchesDepartment =
+        candidate.departments.length === 0 ||
+        candidate.departments.includes(leaveRequest.employee.department);
+
+      return matchesLeaveType && matchesDepartment;
+    });
+
+    if (!delegation) {
+      return null;
     }
 
-    return null;
+    const delegator = await prisma.employee.findUnique({
+      where: { id: delegation.delegatorId },
+      select: { firstName: true, lastName: true },
+    });
+
+    return {
+      isDelegated: true,
+      delegationId: delegation.id,
+      delegatedBy: delegation.delegatorId,
+      delegatedByName: delegator ? `${delegator.firstName} ${delegator.lastName}` : undefined,
+      scope: delegation.scope,
+      reason: delegation.reason,
+      validUntil: delegation.validUntil,
+    };
   }
 
   private async executeApprovalWorkflow(
@@ -1242,11 +3389,7 @@ export class LeaveService {
     },
     data: ApproveLeaveRequestInput,
     approverId: string,
-    delegationInfo: {
-      isDelegated: boolean;
-      delegatedBy?: string;
-      reason?: string;
-    } | null
+    delegationInfo: ApprovalDelegationInfo | null
   ): Promise<LeaveRequest> {
     const { approvalLevel } = leaveRequest.policy;
     const isManagerApproval = data.approverRole === 'MANAGER';
@@ -1276,7 +3419,7 @@ export class LeaveService {
         }
 
         // Update leave balance
-        await this.updateLeaveBalanceAfterApproval(leaveRequest);
+        await this.updateLeaveBalanceAfterApproval(leaveRequest, approverId);
       } else if (approvalLevel === 'BOTH') {
         // Two level approval
         if (isManagerApproval && !leaveRequest.managerApprovedBy) {
@@ -1285,7 +3428,11 @@ export class LeaveService {
           updateData.managerComments = data.comments;
           updateData.managerApprovalStatus = 'APPROVED';
           // Request stays PENDING for HR approval
-        } else if (isHRApproval && leaveRequest.managerApprovalStatus === 'APPROVED') {
+        } else if (
+          isHRApproval &&
+          // Escalated requests no longer wait on the manager
+          (leaveRequest.managerApprovalStatus === 'APPROVED' || leaveRequest.escalatedAt)
+        ) {
           updateData.hrApprovedBy = approverId;
           updateData.hrApprovedAt = new Date();
           updateData.hrComments = data.comments;
@@ -1296,7 +3443,7 @@ export class LeaveService {
           updateData.finalStatus = 'APPROVED';
 
           // Update leave balance
-          await this.updateLeaveBalanceAfterApproval(leaveRequest);
+          await this.updateLeaveBalanceAfterApproval(leaveRequest, approverId);
         } else if (isManagerApproval && leaveRequest.managerApprovedBy) {
           throw new AppError('Manager approval already completed', 400);
         } else if (isHRApproval && leaveRequest.managerApprovalStatus !== 'APPROVED') {
@@ -1320,7 +3467,7 @@ export class LeaveService {
           };
 
           // Update leave balance
-          await this.updateLeaveBalanceAfterApproval(leaveRequest);
+          await this.updateLeaveBalanceAfterApproval(leaveRequest, approverId);
         } else {
           throw new AppError('Only HR can approve this leave type', 400);
         }
@@ -1346,7 +3493,7 @@ export class LeaveService {
       }
 
       // Restore pending balance
-      await this.restorePendingBalance(leaveRequest);
+      await this.restorePendingBalance(leaveRequest, approverId);
     }
 
     const updatedRequest = await prisma.leaveRequest.update({
@@ -1373,29 +3520,22 @@ export class LeaveService {
   private async sendApprovalNotifications(
     leaveRequest: LeaveRequest,
     action: string,
-    delegationInfo: {
-      isDelegated: boolean;
-      delegatedBy?: string;
-      reason?: string;
-    } | null
+    delegationInfo: ApprovalDelegationInfo | null,
+    approverId: string
   ): Promise<void> {
-    // Enhanced notification logic for approval workflows
-    const notificationType = action === 'APPROVE' ? 'APPROVED' : 'REJECTED';
-    
-    // Send to employee
-    await this.sendLeaveNotifications(leaveRequest, notificationType);
-    
-    // If delegated, notify the original authority
-    if (delegationInfo?.isDelegated && delegationInfo.delegatedBy) {
-      // Send delegation notification
-      console.log(`Sending delegation notification to ${delegationInfo.delegatedBy} for ${notificationType} action`);
-    }
-    
-    // Send to next approver if multi-level approval
-    if (action === 'APPROVE' && leaveRequest.status === 'PENDING') {
-      // Request approved by manager, now needs HR approval
-      console.log(`Sending HR approval notification for request ${leaveRequest.id}`);
-    }
+    // Manager approved but HR approval is still outstanding
+    const notificationType: LeaveNotificationEvent =
+      action === 'APPROVE'
+        ? leaveRequest.status === 'PENDING'
+          ? 'PENDING_APPROVAL'
+          : 'APPROVED'
+        : 'REJECTED';
+
+    // Notify the employee, manager and HR; the delegate acting on the request is the actor.
+    // When delegated, the original authority (manager or HR) is among the recipients.
+    await this.sendLeaveNotifications(leaveRequest, notificationType, {
+      actorId: approverId,
+    });
   }
 
   private async triggerNextApprovalStep(leaveRequest: LeaveRequest): Promise<void> {
@@ -1439,6 +3579,23 @@ export class LeaveService {
     });
   }
 
+  // Resolve an employee from either an Employee ID or a User ID (supabaseId)
+  private async findEmployeeByUserId(userId: string) {
+    const select = {
+      id: true,
+      firstName: true,
+      lastName: true,
+      department: true,
+      reportingManager: true,
+      jobTitle: true,
+    };
+
+    return (
+      (await prisma.employee.findUnique({ where: { id: userId }, select })) ||
+      (await prisma.employee.findUnique({ where: { supabaseId: userId }, select }))
+    );
+  }
+
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   private applyRoleBasedFiltering(
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -1538,12 +3695,57 @@ export class LeaveService {
     return startDate < today;
   }
 
+  // Start date of a fiscal year per LeaveSettings.fiscalYearStart (DD-MM)
+  private getFiscalYearStartDate(fiscalYear: number, settings: LeaveSettings | null): Date {
+    const [day, month] = (settings?.fiscalYearStart || '01-04').split('-').map(Number);
+    return new Date(Date.UTC(fiscalYear, month - 1, day));
+  }
+
+  private getFiscalYearForDate(date: Date, settings: LeaveSettings | null): number {
+    const year = date.getUTCFullYear();
+    return date >= this.getFiscalYearStartDate(year, settings) ? year : year - 1;
+  }
+
   private getCurrentFiscalYear(): number {
     const now = new Date();
     const fiscalYearStart = new Date(now.getFullYear(), 3, 1); // April 1st
     return now >= fiscalYearStart ? now.getFullYear() : now.getFullYear() - 1;
   }
 
+  // Approved LWP days per employee falling within [periodStart, periodEnd)
+  private async getLwpDaysInPeriod(
+    employeeIds: string[],
+    periodStart: Date,
+    periodEnd: Date
+  ): Promise<Map<string, number>> {
+    const lwpRequests = await prisma.leaveRequest.findMany({
+      where: {
+        employeeId: { in: employeeIds },
+        leaveType: 'LEAVE_WITHOUT_PAY',
+        status: 'APPROVED',
+        startDate: { lt: periodEnd },
+        endDate: { gte: periodStart },
+      },
+      select: { employeeId: true, startDate: true, endDate: true, totalDays: true },
+    });
+
+    const dayMs = 24 * 60 * 60 * 1000;
+    const lwpDays = new Map<string, number>();
+    for (const request of lwpRequests) {
+      // Requests spanning the period boundary count pro rata by calendar days
+      const spanDays =
+        Math.floor((request.endDate.getTime() - request.startDate.getTime()) / dayMs) + 1;
+      const overlapStart = request.startDate > periodStart ? request.startDate : periodStart;
+      const lastDay = new Date(periodEnd.getTime() - dayMs);
+      const overlapEnd = request.endDate < lastDay ? request.endDate : lastDay;
+      const overlapDays = Math.floor((overlapEnd.getTime() - overlapStart.getTime()) / dayMs) + 1;
+      const days = (request.totalDays.toNumber() * overlapDays) / spanDays;
+
+      lwpDays.set(request.employeeId, (lwpDays.get(request.employeeId) || 0) + days);
+    }
+    return lwpDays;
+  }
+
   private async validateLeaveRequestComprehensive(
     data: CreateLeaveRequestInput,
     policy: LeavePolicy,
@@ -1719,58 +3921,311 @@ export class LeaveService {
     }
   }
 
-  private async updateLeaveBalanceAfterApproval(leaveRequest: LeaveRequest): Promise<void> {
+  private async updateLeaveBalanceAfterApproval(
+    leaveRequest: LeaveRequest,
+    performedBy: string
+  ): Promise<void> {
     const balance = await this.getEmployeeLeaveBalance(
       leaveRequest.employeeId,
       leaveRequest.policyId
     );
 
     if (balance) {
-      await prisma.leaveBalance.update({
-        where: { id: balance.id },
-        data: {
-          usedLeaves: balance.usedLeaves.add(leaveRequest.totalDays),
-          pendingLeaves: balance.pendingLeaves.sub(leaveRequest.totalDays),
-          lastUpdated: new Date(),
-        },
+      await prisma.$transaction(async (tx) => {
+        const updated = await tx.leaveBalance.update({
+          where: { id: balance.id },
+          data: {
+            usedLeaves: { increment: leaveRequest.totalDays },
+            pendingLeaves: { decrement: leaveRequest.totalDays },
+            lastUpdated: new Date(),
+          },
+        });
+
+        await this.recordBalanceTransaction(tx, {
+          balance: updated,
+          type: 'DEBIT',
+          days: 0,
+          usedChange: leaveRequest.totalDays,
+          pendingChange: leaveRequest.totalDays.neg(),
+          referenceType: 'LEAVE_REQUEST',
+          referenceId: leaveRequest.id,
+          description: 'Leave request approved',
+          performedBy,
+        });
       });
     }
   }
 
-  private async restorePendingBalance(leaveRequest: LeaveRequest): Promise<void> {
+  private async restorePendingBalance(
+    leaveRequest: LeaveRequest,
+    performedBy: string
+  ): Promise<void> {
     const balance = await this.getEmployeeLeaveBalance(
       leaveRequest.employeeId,
       leaveRequest.policyId
     );
 
     if (balance) {
-      await prisma.leaveBalance.update({
-        where: { id: balance.id },
-        data: {
-          pendingLeaves: balance.pendingLeaves.sub(leaveRequest.totalDays),
-          availableBalance: balance.availableBalance.add(leaveRequest.totalDays),
-          lastUpdated: new Date(),
-        },
+      await prisma.$transaction(async (tx) => {
+        const updated = await tx.leaveBalance.update({
+          where: { id: balance.id },
+          data: {
+            pendingLeaves: { decrement: leaveRequest.totalDays },
+            availableBalance: { increment: leaveRequest.totalDays },
+            lastUpdated: new Date(),
+          },
+        });
+
+        await this.recordBalanceTransaction(tx, {
+          balance: updated,
+          type: 'RELEASE',
+          days: leaveRequest.totalDays,
+          pendingChange: leaveRequest.totalDays.neg(),
+          referenceType: 'LEAVE_REQUEST',
+          referenceId: leaveRequest.id,
+          description: 'Pending days released',
+          performedBy,
+        });
       });
     }
+
+    if (leaveRequest.leaveType === 'COMP_OFF') {
+      await this.releaseCompOffCredits(leaveRequest.id);
+    }
   }
 
-  private async restoreApprovedBalance(leaveRequest: LeaveRequest): Promise<void> {
+  private async restoreApprovedBalance(
+    leaveRequest: LeaveRequest,
+    performedBy: string
+  ): Promise<void> {
     const balance = await this.getEmployeeLeaveBalance(
       leaveRequest.employeeId,
       leaveRequest.policyId
     );
 
     if (balance) {
-      await prisma.leaveBalance.update({
-        where: { id: balance.id },
-        data: {
-          usedLeaves: balance.usedLeaves.sub(leaveRequest.totalDays),
-          availableBalance: balance.availableBalance.add(leaveRequest.totalDays),
-          lastUpdated: new Date(),
-        },
+      await prisma.$transaction(async (tx) => {
+        const updated = await tx.leaveBalance.update({
+          where: { id: balance.id },
+          data: {
+            usedLeaves: { decrement: leaveRequest.totalDays },
+            availableBalance: { increment: leaveRequest.totalDays },
+            lastUpdated: new Date(),
+          },
+        });
+
+        await this.recordBalanceTransaction(tx, {
+          balance: updated,
+          type: 'RELEASE',
+          days: leaveRequest.totalDays,
+          usedChange: leaveRequest.totalDays.neg(),
+          referenceType: 'LEAVE_REQUEST',
+          referenceId: leaveRequest.id,
+          description: 'Approved days restored',
+          performedBy,
+        });
+      });
+    }
+
+    if (leaveRequest.leaveType === 'COMP_OFF') {
+      await this.releaseCompOffCredits(leaveRequest.id);
+    }
+  }
+
+  // Encashment window containing `date`, e.g. "2025", "2025-H2" or "2025-Q1"
+  private getEncashmentPeriod(date: Date, settings: LeaveSettings | null): string {
+    const fiscalYear = this.getFiscalYearForDate(date, settings);
+    const start = this.getFiscalYearStartDate(fiscalYear, settings);
+    const monthOffset =
+      (date.getUTCFullYear() - start.getUTCFullYear()) * 12 +
+      date.getUTCMonth() -
+      start.getUTCMonth();
+
+    switch (settings?.encashmentPeriod) {
+      case 'HALF_YEARLY':
+        return `${fiscalYear}-H${monthOffset < 6 ? 1 : 2}`;
+      case 'QUARTERLY':
+        return `${fiscalYear}-Q${Math.floor(monthOffset / 3) + 1}`;
+      default:
+        return String(fiscalYear);
+    }
+  }
+
+  // Check yearly policy limit and maxEncashmentPercent, counting other pending requests
+  private async validateEncashmentLimits(
+    balance: LeaveBalance,
+    policy: LeavePolicy,
+    settings: LeaveSettings | null,
+    days: Decimal,
+    excludeRequestId?: string
+  ): Promise<void> {
+    const pending = await prisma.leaveEncashmentRequest.aggregate({
+      where: {
+        leaveBalanceId: balance.id,
+        status: 'PENDING',
+        ...(excludeRequestId && { id: { not: excludeRequestId } }),
+      },
+      _sum: { days: true },
+    });
+    const requested = days.add(pending._sum.days ?? 0);
+
+    if (requested.gt(balance.availableBalance)) {
+      throw new AppError(
+        `Insufficient balance. Available: ${balance.availableBalance}, requested: ${requested}`,
+        400
+      );
+    }
+
+    if (policy.encashLimitPerYear !== null) {
+      const remaining = new Decimal(policy.encashLimitPerYear).sub(balance.encashedThisYear);
+      if (requested.gt(remaining)) {
+        throw new AppError(
+          `Encashment limit exceeded. Remaining this year: ${Decimal.max(remaining, 0)} day(s)`,
+          400
+        );
+      }
+    }
+
+    if (settings?.maxEncashmentPercent) {
+      const maxDays = balance.availableBalance.mul(settings.maxEncashmentPercent).div(100);
+      if (requested.gt(maxDays)) {
+        throw new AppError(
+          `Cannot encash more than ${settings.maxEncashmentPercent}% of available balance (${maxDays.toDecimalPlaces(2)} day(s))`,
+          400
+        );
+      }
+    }
+  }
+
+  private async getSalaryGradeRate(employeeId: string) {
+    const employee = await prisma.employee.findUnique({
+      where: { id: employeeId },
+      select: { salaryGrade: true },
+    });
+    if (!employee?.salaryGrade) return null;
+
+    return prisma.salaryGrade.findFirst({
+      where: { code: employee.salaryGrade, isActive: true },
+    });
+  }
+
+  // Comp-off credits still valid on `lastLeaveDate` (so for every day of the leave), oldest first
+  private async getUsableCompOffCredits(
+    client: Prisma.TransactionClient,
+    employeeId: string,
+    lastLeaveDate: Date
+  ) {
+    return client.compOffCredit.findMany({
+      where: {
+        employeeId,
+        remainingDays: { gt: 0 },
+        OR: [{ expiresAt: null }, { expiresAt: { gte: lastLeaveDate } }],
+      },
+      orderBy: [{ earnedOn: 'asc' }, { createdAt: 'asc' }],
+    });
+  }
+
+  private async validateCompOffCredits(
+    employeeId: string,
+    lastLeaveDate: Date,
+    requestedDays: number
+  ): Promise<void> {
+    const credits = await this.getUsableCompOffCredits(prisma, employeeId, lastLeaveDate);
+    const usable = credits.reduce((sum, c) => sum.add(c.remainingDays), new Decimal(0));
+
+    if (usable.lt(requestedDays)) {
+      throw new AppError(
+        `Insufficient comp-off credits valid through the leave period. Available: ${usable} days, Requested: ${requestedDays} days`,
+        400
+      );
+    }
+  }
+
+  // Consume credits oldest first. Credits are re-read in the transaction and each decrement is
+  // guarded, so concurrent requests can't spend the same days twice.
+  private async consumeCompOffCredits(
+    tx: Prisma.TransactionClient,
+    leaveRequestId: string,
+    employeeId: string,
+    lastLeaveDate: Date,
+    requestedDays: number
+  ): Promise<void> {
+    const credits = await this.getUsableCompOffCredits(tx, employeeId, lastLeaveDate);
+    let remaining = new Decimal(requestedDays);
+
+    for (const credit of credits) {
+      if (remaining.lte(0)) break;
+      const days = Decimal.min(credit.remainingDays, remaining);
+
+      const { count } = await tx.compOffCredit.updateMany({
+        where: { id: credit.id, remainingDays: { gte: days } },
+        data: { remainingDays: { decrement: days } },
+      });
+      if (count === 0) continue;
+
+      await tx.compOffCreditUsage.create({
+        data: { creditId: credit.id, leaveRequestId, days },
       });
+      remaining = remaining.sub(days);
+    }
+
+    if (remaining.gt(0)) {
+      throw new AppError(
+        'Comp-off credits were used by another request; please check your balance and try again',
+        409
+      );
+    }
+  }
+
+  // Return consumed days to their credits; expired credits are picked up by the next expiry run
+  private async releaseCompOffCredits(leaveRequestId: string): Promise<void> {
+    const usages = await prisma.compOffCreditUsage.findMany({
+      where: { leaveRequestId, releasedAt: null },
+    });
+
+    await prisma.$transaction(async (tx) => {
+      for (const usage of usages) {
+        await tx.compOffCredit.update({
+          where: { id: usage.creditId },
+          data: { remainingDays: { increment: usage.days } },
+        });
+        await tx.compOffCreditUsage.update({
+          where: { id: usage.id },
+          data: { releasedAt: new Date() },
+        });
+      }
+    });
+  }
+
+  // Append a ledger entry; balanceAfter defaults to the updated balance's available days
+  private async recordBalanceTransaction(
+    client: Prisma.TransactionClient,
+    entry: {
+      balance: LeaveBalance;
+      type: LeaveBalanceTransactionType;
+      days: Decimal | number;
+      usedChange?: Decimal | number;
+      pendingChange?: Decimal | number;
+      balanceAfter?: Decimal | number;
+      periodStart?: Date;
+      periodEnd?: Date;
+      referenceType?: string;
+      referenceId?: string;
+      description: string;
+      metadata?: Prisma.InputJsonValue;
+      performedBy: string;
     }
+  ): Promise<void> {
+    const { balance, ...data } = entry;
+
+    await client.leaveBalanceTransaction.create({
+      data: {
+        ...data,
+        leaveBalanceId: balance.id,
+        employeeId: balance.employeeId,
+        balanceAfter: entry.balanceAfter ?? balance.availableBalance,
+      },
+    });
   }
 
   private async createAuditLog(
@@ -1789,15 +4244,384 @@ export class LeaveService {
         performedByEmail: additionalData?.employeeEmail || '',
         performedByRole,
         performedByName: additionalData?.employeeName || '',
+        previousStatus: additionalData?.previousStatus,
+        newStatus: additionalData?.newStatus,
+        fieldChanges: additionalData?.fieldChanges,
+        comments: additionalData?.comments,
+        reason: additionalData?.delegationReason,
+        ipAddress: additionalData?.ipAddress,
+        userAgent: additionalData?.userAgent,
         timestamp: new Date(),
       },
     });
   }
 
-  private async sendLeaveNotifications(_leaveRequest: LeaveRequest, _type: string): Promise<void> {
-    // TODO: Implement notification service integration
-    // This would integrate with your existing notification system
-    // Notification: ${type} for leave request ${leaveRequest.id}
+  /**
+   * Notify the employee, their reporting manager and HR about a leave lifecycle event
+   * on the channels enabled in leave settings. SMS is reserved for urgent events:
+   * approval requests for emergency leave and escalations. Failures are logged and
+   * never fail the leave operation that triggered them.
+   */
+  private async sendLeaveNotifications(
+    leaveRequest: LeaveRequest,
+    event: LeaveNotificationEvent,
+    context: {
+      actorId?: string;
+      previousStatus?: string;
+      urgent?: boolean;
+      daysUntilStart?: number;
+    } = {}
+  ): Promise<void> {
+    try {
+      const request = await prisma.leaveRequest.findUnique({
+        where: { id: leaveRequest.id },
+        include: {
+          employee: {
+            select: {
+              id: true,
+              supabaseId: true,
+              firstName: true,
+              lastName: true,
+              email: true,
+              contactNumber: true,
+              reportingManager: true,
+            },
+          },
+          policy: { select: { name: true, approvalLevel: true } },
+        },
+      });
+
+      if (!request) return;
+
+      const settings = await this.getLeaveSettings();
+      const channels = this.getNotificationChannels(settings);
+      if (channels.length === 0) return;
+
+      const { employee } = request;
+      const employeeName = `${employee.firstName} ${employee.lastName}`;
+      const startDate = request.startDate.toISOString().split('T')[0];
+      const endDate = request.endDate.toISOString().split('T')[0];
+      const leaveSummary = `${request.policy.name} for ${Number(request.totalDays)} day(s) from ${startDate} to ${endDate}`;
+
+      const employeeRecipient: LeaveNotificationRecipient = {
+        recipientId: employee.id,
+        userId: employee.supabaseId,
+        email: employee.email,
+        phone: employee.contactNumber,
+      };
+
+      const manager = employee.reportingManager
+        ? await prisma.employee.findUnique({
+            where: { id: employee.reportingManager },
+            select: { id: true, supabaseId: true, email: true, contactNumber: true },
+          })
+        : null;
+      const managerRecipients: LeaveNotificationRecipient[] = manager
+        ? [
+            {
+              recipientId: manager.id,
+              userId: manager.supabaseId,
+              email: manager.email,
+              phone: manager.contactNumber,
+            },
+          ]
+        : [];
+      const hrRecipients = await this.getHrNotificationRecipients();
+
+      const notifications: Array<{
+        recipients: LeaveNotificationRecipient[];
+        type: NotificationData['type'];
+        title: string;
+        message: string;
+        urgent?: boolean;
+        data?: Record<string, unknown>;
+      }> = [];
+
+      switch (event) {
+        case 'APPLIED': {
+          if (request.status === 'APPROVED') {
+            // Auto-approved on submission
+            notifications.push(
+              {
+                recipients: [employeeRecipient],
+                type: 'LEAVE_APPROVED',
+                title: 'Leave Request Approved',
+                message: `Your ${leaveSummary} has been auto-approved`,
+              },
+              {
+                recipients: managerRecipients,
+                type: 'LEAVE_APPLIED',
+                title: 'Leave Request Submitted',
+                message: `${employeeName} has applied for ${leaveSummary} (auto-approved)`,
+              }
+            );
+            break;
+          }
+
+          // HR-only policies, and employees without a manager, go straight to HR
+          const needsHrOnly = request.policy.approvalLevel === 'HR' || !manager;
+          notifications.push(
+            {
+              recipients: [employeeRecipient],
+              type: 'LEAVE_APPLIED',
+              title: 'Leave Request Submitted',
+              message: `Your ${leaveSummary} has been submitted for approval`,
+            },
+            {
+              recipients: needsHrOnly ? hrRecipients : managerRecipients,
+              type: 'LEAVE_PENDING_APPROVAL',
+              title: 'Leave Approval Required',
+              message: `${employeeName} has applied for ${leaveSummary} and requires your approval`,
+              urgent: context.urgent,
+            }
+          );
+          if (needsHrOnly) {
+            notifications.push({
+              recipients: managerRecipients,
+              type: 'LEAVE_APPLIED',
+              title: 'Leave Request Submitted',
+              message: `${employeeName} has applied for ${leaveSummary}`,
+            });
+          }
+          break;
+        }
+
+        case 'PENDING_APPROVAL':
+          // Manager approved, HR approval still required
+          notifications.push(
+            {
+              recipients: [employeeRecipient],
+              type: 'LEAVE_PENDING_APPROVAL',
+              title: 'Leave Request Awaiting HR Approval',
+              message: `Your ${leaveSummary} has been approved by your manager and is awaiting HR approval`,
+            },
+            {
+              recipients: hrRecipients,
+              type: 'LEAVE_PENDING_APPROVAL',
+              title: 'Leave Approval Required',
+              message: `${employeeName}'s ${leaveSummary} has been approved by their manager and requires your approval`,
+            }
+          );
+          break;
+
+        case 'APPROVED':
+          notifications.push(
+            {
+              recipients: [employeeRecipient],
+              type: 'LEAVE_APPROVED',
+              title: 'Leave Request Approved',
+              message: `Your ${leaveSummary} has been approved`,
+            },
+            {
+              recipients: [...managerRecipients, ...hrRecipients],
+              type: 'LEAVE_APPROVED',
+              title: 'Leave Request Approved',
+              message: `${employeeName}'s ${leaveSummary} has been approved`,
+            }
+          );
+          break;
+
+        case 'REJECTED': {
+          const reason = request.rejectionReason ? `: ${request.rejectionReason}` : '';
+          notifications.push(
+            {
+              recipients: [employeeRecipient],
+              type: 'LEAVE_REJECTED',
+              title: 'Leave Request Rejected',
+              message: `Your ${leaveSummary} has been rejected${reason}`,
+            },
+            {
+              recipients: [...managerRecipients, ...hrRecipients],
+              type: 'LEAVE_REJECTED',
+              title: 'Leave Request Rejected',
+              message: `${employeeName}'s ${leaveSummary} has been rejected${reason}`,
+            }
+          );
+          break;
+        }
+
+        case 'CANCELLED':
+          notifications.push(
+            {
+              recipients: [employeeRecipient],
+              type: 'LEAVE_CANCELLED',
+              title: 'Leave Request Cancelled',
+              message: `Your ${leaveSummary} has been cancelled`,
+            },
+            {
+              // HR only needs to know when approved leave is withdrawn
+              recipients:
+                context.previousStatus === 'APPROVED'
+                  ? [...managerRecipients, ...hrRecipients]
+                  : managerRecipients,
+              type: 'LEAVE_CANCELLED',
+              title: 'Leave Request Cancelled',
+              message: `${employeeName}'s ${leaveSummary} has been cancelled`,
+            }
+          );
+          break;
+
+        case 'ESCALATED': {
+          // Configured escalation recipients take the place of the HR group
+          const escalationRecipients = settings?.escalationRecipients.length
+            ? await this.getEscalationRecipients(settings.escalationRecipients)
+            : hrRecipients;
+          notifications.push({
+            recipients: [...managerRecipients, ...escalationRecipients],
+            type: 'LEAVE_ESCALATED',
+            title: 'Leave Request Escalated',
+            message: `${employeeName}'s ${leaveSummary} has been pending since ${request.appliedAt.toISOString().split('T')[0]} and has been escalated`,
+            urgent: true,
+          });
+          break;
+        }
+
+        case 'REMINDER': {
+          const days = context.daysUntilStart ?? 0;
+          const startsIn = days === 0 ? 'today' : days === 1 ? 'tomorrow' : `in ${days} days`;
+          const reminderData = {
+            daysUntilStart: days,
+            workHandover: request.workHandover ?? undefined,
+          };
+          notifications.push(
+            {
+              recipients: [employeeRecipient],
+              type: 'LEAVE_REMINDER',
+              title: 'Upcoming Leave Reminder',
+              message: `Your ${leaveSummary} starts ${startsIn}`,
+              data: reminderData,
+            },
+            {
+              recipients: managerRecipients,
+              type: 'LEAVE_REMINDER',
+              title: 'Upcoming Team Leave',
+              message: `${employeeName}'s ${leaveSummary} starts ${startsIn}`,
+              data: reminderData,
+            }
+          );
+          break;
+        }
+      }
+
+      // Don't copy the person who performed the action on their own decision, and
+      // notify each recipient once (e.g. a manager who is also HR)
+      const actorIds = new Set(context.actorId ? [context.actorId] : []);
+      const notified = new Set<string>();
+
+      for (const notification of notifications) {
+        for (const recipient of notification.recipients) {
+          const isActor =
+            actorIds.has(recipient.recipientId) ||
+            (recipient.userId !== undefined && actorIds.has(recipient.userId));
+          if (recipient.recipientId !== employee.id && isActor) continue;
+          if (notified.has(recipient.recipientId)) continue;
+          notified.add(recipient.recipientId);
+
+          await NotificationService.createNotification({
+            type: notification.type,
+            title: notification.title,
+            message: notification.message,
+            recipientId: recipient.recipientId,
+            recipientEmail: recipient.email,
+            recipientPhone: recipient.phone,
+            employeeId: employee.id,
+            leaveRequestId: request.id,
+            // Recipients known only by email have no inbox to notify in-app
+            channels: channels.filter(
+              (channel) =>
+                (notification.urgent || channel !== 'SMS') &&
+                (recipient.userId !== undefined || channel !== 'IN_APP')
+            ),
+            data: {
+              employeeName,
+              leaveType: request.policy.name,
+              startDate,
+              endDate,
+              totalDays: Number(request.totalDays),
+              status: request.status,
+              event,
+              ...notification.data,
+            },
+          });
+        }
+      }
+    } catch (error) {
+      console.error(`Failed to send leave notifications for request ${leaveRequest.id}:`, error);
+    }
+  }
+
+  // Channels enabled in leave settings; callers drop SMS for events that aren't urgent
+  private getNotificationChannels(settings: LeaveSettings | null): NotificationChannel[] {
+    const channels: NotificationChannel[] = [];
+    if (settings?.inAppNotifications ?? true) channels.push('IN_APP');
+    if (settings?.emailNotifications ?? true) channels.push('EMAIL');
+    if (settings?.smsNotifications) channels.push('SMS');
+    return channels;
+  }
+
+  // HR users are ADMIN accounts; prefer their employee record as the recipient
+  private async getHrNotificationRecipients(): Promise<LeaveNotificationRecipient[]> {
+    const hrUsers = await prisma.user.findMany({
+      where: { role: 'ADMIN' },
+      select: { id: true, email: true },
+    });
+    if (hrUsers.length === 0) return [];
+
+    const hrEmployees = await prisma.employee.findMany({
+      where: { supabaseId: { in: hrUsers.map((user) => user.id) } },
+      select: { id: true, supabaseId: true, email: true, contactNumber: true },
+    });
+    const employeeByUserId = new Map(hrEmployees.map((emp) => [emp.supabaseId, emp]));
+
+    return hrUsers.map((user) => {
+      const hrEmployee = employeeByUserId.get(user.id);
+      return {
+        recipientId: hrEmployee?.id ?? user.id,
+        userId: user.id,
+        email: hrEmployee?.email ?? user.email,
+        phone: hrEmployee?.contactNumber,
+      };
+    });
+  }
+
+  // Escalation recipients are configured as emails; resolve them to employees or users so
+  // they are notified in-app as well
+  private async getEscalationRecipients(emails: string[]): Promise<LeaveNotificationRecipient[]> {
+    const normalized = [...new Set(emails.map((email) => email.trim().toLowerCase()))];
+    const emailFilter = normalized.map((email) => ({
+      email: { equals: email, mode: 'insensitive' as const },
+    }));
+
+    const [employees, users] = await Promise.all([
+      prisma.employee.findMany({
+        where: { OR: emailFilter },
+        select: { id: true, supabaseId: true, email: true, contactNumber: true },
+      }),
+      prisma.user.findMany({
+        where: { OR: emailFilter },
+        select: { id: true, email: true },
+      }),
+    ]);
+
+    return normalized.map((email) => {
+      const employee = employees.find((emp) => emp.email.toLowerCase() === email);
+      if (employee) {
+        return {
+          recipientId: employee.id,
+          userId: employee.supabaseId,
+          email: employee.email,
+          phone: employee.contactNumber,
+        };
+      }
+
+      const user = users.find((candidate) => candidate.email.toLowerCase() === email);
+      if (user) {
+        return { recipientId: user.id, userId: user.id, email: user.email };
+      }
+
+      // Email-only recipient
+      return { recipientId: email, email };
+    });
   }
 
   // ==================== CALENDAR INTEGRATION METHODS ====================
@@ -1,7 +1,28 @@
 import { Request, Response } from 'express';
+import { ZodError } from 'zod';
 import { NotificationService } from '../../services/notificationService.js';
+import { NotificationTemplateService } from '../../services/notificationTemplateService.js';
+import { NotificationPreferenceService } from '../../services/notificationPreferenceService.js';
+import { NotificationStreamService } from '../../services/notificationStreamService.js';
+import { NotificationDigestService } from '../../services/notificationDigestService.js';
 import { logger } from '../../utils/logger.js';
 import { AuthenticatedRequest } from '../../middlewares/supabaseAuth.js';
+import {
+  CreateNotificationTemplateInput,
+  UpdateNotificationTemplateInput,
+  PreviewNotificationTemplateInput,
+  UpdateNotificationPreferencesInput,
+  BulkNotificationSelectionInput,
+  RunNotificationRetentionInput,
+  RunDigestsInput,
+  getNotificationTemplatesQuerySchema,
+  getNotificationsQuerySchema,
+  previewDigestQuerySchema,
+} from './schema.js';
+
+// Reconnect replay is paged and bounded; clients further behind are told to resync
+const STREAM_REPLAY_PAGE_SIZE = 100;
+const STREAM_REPLAY_MAX_PAGES = 10;
 
 export class NotificationController {
   /**
@@ -11,8 +32,6 @@ export class NotificationController {
   static async getUserNotifications(req: AuthenticatedRequest, res: Response): Promise<void> {
     try {
       const userId = req.user?.id;
-      const page = parseInt(req.query.page as string) || 1;
-      const limit = parseInt(req.query.limit as string) || 10;
 
       if (!userId) {
         res.status(401).json({
@@ -23,9 +42,11 @@ export class NotificationController {
         return;
       }
 
+      const { page, limit, ...filters } = getNotificationsQuerySchema.parse(req.query);
+
       logger.info(`Fetching notifications for user: ${userId}`);
 
-      const result = await NotificationService.getUserNotifications(userId, page, limit);
+      const result = await NotificationService.getUserNotifications(userId, page, limit, filters);
 
       res.status(200).json({
         success: true,
@@ -37,6 +58,15 @@ export class NotificationController {
     } catch (error: unknown) {
       logger.error('Error in getUserNotifications controller:', error);
 
+      if (error instanceof ZodError) {
+        res.status(400).json({
+          success: false,
+          message: error.errors.map((err) => `${err.path.join('.')}: ${err.message}`).join(', '),
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
       res.status(500).json({
         success: false,
         message: error instanceof Error ? error.message : 'Failed to retrieve notifications',
@@ -81,6 +111,104 @@ export class NotificationController {
     }
   }
 
+  /**
+   * Stream new notifications and unread-count changes as Server-Sent Events
+   * GET /api/v1/notifications/stream
+   */
+  static async streamNotifications(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        message: 'User not authenticated',
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    // Registered before any await: a client that leaves while the stream is being set up
+    // must still release its subscription and heartbeat
+    let unsubscribe: (() => void) | null = null;
+    req.on('close', () => {
+      unsubscribe?.();
+      logger.info(`Notification stream closed for user: ${userId}`);
+    });
+
+    try {
+      const userIds = await NotificationPreferenceService.resolveUserIds(userId);
+      if (req.destroyed) return;
+
+      const lastEventId =
+        req.get('Last-Event-ID') ||
+        (typeof req.query.lastEventId === 'string' ? req.query.lastEventId : undefined);
+      let cursor = NotificationStreamService.parseEventId(lastEventId);
+
+      // no-transform keeps the compression middleware from buffering events
+      res.status(200).set({
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+        'X-Accel-Buffering': 'no',
+      });
+      res.flushHeaders();
+      res.write('retry: 5000\n\n');
+
+      // Subscribe before replaying so nothing raised meanwhile is missed; live events are
+      // held until the backlog has been written
+      unsubscribe = NotificationStreamService.subscribe(userIds, res);
+      logger.info(`Notification stream opened for user: ${userId}`);
+
+      // Replay anything raised while the client was disconnected, page by page
+      const replayedIds = new Set<string>();
+      for (let page = 0; cursor; page++) {
+        if (page === STREAM_REPLAY_MAX_PAGES) {
+          // Too far behind to replay; the client should reload its inbox instead
+          NotificationStreamService.send(res, 'resync', { reason: 'BACKLOG_TOO_LARGE' });
+          break;
+        }
+
+        const backlog = await NotificationService.getStreamBacklog(
+          userIds,
+          cursor,
+          STREAM_REPLAY_PAGE_SIZE
+        );
+        if (req.destroyed) return;
+
+        for (const notification of backlog) {
+          const eventId = NotificationStreamService.getEventId(notification);
+          NotificationStreamService.send(res, 'notification', notification, eventId);
+          replayedIds.add(eventId);
+        }
+
+        const last = backlog[backlog.length - 1];
+        cursor =
+          backlog.length === STREAM_REPLAY_PAGE_SIZE
+            ? { createdAt: last.createdAt, id: last.id }
+            : null;
+      }
+
+      const unreadCount = await NotificationService.getUnreadCount(userIds);
+      if (req.destroyed) return;
+
+      NotificationStreamService.send(res, 'unread-count', { unreadCount });
+      NotificationStreamService.release(res, replayedIds);
+    } catch (error: unknown) {
+      logger.error('Error in streamNotifications controller:', error);
+
+      if (!res.headersSent) {
+        res.status(500).json({
+          success: false,
+          message: error instanceof Error ? error.message : 'Failed to open notification stream',
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+      unsubscribe?.();
+      res.end();
+    }
+  }
+
   /**
    * Mark notification as read
    * PATCH /api/v1/notifications/{notificationId}/read
@@ -119,6 +247,335 @@ export class NotificationController {
     }
   }
 
+  /**
+   * Get notification preferences for the current user
+   * GET /api/v1/notifications/preferences
+   */
+  static async getPreferences(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          message: 'User not authenticated',
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      const preferences = await NotificationPreferenceService.getPreferences(userId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Notification preferences retrieved successfully',
+        data: preferences,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error: unknown) {
+      logger.error('Error in getPreferences controller:', error);
+
+      res.status(500).json({
+        success: false,
+        message:
+          error instanceof Error ? error.message : 'Failed to retrieve notification preferences',
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
+  /**
+   * Update notification preferences for the current user
+   * PUT /api/v1/notifications/preferences
+   */
+  static async updatePreferences(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      const data: UpdateNotificationPreferencesInput = req.body;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          message: 'User not authenticated',
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      const preferences = await NotificationPreferenceService.updatePreferences(userId, data);
+
+      res.status(200).json({
+        success: true,
+        message: 'Notification preferences updated successfully',
+        data: preferences,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error: unknown) {
+      logger.error('Error in updatePreferences controller:', error);
+
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+      if (errorMessage.includes('mandatory')) {
+        res.status(400).json({
+          success: false,
+          message: errorMessage,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        message: errorMessage || 'Failed to update notification preferences',
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
+  /**
+   * Preview the digest email the current user would receive now
+   * GET /api/v1/notifications/digest/preview
+   */
+  static async previewDigest(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          message: 'User not authenticated',
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      const { frequency } = previewDigestQuerySchema.parse(req.query);
+      const { templateVariables, ...digest } = await NotificationDigestService.buildDigest(userId, {
+        frequency,
+      });
+      const rendered = await NotificationTemplateService.render(
+        'DIGEST',
+        'EMAIL',
+        templateVariables
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'Digest preview generated successfully',
+        data: {
+          ...digest,
+          subject: rendered.subject,
+          body: rendered.body,
+          html: rendered.html,
+        },
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error: unknown) {
+      logger.error('Error in previewDigest controller:', error);
+
+      if (error instanceof ZodError) {
+        res.status(400).json({
+          success: false,
+          message: error.errors.map((err) => `${err.path.join('.')}: ${err.message}`).join(', '),
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        message: error instanceof Error ? error.message : 'Failed to preview digest',
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
+  /**
+   * Send due digests now, or one user's digest regardless of schedule
+   * POST /api/v1/notifications/digest/run
+   */
+  static async runDigests(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const data: RunDigestsInput = req.body;
+
+      logger.info(`Admin ${req.user?.email} running notification digests`);
+
+      const result = data.userId
+        ? await NotificationDigestService.sendDigest(data.userId, { dryRun: data.dryRun })
+        : await NotificationDigestService.sendDueDigests(new Date(), { dryRun: data.dryRun });
+
+      res.status(200).json({
+        success: true,
+        message: data.dryRun ? 'Digest dry run completed' : 'Digests processed successfully',
+        data: result,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error: unknown) {
+      logger.error('Error in runDigests controller:', error);
+
+      res.status(500).json({
+        success: false,
+        message: error instanceof Error ? error.message : 'Failed to run digests',
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
+  /**
+   * Mark all notifications as read
+   * PATCH /api/v1/notifications/read-all
+   */
+  static async markAllAsRead(req: AuthenticatedRequest, res: Response): Promise<void> {
+    await NotificationController.runBulkAction(req, res, 'Notifications marked as read', (userId) =>
+      NotificationService.markAllAsRead(userId)
+    );
+  }
+
+  /**
+   * Mark notifications matching IDs/filters as read
+   * PATCH /api/v1/notifications/read
+   */
+  static async markAsReadBySelection(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const selection: BulkNotificationSelectionInput = req.body;
+    await NotificationController.runBulkAction(req, res, 'Notifications marked as read', (userId) =>
+      NotificationService.markAsReadBySelection(userId, selection)
+    );
+  }
+
+  /**
+   * Archive notifications matching IDs/filters
+   * POST /api/v1/notifications/archive
+   */
+  static async archiveNotifications(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const selection: BulkNotificationSelectionInput = req.body;
+    await NotificationController.runBulkAction(req, res, 'Notifications archived', (userId) =>
+      NotificationService.archiveNotifications(userId, selection)
+    );
+  }
+
+  /**
+   * Delete notifications matching IDs/filters
+   * POST /api/v1/notifications/delete
+   */
+  static async deleteNotifications(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const selection: BulkNotificationSelectionInput = req.body;
+    await NotificationController.runBulkAction(req, res, 'Notifications deleted', (userId) =>
+      NotificationService.deleteNotifications(userId, selection)
+    );
+  }
+
+  /**
+   * Archive a single notification
+   * PATCH /api/v1/notifications/{notificationId}/archive
+   */
+  static async archiveNotification(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const { notificationId } = req.params;
+    await NotificationController.runBulkAction(
+      req,
+      res,
+      'Notification archived',
+      (userId) =>
+        NotificationService.archiveNotifications(userId, {
+          ids: [notificationId],
+          archiveScope: 'include',
+        }),
+      (result) => result.archived === 0
+    );
+  }
+
+  /**
+   * Delete a single notification
+   * DELETE /api/v1/notifications/{notificationId}
+   */
+  static async deleteNotification(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const { notificationId } = req.params;
+    await NotificationController.runBulkAction(
+      req,
+      res,
+      'Notification deleted',
+      (userId) => NotificationService.deleteNotifications(userId, { ids: [notificationId] }),
+      (result) => result.deleted === 0
+    );
+  }
+
+  /**
+   * Run the notification retention job
+   * POST /api/v1/notifications/retention/run
+   */
+  static async runRetention(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const data: RunNotificationRetentionInput = req.body;
+
+      logger.info(`Admin ${req.user?.email} running notification retention`);
+
+      const summary = await NotificationService.applyRetentionPolicy(data);
+
+      res.status(200).json({
+        success: true,
+        message: data.dryRun
+          ? 'Notification retention dry run completed'
+          : 'Notification retention completed successfully',
+        data: summary,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error: unknown) {
+      logger.error('Error in runRetention controller:', error);
+
+      res.status(500).json({
+        success: false,
+        message: error instanceof Error ? error.message : 'Failed to run notification retention',
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
+  private static async runBulkAction<T>(
+    req: AuthenticatedRequest,
+    res: Response,
+    successMessage: string,
+    action: (userId: string) => Promise<T>,
+    isNotFound?: (result: T) => boolean
+  ): Promise<void> {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          message: 'User not authenticated',
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      const result = await action(userId);
+
+      if (isNotFound?.(result)) {
+        res.status(404).json({
+          success: false,
+          message: 'Notification not found',
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: successMessage,
+        data: result,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error: unknown) {
+      logger.error(`Error in notification bulk action (${successMessage}):`, error);
+
+      res.status(500).json({
+        success: false,
+        message: error instanceof Error ? error.message : 'Failed to update notifications',
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
   /**
    * Test notification system
    * POST /api/v1/notifications/test
@@ -190,4 +647,194 @@ export class NotificationController {
       });
     }
   }
+
+  /**
+   * List notification templates
+   * GET /api/v1/notifications/templates
+   */
+  static async getTemplates(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const filters = getNotificationTemplatesQuerySchema.parse(req.query);
+
+      const templates = await NotificationTemplateService.listTemplates(filters);
+
+      res.status(200).json({
+        success: true,
+        message: 'Notification templates retrieved successfully',
+        data: templates,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error: unknown) {
+      logger.error('Error in getTemplates controller:', error);
+
+      res.status(500).json({
+        success: false,
+        message:
+          error instanceof Error ? error.message : 'Failed to retrieve notification templates',
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
+  /**
+   * Get notification template by ID
+   * GET /api/v1/notifications/templates/:id
+   */
+  static async getTemplateById(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const template = await NotificationTemplateService.getTemplateById(req.params.id);
+
+      res.status(200).json({
+        success: true,
+        message: 'Notification template retrieved successfully',
+        data: template,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error: unknown) {
+      NotificationController.handleTemplateError(
+        res,
+        error,
+        'Failed to retrieve notification template'
+      );
+    }
+  }
+
+  /**
+   * Create notification template
+   * POST /api/v1/notifications/templates
+   */
+  static async createTemplate(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const data: CreateNotificationTemplateInput = req.body;
+
+      logger.info(
+        `Admin ${req.user?.email} creating notification template: ${data.type}/${data.channel}`
+      );
+
+      const template = await NotificationTemplateService.createTemplate(data, req.user?.id);
+
+      res.status(201).json({
+        success: true,
+        message: 'Notification template created successfully',
+        data: template,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error: unknown) {
+      NotificationController.handleTemplateError(
+        res,
+        error,
+        'Failed to create notification template'
+      );
+    }
+  }
+
+  /**
+   * Update notification template
+   * PUT /api/v1/notifications/templates/:id
+   */
+  static async updateTemplate(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const data: UpdateNotificationTemplateInput = req.body;
+
+      logger.info(`Admin ${req.user?.email} updating notification template: ${req.params.id}`);
+
+      const template = await NotificationTemplateService.updateTemplate(
+        req.params.id,
+        data,
+        req.user?.id
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'Notification template updated successfully',
+        data: template,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error: unknown) {
+      NotificationController.handleTemplateError(
+        res,
+        error,
+        'Failed to update notification template'
+      );
+    }
+  }
+
+  /**
+   * Delete notification template
+   * DELETE /api/v1/notifications/templates/:id
+   */
+  static async deleteTemplate(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      logger.info(`Admin ${req.user?.email} deleting notification template: ${req.params.id}`);
+
+      const result = await NotificationTemplateService.deleteTemplate(req.params.id);
+
+      res.status(200).json({
+        success: true,
+        message: result.message,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error: unknown) {
+      NotificationController.handleTemplateError(
+        res,
+        error,
+        'Failed to delete notification template'
+      );
+    }
+  }
+
+  /**
+   * Render a notification template against sample data
+   * POST /api/v1/notifications/templates/preview
+   */
+  static async previewTemplate(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const data: PreviewNotificationTemplateInput = req.body;
+
+      const preview = await NotificationTemplateService.previewTemplate(data);
+
+      res.status(200).json({
+        success: true,
+        message: 'Notification template preview rendered successfully',
+        data: preview,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error: unknown) {
+      NotificationController.handleTemplateError(
+        res,
+        error,
+        'Failed to preview notification template'
+      );
+    }
+  }
+
+  private static handleTemplateError(res: Response, error: unknown, fallbackMessage: string): void {
+    logger.error(`${fallbackMessage}:`, error);
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+    if (errorMessage.includes('not found')) {
+      res.status(404).json({
+        success: false,
+        message: 'Notification template not found',
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    if (errorMessage.includes('Unique constraint failed')) {
+      res.status(409).json({
+        success: false,
+        message: 'A template for this type, channel and locale already exists',
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    res.status(500).json({
+      success: false,
+      message: errorMessage || fallbackMessage,
+      timestamp: new Date().toISOString(),
+    });
+  }
 }
@@ -1,10 +1,28 @@
-import { Router } from 'express';
+import { Router, Request, Response, NextFunction } from 'express';
 import { NotificationController } from './controller.js';
 import { verifyToken } from '../../middlewares/testAuth.js';
 import { requireAdmin } from '../../middlewares/roleAuth.js';
+import { validateRequest } from '../../middlewares/validation.js';
+import {
+  createNotificationTemplateSchema,
+  updateNotificationTemplateSchema,
+  previewNotificationTemplateSchema,
+  updateNotificationPreferencesSchema,
+  bulkNotificationSelectionSchema,
+  runNotificationRetentionSchema,
+  runDigestsSchema,
+} from './schema.js';
 
 const router = Router();
 
+// EventSource cannot send headers, so the stream also accepts ?access_token=
+const acceptQueryToken = (req: Request, _res: Response, next: NextFunction): void => {
+  if (!req.headers.authorization && typeof req.query.access_token === 'string') {
+    req.headers.authorization = `Bearer ${req.query.access_token}`;
+  }
+  next();
+};
+
 /**
  * @swagger
  * components:
@@ -17,7 +35,7 @@ const router = Router();
  *           format: uuid
  *         type:
  *           type: string
- *           enum: [TASK_ASSIGNED, TASK_COMPLETED, TASK_OVERDUE, WORKFLOW_ASSIGNED, WORKFLOW_COMPLETED, MANAGER_ASSIGNED, APPROVAL_REQUIRED, SYSTEM_ALERT]
+ *           enum: [TASK_ASSIGNED, TASK_COMPLETED, TASK_OVERDUE, TASK_APPROVED, TASK_REJECTED, WORKFLOW_ASSIGNED, WORKFLOW_COMPLETED, MANAGER_ASSIGNED, APPROVAL_REQUIRED, SYSTEM_ALERT, LEAVE_APPLIED, LEAVE_PENDING_APPROVAL, LEAVE_APPROVED, LEAVE_REJECTED, LEAVE_CANCELLED, LEAVE_ESCALATED, LEAVE_REMINDER, LEAVE_BALANCE_EXPIRING]
  *         title:
  *           type: string
  *         message:
@@ -61,6 +79,42 @@ const router = Router();
  *           type: integer
  *           default: 10
  *         description: Number of notifications per page
+ *       - name: type
+ *         in: query
+ *         schema:
+ *           type: string
+ *       - name: status
+ *         in: query
+ *         schema:
+ *           type: string
+ *           enum: [PENDING, SENT, DELIVERED, READ, FAILED]
+ *       - name: channel
+ *         in: query
+ *         schema:
+ *           type: string
+ *           enum: [IN_APP, EMAIL, SMS]
+ *       - name: workflowInstanceId
+ *         in: query
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - name: startDate
+ *         in: query
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - name: endDate
+ *         in: query
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - name: archiveScope
+ *         in: query
+ *         schema:
+ *           type: string
+ *           enum: [exclude, only, include]
+ *           default: exclude
+ *         description: Whether archived notifications are hidden, shown alone or included
  *     responses:
  *       200:
  *         description: Notifications retrieved successfully
@@ -133,6 +187,45 @@ router.get('/', verifyToken, NotificationController.getUserNotifications);
  */
 router.get('/unread-count', verifyToken, NotificationController.getUnreadCount);
 
+/**
+ * @swagger
+ * /api/v1/notifications/stream:
+ *   get:
+ *     summary: Stream notifications (Server-Sent Events)
+ *     description: |
+ *       Opens a text/event-stream connection that pushes `notification` events (new in-app notifications, with `<creation time>-<notification id>` as the event ID) and `unread-count` events whenever a notification is created or marked as read. The current unread count is sent on connect.
+ *       Reconnecting clients send the Last-Event-ID header (EventSource does this automatically) to replay notifications missed while disconnected. Up to 1000 notifications are replayed; beyond that a `resync` event asks the client to reload its inbox. Browsers' EventSource cannot set headers, so the token may be passed as `access_token` (it is redacted from request logs).
+ *     tags: [Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: Last-Event-ID
+ *         in: header
+ *         schema:
+ *           type: string
+ *         description: ID of the last event received; notifications created after it are replayed
+ *       - name: lastEventId
+ *         in: query
+ *         schema:
+ *           type: string
+ *         description: Alternative to the Last-Event-ID header
+ *       - name: access_token
+ *         in: query
+ *         schema:
+ *           type: string
+ *         description: Bearer token for clients that cannot set the Authorization header
+ *     responses:
+ *       200:
+ *         description: Event stream
+ *         content:
+ *           text/event-stream:
+ *             schema:
+ *               type: string
+ *       401:
+ *         description: Unauthorized
+ */
+router.get('/stream', acceptQueryToken, verifyToken, NotificationController.streamNotifications);
+
 /**
  * @swagger
  * /api/v1/notifications/{notificationId}/read:
@@ -173,6 +266,186 @@ router.get('/unread-count', verifyToken, NotificationController.getUnreadCount);
  */
 router.patch('/:notificationId/read', verifyToken, NotificationController.markAsRead);
 
+// ==================== BULK ACTION ROUTES ====================
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     NotificationSelection:
+ *       type: object
+ *       description: Notification IDs and/or filters; at least one must be given
+ *       properties:
+ *         ids:
+ *           type: array
+ *           items:
+ *             type: string
+ *             format: uuid
+ *         type:
+ *           type: string
+ *         status:
+ *           type: string
+ *           enum: [PENDING, SENT, DELIVERED, READ, FAILED]
+ *         channel:
+ *           type: string
+ *           enum: [IN_APP, EMAIL, SMS]
+ *         workflowInstanceId:
+ *           type: string
+ *           format: uuid
+ *         startDate:
+ *           type: string
+ *           format: date-time
+ *         endDate:
+ *           type: string
+ *           format: date-time
+ *         archiveScope:
+ *           type: string
+ *           enum: [exclude, only, include]
+ */
+
+/**
+ * @route   PATCH /api/v1/notifications/read-all
+ * @desc    Mark every unread notification of the current user as read
+ * @access  All authenticated users
+ */
+router.patch('/read-all', verifyToken, NotificationController.markAllAsRead);
+
+/**
+ * @swagger
+ * /api/v1/notifications/read:
+ *   patch:
+ *     summary: Mark notifications as read by IDs or filter
+ *     description: Marks delivered notifications matching the selection as read. Undelivered email/SMS are left pending.
+ *     tags: [Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/NotificationSelection'
+ *     responses:
+ *       200:
+ *         description: Number of notifications marked as read
+ *       400:
+ *         description: Empty selection or validation error
+ */
+router.patch(
+  '/read',
+  verifyToken,
+  validateRequest({ body: bulkNotificationSelectionSchema }),
+  NotificationController.markAsReadBySelection
+);
+
+/**
+ * @swagger
+ * /api/v1/notifications/archive:
+ *   post:
+ *     summary: Archive notifications by IDs or filter
+ *     description: Archived notifications are hidden from the list and unread count but kept until retention purges them
+ *     tags: [Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/NotificationSelection'
+ *     responses:
+ *       200:
+ *         description: Number of notifications archived
+ *       400:
+ *         description: Empty selection or validation error
+ */
+router.post(
+  '/archive',
+  verifyToken,
+  validateRequest({ body: bulkNotificationSelectionSchema }),
+  NotificationController.archiveNotifications
+);
+
+/**
+ * @swagger
+ * /api/v1/notifications/delete:
+ *   post:
+ *     summary: Delete notifications by IDs or filter
+ *     description: Permanently deletes matching notifications, including archived ones unless archiveScope narrows the selection
+ *     tags: [Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/NotificationSelection'
+ *     responses:
+ *       200:
+ *         description: Number of notifications deleted
+ *       400:
+ *         description: Empty selection or validation error
+ */
+router.post(
+  '/delete',
+  verifyToken,
+  validateRequest({ body: bulkNotificationSelectionSchema }),
+  NotificationController.deleteNotifications
+);
+
+/**
+ * @route   PATCH /api/v1/notifications/:notificationId/archive
+ * @desc    Archive a single notification
+ * @access  Recipient only
+ */
+router.patch('/:notificationId/archive', verifyToken, NotificationController.archiveNotification);
+
+/**
+ * @route   DELETE /api/v1/notifications/:notificationId
+ * @desc    Delete a single notification
+ * @access  Recipient only
+ */
+router.delete('/:notificationId', verifyToken, NotificationController.deleteNotification);
+
+/**
+ * @swagger
+ * /api/v1/notifications/retention/run:
+ *   post:
+ *     summary: Run notification retention
+ *     description: Archives READ notifications older than the retention age (NOTIFICATION_RETENTION_DAYS) and purges notifications archived for longer than that age. In purge mode READ notifications are deleted directly. Runs nightly; use dryRun to preview counts.
+ *     tags: [Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               olderThanDays:
+ *                 type: integer
+ *                 minimum: 1
+ *               mode:
+ *                 type: string
+ *                 enum: [archive, purge]
+ *               dryRun:
+ *                 type: boolean
+ *                 default: false
+ *     responses:
+ *       200:
+ *         description: Retention summary
+ *       401:
+ *         description: Unauthorized - Admin access required
+ */
+router.post(
+  '/retention/run',
+  verifyToken,
+  requireAdmin,
+  validateRequest({ body: runNotificationRetentionSchema }),
+  NotificationController.runRetention
+);
+
 /**
  * @swagger
  * /api/v1/notifications/test:
@@ -236,7 +509,7 @@ router.post('/test', verifyToken, NotificationController.testNotification);
  * /api/v1/notifications/check-overdue:
  *   post:
  *     summary: Check for overdue tasks and send notifications
- *     description: Manually trigger the overdue task check and notification process
+ *     description: Manually trigger the overdue task check and notification process. This also runs hourly as the overdue-task-check job (see /api/v1/jobs).
  *     tags: [Notifications]
  *     security:
  *       - bearerAuth: []
@@ -267,4 +540,362 @@ router.post('/test', verifyToken, NotificationController.testNotification);
  */
 router.post('/check-overdue', verifyToken, requireAdmin, NotificationController.checkOverdueTasks);
 
+// ==================== NOTIFICATION PREFERENCE ROUTES ====================
+
+/**
+ * @swagger
+ * /api/v1/notifications/preferences:
+ *   get:
+ *     summary: Get notification preferences
+ *     description: Effective preference for every notification type and channel for the authenticated user, plus quiet hours and digest settings. Mandatory types are always enabled.
+ *     tags: [Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Notification preferences retrieved successfully
+ *       401:
+ *         description: Unauthorized
+ */
+router.get('/preferences', verifyToken, NotificationController.getPreferences);
+
+/**
+ * @swagger
+ * /api/v1/notifications/preferences:
+ *   put:
+ *     summary: Update notification preferences
+ *     description: Opt in or out of a type per channel, move email/SMS to the digest, and set quiet hours during which email/SMS are held until the window ends. Mandatory types (APPROVAL_REQUIRED, LEAVE_PENDING_APPROVAL, LEAVE_ESCALATED, SYSTEM_ALERT) cannot be disabled or digested.
+ *     tags: [Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               preferences:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   required: [type, channel]
+ *                   properties:
+ *                     type:
+ *                       type: string
+ *                     channel:
+ *                       type: string
+ *                       enum: [IN_APP, EMAIL, SMS]
+ *                     enabled:
+ *                       type: boolean
+ *                     digest:
+ *                       type: boolean
+ *               settings:
+ *                 type: object
+ *                 properties:
+ *                   quietHoursEnabled:
+ *                     type: boolean
+ *                   quietHoursStart:
+ *                     type: string
+ *                     example: "22:00"
+ *                   quietHoursEnd:
+ *                     type: string
+ *                     example: "07:00"
+ *                   timezone:
+ *                     type: string
+ *                     example: "Asia/Kolkata"
+ *                   digestEnabled:
+ *                     type: boolean
+ *                   digestFrequency:
+ *                     type: string
+ *                     enum: [DAILY, WEEKLY]
+ *                   digestDayOfWeek:
+ *                     type: integer
+ *                     minimum: 0
+ *                     maximum: 6
+ *                     description: Day weekly digests are sent (0 = Sunday)
+ *                   digestTime:
+ *                     type: string
+ *                     example: "08:00"
+ *     responses:
+ *       200:
+ *         description: Notification preferences updated successfully
+ *       400:
+ *         description: Validation error or attempt to opt out of a mandatory type
+ *       401:
+ *         description: Unauthorized
+ */
+router.put(
+  '/preferences',
+  verifyToken,
+  validateRequest({ body: updateNotificationPreferencesSchema }),
+  NotificationController.updatePreferences
+);
+
+// ==================== NOTIFICATION DIGEST ROUTES ====================
+
+/**
+ * @swagger
+ * /api/v1/notifications/digest/preview:
+ *   get:
+ *     summary: Preview the digest email
+ *     description: Builds the digest the authenticated user would receive now - pending approvals, overdue onboarding tasks, team members on leave tomorrow, new joiners and updates held for the digest - and renders it with the DIGEST email template. Nothing is sent.
+ *     tags: [Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: frequency
+ *         in: query
+ *         description: Defaults to the user's digest frequency
+ *         schema:
+ *           type: string
+ *           enum: [DAILY, WEEKLY]
+ *     responses:
+ *       200:
+ *         description: Digest sections with the rendered subject, text and HTML
+ *       400:
+ *         description: Invalid query parameters
+ *       401:
+ *         description: Unauthorized
+ */
+router.get('/digest/preview', verifyToken, NotificationController.previewDigest);
+
+/**
+ * @swagger
+ * /api/v1/notifications/digest/run:
+ *   post:
+ *     summary: Run notification digests
+ *     description: Sends digests to every user whose digest slot has passed since their last digest. With userId, sends that user's digest now regardless of schedule. Runs every few minutes; use dryRun to preview.
+ *     tags: [Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               userId:
+ *                 type: string
+ *               dryRun:
+ *                 type: boolean
+ *                 default: false
+ *     responses:
+ *       200:
+ *         description: Digest run summary
+ *       401:
+ *         description: Unauthorized - Admin access required
+ */
+router.post(
+  '/digest/run',
+  verifyToken,
+  requireAdmin,
+  validateRequest({ body: runDigestsSchema }),
+  NotificationController.runDigests
+);
+
+// ==================== NOTIFICATION TEMPLATE ROUTES ====================
+
+/**
+ * @swagger
+ * /api/v1/notifications/templates:
+ *   get:
+ *     summary: List notification templates
+ *     description: Admin-only list of database notification templates. Types and channels without a template use the built-in default content.
+ *     tags: [Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: type
+ *         in: query
+ *         schema:
+ *           type: string
+ *       - name: channel
+ *         in: query
+ *         schema:
+ *           type: string
+ *           enum: [IN_APP, EMAIL, SMS]
+ *       - name: locale
+ *         in: query
+ *         schema:
+ *           type: string
+ *       - name: isActive
+ *         in: query
+ *         schema:
+ *           type: boolean
+ *     responses:
+ *       200:
+ *         description: Notification templates retrieved successfully
+ *       401:
+ *         description: Unauthorized - Admin access required
+ */
+router.get('/templates', verifyToken, requireAdmin, NotificationController.getTemplates);
+
+/**
+ * @swagger
+ * /api/v1/notifications/templates:
+ *   post:
+ *     summary: Create notification template
+ *     description: Templates are keyed by type, channel and locale. Subject and bodies support {{variable}} placeholders and {{#variable}}...{{/variable}} sections.
+ *     tags: [Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [type, channel, name, subject, body]
+ *             properties:
+ *               type:
+ *                 type: string
+ *               channel:
+ *                 type: string
+ *                 enum: [IN_APP, EMAIL, SMS]
+ *               locale:
+ *                 type: string
+ *                 default: en
+ *               name:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *               subject:
+ *                 type: string
+ *                 example: "New Task Assigned: {{taskName}}"
+ *               body:
+ *                 type: string
+ *                 example: "Hi {{employeeName}}, you have been assigned {{taskName}}"
+ *               htmlBody:
+ *                 type: string
+ *               isActive:
+ *                 type: boolean
+ *                 default: true
+ *     responses:
+ *       201:
+ *         description: Notification template created successfully
+ *       400:
+ *         description: Validation error
+ *       409:
+ *         description: Template for this type, channel and locale already exists
+ */
+router.post(
+  '/templates',
+  verifyToken,
+  requireAdmin,
+  validateRequest({ body: createNotificationTemplateSchema }),
+  NotificationController.createTemplate
+);
+
+/**
+ * @swagger
+ * /api/v1/notifications/templates/preview:
+ *   post:
+ *     summary: Preview a notification template
+ *     description: Renders a stored template (templateId), the active or built-in template for a type and channel, or ad-hoc subject/body content against sample data. Supplied data overrides the built-in sample values.
+ *     tags: [Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               templateId:
+ *                 type: string
+ *                 format: uuid
+ *               type:
+ *                 type: string
+ *               channel:
+ *                 type: string
+ *                 enum: [IN_APP, EMAIL, SMS]
+ *               locale:
+ *                 type: string
+ *               subject:
+ *                 type: string
+ *               body:
+ *                 type: string
+ *               htmlBody:
+ *                 type: string
+ *               data:
+ *                 type: object
+ *     responses:
+ *       200:
+ *         description: Rendered subject, body, HTML and any variables missing from the sample data
+ *       404:
+ *         description: Notification template not found
+ */
+router.post(
+  '/templates/preview',
+  verifyToken,
+  requireAdmin,
+  validateRequest({ body: previewNotificationTemplateSchema }),
+  NotificationController.previewTemplate
+);
+
+/**
+ * @route   GET /api/v1/notifications/templates/:id
+ * @desc    Get a notification template
+ * @access  Admin only
+ */
+router.get('/templates/:id', verifyToken, requireAdmin, NotificationController.getTemplateById);
+
+/**
+ * @swagger
+ * /api/v1/notifications/templates/{id}:
+ *   put:
+ *     summary: Update notification template
+ *     tags: [Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: id
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *               subject:
+ *                 type: string
+ *               body:
+ *                 type: string
+ *               htmlBody:
+ *                 type: string
+ *                 nullable: true
+ *               isActive:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Notification template updated successfully
+ *       404:
+ *         description: Notification template not found
+ */
+router.put(
+  '/templates/:id',
+  verifyToken,
+  requireAdmin,
+  validateRequest({ body: updateNotificationTemplateSchema }),
+  NotificationController.updateTemplate
+);
+
+/**
+ * @route   DELETE /api/v1/notifications/templates/:id
+ * @desc    Delete a notification template (the built-in default is used again)
+ * @access  Admin only
+ */
+router.delete('/templates/:id', verifyToken, requireAdmin, NotificationController.deleteTemplate);
+
 export default router;
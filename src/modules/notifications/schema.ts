@@ -0,0 +1,187 @@
+import { z } from 'zod';
+import { NotificationChannel, NotificationStatus, NotificationType } from '@prisma/client';
+
+// Enum Schemas
+export const notificationTypeSchema = z.nativeEnum(NotificationType);
+export const notificationChannelSchema = z.nativeEnum(NotificationChannel);
+export const notificationStatusSchema = z.nativeEnum(NotificationStatus);
+
+const dateFilterSchema = z
+  .string()
+  .refine((value) => !Number.isNaN(Date.parse(value)), 'Invalid date')
+  .transform((value) => new Date(value));
+
+const localeSchema = z
+  .string()
+  .regex(/^[a-z]{2}(-[A-Z]{2})?$/, 'Locale must look like "en" or "en-US"');
+
+// ==================== NOTIFICATION INBOX SCHEMAS ====================
+
+const notificationFilterShape = {
+  type: notificationTypeSchema.optional(),
+  status: notificationStatusSchema.optional(),
+  channel: notificationChannelSchema.optional(),
+  workflowInstanceId: z.string().uuid().optional(),
+  startDate: dateFilterSchema.optional(),
+  endDate: dateFilterSchema.optional(),
+  archiveScope: z.enum(['exclude', 'only', 'include']).optional(),
+};
+
+export const getNotificationsQuerySchema = z.object({
+  page: z
+    .string()
+    .regex(/^\d+$/)
+    .transform(Number)
+    .refine((page) => page >= 1, 'Page must be at least 1')
+    .default('1'),
+  limit: z
+    .string()
+    .regex(/^\d+$/)
+    .transform(Number)
+    .refine((limit) => limit >= 1 && limit <= 100, 'Limit must be between 1 and 100')
+    .default('10'),
+  ...notificationFilterShape,
+});
+
+export type GetNotificationsQuery = z.infer<typeof getNotificationsQuerySchema>;
+
+// Bulk actions take explicit IDs and/or filters; an empty selection is rejected so a
+// missing body can't archive or delete the whole inbox (use /read-all for that)
+export const bulkNotificationSelectionSchema = z
+  .object({
+    ids: z.array(z.string().uuid()).min(1).max(500).optional(),
+    ...notificationFilterShape,
+  })
+  .refine(
+    (data) => Object.values(data).some((value) => value !== undefined),
+    'Provide notification ids or at least one filter'
+  );
+
+export type BulkNotificationSelectionInput = z.infer<typeof bulkNotificationSelectionSchema>;
+
+export const runNotificationRetentionSchema = z.object({
+  olderThanDays: z.number().int().min(1).optional(),
+  mode: z.enum(['archive', 'purge']).optional(),
+  dryRun: z.boolean().default(false),
+});
+
+export type RunNotificationRetentionInput = z.infer<typeof runNotificationRetentionSchema>;
+
+// ==================== NOTIFICATION TEMPLATE SCHEMAS ====================
+
+export const createNotificationTemplateSchema = z.object({
+  type: notificationTypeSchema,
+  channel: notificationChannelSchema,
+  locale: localeSchema.default('en'),
+  name: z.string().min(1, 'Template name is required').max(100),
+  description: z.string().max(500).optional(),
+  subject: z.string().min(1, 'Subject is required').max(255),
+  body: z.string().min(1, 'Body is required'),
+  htmlBody: z.string().min(1).optional(),
+  isActive: z.boolean().default(true),
+});
+
+export type CreateNotificationTemplateInput = z.infer<typeof createNotificationTemplateSchema>;
+
+export const updateNotificationTemplateSchema = z.object({
+  name: z.string().min(1).max(100).optional(),
+  description: z.string().max(500).optional(),
+  subject: z.string().min(1).max(255).optional(),
+  body: z.string().min(1).optional(),
+  htmlBody: z.string().min(1).nullable().optional(),
+  isActive: z.boolean().optional(),
+});
+
+export type UpdateNotificationTemplateInput = z.infer<typeof updateNotificationTemplateSchema>;
+
+export const getNotificationTemplatesQuerySchema = z.object({
+  type: notificationTypeSchema.optional(),
+  channel: notificationChannelSchema.optional(),
+  locale: localeSchema.optional(),
+  isActive: z
+    .enum(['true', 'false'])
+    .transform((value) => value === 'true')
+    .optional(),
+});
+
+export type GetNotificationTemplatesQuery = z.infer<typeof getNotificationTemplatesQuerySchema>;
+
+export const previewNotificationTemplateSchema = z
+  .object({
+    templateId: z.string().uuid().optional(),
+    type: notificationTypeSchema.optional(),
+    channel: notificationChannelSchema.optional(),
+    locale: localeSchema.optional(),
+    subject: z.string().optional(),
+    body: z.string().optional(),
+    htmlBody: z.string().optional(),
+    data: z.record(z.unknown()).optional(),
+  })
+  .refine(
+    (data) => data.templateId || (data.type && data.channel) || data.subject || data.body,
+    'Provide a templateId, a type and channel, or subject/body content to preview'
+  );
+
+export type PreviewNotificationTemplateInput = z.infer<typeof previewNotificationTemplateSchema>;
+
+// ==================== NOTIFICATION PREFERENCE SCHEMAS ====================
+
+const timeOfDaySchema = z
+  .string()
+  .regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Time must be in HH:mm format');
+
+const timezoneSchema = z.string().refine((timezone) => {
+  try {
+    new Intl.DateTimeFormat('en-GB', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}, 'Invalid IANA timezone');
+
+export const updateNotificationPreferencesSchema = z
+  .object({
+    preferences: z
+      .array(
+        z.object({
+          type: notificationTypeSchema,
+          channel: notificationChannelSchema,
+          enabled: z.boolean().optional(),
+          digest: z.boolean().optional(),
+        })
+      )
+      .optional(),
+    settings: z
+      .object({
+        quietHoursEnabled: z.boolean().optional(),
+        quietHoursStart: timeOfDaySchema.optional(),
+        quietHoursEnd: timeOfDaySchema.optional(),
+        timezone: timezoneSchema.optional(),
+        digestEnabled: z.boolean().optional(),
+        digestFrequency: z.enum(['DAILY', 'WEEKLY']).optional(),
+        digestDayOfWeek: z.number().int().min(0).max(6).optional(),
+        digestTime: timeOfDaySchema.optional(),
+      })
+      .optional(),
+  })
+  .refine((data) => data.preferences || data.settings, 'Provide preferences or settings to update');
+
+export type UpdateNotificationPreferencesInput = z.infer<
+  typeof updateNotificationPreferencesSchema
+>;
+
+// ==================== DIGEST SCHEMAS ====================
+
+export const previewDigestQuerySchema = z.object({
+  frequency: z.enum(['DAILY', 'WEEKLY']).optional(),
+});
+
+export type PreviewDigestQuery = z.infer<typeof previewDigestQuerySchema>;
+
+export const runDigestsSchema = z.object({
+  // Send to one user now regardless of their schedule
+  userId: z.string().min(1).optional(),
+  dryRun: z.boolean().default(false),
+});
+
+export type RunDigestsInput = z.infer<typeof runDigestsSchema>;
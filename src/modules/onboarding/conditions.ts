@@ -0,0 +1,164 @@
+import { Employee, Prisma } from '@prisma/client';
+import { ConditionalLogicType, CustomConditionFieldEnum } from './schema.js';
+
+export interface ConditionResult {
+  conditionType: ConditionalLogicType['conditionType'];
+  conditionOperator: ConditionalLogicType['conditionOperator'];
+  conditionValue: ConditionalLogicType['conditionValue'];
+  field: string;
+  actualValue: unknown;
+  matched: boolean;
+  description?: string;
+}
+
+export interface ConditionEvaluation {
+  matched: boolean;
+  results: ConditionResult[];
+  // Human readable summary of the conditions that failed; null when all matched
+  reason: string | null;
+}
+
+// Employee field each condition type reads; CUSTOM names its own field
+const CONDITION_FIELDS: Record<
+  Exclude<ConditionalLogicType['conditionType'], 'CUSTOM'>,
+  keyof Employee
+> = {
+  EMPLOYEE_TYPE: 'employmentType',
+  DEPARTMENT: 'department',
+  ROLE: 'jobTitle',
+  LOCATION: 'workLocation',
+  HIRE_DATE: 'hireDate',
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}/;
+
+const toList = (value: ConditionalLogicType['conditionValue']): string[] =>
+  (Array.isArray(value) ? value : value.split(','))
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+
+const normalize = (value: unknown): string => {
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  return String(value).trim().toLowerCase();
+};
+
+// Dates compare by calendar day, numbers numerically; anything else isn't ordered
+const toComparable = (value: unknown): number | null => {
+  if (value instanceof Date) return Date.parse(value.toISOString().slice(0, 10));
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string') {
+    if (DATE_PATTERN.test(value)) {
+      const time = Date.parse(value.slice(0, 10));
+      return Number.isNaN(time) ? null : time;
+    }
+    const number = Number(value);
+    return value.trim() !== '' && !Number.isNaN(number) ? number : null;
+  }
+  return null;
+};
+
+const compare = (
+  actual: unknown,
+  operator: ConditionalLogicType['conditionOperator'],
+  expected: ConditionalLogicType['conditionValue']
+): boolean => {
+  if (actual === null || actual === undefined) {
+    // A missing value only satisfies negative conditions
+    return operator === 'NOT_EQUALS' || operator === 'NOT_IN';
+  }
+
+  const expectedList = toList(expected).map(normalize);
+  const actualValues = Array.isArray(actual) ? actual.map(normalize) : [normalize(actual)];
+  const isOneOf = actualValues.some((value) => expectedList.includes(value));
+
+  switch (operator) {
+    case 'EQUALS':
+      return Array.isArray(expected)
+        ? isOneOf
+        : actualValues.some((value) => value === normalize(expected));
+    case 'NOT_EQUALS':
+      return Array.isArray(expected)
+        ? !isOneOf
+        : actualValues.every((value) => value !== normalize(expected));
+    case 'IN':
+      return isOneOf;
+    case 'NOT_IN':
+      return !isOneOf;
+    case 'CONTAINS':
+      return actualValues.some((value) =>
+        expectedList.some((expectedValue) => value.includes(expectedValue))
+      );
+    case 'GREATER_THAN':
+    case 'LESS_THAN': {
+      const left = toComparable(actual);
+      const right = toComparable(Array.isArray(expected) ? expected[0] : expected);
+      if (left === null || right === null) return false;
+      return operator === 'GREATER_THAN' ? left > right : left < right;
+    }
+  }
+};
+
+// Describes the rule only; employee values never end up in stored skip reasons
+const describeCondition = (result: ConditionResult): string => {
+  if (result.description) return result.description;
+
+  const expected = Array.isArray(result.conditionValue)
+    ? `[${result.conditionValue.join(', ')}]`
+    : result.conditionValue;
+  const subject =
+    result.conditionType === 'CUSTOM'
+      ? `CUSTOM ${result.field || 'unknown field'}`
+      : result.conditionType;
+
+  return `${subject} ${result.conditionOperator} ${expected}`;
+};
+
+const isCustomConditionField = (field: string): boolean =>
+  (CustomConditionFieldEnum.options as string[]).includes(field);
+
+/**
+ * Read the stored `conditionalLogic` JSON. Rules written through the API are validated by
+ * `conditionalLogicSchema`; anything that isn't a list of rules is treated as no rules.
+ */
+export const parseConditionalLogic = (value: Prisma.JsonValue | null): ConditionalLogicType[] =>
+  Array.isArray(value) ? (value as unknown as ConditionalLogicType[]) : [];
+
+/**
+ * Evaluate conditional logic against an employee. Every rule must match. EMPLOYEE_TYPE,
+ * DEPARTMENT, ROLE (job title), LOCATION and HIRE_DATE read the matching employee field;
+ * CUSTOM reads the employee field named in `field`, which must be one of
+ * `CustomConditionFieldEnum`. String comparisons ignore case.
+ */
+export const evaluateConditions = (
+  rules: ConditionalLogicType[],
+  employee: Employee
+): ConditionEvaluation => {
+  const results = rules.map((rule): ConditionResult => {
+    const field =
+      rule.conditionType === 'CUSTOM' ? (rule.field ?? '') : CONDITION_FIELDS[rule.conditionType];
+    // Rules stored before CUSTOM fields were restricted may name other fields; treat as unset
+    const readable = rule.conditionType !== 'CUSTOM' || isCustomConditionField(field);
+    const actualValue = readable ? employee[field as keyof Employee] : undefined;
+
+    return {
+      conditionType: rule.conditionType,
+      conditionOperator: rule.conditionOperator,
+      conditionValue: rule.conditionValue,
+      field,
+      actualValue,
+      matched: compare(actualValue, rule.conditionOperator, rule.conditionValue),
+      description: rule.description,
+    };
+  });
+
+  const failed = results.filter((result) => !result.matched);
+
+  return {
+    matched: failed.length === 0,
+    results,
+    reason:
+      failed.length === 0
+        ? null
+        : `Conditions not met: ${failed.map(describeCondition).join('; ')}`,
+  };
+};
@@ -14,14 +14,19 @@ import {
   UpdateWorkflowInput,
   GetWorkflowByIdInput,
   GetWorkflowsQueryInput,
+  MigrateWorkflowInstancesInput,
   AssignTaskToWorkflowInput,
   UpdateWorkflowTaskInput,
   UpdateTaskOrderInput,
   AddTaskDependencyInput,
   GetWorkflowTaskByIdInput,
   CreateWorkflowInstanceInput,
+  PreviewWorkflowInstanceInput,
   UpdateWorkflowInstanceInput,
   GetWorkflowInstancesQueryInput,
+  GetTaskInstanceByIdInput,
+  ApproveTaskInstanceInput,
+  RejectTaskInstanceInput,
 } from './schema.js';
 
 export class OnboardingController {
@@ -457,6 +462,90 @@ export class OnboardingController {
     }
   }
 
+  /**
+   * Get all versions of a workflow
+   * GET /api/v1/workflows/{workflowId}/versions
+   */
+  static async getWorkflowVersions(req: Request, res: Response): Promise<void> {
+    try {
+      const { workflowId }: GetWorkflowByIdInput = req.params as unknown as GetWorkflowByIdInput;
+
+      logger.info(`Fetching versions of workflow: ${workflowId}`);
+
+      const versions = await OnboardingService.getWorkflowVersions(workflowId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Workflow versions retrieved successfully',
+        data: versions,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error: unknown) {
+      logger.error('Error in getWorkflowVersions controller:', error);
+
+      if (error instanceof Error && error.message.includes('not found')) {
+        res.status(404).json({
+          success: false,
+          message: 'Workflow not found',
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        message: error instanceof Error ? error.message : 'Failed to retrieve workflow versions',
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
+  /**
+   * Migrate selected workflow instances to the latest version of the workflow
+   * POST /api/v1/workflows/{workflowId}/instances/migrate
+   */
+  static async migrateWorkflowInstances(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { workflowId }: GetWorkflowByIdInput = req.params as unknown as GetWorkflowByIdInput;
+      const data: MigrateWorkflowInstancesInput = req.body;
+      const performedBy = req.user?.id || 'system';
+
+      logger.info(`Admin ${req.user?.email} migrating instances of workflow: ${workflowId}`);
+
+      const result = await OnboardingService.migrateWorkflowInstances(
+        workflowId,
+        data,
+        performedBy
+      );
+
+      res.status(200).json({
+        success: true,
+        message: data.dryRun
+          ? 'Workflow instance migration preview generated'
+          : `${result.instancesMigrated} workflow instance(s) migrated to version ${result.version}`,
+        data: result,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error: unknown) {
+      logger.error('Error in migrateWorkflowInstances controller:', error);
+
+      if (error instanceof Error && error.message.includes('not found')) {
+        res.status(404).json({
+          success: false,
+          message: error.message,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        message: error instanceof Error ? error.message : 'Failed to migrate workflow instances',
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
   /**
    * Update workflow (add/remove tasks, change order)
    * PUT /api/v1/workflows/{workflowId}
@@ -488,6 +577,15 @@ export class OnboardingController {
         return;
       }
 
+      if (error instanceof Error && error.message.includes('superseded')) {
+        res.status(409).json({
+          success: false,
+          message: error.message,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
       res.status(500).json({
         success: false,
         message: error instanceof Error ? error.message : 'Failed to update workflow',
@@ -575,6 +673,15 @@ export class OnboardingController {
         return;
       }
 
+      if (error instanceof Error && error.message.includes('superseded')) {
+        res.status(409).json({
+          success: false,
+          message: error.message,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
       if (error instanceof Error && error.message.includes('already assigned')) {
         res.status(409).json({
           success: false,
@@ -622,6 +729,15 @@ export class OnboardingController {
         return;
       }
 
+      if (error instanceof Error && error.message.includes('superseded')) {
+        res.status(409).json({
+          success: false,
+          message: error.message,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
       res.status(500).json({
         success: false,
         message: error instanceof Error ? error.message : 'Failed to remove task from workflow',
@@ -662,6 +778,15 @@ export class OnboardingController {
         return;
       }
 
+      if (error instanceof Error && error.message.includes('superseded')) {
+        res.status(409).json({
+          success: false,
+          message: error.message,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
       res.status(500).json({
         success: false,
         message: error instanceof Error ? error.message : 'Failed to update task order',
@@ -702,6 +827,36 @@ export class OnboardingController {
         return;
       }
 
+      if (error instanceof Error && error.message.includes('superseded')) {
+        res.status(409).json({
+          success: false,
+          message: error.message,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      if (error instanceof Error && error.message.includes('cannot depend on itself')) {
+        res.status(400).json({
+          success: false,
+          message: error.message,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      if (
+        error instanceof Error &&
+        (error.message.includes('circular dependency') || error.message.includes('already depends'))
+      ) {
+        res.status(409).json({
+          success: false,
+          message: error.message,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
       res.status(500).json({
         success: false,
         message: error instanceof Error ? error.message : 'Failed to add task dependency',
@@ -745,6 +900,15 @@ export class OnboardingController {
         return;
       }
 
+      if (error instanceof Error && error.message.includes('superseded')) {
+        res.status(409).json({
+          success: false,
+          message: error.message,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
       if (error instanceof Error && error.message.includes('already has this workflow')) {
         res.status(409).json({
           success: false,
@@ -754,6 +918,15 @@ export class OnboardingController {
         return;
       }
 
+      if (error instanceof Error && error.message.includes('does not apply to this employee')) {
+        res.status(400).json({
+          success: false,
+          message: error.message,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
       res.status(500).json({
         success: false,
         message: error instanceof Error ? error.message : 'Failed to create workflow instance',
@@ -762,6 +935,43 @@ export class OnboardingController {
     }
   }
 
+  /**
+   * Preview the tasks an employee would receive from a workflow (dry run)
+   * POST /api/v1/onboarding/instances/preview
+   */
+  static async previewWorkflowInstance(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const data: PreviewWorkflowInstanceInput = req.body;
+      const assignedBy = req.user?.id || 'system';
+
+      const preview = await OnboardingService.previewWorkflowInstance(data, assignedBy);
+
+      res.status(200).json({
+        success: true,
+        message: 'Workflow instance preview generated successfully',
+        data: preview,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error: unknown) {
+      logger.error('Error in previewWorkflowInstance controller:', error);
+
+      if (error instanceof Error && error.message.includes('not found')) {
+        res.status(404).json({
+          success: false,
+          message: error.message,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        message: error instanceof Error ? error.message : 'Failed to preview workflow instance',
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
   /**
    * Get workflow instances with filtering
    * GET /api/v1/onboarding/instances
@@ -901,6 +1111,20 @@ export class OnboardingController {
         return;
       }
 
+      if (
+        error instanceof Error &&
+        (error.message.includes('blocked by incomplete dependencies') ||
+          error.message.includes('awaiting approval') ||
+          error.message.includes('No approver could be resolved'))
+      ) {
+        res.status(409).json({
+          success: false,
+          message: error.message,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
       res.status(500).json({
         success: false,
         message: error instanceof Error ? error.message : 'Failed to update task instance',
@@ -909,6 +1133,124 @@ export class OnboardingController {
     }
   }
 
+  /**
+   * Approve a task awaiting approval
+   * POST /api/v1/onboarding/instances/tasks/{taskInstanceId}/approve
+   */
+  static async approveTaskInstance(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { taskInstanceId }: GetTaskInstanceByIdInput =
+        req.params as unknown as GetTaskInstanceByIdInput;
+      const data: ApproveTaskInstanceInput = req.body;
+      const approverId = req.user?.id || 'system';
+
+      logger.info(`User ${req.user?.email} approving task instance: ${taskInstanceId}`);
+
+      const task = await OnboardingService.approveTaskInstance(taskInstanceId, approverId, data);
+
+      res.status(200).json({
+        success: true,
+        message: 'Task approved successfully',
+        data: task,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error: unknown) {
+      logger.error('Error in approveTaskInstance controller:', error);
+
+      if (error instanceof Error && error.message.includes('not found')) {
+        res.status(404).json({
+          success: false,
+          message: 'Task instance not found',
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      if (error instanceof Error && error.message.includes('Only the task approver')) {
+        res.status(403).json({
+          success: false,
+          message: error.message,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      if (error instanceof Error && error.message.includes('not awaiting approval')) {
+        res.status(409).json({
+          success: false,
+          message: error.message,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        message: error instanceof Error ? error.message : 'Failed to approve task',
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
+  /**
+   * Reject a task awaiting approval
+   * POST /api/v1/onboarding/instances/tasks/{taskInstanceId}/reject
+   */
+  static async rejectTaskInstance(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { taskInstanceId }: GetTaskInstanceByIdInput =
+        req.params as unknown as GetTaskInstanceByIdInput;
+      const data: RejectTaskInstanceInput = req.body;
+      const approverId = req.user?.id || 'system';
+
+      logger.info(`User ${req.user?.email} rejecting task instance: ${taskInstanceId}`);
+
+      const task = await OnboardingService.rejectTaskInstance(taskInstanceId, approverId, data);
+
+      res.status(200).json({
+        success: true,
+        message: 'Task rejected and returned to the assignee',
+        data: task,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error: unknown) {
+      logger.error('Error in rejectTaskInstance controller:', error);
+
+      if (error instanceof Error && error.message.includes('not found')) {
+        res.status(404).json({
+          success: false,
+          message: 'Task instance not found',
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      if (error instanceof Error && error.message.includes('Only the task approver')) {
+        res.status(403).json({
+          success: false,
+          message: error.message,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      if (error instanceof Error && error.message.includes('not awaiting approval')) {
+        res.status(409).json({
+          success: false,
+          message: error.message,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        message: error instanceof Error ? error.message : 'Failed to reject task',
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
   /**
    * Get employee's onboarding dashboard
    * GET /api/v1/onboarding/dashboard/employee/{employeeId}
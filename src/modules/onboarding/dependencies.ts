@@ -0,0 +1,93 @@
+import { TaskInstanceStatus } from '@prisma/client';
+
+// Statuses that release dependent tasks; skipped tasks don't apply to the employee
+export const DEPENDENCY_SATISFIED_STATUSES: TaskInstanceStatus[] = ['COMPLETED', 'SKIPPED'];
+
+// Tasks in these statuses are finished and never shown as blocked
+export const CLOSED_TASK_STATUSES: TaskInstanceStatus[] = [
+  ...DEPENDENCY_SATISFIED_STATUSES,
+  'CANCELLED',
+];
+
+export interface DependencyNode {
+  id: string;
+  dependencies: string[];
+}
+
+export interface DependencyTaskInstance {
+  workflowTaskId: string;
+  status: TaskInstanceStatus;
+  workflowTask: { dependencies: string[]; globalTask?: { taskName: string } };
+}
+
+export interface BlockingDependency {
+  workflowTaskId: string;
+  taskName: string | null;
+  status: TaskInstanceStatus;
+}
+
+/**
+ * Check whether making `taskId` depend on `dependencyId` would close a cycle. Returns the
+ * cycle as workflow task ids, starting and ending with `taskId`, or null when there is none.
+ */
+export const findDependencyCycle = (
+  tasks: DependencyNode[],
+  taskId: string,
+  dependencyId: string
+): string[] | null => {
+  const tasksById = new Map(tasks.map((task) => [task.id, task]));
+  const visited = new Set<string>();
+
+  // Walk everything the new dependency (transitively) depends on, looking for the task
+  const visit = (id: string, path: string[]): string[] | null => {
+    if (id === taskId) return path;
+    if (visited.has(id)) return null;
+    visited.add(id);
+
+    for (const next of tasksById.get(id)?.dependencies ?? []) {
+      const cycle = visit(next, [...path, next]);
+      if (cycle) return cycle;
+    }
+    return null;
+  };
+
+  return visit(dependencyId, [taskId, dependencyId]);
+};
+
+/**
+ * Dependencies of a task instance that are not yet completed or skipped within its workflow
+ * instance. Dependencies without a task instance (added after instantiation) never block.
+ */
+export const getBlockingDependencies = (
+  taskInstance: DependencyTaskInstance,
+  siblings: DependencyTaskInstance[]
+): BlockingDependency[] =>
+  taskInstance.workflowTask.dependencies.flatMap((dependencyId) => {
+    const dependency = siblings.find((sibling) => sibling.workflowTaskId === dependencyId);
+    if (!dependency || DEPENDENCY_SATISFIED_STATUSES.includes(dependency.status)) return [];
+
+    return [
+      {
+        workflowTaskId: dependencyId,
+        taskName: dependency.workflowTask.globalTask?.taskName ?? null,
+        status: dependency.status,
+      },
+    ];
+  });
+
+/**
+ * Annotate task instances with their dependency state for instance views: BLOCKED while an
+ * open task has an outstanding dependency, otherwise UNLOCKED
+ */
+export const withDependencyState = <T extends DependencyTaskInstance>(taskInstances: T[]) =>
+  taskInstances.map((taskInstance) => {
+    const blockedBy = CLOSED_TASK_STATUSES.includes(taskInstance.status)
+      ? []
+      : getBlockingDependencies(taskInstance, taskInstances);
+    return {
+      ...taskInstance,
+      dependencyState: blockedBy.length > 0 ? ('BLOCKED' as const) : ('UNLOCKED' as const),
+      isBlocked: blockedBy.length > 0,
+      blockedBy,
+    };
+  });
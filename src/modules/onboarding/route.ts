@@ -15,14 +15,19 @@ import {
   updateWorkflowSchema,
   getWorkflowByIdSchema,
   getWorkflowsQuerySchema,
+  migrateWorkflowInstancesSchema,
   assignTaskToWorkflowSchema,
   updateWorkflowTaskSchema,
   updateTaskOrderSchema,
   addTaskDependencySchema,
   getWorkflowTaskByIdSchema,
   createWorkflowInstanceSchema,
+  previewWorkflowInstanceSchema,
   updateWorkflowInstanceSchema,
   getWorkflowInstancesQuerySchema,
+  getTaskInstanceByIdSchema,
+  approveTaskInstanceSchema,
+  rejectTaskInstanceSchema,
 } from './schema.js';
 
 const router = Router();
@@ -207,9 +212,16 @@ router.get('/workflows/stats', verifyToken, requireAdmin, OnboardingController.g
  * /api/v1/onboarding/workflows:
  *   get:
  *     summary: Get all workflows
+ *     description: Lists the latest version of each workflow unless allVersions is true
  *     tags: [Workflows]
  *     security:
  *       - bearerAuth: []
+ *     parameters:
+ *       - name: allVersions
+ *         in: query
+ *         schema:
+ *           type: boolean
+ *           default: false
  *     responses:
  *       200:
  *         description: Workflows retrieved successfully
@@ -285,12 +297,17 @@ router.get(
  * /api/v1/onboarding/workflows/{workflowId}:
  *   put:
  *     summary: Update workflow
+ *     description: A version that instances have started from is immutable. Changing its name, description, estimated duration or conditions - or its tasks through the workflow task endpoints - archives it and applies the change to a new version, returned in the response. Running instances stay on their version until migrated. Status, autoStart and isActive change in place.
  *     tags: [Workflows]
  *     security:
  *       - bearerAuth: []
  *     responses:
  *       200:
  *         description: Workflow updated successfully
+ *       404:
+ *         description: Workflow not found
+ *       409:
+ *         description: Workflow version has been superseded
  */
 router.put(
   '/workflows/:workflowId',
@@ -323,6 +340,89 @@ router.delete(
   OnboardingController.deleteWorkflow
 );
 
+// ==================== WORKFLOW VERSIONING ====================
+
+/**
+ * @swagger
+ * /api/v1/onboarding/workflows/{workflowId}/versions:
+ *   get:
+ *     summary: Get all versions of a workflow
+ *     description: Accepts the id of any version. Versions are listed newest first with their task and instance counts.
+ *     tags: [Workflows]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: workflowId
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Workflow versions retrieved successfully
+ *       404:
+ *         description: Workflow not found
+ */
+router.get(
+  '/workflows/:workflowId/versions',
+  verifyToken,
+  requireAdmin,
+  validateRequest({ params: getWorkflowByIdSchema }),
+  OnboardingController.getWorkflowVersions
+);
+
+/**
+ * @swagger
+ * /api/v1/onboarding/workflows/{workflowId}/instances/migrate:
+ *   post:
+ *     summary: Migrate workflow instances to the latest version
+ *     description: Moves the selected instances of any version of the workflow to its latest version. Task instances whose task is still in the workflow keep their status and progress, tasks added in the latest version are created as on assignment, and open tasks that were removed are marked SKIPPED. Completed and cancelled instances are not migrated. Use dryRun to preview the mapping.
+ *     tags: [Workflow Instances]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: workflowId
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [instanceIds]
+ *             properties:
+ *               instanceIds:
+ *                 type: array
+ *                 minItems: 1
+ *                 maxItems: 100
+ *                 items:
+ *                   type: string
+ *                   format: uuid
+ *               dryRun:
+ *                 type: boolean
+ *                 default: false
+ *     responses:
+ *       200:
+ *         description: Per-instance migration results
+ *       404:
+ *         description: Workflow not found
+ */
+router.post(
+  '/workflows/:workflowId/instances/migrate',
+  verifyToken,
+  requireAdmin,
+  validateRequest({
+    params: getWorkflowByIdSchema,
+    body: migrateWorkflowInstancesSchema,
+  }),
+  OnboardingController.migrateWorkflowInstances
+);
+
 // ==================== WORKFLOW TASK ASSIGNMENT ====================
 
 /**
@@ -396,12 +496,19 @@ router.put(
  * /api/v1/onboarding/workflows/{workflowId}/tasks/{taskId}/dependencies:
  *   post:
  *     summary: Add task dependency
+ *     description: The task can't be started or completed in workflow instances until the dependency task is completed or skipped. Dependencies that would form a cycle are rejected.
  *     tags: [Workflow Tasks]
  *     security:
  *       - bearerAuth: []
  *     responses:
  *       200:
  *         description: Task dependency added successfully
+ *       400:
+ *         description: A task cannot depend on itself
+ *       404:
+ *         description: Task or dependency task not found in this workflow
+ *       409:
+ *         description: Dependency already exists or would create a circular dependency
  */
 router.post(
   '/workflows/:workflowId/tasks/:taskId/dependencies',
@@ -436,6 +543,43 @@ router.post(
   OnboardingController.createWorkflowInstance
 );
 
+/**
+ * @swagger
+ * /api/v1/onboarding/instances/preview:
+ *   post:
+ *     summary: Preview workflow instance (dry run)
+ *     description: Evaluates the workflow's and each task's conditional logic against the employee and lists the tasks they would receive, the tasks that would be SKIPPED and why, and anything preventing the assignment. Nothing is created.
+ *     tags: [Workflow Instances]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [workflowId, employeeId]
+ *             properties:
+ *               workflowId:
+ *                 type: string
+ *                 format: uuid
+ *               employeeId:
+ *                 type: string
+ *                 format: uuid
+ *     responses:
+ *       200:
+ *         description: Workflow instance preview generated successfully
+ *       404:
+ *         description: Workflow or employee not found
+ */
+router.post(
+  '/instances/preview',
+  verifyToken,
+  requireAdmin,
+  validateRequest({ body: previewWorkflowInstanceSchema }),
+  OnboardingController.previewWorkflowInstance
+);
+
 /**
  * @swagger
  * /api/v1/onboarding/instances:
@@ -494,12 +638,17 @@ router.put(
  * /api/v1/onboarding/instances/tasks/{taskInstanceId}:
  *   put:
  *     summary: Update task instance status
+ *     description: Tasks with incomplete dependencies (isBlocked in instance views) can't be moved to IN_PROGRESS or COMPLETED. Completing a task that requires approval moves it to PENDING_APPROVAL and notifies the approver; it is COMPLETED once approved. Reopening a completed task clears its approval. Completing or skipping a task notifies the assignees of tasks it unblocks.
  *     tags: [Workflow Instances]
  *     security:
  *       - bearerAuth: []
  *     responses:
  *       200:
  *         description: Task instance updated successfully
+ *       404:
+ *         description: Task instance not found
+ *       409:
+ *         description: Task is blocked by incomplete dependencies or awaiting approval
  */
 router.put(
   '/instances/tasks/:taskInstanceId',
@@ -507,6 +656,93 @@ router.put(
   OnboardingController.updateTaskInstance
 );
 
+/**
+ * @swagger
+ * /api/v1/onboarding/instances/tasks/{taskInstanceId}/approve:
+ *   post:
+ *     summary: Approve a task awaiting approval
+ *     description: Only the task's approver can approve - the employee's reporting manager when the approver type is MANAGER, otherwise the admin who assigned the workflow. The task becomes COMPLETED and counts towards workflow progress.
+ *     tags: [Workflow Instances]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: taskInstanceId
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               approvalNotes:
+ *                 type: string
+ *                 maxLength: 1000
+ *     responses:
+ *       200:
+ *         description: Task approved successfully
+ *       403:
+ *         description: Only the task approver can approve this task
+ *       404:
+ *         description: Task instance not found
+ *       409:
+ *         description: Task is not awaiting approval
+ */
+router.post(
+  '/instances/tasks/:taskInstanceId/approve',
+  verifyToken,
+  validateRequest({ params: getTaskInstanceByIdSchema, body: approveTaskInstanceSchema }),
+  OnboardingController.approveTaskInstance
+);
+
+/**
+ * @swagger
+ * /api/v1/onboarding/instances/tasks/{taskInstanceId}/reject:
+ *   post:
+ *     summary: Reject a task awaiting approval
+ *     description: Only the task's approver can reject. The task goes back to IN_PROGRESS and the assignee is notified with the rejection notes.
+ *     tags: [Workflow Instances]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: taskInstanceId
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [approvalNotes]
+ *             properties:
+ *               approvalNotes:
+ *                 type: string
+ *                 maxLength: 1000
+ *                 description: What needs to change before the task can be approved
+ *     responses:
+ *       200:
+ *         description: Task rejected and returned to the assignee
+ *       403:
+ *         description: Only the task approver can reject this task
+ *       404:
+ *         description: Task instance not found
+ *       409:
+ *         description: Task is not awaiting approval
+ */
+router.post(
+  '/instances/tasks/:taskInstanceId/reject',
+  verifyToken,
+  validateRequest({ params: getTaskInstanceByIdSchema, body: rejectTaskInstanceSchema }),
+  OnboardingController.rejectTaskInstance
+);
+
 // ==================== DASHBOARD ENDPOINTS ====================
 
 /**
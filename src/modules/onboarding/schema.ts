@@ -23,6 +23,7 @@ export const WorkflowStatusEnum = z.enum(['DRAFT', 'ACTIVE', 'INACTIVE', 'ARCHIV
 export const TaskInstanceStatusEnum = z.enum([
   'NOT_STARTED',
   'IN_PROGRESS',
+  'PENDING_APPROVAL',
   'COMPLETED',
   'OVERDUE',
   'SKIPPED',
@@ -56,6 +57,19 @@ export const ConditionOperatorEnum = z.enum([
   'CONTAINS',
 ]);
 
+// Employee fields CUSTOM conditions may read; personal, contact and bank details are excluded
+export const CustomConditionFieldEnum = z.enum([
+  'employmentType',
+  'department',
+  'departmentOther',
+  'jobTitle',
+  'workLocation',
+  'hireDate',
+  'reportingManager',
+  'salaryGrade',
+  'skills',
+]);
+
 // Resource schema for tasks
 const resourceSchema = z.object({
   name: z.string().min(1, 'Resource name is required'),
@@ -65,12 +79,19 @@ const resourceSchema = z.object({
 });
 
 // Conditional logic schema
-const conditionalLogicSchema = z.object({
-  conditionType: ConditionTypeEnum,
-  conditionOperator: ConditionOperatorEnum,
-  conditionValue: z.union([z.string(), z.array(z.string())]),
-  description: z.string().optional(),
-});
+const conditionalLogicSchema = z
+  .object({
+    conditionType: ConditionTypeEnum,
+    conditionOperator: ConditionOperatorEnum,
+    conditionValue: z.union([z.string(), z.array(z.string())]),
+    // Employee field compared by CUSTOM conditions, e.g. "salaryGrade" or "skills"
+    field: CustomConditionFieldEnum.optional(),
+    description: z.string().optional(),
+  })
+  .refine((rule) => rule.conditionType !== 'CUSTOM' || !!rule.field, {
+    message: 'CUSTOM conditions require a field',
+    path: ['field'],
+  });
 
 // Global Task Schemas
 export const createGlobalTaskSchema = z.object({
@@ -184,6 +205,19 @@ export const getWorkflowsQuerySchema = z.object({
     .string()
     .transform((val) => val === 'true')
     .optional(),
+  // Superseded workflow versions are only listed when requested
+  allVersions: z
+    .string()
+    .transform((val) => val === 'true')
+    .optional(),
+});
+
+export const migrateWorkflowInstancesSchema = z.object({
+  instanceIds: z
+    .array(z.string().uuid('Invalid instance ID format'))
+    .min(1, 'Select at least one workflow instance')
+    .max(100),
+  dryRun: z.boolean().default(false),
 });
 
 // Workflow Task Assignment Schemas
@@ -233,6 +267,11 @@ export const createWorkflowInstanceSchema = z.object({
   notes: z.string().optional(),
 });
 
+export const previewWorkflowInstanceSchema = z.object({
+  workflowId: z.string().uuid('Invalid workflow ID format'),
+  employeeId: z.string().uuid('Invalid employee ID format'),
+});
+
 export const updateWorkflowInstanceSchema = z.object({
   status: WorkflowInstanceStatusEnum.optional(),
   dueDate: z.string().datetime().optional(),
@@ -252,6 +291,19 @@ export const getWorkflowInstancesQuerySchema = z.object({
   assignedBy: z.string().uuid().optional(),
 });
 
+// Task Approval Schemas
+export const getTaskInstanceByIdSchema = z.object({
+  taskInstanceId: z.string().uuid('Invalid task instance ID format'),
+});
+
+export const approveTaskInstanceSchema = z.object({
+  approvalNotes: z.string().max(1000).optional(),
+});
+
+export const rejectTaskInstanceSchema = z.object({
+  approvalNotes: z.string().trim().min(1, 'Rejection notes are required').max(1000),
+});
+
 // Type exports
 export type CreateGlobalTaskInput = z.infer<typeof createGlobalTaskSchema>;
 export type UpdateGlobalTaskInput = z.infer<typeof updateGlobalTaskSchema>;
@@ -266,6 +318,7 @@ export type CreateWorkflowInput = z.infer<typeof createWorkflowSchema>;
 export type UpdateWorkflowInput = z.infer<typeof updateWorkflowSchema>;
 export type GetWorkflowByIdInput = z.infer<typeof getWorkflowByIdSchema>;
 export type GetWorkflowsQueryInput = z.infer<typeof getWorkflowsQuerySchema>;
+export type MigrateWorkflowInstancesInput = z.infer<typeof migrateWorkflowInstancesSchema>;
 
 export type AssignTaskToWorkflowInput = z.infer<typeof assignTaskToWorkflowSchema>;
 export type UpdateWorkflowTaskInput = z.infer<typeof updateWorkflowTaskSchema>;
@@ -274,10 +327,15 @@ export type AddTaskDependencyInput = z.infer<typeof addTaskDependencySchema>;
 export type GetWorkflowTaskByIdInput = z.infer<typeof getWorkflowTaskByIdSchema>;
 
 export type CreateWorkflowInstanceInput = z.infer<typeof createWorkflowInstanceSchema>;
+export type PreviewWorkflowInstanceInput = z.infer<typeof previewWorkflowInstanceSchema>;
 export type UpdateWorkflowInstanceInput = z.infer<typeof updateWorkflowInstanceSchema>;
 export type GetWorkflowInstanceByIdInput = z.infer<typeof getWorkflowInstanceByIdSchema>;
 export type GetWorkflowInstancesQueryInput = z.infer<typeof getWorkflowInstancesQuerySchema>;
 
+export type GetTaskInstanceByIdInput = z.infer<typeof getTaskInstanceByIdSchema>;
+export type ApproveTaskInstanceInput = z.infer<typeof approveTaskInstanceSchema>;
+export type RejectTaskInstanceInput = z.infer<typeof rejectTaskInstanceSchema>;
+
 export type ResourceType = z.infer<typeof resourceSchema>;
 export type ConditionalLogicType = z.infer<typeof conditionalLogicSchema>;
 // Onboarding Instance Management Schemas
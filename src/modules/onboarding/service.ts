@@ -1,5 +1,14 @@
-import { PrismaClient } from '@prisma/client';
+import { Employee, Prisma, PrismaClient, TaskInstanceStatus } from '@prisma/client';
 import { logger } from '../../utils/logger.js';
+import { ConditionEvaluation, evaluateConditions, parseConditionalLogic } from './conditions.js';
+import {
+  CLOSED_TASK_STATUSES,
+  DEPENDENCY_SATISFIED_STATUSES,
+  DependencyTaskInstance,
+  findDependencyCycle,
+  getBlockingDependencies,
+  withDependencyState,
+} from './dependencies.js';
 import {
   CreateGlobalTaskInput,
   UpdateGlobalTaskInput,
@@ -16,10 +25,72 @@ import {
   CreateWorkflowInstanceInput,
   UpdateWorkflowInstanceInput,
   GetWorkflowInstancesQueryInput,
+  PreviewWorkflowInstanceInput,
+  MigrateWorkflowInstancesInput,
+  ApproveTaskInstanceInput,
+  RejectTaskInstanceInput,
 } from './schema.js';
 
 const prisma = new PrismaClient();
 
+type WorkflowWithTasks = Prisma.WorkflowGetPayload<{
+  include: { workflowTasks: { include: { globalTask: true } } };
+}>;
+
+type TaskInstanceWithContext = Prisma.TaskInstanceGetPayload<{
+  include: {
+    workflowInstance: { include: { employee: true } };
+    workflowTask: { include: { globalTask: true } };
+  };
+}>;
+
+interface PlannedTaskInstance {
+  workflowTask: WorkflowWithTasks['workflowTasks'][number];
+  status: Extract<TaskInstanceStatus, 'NOT_STARTED' | 'SKIPPED'>;
+  assignedTo: string | null;
+  dueDate: Date | null;
+  skipReason: string | null;
+  conditions: ConditionEvaluation | null;
+}
+
+type WorkflowInstanceForMigration = Prisma.WorkflowInstanceGetPayload<{
+  include: {
+    workflow: true;
+    employee: true;
+    taskInstances: { include: { workflowTask: { include: { globalTask: true } } } };
+  };
+}>;
+
+interface InstanceMigrationPlan {
+  // Task instances moved onto the matching task of the new version, keeping their progress
+  carriedOver: Array<{
+    taskInstance: WorkflowInstanceForMigration['taskInstances'][number];
+    workflowTask: WorkflowWithTasks['workflowTasks'][number];
+  }>;
+  // Tasks new in this version
+  added: PlannedTaskInstance[];
+  // Task instances whose task is no longer part of the workflow
+  removed: WorkflowInstanceForMigration['taskInstances'];
+}
+
+interface EditableWorkflowVersion {
+  workflowId: string;
+  version: number;
+  versionCreated: boolean;
+  // Ids of the new version's tasks keyed by the ids of the tasks they were copied from
+  taskIdMap: Map<string, string>;
+}
+
+// Fields that define what an instance goes through; changing them on a version that
+// instances have started from creates a new version
+const VERSIONED_WORKFLOW_FIELDS = [
+  'name',
+  'description',
+  'estimatedDuration',
+  'isConditional',
+  'conditionalLogic',
+] as const;
+
 export class OnboardingService {
   // ==================== GLOBAL TASK MANAGEMENT ====================
 
@@ -388,12 +459,16 @@ export class OnboardingService {
    */
   static async getWorkflows(query: GetWorkflowsQueryInput) {
     try {
-      const { page, limit, search, status, templateId, isActive } = query;
+      const { page, limit, search, status, templateId, isActive, allVersions } = query;
       const skip = (page - 1) * limit;
 
       // Build where clause
       const where: Record<string, unknown> = {};
 
+      if (!allVersions) {
+        where.isLatestVersion = true;
+      }
+
       if (search) {
         where.OR = [
           { name: { contains: search, mode: 'insensitive' } },
@@ -511,21 +586,34 @@ export class OnboardingService {
         throw new Error('Workflow not found');
       }
 
-      const updatedWorkflow = await prisma.workflow.update({
-        where: { id },
-        data,
-        include: {
-          template: true,
-          _count: {
-            select: {
-              workflowTasks: true,
-              workflowInstances: true,
+      this.assertLatestVersion(existingWorkflow);
+
+      // Status and scheduling changes apply in place; definition changes to a version in use
+      // go to a new version
+      const changesDefinition = VERSIONED_WORKFLOW_FIELDS.some(
+        (field) => data[field] !== undefined
+      );
+      const updatedWorkflow = await prisma.$transaction(async (tx) => {
+        const { workflowId } = changesDefinition
+          ? await this.getEditableWorkflowVersion(tx, id)
+          : { workflowId: id };
+
+        return tx.workflow.update({
+          where: { id: workflowId },
+          data,
+          include: {
+            template: true,
+            _count: {
+              select: {
+                workflowTasks: true,
+                workflowInstances: true,
+              },
             },
           },
-        },
+        });
       });
 
-      logger.info(`Workflow updated successfully: ${id}`);
+      logger.info(`Workflow updated successfully: ${updatedWorkflow.id}`);
       return updatedWorkflow;
     } catch (error) {
       logger.error('Error in updateWorkflow:', error);
@@ -574,6 +662,447 @@ export class OnboardingService {
     }
   }
 
+  // ==================== WORKFLOW VERSIONING ====================
+
+  /**
+   * All versions of a workflow, newest first. Accepts the id of any version.
+   */
+  static async getWorkflowVersions(workflowId: string) {
+    try {
+      const workflow = await prisma.workflow.findUnique({
+        where: { id: workflowId },
+        select: { id: true, originWorkflowId: true },
+      });
+
+      if (!workflow) {
+        throw new Error('Workflow not found');
+      }
+
+      const originWorkflowId = workflow.originWorkflowId ?? workflow.id;
+      const versions = await prisma.workflow.findMany({
+        where: { OR: [{ id: originWorkflowId }, { originWorkflowId }] },
+        orderBy: { version: 'desc' },
+        select: {
+          id: true,
+          name: true,
+          version: true,
+          status: true,
+          isLatestVersion: true,
+          createdAt: true,
+          _count: {
+            select: {
+              workflowTasks: true,
+              workflowInstances: true,
+            },
+          },
+        },
+      });
+
+      return {
+        originWorkflowId,
+        latestVersionId: versions.find((version) => version.isLatestVersion)?.id ?? null,
+        versions,
+      };
+    } catch (error) {
+      logger.error('Error in getWorkflowVersions:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Move selected instances of a workflow to its latest version. Task instances whose task
+   * is still in the workflow move onto it with their progress, tasks new in the latest
+   * version are created as on assignment, and open tasks that were removed are skipped.
+   * Instances that can't be migrated are reported with the reason.
+   */
+  static async migrateWorkflowInstances(
+    workflowId: string,
+    data: MigrateWorkflowInstancesInput,
+    performedBy: string
+  ) {
+    try {
+      logger.info(`Migrating ${data.instanceIds.length} instances of workflow ${workflowId}`);
+
+      const workflow = await prisma.workflow.findUnique({
+        where: { id: workflowId },
+        select: { id: true, originWorkflowId: true },
+      });
+
+      if (!workflow) {
+        throw new Error('Workflow not found');
+      }
+
+      const originWorkflowId = workflow.originWorkflowId ?? workflow.id;
+      const latestVersion = await prisma.workflow.findFirst({
+        where: { isLatestVersion: true, OR: [{ id: originWorkflowId }, { originWorkflowId }] },
+        include: {
+          workflowTasks: {
+            orderBy: { orderIndex: 'asc' },
+            include: {
+              globalTask: true,
+            },
+          },
+        },
+      });
+
+      if (!latestVersion) {
+        throw new Error('Latest workflow version not found');
+      }
+
+      const instances = await prisma.workflowInstance.findMany({
+        where: { id: { in: data.instanceIds } },
+        include: {
+          workflow: true,
+          employee: true,
+          taskInstances: {
+            include: {
+              workflowTask: {
+                include: {
+                  globalTask: true,
+                },
+              },
+            },
+          },
+        },
+      });
+
+      const results = [];
+      for (const instanceId of data.instanceIds) {
+        const instance = instances.find((candidate) => candidate.id === instanceId);
+        let reason: string | null = null;
+
+        if (!instance) {
+          reason = 'Workflow instance not found';
+        } else if (
+          (instance.workflow.originWorkflowId ?? instance.workflowId) !== originWorkflowId
+        ) {
+          reason = 'Workflow instance belongs to a different workflow';
+        } else if (instance.workflowId === latestVersion.id) {
+          reason = 'Workflow instance is already on the latest version';
+        } else if (instance.status === 'COMPLETED' || instance.status === 'CANCELLED') {
+          reason = `Workflow instance is ${instance.status.toLowerCase()}`;
+        }
+
+        if (!instance || reason) {
+          results.push({ instanceId, migrated: false, reason });
+          continue;
+        }
+
+        const plan = this.planInstanceMigration(instance, latestVersion, performedBy);
+        const summary = {
+          instanceId,
+          employeeId: instance.employeeId,
+          fromVersion: instance.workflow.version,
+          toVersion: latestVersion.version,
+          carriedOverTasks: plan.carriedOver.map(
+            ({ workflowTask }) => workflowTask.globalTask.taskName
+          ),
+          addedTasks: plan.added.map(({ workflowTask }) => workflowTask.globalTask.taskName),
+          removedTasks: plan.removed.map(({ workflowTask }) => workflowTask.globalTask.taskName),
+        };
+
+        if (data.dryRun) {
+          results.push({ ...summary, migrated: false, reason: null });
+          continue;
+        }
+
+        try {
+          await this.applyInstanceMigration(instance, latestVersion, plan);
+          results.push({ ...summary, migrated: true, reason: null });
+        } catch (error) {
+          logger.error(`Failed to migrate workflow instance ${instanceId}:`, error);
+          results.push({
+            ...summary,
+            migrated: false,
+            reason: error instanceof Error ? error.message : 'Migration failed',
+          });
+        }
+      }
+
+      const instancesMigrated = results.filter((result) => result.migrated).length;
+      logger.info(
+        `Migrated ${instancesMigrated} instances to version ${latestVersion.version} of workflow ${latestVersion.id}`
+      );
+
+      return {
+        workflowId: latestVersion.id,
+        version: latestVersion.version,
+        dryRun: data.dryRun,
+        instancesMigrated,
+        results,
+      };
+    } catch (error) {
+      logger.error('Error in migrateWorkflowInstances:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Match an instance's task instances to the tasks of the target version by global task
+   */
+  private static planInstanceMigration(
+    instance: WorkflowInstanceForMigration,
+    targetVersion: WorkflowWithTasks,
+    performedBy: string
+  ): InstanceMigrationPlan {
+    const taskInstancesByGlobalTask = new Map(
+      instance.taskInstances.map((taskInstance) => [
+        taskInstance.workflowTask.globalTaskId,
+        taskInstance,
+      ])
+    );
+    const targetGlobalTaskIds = new Set(
+      targetVersion.workflowTasks.map((workflowTask) => workflowTask.globalTaskId)
+    );
+
+    const plan: InstanceMigrationPlan = { carriedOver: [], added: [], removed: [] };
+    const plannedTasks = this.planTaskInstances(
+      targetVersion,
+      instance.employee,
+      instance.assignedBy ?? performedBy
+    );
+
+    for (const plannedTask of plannedTasks) {
+      const taskInstance = taskInstancesByGlobalTask.get(plannedTask.workflowTask.globalTaskId);
+      if (taskInstance) {
+        plan.carriedOver.push({ taskInstance, workflowTask: plannedTask.workflowTask });
+      } else {
+        plan.added.push(plannedTask);
+      }
+    }
+
+    plan.removed = instance.taskInstances.filter(
+      (taskInstance) => !targetGlobalTaskIds.has(taskInstance.workflowTask.globalTaskId)
+    );
+
+    return plan;
+  }
+
+  private static async applyInstanceMigration(
+    instance: WorkflowInstanceForMigration,
+    targetVersion: WorkflowWithTasks,
+    plan: InstanceMigrationPlan
+  ) {
+    const addedTaskInstanceIds = await prisma.$transaction(async (tx) => {
+      for (const { taskInstance, workflowTask } of plan.carriedOver) {
+        await tx.taskInstance.update({
+          where: { id: taskInstance.id },
+          data: { workflowTaskId: workflowTask.id },
+        });
+      }
+
+      const createdIds = [];
+      for (const { workflowTask, status, assignedTo, dueDate, skipReason } of plan.added) {
+        const taskInstance = await tx.taskInstance.create({
+          data: {
+            workflowInstanceId: instance.id,
+            workflowTaskId: workflowTask.id,
+            assignedTo,
+            dueDate,
+            status,
+            skipReason,
+          },
+        });
+        createdIds.push(taskInstance.id);
+      }
+
+      // Finished work on removed tasks is kept; open tasks no longer apply
+      for (const taskInstance of plan.removed) {
+        if (CLOSED_TASK_STATUSES.includes(taskInstance.status)) continue;
+
+        await tx.taskInstance.update({
+          where: { id: taskInstance.id },
+          data: {
+            status: 'SKIPPED',
+            skipReason: `Removed from the workflow in version ${targetVersion.version}`,
+          },
+        });
+      }
+
+      await tx.workflowInstance.update({
+        where: { id: instance.id },
+        data: {
+          workflowId: targetVersion.id,
+          migratedFromWorkflowId: instance.workflowId,
+          migratedAt: new Date(),
+        },
+      });
+
+      return createdIds;
+    });
+
+    await this.updateWorkflowProgress(instance.id);
+
+    // Assignees of new tasks are notified unless the task is waiting on dependencies
+    const taskInstances = await prisma.taskInstance.findMany({
+      where: { workflowInstanceId: instance.id },
+      include: {
+        workflowTask: {
+          include: {
+            globalTask: { select: { taskName: true } },
+          },
+        },
+      },
+    });
+    const { NotificationService } = await import('../../services/notificationService.js');
+
+    for (const taskInstance of withDependencyState(taskInstances)) {
+      if (
+        !addedTaskInstanceIds.includes(taskInstance.id) ||
+        !taskInstance.assignedTo ||
+        taskInstance.status === 'SKIPPED' ||
+        taskInstance.isBlocked
+      ) {
+        continue;
+      }
+
+      await NotificationService.notifyTaskAssigned(
+        taskInstance.id,
+        taskInstance.assignedTo,
+        taskInstance.workflowTask.globalTask.taskName
+      );
+    }
+
+    logger.info(`Workflow instance ${instance.id} migrated to version ${targetVersion.version}`);
+  }
+
+  /**
+   * The version a change to a workflow is written to. A version that instances have started
+   * from is immutable: it is archived and the change goes to a copy of it, the next version.
+   * Instances stay on the version they were started from until migrated. Runs in the
+   * caller's transaction so the new version only exists if the change itself commits.
+   */
+  private static async getEditableWorkflowVersion(
+    tx: Prisma.TransactionClient,
+    workflowId: string
+  ): Promise<EditableWorkflowVersion> {
+    const workflow = await tx.workflow.findUnique({
+      where: { id: workflowId },
+      include: {
+        workflowTasks: true,
+        _count: {
+          select: {
+            workflowInstances: true,
+          },
+        },
+      },
+    });
+
+    if (!workflow) {
+      throw new Error('Workflow not found');
+    }
+
+    this.assertLatestVersion(workflow);
+
+    if (workflow._count.workflowInstances === 0) {
+      return {
+        workflowId: workflow.id,
+        version: workflow.version,
+        versionCreated: false,
+        taskIdMap: new Map(),
+      };
+    }
+
+    // Claiming the latest flag also stops two concurrent changes both creating a version
+    const { count } = await tx.workflow.updateMany({
+      where: { id: workflow.id, isLatestVersion: true },
+      data: { isLatestVersion: false, status: 'ARCHIVED' },
+    });
+
+    if (count === 0) {
+      throw new Error(`Workflow version ${workflow.version} has been superseded`);
+    }
+
+    const newVersion = await tx.workflow.create({
+      data: {
+        name: workflow.name,
+        description: workflow.description,
+        status: workflow.status,
+        templateId: workflow.templateId,
+        autoStart: workflow.autoStart,
+        estimatedDuration: workflow.estimatedDuration,
+        isConditional: workflow.isConditional,
+        conditionalLogic:
+          workflow.conditionalLogic === null
+            ? Prisma.JsonNull
+            : (workflow.conditionalLogic as Prisma.InputJsonValue),
+        version: workflow.version + 1,
+        originWorkflowId: workflow.originWorkflowId ?? workflow.id,
+        isActive: workflow.isActive,
+        createdBy: workflow.createdBy,
+      },
+    });
+
+    const taskIdMap = new Map<string, string>();
+    for (const workflowTask of workflow.workflowTasks) {
+      const copy = await tx.workflowTask.create({
+        data: {
+          workflowId: newVersion.id,
+          globalTaskId: workflowTask.globalTaskId,
+          orderIndex: workflowTask.orderIndex,
+          isRequired: workflowTask.isRequired,
+          deadlineDays: workflowTask.deadlineDays,
+          customInstructions: workflowTask.customInstructions,
+          customDuration: workflowTask.customDuration,
+          customDurationUnit: workflowTask.customDurationUnit,
+          customAssigneeType: workflowTask.customAssigneeType,
+          customApproverType: workflowTask.customApproverType,
+        },
+      });
+      taskIdMap.set(workflowTask.id, copy.id);
+    }
+
+    // Dependencies point at the copied tasks
+    for (const workflowTask of workflow.workflowTasks) {
+      if (workflowTask.dependencies.length === 0) continue;
+
+      await tx.workflowTask.update({
+        where: { id: taskIdMap.get(workflowTask.id) },
+        data: {
+          dependencies: workflowTask.dependencies.flatMap((id) => taskIdMap.get(id) ?? []),
+        },
+      });
+    }
+
+    logger.info(
+      `Creating version ${newVersion.version} of workflow ${workflow.id}: ${newVersion.id}`
+    );
+    return {
+      workflowId: newVersion.id,
+      version: newVersion.version,
+      versionCreated: true,
+      taskIdMap,
+    };
+  }
+
+  /**
+   * Archived versions can't be changed or assigned; work with the latest version instead
+   */
+  private static assertLatestVersion(workflow: { version: number; isLatestVersion: boolean }) {
+    if (!workflow.isLatestVersion) {
+      throw new Error(
+        `Workflow version ${workflow.version} has been superseded; use the latest version`
+      );
+    }
+  }
+
+  /**
+   * The employee's instance of any version of the workflow
+   */
+  private static findEmployeeWorkflowInstance(
+    workflow: { id: string; originWorkflowId: string | null },
+    employeeId: string
+  ) {
+    const originWorkflowId = workflow.originWorkflowId ?? workflow.id;
+    return prisma.workflowInstance.findFirst({
+      where: {
+        employeeId,
+        workflow: { OR: [{ id: originWorkflowId }, { originWorkflowId }] },
+      },
+      select: { id: true },
+    });
+  }
+
   // ==================== WORKFLOW TASK ASSIGNMENT ====================
 
   /**
@@ -615,14 +1144,31 @@ export class OnboardingService {
         throw new Error('Task is already assigned to this workflow');
       }
 
-      const workflowTask = await prisma.workflowTask.create({
-        data: {
-          workflowId,
-          ...data,
-        },
-        include: {
-          globalTask: true,
-        },
+      // Dependencies are workflow tasks of the same workflow; a new task can't close a cycle
+      const dependencies = [...new Set(data.dependencies ?? [])];
+      if (dependencies.length > 0) {
+        const dependencyCount = await prisma.workflowTask.count({
+          where: { id: { in: dependencies }, workflowId },
+        });
+
+        if (dependencyCount !== dependencies.length) {
+          throw new Error('Dependency task not found in this workflow');
+        }
+      }
+
+      const workflowTask = await prisma.$transaction(async (tx) => {
+        const target = await this.getEditableWorkflowVersion(tx, workflowId);
+
+        return tx.workflowTask.create({
+          data: {
+            ...data,
+            workflowId: target.workflowId,
+            dependencies: dependencies.map((id) => target.taskIdMap.get(id) ?? id),
+          },
+          include: {
+            globalTask: true,
+          },
+        });
       });
 
       logger.info(`Task assigned to workflow successfully: ${workflowTask.id}`);
@@ -653,12 +1199,37 @@ export class OnboardingService {
         throw new Error('Task assignment not found');
       }
 
-      await prisma.workflowTask.delete({
-        where: { id: workflowTask.id },
+      const target = await prisma.$transaction(async (tx) => {
+        const editable = await this.getEditableWorkflowVersion(tx, workflowId);
+        const removedTaskId = editable.taskIdMap.get(workflowTask.id) ?? workflowTask.id;
+
+        await tx.workflowTask.delete({
+          where: { id: removedTaskId },
+        });
+
+        // Tasks that depended on the removed task no longer wait for it
+        const dependentTasks = await tx.workflowTask.findMany({
+          where: { workflowId: editable.workflowId, dependencies: { has: removedTaskId } },
+        });
+        for (const dependentTask of dependentTasks) {
+          await tx.workflowTask.update({
+            where: { id: dependentTask.id },
+            data: {
+              dependencies: dependentTask.dependencies.filter((id) => id !== removedTaskId),
+            },
+          });
+        }
+
+        return editable;
       });
 
       logger.info(`Task removed from workflow successfully`);
-      return { success: true, message: 'Task removed from workflow successfully' };
+      return {
+        success: true,
+        message: 'Task removed from workflow successfully',
+        workflowId: target.workflowId,
+        version: target.version,
+      };
     } catch (error) {
       logger.error('Error in removeTaskFromWorkflow:', error);
       throw error;
@@ -685,14 +1256,18 @@ export class OnboardingService {
         throw new Error('Task assignment not found');
       }
 
-      const updatedTask = await prisma.workflowTask.update({
-        where: { id: workflowTask.id },
-        data: {
-          orderIndex: data.newOrderIndex,
-        },
-        include: {
-          globalTask: true,
-        },
+      const updatedTask = await prisma.$transaction(async (tx) => {
+        const target = await this.getEditableWorkflowVersion(tx, workflowId);
+
+        return tx.workflowTask.update({
+          where: { id: target.taskIdMap.get(workflowTask.id) ?? workflowTask.id },
+          data: {
+            orderIndex: data.newOrderIndex,
+          },
+          include: {
+            globalTask: true,
+          },
+        });
       });
 
       logger.info(`Task order updated successfully`);
@@ -737,18 +1312,48 @@ export class OnboardingService {
         throw new Error('Dependency task not found in this workflow');
       }
 
-      // Add dependency to the array
+      if (dependencyTask.id === workflowTask.id) {
+        throw new Error('A task cannot depend on itself');
+      }
+
       const currentDependencies = workflowTask.dependencies || [];
-      const updatedDependencies = [...currentDependencies, dependencyTask.id];
+      if (currentDependencies.includes(dependencyTask.id)) {
+        throw new Error('Task already depends on this task');
+      }
 
-      const updatedTask = await prisma.workflowTask.update({
-        where: { id: workflowTask.id },
-        data: {
-          dependencies: updatedDependencies,
-        },
-        include: {
-          globalTask: true,
-        },
+      // Reject the dependency if the dependency task already (transitively) waits on this task
+      const workflowTasks = await prisma.workflowTask.findMany({
+        where: { workflowId },
+        select: { id: true, dependencies: true, globalTask: { select: { taskName: true } } },
+      });
+      const cycle = findDependencyCycle(workflowTasks, workflowTask.id, dependencyTask.id);
+
+      if (cycle) {
+        const taskNames = cycle.map(
+          (id) => workflowTasks.find((task) => task.id === id)?.globalTask.taskName ?? id
+        );
+        throw new Error(
+          `Adding this dependency would create a circular dependency: ${taskNames.join(' -> ')}`
+        );
+      }
+
+      const updatedTask = await prisma.$transaction(async (tx) => {
+        const target = await this.getEditableWorkflowVersion(tx, workflowId);
+
+        // Add dependency to the array
+        const updatedDependencies = [...currentDependencies, dependencyTask.id].map(
+          (id) => target.taskIdMap.get(id) ?? id
+        );
+
+        return tx.workflowTask.update({
+          where: { id: target.taskIdMap.get(workflowTask.id) ?? workflowTask.id },
+          data: {
+            dependencies: updatedDependencies,
+          },
+          include: {
+            globalTask: true,
+          },
+        });
       });
 
       logger.info(`Task dependency added successfully`);
@@ -785,6 +1390,8 @@ export class OnboardingService {
         throw new Error('Workflow not found');
       }
 
+      this.assertLatestVersion(workflow);
+
       if (workflow.status !== 'ACTIVE') {
         throw new Error('Cannot assign inactive workflow to employee');
       }
@@ -798,20 +1405,18 @@ export class OnboardingService {
         throw new Error('Employee not found');
       }
 
-      // Check if employee already has this workflow assigned
-      const existingInstance = await prisma.workflowInstance.findUnique({
-        where: {
-          workflowId_employeeId: {
-            workflowId: data.workflowId,
-            employeeId: data.employeeId,
-          },
-        },
-      });
+      // Check if employee already has any version of this workflow assigned
+      const existingInstance = await this.findEmployeeWorkflowInstance(workflow, data.employeeId);
 
       if (existingInstance) {
         throw new Error('Employee already has this workflow assigned');
       }
 
+      const workflowConditions = this.evaluateWorkflowConditions(workflow, employee);
+      if (workflowConditions && !workflowConditions.matched) {
+        throw new Error(`Workflow does not apply to this employee. ${workflowConditions.reason}`);
+      }
+
       // Calculate due date based on workflow estimated duration
       let dueDate = null;
       if (workflow.estimatedDuration) {
@@ -843,41 +1448,38 @@ export class OnboardingService {
         },
       });
 
-      // Create task instances for all workflow tasks
-      const taskInstances = [];
-      for (const workflowTask of workflow.workflowTasks) {
-        let taskDueDate = null;
-        if (workflowTask.deadlineDays) {
-          taskDueDate = new Date();
-          taskDueDate.setDate(taskDueDate.getDate() + workflowTask.deadlineDays);
-        }
+      // Create task instances for all workflow tasks; tasks whose conditions don't
+      // match the employee are recorded as SKIPPED
+      const plannedTasks = this.planTaskInstances(workflow, employee, assignedBy);
+      const plannedDependencyStates: DependencyTaskInstance[] = plannedTasks.map(
+        ({ workflowTask, status }) => ({ workflowTaskId: workflowTask.id, status, workflowTask })
+      );
+      const blockedWorkflowTaskIds = new Set(
+        plannedDependencyStates
+          .filter((task) => getBlockingDependencies(task, plannedDependencyStates).length > 0)
+          .map((task) => task.workflowTaskId)
+      );
 
-        // Determine assignee based on task type
-        let assignedTo = null;
-        const assigneeType =
-          workflowTask.customAssigneeType || workflowTask.globalTask.assigneeType;
-
-        if (assigneeType === 'EMPLOYEE') {
-          assignedTo = data.employeeId;
-        } else if (assigneeType === 'MANAGER' && employee.reportingManager) {
-          assignedTo = employee.reportingManager;
-        } else if (assigneeType === 'ADMIN') {
-          assignedTo = assignedBy; // Assign to the admin who created the instance
-        }
+      const taskInstances = [];
+      for (const plannedTask of plannedTasks) {
+        const { workflowTask, status, assignedTo, dueDate, skipReason } = plannedTask;
 
         const taskInstance = await prisma.taskInstance.create({
           data: {
             workflowInstanceId: workflowInstance.id,
             workflowTaskId: workflowTask.id,
             assignedTo,
-            dueDate: taskDueDate,
+            dueDate,
+            status,
+            skipReason,
           },
         });
 
         taskInstances.push(taskInstance);
 
-        // Send notification for task assignment
-        if (assignedTo) {
+        // Send notification for task assignment; assignees of tasks waiting on dependencies
+        // are notified once the task unblocks
+        if (assignedTo && status !== 'SKIPPED' && !blockedWorkflowTaskIds.has(workflowTask.id)) {
           const { NotificationService } = await import('../../services/notificationService');
           await NotificationService.notifyTaskAssigned(
             taskInstance.id,
@@ -915,6 +1517,237 @@ export class OnboardingService {
     }
   }
 
+  /**
+   * Instantiate every ACTIVE auto-start workflow whose conditions match the employee, e.g.
+   * right after the employee is created. Each workflow is started on its own; workflows that
+   * fail to start are reported in the result rather than thrown.
+   */
+  static async startAutoStartWorkflows(employeeId: string, assignedBy: string) {
+    try {
+      logger.info(`Starting auto-start workflows for employee: ${employeeId}`);
+
+      const [employee, workflows] = await Promise.all([
+        prisma.employee.findUnique({
+          where: { id: employeeId },
+        }),
+        prisma.workflow.findMany({
+          where: { status: 'ACTIVE', autoStart: true },
+          orderBy: { createdAt: 'asc' },
+        }),
+      ]);
+
+      if (!employee) {
+        throw new Error('Employee not found');
+      }
+
+      const started = [];
+      const skipped = [];
+      const failed = [];
+
+      for (const workflow of workflows) {
+        const workflowConditions = this.evaluateWorkflowConditions(workflow, employee);
+        if (workflowConditions && !workflowConditions.matched) {
+          skipped.push({
+            workflowId: workflow.id,
+            workflowName: workflow.name,
+            reason: workflowConditions.reason,
+          });
+          continue;
+        }
+
+        try {
+          const instance = await this.createWorkflowInstance(
+            {
+              workflowId: workflow.id,
+              employeeId,
+              notes: 'Started automatically when the employee was created',
+            },
+            assignedBy
+          );
+
+          started.push({
+            workflowId: workflow.id,
+            workflowName: workflow.name,
+            workflowInstanceId: instance.id,
+            assignedTasks: instance.taskInstances.filter((task) => task.status !== 'SKIPPED')
+              .length,
+          });
+        } catch (error) {
+          logger.error(`Failed to auto-start workflow ${workflow.id}:`, error);
+          failed.push({
+            workflowId: workflow.id,
+            workflowName: workflow.name,
+            error: error instanceof Error ? error.message : 'Failed to start workflow',
+          });
+        }
+      }
+
+      logger.info(
+        `Auto-start workflows for employee ${employeeId}: ${started.length} started, ${skipped.length} skipped, ${failed.length} failed`
+      );
+      return { started, skipped, failed };
+    } catch (error) {
+      logger.error('Error in startAutoStartWorkflows:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Dry run of createWorkflowInstance: which tasks the employee would receive, which
+   * would be skipped and why, without creating anything or sending notifications
+   */
+  static async previewWorkflowInstance(data: PreviewWorkflowInstanceInput, assignedBy: string) {
+    try {
+      const [workflow, employee] = await Promise.all([
+        prisma.workflow.findUnique({
+          where: { id: data.workflowId },
+          include: {
+            workflowTasks: {
+              orderBy: { orderIndex: 'asc' },
+              include: {
+                globalTask: true,
+              },
+            },
+          },
+        }),
+        prisma.employee.findUnique({
+          where: { id: data.employeeId },
+        }),
+      ]);
+
+      if (!workflow) {
+        throw new Error('Workflow not found');
+      }
+
+      if (!employee) {
+        throw new Error('Employee not found');
+      }
+
+      const existingInstance = await this.findEmployeeWorkflowInstance(workflow, employee.id);
+
+      const workflowConditions = this.evaluateWorkflowConditions(workflow, employee);
+      const tasks = this.planTaskInstances(workflow, employee, assignedBy).map(
+        ({ workflowTask, conditions, ...plannedTask }) => ({
+          workflowTaskId: workflowTask.id,
+          globalTaskId: workflowTask.globalTaskId,
+          taskName: workflowTask.globalTask.taskName,
+          taskType: workflowTask.globalTask.taskType,
+          orderIndex: workflowTask.orderIndex,
+          isRequired: workflowTask.isRequired,
+          ...plannedTask,
+          conditions: conditions?.results ?? [],
+        })
+      );
+
+      const blockers = [];
+      if (!workflow.isLatestVersion) {
+        blockers.push(`Workflow version ${workflow.version} has been superseded`);
+      }
+      if (workflow.status !== 'ACTIVE') blockers.push('Workflow is not active');
+      if (existingInstance) blockers.push('Employee already has this workflow assigned');
+      if (workflowConditions?.reason) blockers.push(workflowConditions.reason);
+
+      return {
+        workflow: {
+          id: workflow.id,
+          name: workflow.name,
+          version: workflow.version,
+          status: workflow.status,
+          isConditional: workflow.isConditional,
+        },
+        employee: {
+          id: employee.id,
+          firstName: employee.firstName,
+          lastName: employee.lastName,
+          employmentType: employee.employmentType,
+          department: employee.department,
+          jobTitle: employee.jobTitle,
+          workLocation: employee.workLocation,
+          hireDate: employee.hireDate,
+        },
+        canAssign: blockers.length === 0,
+        blockers,
+        workflowConditions: workflowConditions?.results ?? [],
+        tasks,
+        summary: {
+          totalTasks: tasks.length,
+          assignedTasks: tasks.filter((task) => task.status !== 'SKIPPED').length,
+          skippedTasks: tasks.filter((task) => task.status === 'SKIPPED').length,
+        },
+      };
+    } catch (error) {
+      logger.error('Error in previewWorkflowInstance:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Evaluate a conditional workflow's rules against the employee; null when the
+   * workflow applies to everyone
+   */
+  private static evaluateWorkflowConditions(
+    workflow: { isConditional: boolean; conditionalLogic: Prisma.JsonValue },
+    employee: Employee
+  ): ConditionEvaluation | null {
+    if (!workflow.isConditional) return null;
+    return evaluateConditions(parseConditionalLogic(workflow.conditionalLogic), employee);
+  }
+
+  /**
+   * Resolve the task instances a workflow creates for an employee: the assignee, the
+   * due date, and whether the task's conditions exclude it
+   */
+  private static planTaskInstances(
+    workflow: WorkflowWithTasks,
+    employee: Employee,
+    assignedBy: string
+  ): PlannedTaskInstance[] {
+    return workflow.workflowTasks.map((workflowTask) => {
+      const { globalTask } = workflowTask;
+      const conditions = globalTask.isConditional
+        ? evaluateConditions(parseConditionalLogic(globalTask.conditionalLogic), employee)
+        : null;
+
+      if (conditions && !conditions.matched) {
+        return {
+          workflowTask,
+          status: 'SKIPPED',
+          assignedTo: null,
+          dueDate: null,
+          skipReason: conditions.reason,
+          conditions,
+        };
+      }
+
+      let dueDate = null;
+      if (workflowTask.deadlineDays) {
+        dueDate = new Date();
+        dueDate.setDate(dueDate.getDate() + workflowTask.deadlineDays);
+      }
+
+      // Determine assignee based on task type
+      let assignedTo = null;
+      const assigneeType = workflowTask.customAssigneeType || globalTask.assigneeType;
+
+      if (assigneeType === 'EMPLOYEE') {
+        assignedTo = employee.id;
+      } else if (assigneeType === 'MANAGER' && employee.reportingManager) {
+        assignedTo = employee.reportingManager;
+      } else if (assigneeType === 'ADMIN') {
+        assignedTo = assignedBy; // Assign to the admin who created the instance
+      }
+
+      return {
+        workflowTask,
+        status: 'NOT_STARTED',
+        assignedTo,
+        dueDate,
+        skipReason: null,
+        conditions,
+      };
+    });
+  }
+
   /**
    * Get workflow instances with filtering and pagination
    */
@@ -989,7 +1822,10 @@ export class OnboardingService {
       ]);
 
       return {
-        instances,
+        instances: instances.map((instance) => ({
+          ...instance,
+          taskInstances: withDependencyState(instance.taskInstances),
+        })),
         pagination: {
           page,
           limit,
@@ -1043,7 +1879,10 @@ export class OnboardingService {
         throw new Error('Workflow instance not found');
       }
 
-      return instance;
+      return {
+        ...instance,
+        taskInstances: withDependencyState(instance.taskInstances),
+      };
     } catch (error) {
       logger.error('Error in getWorkflowInstanceById:', error);
       throw error;
@@ -1127,18 +1966,66 @@ export class OnboardingService {
         throw new Error('Task instance not found');
       }
 
+      const siblingTasks = await prisma.taskInstance.findMany({
+        where: { workflowInstanceId: existingTask.workflowInstanceId },
+        include: {
+          workflowTask: {
+            include: {
+              globalTask: { select: { taskName: true } },
+            },
+          },
+        },
+      });
+
+      // Tasks awaiting approval are settled through approve/reject
+      if (existingTask.status === 'PENDING_APPROVAL' && data.status) {
+        throw new Error('Task is awaiting approval and can only be approved or rejected');
+      }
+
+      // A task can't be started or completed while its dependencies are outstanding
+      if (data.status === 'IN_PROGRESS' || data.status === 'COMPLETED') {
+        const blockedBy = getBlockingDependencies(existingTask, siblingTasks);
+
+        if (blockedBy.length > 0) {
+          const taskNames = blockedBy.map((dependency) => dependency.taskName).join(', ');
+          throw new Error(`Task is blocked by incomplete dependencies: ${taskNames}`);
+        }
+      }
+
+      // Completing a task that requires approval submits it to the approver; it only
+      // becomes COMPLETED once approved
+      const status =
+        data.status === 'COMPLETED' &&
+        existingTask.workflowTask.globalTask.requiresApproval &&
+        !existingTask.approvedAt
+          ? 'PENDING_APPROVAL'
+          : data.status;
+      const approverId =
+        status === 'PENDING_APPROVAL' ? this.resolveTaskApprover(existingTask) : null;
+
+      if (status === 'PENDING_APPROVAL' && !approverId) {
+        throw new Error('No approver could be resolved for this task');
+      }
+
       // Prepare update data
-      const updateData: any = { ...data };
+      const updateData: any = { ...data, status };
 
       // Set timestamps based on status
-      if (data.status === 'IN_PROGRESS' && !existingTask.startedAt) {
+      if (status === 'IN_PROGRESS' && !existingTask.startedAt) {
         updateData.startedAt = new Date();
       }
 
-      if (data.status === 'COMPLETED' && !existingTask.completedAt) {
+      if ((status === 'COMPLETED' || status === 'PENDING_APPROVAL') && !existingTask.completedAt) {
         updateData.completedAt = new Date();
       }
 
+      // Reopening a completed task voids its approval, so completing it again needs a new one
+      if (existingTask.status === 'COMPLETED' && status && status !== 'COMPLETED') {
+        updateData.approvedBy = null;
+        updateData.approvedAt = null;
+        updateData.completedAt = null;
+      }
+
       // Update task instance
       const updatedTask = await prisma.taskInstance.update({
         where: { id: taskInstanceId },
@@ -1159,48 +2046,44 @@ export class OnboardingService {
 
       // Send notifications based on status change
       const { NotificationService } = await import('../../services/notificationService');
+      const { employee } = existingTask.workflowInstance;
+
+      if (status === 'PENDING_APPROVAL' && approverId) {
+        await NotificationService.notifyApprovalRequired(
+          taskInstanceId,
+          approverId,
+          `${employee.firstName} ${employee.lastName}`,
+          existingTask.workflowTask.globalTask.taskName
+        );
+      }
 
-      if (data.status === 'COMPLETED') {
+      if (status === 'COMPLETED') {
         // Notify manager about task completion
-        if (existingTask.workflowInstance.employee.reportingManager) {
+        if (employee.reportingManager) {
           await NotificationService.notifyTaskCompleted(
             taskInstanceId,
-            existingTask.workflowInstance.employee.reportingManager,
-            `${existingTask.workflowInstance.employee.firstName} ${existingTask.workflowInstance.employee.lastName}`,
+            employee.reportingManager,
+            `${employee.firstName} ${employee.lastName}`,
             existingTask.workflowTask.globalTask.taskName
           );
         }
 
-        // If task requires approval, notify approver
-        if (existingTask.workflowTask.globalTask.requiresApproval) {
-          const approverType =
-            existingTask.workflowTask.customApproverType ||
-            existingTask.workflowTask.globalTask.approverType;
-          let approverId = null;
-
-          if (
-            approverType === 'MANAGER' &&
-            existingTask.workflowInstance.employee.reportingManager
-          ) {
-            approverId = existingTask.workflowInstance.employee.reportingManager;
-          } else if (approverType === 'ADMIN' && existingTask.workflowInstance.assignedBy) {
-            approverId = existingTask.workflowInstance.assignedBy;
-          }
-
-          if (approverId) {
-            await NotificationService.notifyApprovalRequired(
-              taskInstanceId,
-              approverId,
-              `${existingTask.workflowInstance.employee.firstName} ${existingTask.workflowInstance.employee.lastName}`,
-              existingTask.workflowTask.globalTask.taskName
-            );
-          }
-        }
-
         // Update workflow instance progress
         await this.updateWorkflowProgress(existingTask.workflowInstanceId);
       }
 
+      // Completing or skipping a task may release the tasks waiting on it
+      if (
+        status &&
+        DEPENDENCY_SATISFIED_STATUSES.includes(status) &&
+        !DEPENDENCY_SATISFIED_STATUSES.includes(existingTask.status)
+      ) {
+        await this.notifyUnblockedTasks(
+          siblingTasks.map((task) => (task.id === taskInstanceId ? { ...task, status } : task)),
+          existingTask.workflowTaskId
+        );
+      }
+
       logger.info(`Task instance updated successfully: ${taskInstanceId}`);
       return updatedTask;
     } catch (error) {
@@ -1209,6 +2092,223 @@ export class OnboardingService {
     }
   }
 
+  /**
+   * Approve a task awaiting approval. Only the task's resolved approver may approve; the
+   * task becomes COMPLETED and counts towards workflow progress.
+   */
+  static async approveTaskInstance(
+    taskInstanceId: string,
+    approverId: string,
+    data: ApproveTaskInstanceInput
+  ) {
+    try {
+      logger.info(`Approving task instance: ${taskInstanceId}`);
+
+      const existingTask = await this.getTaskAwaitingApproval(taskInstanceId, approverId);
+
+      const approvedTask = await prisma.taskInstance.update({
+        where: { id: taskInstanceId },
+        data: {
+          status: 'COMPLETED',
+          approvedBy: approverId,
+          approvedAt: new Date(),
+          approvalNotes: data.approvalNotes,
+        },
+        include: {
+          workflowInstance: {
+            include: {
+              employee: true,
+            },
+          },
+          workflowTask: {
+            include: {
+              globalTask: true,
+            },
+          },
+        },
+      });
+
+      const { NotificationService } = await import('../../services/notificationService.js');
+      const { employee } = existingTask.workflowInstance;
+      const { taskName } = existingTask.workflowTask.globalTask;
+
+      if (existingTask.assignedTo) {
+        await NotificationService.notifyTaskApprovalDecision(
+          taskInstanceId,
+          existingTask.assignedTo,
+          taskName,
+          true,
+          data.approvalNotes
+        );
+      }
+
+      // The manager hears about the completion unless they approved it themselves
+      if (employee.reportingManager && employee.reportingManager !== approverId) {
+        await NotificationService.notifyTaskCompleted(
+          taskInstanceId,
+          employee.reportingManager,
+          `${employee.firstName} ${employee.lastName}`,
+          taskName
+        );
+      }
+
+      await this.updateWorkflowProgress(existingTask.workflowInstanceId);
+
+      const siblingTasks = await prisma.taskInstance.findMany({
+        where: { workflowInstanceId: existingTask.workflowInstanceId },
+        include: {
+          workflowTask: {
+            include: {
+              globalTask: { select: { taskName: true } },
+            },
+          },
+        },
+      });
+      await this.notifyUnblockedTasks(siblingTasks, existingTask.workflowTaskId);
+
+      logger.info(`Task instance approved successfully: ${taskInstanceId}`);
+      return approvedTask;
+    } catch (error) {
+      logger.error('Error in approveTaskInstance:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Reject a task awaiting approval. Only the task's resolved approver may reject; the task
+   * goes back to IN_PROGRESS with the rejection notes for the assignee.
+   */
+  static async rejectTaskInstance(
+    taskInstanceId: string,
+    approverId: string,
+    data: RejectTaskInstanceInput
+  ) {
+    try {
+      logger.info(`Rejecting task instance: ${taskInstanceId}`);
+
+      const existingTask = await this.getTaskAwaitingApproval(taskInstanceId, approverId);
+
+      const rejectedTask = await prisma.taskInstance.update({
+        where: { id: taskInstanceId },
+        data: {
+          status: 'IN_PROGRESS',
+          approvalNotes: data.approvalNotes,
+          approvedBy: null,
+          approvedAt: null,
+          completedAt: null,
+        },
+        include: {
+          workflowInstance: {
+            include: {
+              employee: true,
+            },
+          },
+          workflowTask: {
+            include: {
+              globalTask: true,
+            },
+          },
+        },
+      });
+
+      if (existingTask.assignedTo) {
+        const { NotificationService } = await import('../../services/notificationService.js');
+        await NotificationService.notifyTaskApprovalDecision(
+          taskInstanceId,
+          existingTask.assignedTo,
+          existingTask.workflowTask.globalTask.taskName,
+          false,
+          data.approvalNotes
+        );
+      }
+
+      logger.info(`Task instance rejected by ${approverId}: ${taskInstanceId}`);
+      return rejectedTask;
+    } catch (error) {
+      logger.error('Error in rejectTaskInstance:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Load a task for an approval decision, checking it is awaiting approval and that
+   * `approverId` is its resolved approver
+   */
+  private static async getTaskAwaitingApproval(taskInstanceId: string, approverId: string) {
+    const taskInstance = await prisma.taskInstance.findUnique({
+      where: { id: taskInstanceId },
+      include: {
+        workflowInstance: {
+          include: {
+            employee: true,
+          },
+        },
+        workflowTask: {
+          include: {
+            globalTask: true,
+          },
+        },
+      },
+    });
+
+    if (!taskInstance) {
+      throw new Error('Task instance not found');
+    }
+
+    if (taskInstance.status !== 'PENDING_APPROVAL') {
+      throw new Error('Task is not awaiting approval');
+    }
+
+    if (this.resolveTaskApprover(taskInstance) !== approverId) {
+      throw new Error('Only the task approver can approve or reject this task');
+    }
+
+    return taskInstance;
+  }
+
+  /**
+   * The user who approves a task: the employee's reporting manager for MANAGER approval,
+   * otherwise (or when the employee has no manager) the admin who assigned the workflow
+   */
+  private static resolveTaskApprover(taskInstance: TaskInstanceWithContext): string | null {
+    const { workflowInstance, workflowTask } = taskInstance;
+    const approverType = workflowTask.customApproverType || workflowTask.globalTask.approverType;
+
+    if (approverType === 'MANAGER' && workflowInstance.employee.reportingManager) {
+      return workflowInstance.employee.reportingManager;
+    }
+
+    return workflowInstance.assignedBy;
+  }
+
+  /**
+   * Notify assignees of tasks that were waiting on `workflowTaskId` and have no outstanding
+   * dependencies left. `taskInstances` is the workflow instance after the status change.
+   */
+  private static async notifyUnblockedTasks(
+    taskInstances: Array<DependencyTaskInstance & { id: string; assignedTo: string | null }>,
+    workflowTaskId: string
+  ) {
+    const { NotificationService } = await import('../../services/notificationService.js');
+
+    for (const taskInstance of taskInstances) {
+      if (
+        !taskInstance.assignedTo ||
+        !taskInstance.workflowTask.dependencies.includes(workflowTaskId) ||
+        CLOSED_TASK_STATUSES.includes(taskInstance.status) ||
+        getBlockingDependencies(taskInstance, taskInstances).length > 0
+      ) {
+        continue;
+      }
+
+      await NotificationService.notifyTaskAssigned(
+        taskInstance.id,
+        taskInstance.assignedTo,
+        taskInstance.workflowTask.globalTask?.taskName ?? 'Onboarding task'
+      );
+    }
+  }
+
   /**
    * Update workflow instance progress
    */
@@ -1225,10 +2325,11 @@ export class OnboardingService {
         return;
       }
 
-      const totalTasks = workflowInstance.taskInstances.length;
-      const completedTasks = workflowInstance.taskInstances.filter(
-        (t) => t.status === 'COMPLETED'
-      ).length;
+      // Skipped tasks don't apply to this employee and don't count towards progress; tasks
+      // awaiting approval count once approved
+      const applicableTasks = workflowInstance.taskInstances.filter((t) => t.status !== 'SKIPPED');
+      const totalTasks = applicableTasks.length;
+      const completedTasks = applicableTasks.filter((t) => t.status === 'COMPLETED').length;
       const progressPercentage = totalTasks > 0 ? (completedTasks / totalTasks) * 100 : 0;
 
       // Determine workflow status
@@ -1301,9 +2402,15 @@ export class OnboardingService {
         orderBy: { createdAt: 'desc' },
       });
 
+      const instancesWithDependencyState = instances.map((instance) => ({
+        ...instance,
+        taskInstances: withDependencyState(instance.taskInstances),
+      }));
+
       // Calculate summary statistics
       const totalTasks = instances.reduce(
-        (sum, instance) => sum + instance.taskInstances.length,
+        (sum, instance) =>
+          sum + instance.taskInstances.filter((t) => t.status !== 'SKIPPED').length,
         0
       );
       const completedTasks = instances.reduce(
@@ -1321,9 +2428,18 @@ export class OnboardingService {
           sum + instance.taskInstances.filter((t) => t.status === 'IN_PROGRESS').length,
         0
       );
+      const pendingApprovalTasks = instances.reduce(
+        (sum, instance) =>
+          sum + instance.taskInstances.filter((t) => t.status === 'PENDING_APPROVAL').length,
+        0
+      );
+      const blockedTasks = instancesWithDependencyState.reduce(
+        (sum, instance) => sum + instance.taskInstances.filter((t) => t.isBlocked).length,
+        0
+      );
 
       return {
-        instances,
+        instances: instancesWithDependencyState,
         summary: {
           totalWorkflows: instances.length,
           completedWorkflows: instances.filter((i) => i.status === 'COMPLETED').length,
@@ -1331,6 +2447,8 @@ export class OnboardingService {
           completedTasks,
           overdueTasks,
           inProgressTasks,
+          pendingApprovalTasks,
+          blockedTasks,
           overallProgress: totalTasks > 0 ? (completedTasks / totalTasks) * 100 : 0,
         },
       };
@@ -1378,15 +2496,7 @@ export class OnboardingService {
               OR: [
                 { assignedTo: managerId }, // Tasks assigned to manager
                 { status: 'OVERDUE' }, // Overdue tasks
-                {
-                  workflowTask: {
-                    globalTask: {
-                      requiresApproval: true,
-                    },
-                  },
-                  status: 'COMPLETED',
-                  approvedAt: null,
-                }, // Tasks requiring approval
+                { status: 'PENDING_APPROVAL' }, // Tasks awaiting approval
               ],
             },
             include: {
@@ -1451,8 +2561,9 @@ export class OnboardingService {
         workflowsByStatus,
         tasksByType,
       ] = await Promise.all([
-        prisma.workflow.count(),
-        prisma.workflow.count({ where: { status: 'ACTIVE' } }),
+        // Each workflow counts once, as its latest version
+        prisma.workflow.count({ where: { isLatestVersion: true } }),
+        prisma.workflow.count({ where: { isLatestVersion: true, status: 'ACTIVE' } }),
         prisma.globalTask.count({ where: { isActive: true } }),
         prisma.workflowTemplate.count({ where: { isActive: true } }),
         prisma.workflowInstance.count(),
@@ -1460,6 +2571,7 @@ export class OnboardingService {
         prisma.workflow.groupBy({
           by: ['status'],
           _count: { status: true },
+          where: { isLatestVersion: true },
         }),
         prisma.globalTask.groupBy({
           by: ['taskType'],
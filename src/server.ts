@@ -1,9 +1,9 @@
-import dotenv from 'dotenv';
+// Load environment variables before any module reads config/env
+import 'dotenv/config';
 import app from './app.js';
 import { logger } from './utils/logger.js';
-
-// Load environment variables
-dotenv.config();
+import { env } from './config/env.js';
+import { jobService } from './modules/jobs/service.js';
 
 const PORT = Number(process.env.PORT) || 3000;
 
@@ -12,9 +12,16 @@ const server = app.listen(PORT, () => {
   logger.info(`📊 Environment: ${process.env.NODE_ENV || 'development'}`);
 });
 
+// Background jobs (reconciliation, expiries, accrual, notification dispatch, digests,
+// retention, overdue checks, analytics); see modules/jobs/definitions.ts
+if (process.env.NODE_ENV !== 'test' && env.JOB_SCHEDULER_ENABLED) {
+  jobService.start();
+}
+
 // Graceful shutdown
 process.on('SIGTERM', () => {
   logger.info('SIGTERM received. Shutting down gracefully...');
+  jobService.stop();
   server.close(() => {
     logger.info('Process terminated');
     process.exit(0);
@@ -23,6 +30,7 @@ process.on('SIGTERM', () => {
 
 process.on('SIGINT', () => {
   logger.info('SIGINT received. Shutting down gracefully...');
+  jobService.stop();
   server.close(() => {
     logger.info('Process terminated');
     process.exit(0);
@@ -0,0 +1,84 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import nodemailer, { Transporter } from 'nodemailer';
+import { Env } from '../config/env.js';
+
+export interface EmailMessage {
+  from: string;
+  to: string;
+  subject: string;
+  html: string;
+  text?: string;
+}
+
+export interface EmailTransportResult {
+  messageId: string;
+  accepted: boolean;
+}
+
+/**
+ * A delivery mechanism for outgoing email. Implementations throw on failure so
+ * the caller can decide whether to retry.
+ */
+export interface EmailTransport {
+  readonly name: string;
+  send(message: EmailMessage): Promise<EmailTransportResult>;
+}
+
+export class SmtpEmailTransport implements EmailTransport {
+  readonly name = 'smtp';
+  private transporter: Transporter;
+
+  constructor(config: Env) {
+    this.transporter = nodemailer.createTransport({
+      host: config.SMTP_HOST,
+      port: config.SMTP_PORT,
+      secure: config.SMTP_SECURE,
+      auth: config.SMTP_USER ? { user: config.SMTP_USER, pass: config.SMTP_PASS } : undefined,
+    });
+  }
+
+  async send(message: EmailMessage): Promise<EmailTransportResult> {
+    const info = await this.transporter.sendMail(message);
+
+    if (info.rejected.length > 0) {
+      throw new Error(`SMTP server rejected recipient(s): ${info.rejected.join(', ')}`);
+    }
+
+    return { messageId: info.messageId, accepted: info.accepted.length > 0 };
+  }
+}
+
+/**
+ * Writes each message as an .eml file (openable in any mail client) instead of
+ * sending it. Intended for local development and testing.
+ */
+export class FileEmailTransport implements EmailTransport {
+  readonly name = 'file';
+  private transporter: Transporter;
+
+  constructor(private readonly directory: string) {
+    this.transporter = nodemailer.createTransport({ streamTransport: true, buffer: true });
+  }
+
+  async send(message: EmailMessage): Promise<EmailTransportResult> {
+    const info = await this.transporter.sendMail(message);
+
+    await fs.mkdir(this.directory, { recursive: true });
+    const safeRecipient = message.to.replace(/[^a-zA-Z0-9@._-]/g, '_');
+    const fileName = `${Date.now()}-${safeRecipient}.eml`;
+    await fs.writeFile(path.join(this.directory, fileName), info.message as Buffer);
+
+    return { messageId: info.messageId, accepted: true };
+  }
+}
+
+export const createEmailTransport = (config: Env): EmailTransport => {
+  switch (config.EMAIL_TRANSPORT) {
+    case 'smtp':
+      return new SmtpEmailTransport(config);
+    case 'file':
+    default:
+      return new FileEmailTransport(config.EMAIL_FILE_DIR);
+  }
+};
@@ -0,0 +1,437 @@
+import { NotificationDigestFrequency, PrismaClient } from '@prisma/client';
+import { logger } from '../utils/logger.js';
+import { leaveService } from '../modules/leaves/service.js';
+import { NotificationService } from './notificationService.js';
+import { NotificationPreferenceService } from './notificationPreferenceService.js';
+import { escapeHtml, TemplateVariables } from './notificationTemplateService.js';
+
+const prisma = new PrismaClient();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Cap per section so a backlog can't produce an unreadable email
+const MAX_SECTION_ITEMS = 25;
+
+export type DigestRole = 'EMPLOYEE' | 'MANAGER' | 'ADMIN';
+
+export interface DigestItem {
+  title: string;
+  detail?: string;
+}
+
+export interface DigestSection {
+  key: 'pendingApprovals' | 'overdueTasks' | 'onLeaveTomorrow' | 'newJoiners' | 'updates';
+  title: string;
+  items: DigestItem[];
+  total: number;
+}
+
+export interface NotificationDigest {
+  userId: string;
+  recipientId: string;
+  recipientName: string;
+  recipientEmail: string | null;
+  role: DigestRole;
+  frequency: NotificationDigestFrequency;
+  periodStart: Date;
+  periodEnd: Date;
+  sections: DigestSection[];
+  itemCount: number;
+  queuedNotificationIds: string[];
+  templateVariables: TemplateVariables;
+}
+
+export interface BuildDigestOptions {
+  frequency?: NotificationDigestFrequency;
+  now?: Date;
+}
+
+export interface SendDigestOptions extends BuildDigestOptions {
+  // Build the digest and report what would be sent without sending it
+  dryRun?: boolean;
+}
+
+const formatDate = (date: Date): string =>
+  date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+const fullName = (person: { firstName: string; lastName: string }): string =>
+  `${person.firstName} ${person.lastName}`;
+
+const toSection = (
+  key: DigestSection['key'],
+  title: string,
+  items: DigestItem[]
+): DigestSection => ({
+  key,
+  title,
+  items: items.slice(0, MAX_SECTION_ITEMS),
+  total: items.length,
+});
+
+/**
+ * Scheduled digest emails. Each recipient gets one email per period that batches the
+ * things they would otherwise hear about one by one: approvals waiting on them, overdue
+ * onboarding tasks, who is on leave tomorrow, new joiners, and any notifications their
+ * preferences routed to the digest.
+ */
+export class NotificationDigestService {
+  /**
+   * Collect the digest content for a user. Manager and HR sections are scoped to the
+   * user's direct reports, or to the whole organisation for ADMIN users.
+   */
+  static async buildDigest(
+    userId: string,
+    options: BuildDigestOptions = {}
+  ): Promise<NotificationDigest> {
+    const now = options.now ?? new Date();
+    const userIds = await NotificationPreferenceService.resolveUserIds(userId);
+
+    const [employee, user, userSettings] = await Promise.all([
+      prisma.employee.findFirst({
+        where: { OR: [{ id: { in: userIds } }, { supabaseId: { in: userIds } }] },
+      }),
+      prisma.user.findFirst({ where: { id: { in: userIds } } }),
+      prisma.notificationUserSettings.findFirst({ where: { userId: { in: userIds } } }),
+    ]);
+
+    const frequency = options.frequency ?? userSettings?.digestFrequency ?? 'DAILY';
+    const periodDays = frequency === 'WEEKLY' ? 7 : 1;
+    const periodStart = new Date(now.getTime() - periodDays * DAY_MS);
+
+    const directReports = await prisma.employee.findMany({
+      where: { reportingManager: { in: userIds }, isActive: true },
+      select: { id: true, reportingManager: true },
+    });
+
+    let role: DigestRole = user?.role ?? 'EMPLOYEE';
+    if (role === 'EMPLOYEE' && directReports.length > 0) role = 'MANAGER';
+
+    const sections: DigestSection[] = [];
+    if (role !== 'EMPLOYEE') {
+      const reportIds = directReports.map((report) => report.id);
+      sections.push(
+        await this.getPendingApprovals(role, reportIds),
+        await this.getOverdueTasks(role, reportIds),
+        await this.getOnLeaveTomorrow(role, directReports[0]?.reportingManager ?? userId, now),
+        await this.getNewJoiners(role, reportIds, periodStart, now)
+      );
+    }
+
+    // Notifications the user's preferences held back for the digest
+    const queued = await prisma.notification.findMany({
+      where: {
+        recipientId: { in: userIds },
+        deliveryMode: 'DIGEST',
+        status: 'PENDING',
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    // The same update may be queued on both email and SMS; list it once
+    const seen = new Set<string>();
+    const updates: DigestItem[] = [];
+    for (const notification of queued) {
+      const key = `${notification.type}:${notification.createdAt.getTime()}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      updates.push({ title: notification.title, detail: formatDate(notification.createdAt) });
+    }
+    sections.push(toSection('updates', 'Updates', updates));
+
+    const populated = sections.filter((section) => section.total > 0);
+    const itemCount = populated.reduce((count, section) => count + section.total, 0);
+    const recipientName = employee ? fullName(employee) : (user?.name ?? 'there');
+    const frequencyLabel = frequency === 'WEEKLY' ? 'weekly' : 'daily';
+    const periodLabel =
+      frequency === 'WEEKLY'
+        ? `the week of ${formatDate(now)}`
+        : now.toLocaleDateString('en-US', { weekday: 'long', month: 'short', day: 'numeric' });
+
+    return {
+      userId,
+      recipientId: employee?.id ?? userId,
+      recipientName,
+      recipientEmail: employee?.email ?? user?.email ?? null,
+      role,
+      frequency,
+      periodStart,
+      periodEnd: now,
+      sections: populated,
+      itemCount,
+      queuedNotificationIds: queued.map((notification) => notification.id),
+      templateVariables: {
+        recipientName,
+        frequencyLabel,
+        periodLabel,
+        itemCount,
+        digestHtml: this.renderHtml(populated),
+        digestText: this.renderText(populated),
+      },
+    };
+  }
+
+  /**
+   * Send the digest email for a user and mark the queued notifications it covered as
+   * delivered. Empty digests are skipped but still count as sent for scheduling.
+   */
+  static async sendDigest(userId: string, options: SendDigestOptions = {}) {
+    try {
+      const digest = await this.buildDigest(userId, options);
+      const now = options.now ?? new Date();
+      let sent = false;
+
+      if (options.dryRun) {
+        return { userId, sent, itemCount: digest.itemCount, sections: digest.sections };
+      }
+
+      if (digest.itemCount > 0 && digest.recipientEmail) {
+        await NotificationService.createNotification({
+          type: 'DIGEST',
+          title: `Your ${digest.templateVariables.frequencyLabel} digest`,
+          message: `${digest.itemCount} item(s) need your attention`,
+          recipientId: digest.recipientId,
+          recipientEmail: digest.recipientEmail,
+          channels: ['EMAIL'],
+          data: {
+            frequency: digest.frequency,
+            itemCount: digest.itemCount,
+            sections: digest.sections.map((section) => ({
+              key: section.key,
+              total: section.total,
+            })),
+          },
+          templateVariables: digest.templateVariables,
+        });
+        sent = true;
+      }
+
+      await prisma.$transaction([
+        prisma.notification.updateMany({
+          where: { id: { in: digest.queuedNotificationIds }, status: 'PENDING' },
+          data: { status: 'DELIVERED', sentAt: now, deliveredAt: now },
+        }),
+        prisma.notificationUserSettings.updateMany({
+          where: { userId: { in: await NotificationPreferenceService.resolveUserIds(userId) } },
+          data: { lastDigestSentAt: now },
+        }),
+      ]);
+
+      logger.info(
+        `Digest for user ${userId}: ${sent ? `sent with ${digest.itemCount} item(s)` : 'nothing to send'}`
+      );
+      return { userId, sent, itemCount: digest.itemCount, sections: digest.sections };
+    } catch (error) {
+      logger.error(`Error sending digest for user: ${userId}`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Send digests to everyone whose slot has passed since their last digest, and to
+   * anyone with digest-queued notifications that are now due
+   */
+  static async sendDueDigests(now = new Date(), options: { dryRun?: boolean } = {}) {
+    try {
+      const [settings, queued] = await Promise.all([
+        prisma.notificationUserSettings.findMany({ where: { digestEnabled: true } }),
+        prisma.notification.findMany({
+          where: { deliveryMode: 'DIGEST', status: 'PENDING', scheduledFor: { lte: now } },
+          select: { recipientId: true },
+          distinct: ['recipientId'],
+        }),
+      ]);
+
+      const due = new Set<string>();
+      for (const userSettings of settings) {
+        const window = NotificationPreferenceService.getDigestWindow(userSettings, now);
+        const lastSent = userSettings.lastDigestSentAt ?? userSettings.updatedAt;
+        if (lastSent < window.previous) due.add(userSettings.userId);
+      }
+      queued.forEach((notification) => due.add(notification.recipientId));
+
+      // A person can be addressed by several IDs; send them a single digest
+      const handled = new Set<string>();
+      const results: Array<{ userId: string; sent: boolean; itemCount: number; error?: string }> =
+        [];
+
+      for (const userId of due) {
+        if (handled.has(userId)) continue;
+        const userIds = await NotificationPreferenceService.resolveUserIds(userId);
+        userIds.forEach((id) => handled.add(id));
+
+        try {
+          const { sent, itemCount } = await this.sendDigest(userId, {
+            now,
+            dryRun: options.dryRun,
+          });
+          results.push({ userId, sent, itemCount });
+        } catch (error) {
+          results.push({
+            userId,
+            sent: false,
+            itemCount: 0,
+            error: error instanceof Error ? error.message : 'Unknown error',
+          });
+        }
+      }
+
+      const sent = results.filter((result) => result.sent).length;
+      if (results.length > 0) {
+        logger.info(`Processed ${results.length} due digests (${sent} sent)`);
+      }
+      return { processed: results.length, sent, dryRun: !!options.dryRun, results };
+    } catch (error) {
+      logger.error('Error sending due digests:', error);
+      throw error;
+    }
+  }
+
+  // ==================== SECTIONS ====================
+
+  private static async getPendingApprovals(
+    role: DigestRole,
+    reportIds: string[]
+  ): Promise<DigestSection> {
+    // Managers act on requests from their reports; HR on requests the manager has
+    // cleared or that have no manager to clear them
+    const requests = await prisma.leaveRequest.findMany({
+      where:
+        role === 'ADMIN'
+          ? {
+              status: 'PENDING',
+              OR: [{ managerApprovalStatus: 'APPROVED' }, { employee: { reportingManager: null } }],
+            }
+          : { status: 'PENDING', managerApprovalStatus: null, employeeId: { in: reportIds } },
+      include: {
+        employee: { select: { firstName: true, lastName: true } },
+        policy: { select: { name: true } },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return toSection(
+      'pendingApprovals',
+      'Pending approvals',
+      requests.map((request) => ({
+        title: `${fullName(request.employee)}: ${request.policy?.name ?? request.leaveType} leave`,
+        detail: `${formatDate(request.startDate)} – ${formatDate(request.endDate)}`,
+      }))
+    );
+  }
+
+  private static async getOverdueTasks(
+    role: DigestRole,
+    reportIds: string[]
+  ): Promise<DigestSection> {
+    const tasks = await NotificationService.getOverdueTasks({
+      employeeWhere: role === 'ADMIN' ? undefined : { id: { in: reportIds } },
+      includeFlagged: true,
+    });
+
+    return toSection(
+      'overdueTasks',
+      'Overdue onboarding tasks',
+      tasks.map((task) => ({
+        title: `${fullName(task.workflowInstance.employee)}: ${task.workflowTask.globalTask.taskName}`,
+        detail: task.dueDate ? `Due ${formatDate(task.dueDate)}` : undefined,
+      }))
+    );
+  }
+
+  private static async getOnLeaveTomorrow(
+    role: DigestRole,
+    managerId: string,
+    now: Date
+  ): Promise<DigestSection> {
+    const tomorrowStart = new Date(now);
+    tomorrowStart.setHours(24, 0, 0, 0);
+    const tomorrowEnd = new Date(tomorrowStart.getTime() + DAY_MS - 1);
+
+    const { absentees } = await leaveService.getAbsentees(
+      { endDate: tomorrowEnd, includeCurrent: true, includeUpcoming: true, limit: 200 },
+      role,
+      managerId
+    );
+
+    return toSection(
+      'onLeaveTomorrow',
+      'On leave tomorrow',
+      absentees
+        .filter(
+          (absentee) =>
+            absentee.employee.id !== managerId &&
+            new Date(absentee.startDate) <= tomorrowEnd &&
+            new Date(absentee.endDate) >= tomorrowStart
+        )
+        .map((absentee) => ({
+          title: fullName(absentee.employee),
+          detail: `${absentee.policy?.name ?? absentee.leaveType} until ${formatDate(new Date(absentee.endDate))}`,
+        }))
+    );
+  }
+
+  private static async getNewJoiners(
+    role: DigestRole,
+    reportIds: string[],
+    periodStart: Date,
+    now: Date
+  ): Promise<DigestSection> {
+    // Joined during the period or starting before the next digest
+    const periodEnd = new Date(now.getTime() + (now.getTime() - periodStart.getTime()));
+    const joiners = await prisma.employee.findMany({
+      where: {
+        isActive: true,
+        hireDate: { gte: periodStart, lt: periodEnd },
+        ...(role === 'ADMIN' ? {} : { id: { in: reportIds } }),
+      },
+      select: { firstName: true, lastName: true, jobTitle: true, department: true, hireDate: true },
+      orderBy: { hireDate: 'asc' },
+    });
+
+    return toSection(
+      'newJoiners',
+      'New joiners',
+      joiners.map((joiner) => ({
+        title: `${fullName(joiner)}, ${joiner.jobTitle}`,
+        detail: `${joiner.department} · ${joiner.hireDate <= now ? 'joined' : 'starts'} ${formatDate(joiner.hireDate)}`,
+      }))
+    );
+  }
+
+  // ==================== RENDERING ====================
+
+  private static renderHtml(sections: DigestSection[]): string {
+    if (sections.length === 0) return '<p>Nothing needs your attention right now.</p>';
+
+    return sections
+      .map((section) => {
+        const items = section.items
+          .map(
+            (item) =>
+              `<li><strong>${escapeHtml(item.title)}</strong>${item.detail ? ` <span style="color: #6b7280;">(${escapeHtml(item.detail)})</span>` : ''}</li>`
+          )
+          .join('');
+        const more =
+          section.total > section.items.length
+            ? `<p style="color: #6b7280;">…and ${section.total - section.items.length} more</p>`
+            : '';
+        return `<h3 style="margin-bottom: 4px;">${escapeHtml(section.title)} (${section.total})</h3><ul>${items}</ul>${more}`;
+      })
+      .join('\n');
+  }
+
+  private static renderText(sections: DigestSection[]): string {
+    if (sections.length === 0) return 'Nothing needs your attention right now.';
+
+    return sections
+      .map((section) => {
+        const items = section.items.map(
+          (item) => `- ${item.title}${item.detail ? ` (${item.detail})` : ''}`
+        );
+        if (section.total > section.items.length) {
+          items.push(`...and ${section.total - section.items.length} more`);
+        }
+        return `${section.title} (${section.total})\n${items.join('\n')}`;
+      })
+      .join('\n\n');
+  }
+}
@@ -0,0 +1,375 @@
+import {
+  NotificationChannel,
+  NotificationDeliveryMode,
+  NotificationDigestFrequency,
+  NotificationType,
+  PrismaClient,
+} from '@prisma/client';
+import { logger } from '../utils/logger.js';
+
+const prisma = new PrismaClient();
+
+// Types that must reach the recipient: they cannot be disabled or moved to the digest
+export const MANDATORY_NOTIFICATION_TYPES: NotificationType[] = [
+  'APPROVAL_REQUIRED',
+  'LEAVE_PENDING_APPROVAL',
+  'LEAVE_ESCALATED',
+  'SYSTEM_ALERT',
+];
+
+// Channels that can be deferred by quiet hours or collected into the digest
+const DEFERRABLE_CHANNELS: NotificationChannel[] = ['EMAIL', 'SMS'];
+
+// Informational types that go into the digest by default once a user turns digests on
+export const DIGEST_DEFAULT_TYPES: NotificationType[] = [
+  'TASK_COMPLETED',
+  'TASK_OVERDUE',
+  'TASK_APPROVED',
+  'WORKFLOW_COMPLETED',
+  'MANAGER_ASSIGNED',
+  'LEAVE_APPLIED',
+  'LEAVE_APPROVED',
+  'LEAVE_REJECTED',
+  'LEAVE_CANCELLED',
+];
+
+const MINUTES_PER_DAY = 24 * 60;
+
+export interface NotificationDelivery {
+  channel: NotificationChannel;
+  deliveryMode: NotificationDeliveryMode;
+  scheduledFor: Date | null;
+}
+
+export interface NotificationPreferenceUpdate {
+  type: NotificationType;
+  channel: NotificationChannel;
+  enabled?: boolean;
+  digest?: boolean;
+}
+
+export interface NotificationUserSettingsUpdate {
+  quietHoursEnabled?: boolean;
+  quietHoursStart?: string;
+  quietHoursEnd?: string;
+  timezone?: string;
+  digestEnabled?: boolean;
+  digestFrequency?: NotificationDigestFrequency;
+  digestDayOfWeek?: number;
+  digestTime?: string;
+}
+
+export interface DigestScheduleSettings {
+  timezone: string;
+  digestFrequency: NotificationDigestFrequency;
+  digestDayOfWeek: number;
+  digestTime: string;
+}
+
+export interface UpdateNotificationPreferencesData {
+  preferences?: NotificationPreferenceUpdate[];
+  settings?: NotificationUserSettingsUpdate;
+}
+
+const DEFAULT_USER_SETTINGS = {
+  quietHoursEnabled: false,
+  quietHoursStart: '22:00',
+  quietHoursEnd: '07:00',
+  timezone: 'UTC',
+  digestEnabled: false,
+  digestFrequency: 'DAILY' as NotificationDigestFrequency,
+  digestDayOfWeek: 1,
+  digestTime: '08:00',
+};
+
+const parseTimeOfDay = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// Minutes since midnight for `date` in the given IANA timezone
+const getLocalMinutes = (date: Date, timezone: string): number => {
+  const parts = new Intl.DateTimeFormat('en-GB', {
+    timeZone: timezone,
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+  const hour = Number(parts.find((part) => part.type === 'hour')?.value ?? 0);
+  const minute = Number(parts.find((part) => part.type === 'minute')?.value ?? 0);
+  return hour * 60 + minute;
+};
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Day of week (0 = Sunday) for `date` in the given IANA timezone
+const getLocalWeekday = (date: Date, timezone: string): number => {
+  const weekday = new Intl.DateTimeFormat('en-US', { timeZone: timezone, weekday: 'short' }).format(
+    date
+  );
+  return WEEKDAYS.indexOf(weekday);
+};
+
+export class NotificationPreferenceService {
+  static isMandatory(type: NotificationType): boolean {
+    return MANDATORY_NOTIFICATION_TYPES.includes(type);
+  }
+
+  /**
+   * Whether `date` falls inside the quiet window; windows may wrap past midnight
+   */
+  static isWithinQuietHours(
+    settings: {
+      quietHoursEnabled: boolean;
+      quietHoursStart: string;
+      quietHoursEnd: string;
+      timezone: string;
+    },
+    date = new Date()
+  ): boolean {
+    if (!settings.quietHoursEnabled) return false;
+
+    const start = parseTimeOfDay(settings.quietHoursStart);
+    const end = parseTimeOfDay(settings.quietHoursEnd);
+    const now = getLocalMinutes(date, settings.timezone);
+
+    if (start === end) return false;
+    return start < end ? now >= start && now < end : now >= start || now < end;
+  }
+
+  /**
+   * Next occurrence of a local HH:mm time in the given timezone, after `from`
+   */
+  static getNextLocalTime(time: string, timezone: string, from = new Date()): Date {
+    const minutesUntil =
+      (parseTimeOfDay(time) - getLocalMinutes(from, timezone) + MINUTES_PER_DAY) %
+        MINUTES_PER_DAY || MINUTES_PER_DAY;
+
+    const next = new Date(from.getTime() + minutesUntil * 60 * 1000);
+    next.setUTCSeconds(0, 0);
+    return next;
+  }
+
+  /**
+   * The digest slot at or before `now` and the one after it, in the user's timezone
+   */
+  static getDigestWindow(
+    settings: DigestScheduleSettings,
+    now = new Date()
+  ): { previous: Date; next: Date } {
+    const dayMs = 24 * 60 * 60 * 1000;
+    const minutesSince =
+      (getLocalMinutes(now, settings.timezone) -
+        parseTimeOfDay(settings.digestTime) +
+        MINUTES_PER_DAY) %
+      MINUTES_PER_DAY;
+
+    const previous = new Date(now.getTime() - minutesSince * 60 * 1000);
+    previous.setUTCSeconds(0, 0);
+
+    if (settings.digestFrequency === 'WEEKLY') {
+      const daysBack =
+        (getLocalWeekday(previous, settings.timezone) - settings.digestDayOfWeek + 7) % 7;
+      previous.setTime(previous.getTime() - daysBack * dayMs);
+    }
+
+    const periodDays = settings.digestFrequency === 'WEEKLY' ? 7 : 1;
+    return { previous, next: new Date(previous.getTime() + periodDays * dayMs) };
+  }
+
+  /**
+   * Whether a notification type goes into the digest on a channel. Explicit preferences
+   * win; otherwise informational types follow the user's digest mode.
+   */
+  static isDigested(
+    type: NotificationType,
+    channel: NotificationChannel,
+    preferenceDigest: boolean | null | undefined,
+    digestEnabled: boolean
+  ): boolean {
+    if (this.isMandatory(type) || type === 'DIGEST') return false;
+    if (!DEFERRABLE_CHANNELS.includes(channel)) return false;
+    return preferenceDigest ?? (digestEnabled && DIGEST_DEFAULT_TYPES.includes(type));
+  }
+
+  /**
+   * Decide which of the requested channels a notification is delivered on, and when.
+   * Opted-out channels are dropped (except for mandatory types), digest channels are
+   * held for the next digest, and email/SMS raised during quiet hours wait until they end.
+   */
+  static async resolveDelivery(
+    recipientId: string,
+    type: NotificationType,
+    channels: NotificationChannel[],
+    now = new Date()
+  ): Promise<NotificationDelivery[]> {
+    const immediate = channels.map((channel) => ({
+      channel,
+      deliveryMode: 'IMMEDIATE' as NotificationDeliveryMode,
+      scheduledFor: null,
+    }));
+
+    try {
+      const userIds = await this.resolveUserIds(recipientId);
+      const [preferences, userSettings] = await Promise.all([
+        prisma.notificationPreference.findMany({
+          where: { userId: { in: userIds }, type, channel: { in: channels } },
+        }),
+        prisma.notificationUserSettings.findFirst({ where: { userId: { in: userIds } } }),
+      ]);
+
+      const settings = userSettings ?? DEFAULT_USER_SETTINGS;
+      const mandatory = this.isMandatory(type);
+      const inQuietHours = this.isWithinQuietHours(settings, now);
+      const deliveries: NotificationDelivery[] = [];
+
+      for (const channel of channels) {
+        const preference = preferences.find((pref) => pref.channel === channel);
+        const deferrable = DEFERRABLE_CHANNELS.includes(channel);
+
+        if (!mandatory && preference && !preference.enabled) continue;
+
+        if (this.isDigested(type, channel, preference?.digest, settings.digestEnabled)) {
+          deliveries.push({
+            channel,
+            deliveryMode: 'DIGEST',
+            scheduledFor: this.getDigestWindow(settings, now).next,
+          });
+          continue;
+        }
+
+        deliveries.push({
+          channel,
+          deliveryMode: 'IMMEDIATE',
+          scheduledFor:
+            deferrable && inQuietHours
+              ? this.getNextLocalTime(settings.quietHoursEnd, settings.timezone, now)
+              : null,
+        });
+      }
+
+      return deliveries;
+    } catch (error) {
+      // Never lose a notification because preferences could not be read
+      logger.error(`Error resolving notification preferences for user: ${recipientId}`, error);
+      return immediate;
+    }
+  }
+
+  /**
+   * Effective preferences for every type and channel, plus quiet hours and digest settings
+   */
+  static async getPreferences(userId: string) {
+    try {
+      const userIds = await this.resolveUserIds(userId);
+      const [stored, userSettings] = await Promise.all([
+        prisma.notificationPreference.findMany({ where: { userId: { in: userIds } } }),
+        prisma.notificationUserSettings.findFirst({ where: { userId: { in: userIds } } }),
+      ]);
+
+      const settings = userSettings ?? DEFAULT_USER_SETTINGS;
+      const preferences = Object.values(NotificationType).flatMap((type) =>
+        Object.values(NotificationChannel).map((channel) => {
+          const preference = stored.find((pref) => pref.type === type && pref.channel === channel);
+          const mandatory = this.isMandatory(type);
+          return {
+            type,
+            channel,
+            enabled: mandatory || (preference?.enabled ?? true),
+            digest: this.isDigested(type, channel, preference?.digest, settings.digestEnabled),
+            mandatory,
+          };
+        })
+      );
+
+      return {
+        preferences,
+        settings: {
+          quietHoursEnabled: settings.quietHoursEnabled,
+          quietHoursStart: settings.quietHoursStart,
+          quietHoursEnd: settings.quietHoursEnd,
+          timezone: settings.timezone,
+          digestEnabled: settings.digestEnabled,
+          digestFrequency: settings.digestFrequency,
+          digestDayOfWeek: settings.digestDayOfWeek,
+          digestTime: settings.digestTime,
+          nextDigestAt: settings.digestEnabled
+            ? this.getDigestWindow(settings).next.toISOString()
+            : null,
+        },
+      };
+    } catch (error) {
+      logger.error('Error getting notification preferences:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update preferences and quiet hours for the current user
+   */
+  static async updatePreferences(userId: string, data: UpdateNotificationPreferencesData) {
+    try {
+      for (const preference of data.preferences ?? []) {
+        if (!this.isMandatory(preference.type)) continue;
+        if (preference.enabled === false || preference.digest === true) {
+          throw new Error(
+            `${preference.type} notifications are mandatory and cannot be disabled or digested`
+          );
+        }
+      }
+
+      await prisma.$transaction(async (tx) => {
+        for (const preference of data.preferences ?? []) {
+          const digest = DEFERRABLE_CHANNELS.includes(preference.channel)
+            ? preference.digest
+            : null;
+
+          await tx.notificationPreference.upsert({
+            where: {
+              userId_type_channel: {
+                userId,
+                type: preference.type,
+                channel: preference.channel,
+              },
+            },
+            create: {
+              userId,
+              type: preference.type,
+              channel: preference.channel,
+              enabled: preference.enabled ?? true,
+              digest,
+            },
+            update: { enabled: preference.enabled, digest },
+          });
+        }
+
+        if (data.settings) {
+          await tx.notificationUserSettings.upsert({
+            where: { userId },
+            create: { userId, ...data.settings },
+            update: data.settings,
+          });
+        }
+      });
+
+      logger.info(`Notification preferences updated for user: ${userId}`);
+      return this.getPreferences(userId);
+    } catch (error) {
+      logger.error('Error updating notification preferences:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Notifications are addressed to either an Employee ID or a User ID (supabaseId);
+   * resolve every ID the same person can be addressed by
+   */
+  static async resolveUserIds(userId: string): Promise<string[]> {
+    const employee = await prisma.employee.findFirst({
+      where: { OR: [{ id: userId }, { supabaseId: userId }] },
+      select: { id: true, supabaseId: true },
+    });
+
+    return employee ? [...new Set([userId, employee.id, employee.supabaseId])] : [userId];
+  }
+}
@@ -1,5 +1,19 @@
-import { PrismaClient } from '@prisma/client';
+import {
+  NotificationChannel,
+  NotificationStatus,
+  NotificationType,
+  Prisma,
+  PrismaClient,
+} from '@prisma/client';
 import { logger } from '../utils/logger.js';
+import {
+  NotificationTemplateService,
+  RenderedNotification,
+  TemplateVariables,
+} from './notificationTemplateService.js';
+import { NotificationPreferenceService } from './notificationPreferenceService.js';
+import { NotificationStreamService, StreamCursor } from './notificationStreamService.js';
+import { getBlockingDependencies } from '../modules/onboarding/dependencies.js';
 
 const prisma = new PrismaClient();
 
@@ -8,19 +22,59 @@ export interface NotificationData {
     | 'TASK_ASSIGNED'
     | 'TASK_COMPLETED'
     | 'TASK_OVERDUE'
+    | 'TASK_APPROVED'
+    | 'TASK_REJECTED'
     | 'WORKFLOW_ASSIGNED'
     | 'WORKFLOW_COMPLETED'
     | 'MANAGER_ASSIGNED'
     | 'APPROVAL_REQUIRED'
-    | 'SYSTEM_ALERT';
+    | 'SYSTEM_ALERT'
+    | 'LEAVE_APPLIED'
+    | 'LEAVE_PENDING_APPROVAL'
+    | 'LEAVE_APPROVED'
+    | 'LEAVE_REJECTED'
+    | 'LEAVE_CANCELLED'
+    | 'LEAVE_ESCALATED'
+    | 'LEAVE_REMINDER'
+    | 'LEAVE_BALANCE_EXPIRING'
+    | 'DIGEST';
   title: string;
   message: string;
   recipientId: string;
   recipientEmail?: string;
+  recipientPhone?: string;
   workflowInstanceId?: string;
   taskInstanceId?: string;
   employeeId?: string;
+  leaveRequestId?: string;
   data?: any;
+  // Template locale; falls back to the default locale when no template exists for it
+  locale?: string;
+  // Extra template variables that are rendered but not stored with the notification
+  templateVariables?: TemplateVariables;
+  // Channels to deliver on; defaults to in-app plus email when an address is given
+  channels?: NotificationChannel[];
+}
+
+export interface NotificationFilters {
+  type?: NotificationType;
+  status?: NotificationStatus;
+  channel?: NotificationChannel;
+  workflowInstanceId?: string;
+  startDate?: Date;
+  endDate?: Date;
+  // Archived notifications are excluded unless explicitly requested
+  archiveScope?: 'exclude' | 'only' | 'include';
+}
+
+export interface BulkNotificationSelection extends NotificationFilters {
+  ids?: string[];
+}
+
+export interface NotificationRetentionOptions {
+  olderThanDays?: number;
+  mode?: 'archive' | 'purge';
+  dryRun?: boolean;
 }
 
 export class NotificationService {
@@ -33,49 +87,108 @@ export class NotificationService {
         `Creating notification: ${notificationData.type} for user: ${notificationData.recipientId}`
       );
 
+      // Drop opted-out channels and defer email/SMS for quiet hours or the daily digest
+      const deliveries = await NotificationPreferenceService.resolveDelivery(
+        notificationData.recipientId,
+        notificationData.type,
+        notificationData.channels ?? ['IN_APP', 'EMAIL']
+      );
+      const channels = deliveries.map((delivery) => delivery.channel);
+      const getDelivery = (channel: NotificationChannel) =>
+        deliveries.find((delivery) => delivery.channel === channel);
+
+      const variables = this.getTemplateVariables(notificationData);
+      const render = (channel: NotificationChannel) =>
+        NotificationTemplateService.render(
+          notificationData.type,
+          channel,
+          variables,
+          notificationData.locale
+        );
+
+      const baseData = {
+        type: notificationData.type,
+        recipientId: notificationData.recipientId,
+        recipientEmail: notificationData.recipientEmail,
+        recipientPhone: notificationData.recipientPhone,
+        workflowInstanceId: notificationData.workflowInstanceId,
+        taskInstanceId: notificationData.taskInstanceId,
+        employeeId: notificationData.employeeId,
+        leaveRequestId: notificationData.leaveRequestId,
+        data: notificationData.data,
+      };
+
       // Create in-app notification
-      const inAppNotification = await prisma.notification.create({
-        data: {
-          type: notificationData.type,
-          title: notificationData.title,
-          message: notificationData.message,
-          channel: 'IN_APP',
-          recipientId: notificationData.recipientId,
-          recipientEmail: notificationData.recipientEmail,
-          workflowInstanceId: notificationData.workflowInstanceId,
-          taskInstanceId: notificationData.taskInstanceId,
-          employeeId: notificationData.employeeId,
-          data: notificationData.data,
-          status: 'SENT',
-          sentAt: new Date(),
-        },
-      });
+      let inAppNotification = null;
+      if (getDelivery('IN_APP')) {
+        const rendered = await render('IN_APP');
+        inAppNotification = await prisma.notification.create({
+          data: {
+            ...baseData,
+            title: rendered.subject,
+            message: rendered.body,
+            channel: 'IN_APP',
+            status: 'SENT',
+            sentAt: new Date(),
+          },
+        });
+
+        // Push to any open notification streams for the recipient
+        NotificationStreamService.publishNotification(inAppNotification);
+        this.pushUnreadCount(notificationData.recipientId);
+      }
 
       // Create email notification if email is provided
       let emailNotification = null;
-      if (notificationData.recipientEmail) {
+      const emailDelivery = getDelivery('EMAIL');
+      if (emailDelivery && notificationData.recipientEmail) {
+        const rendered = await render('EMAIL');
         emailNotification = await prisma.notification.create({
           data: {
-            type: notificationData.type,
-            title: notificationData.title,
-            message: notificationData.message,
+            ...baseData,
+            title: rendered.subject,
+            message: rendered.body,
+            htmlBody: rendered.html,
             channel: 'EMAIL',
-            recipientId: notificationData.recipientId,
-            recipientEmail: notificationData.recipientEmail,
-            workflowInstanceId: notificationData.workflowInstanceId,
-            taskInstanceId: notificationData.taskInstanceId,
-            employeeId: notificationData.employeeId,
-            data: notificationData.data,
             status: 'PENDING', // Email will be sent asynchronously
+            deliveryMode: emailDelivery.deliveryMode,
+            scheduledFor: emailDelivery.scheduledFor,
           },
         });
 
-        // Send email using email service
-        this.sendEmail(emailNotification.id, notificationData);
+        // Send email using email service unless it is deferred
+        if (emailDelivery.deliveryMode === 'IMMEDIATE' && !emailDelivery.scheduledFor) {
+          this.sendEmail(emailNotification.id, notificationData.recipientEmail, rendered);
+        }
       }
 
-      logger.info(`Notification created successfully: ${inAppNotification.id}`);
-      return { inAppNotification, emailNotification };
+      // Create SMS notification if a phone number is provided
+      let smsNotification = null;
+      const smsDelivery = getDelivery('SMS');
+      if (smsDelivery && notificationData.recipientPhone) {
+        const rendered = await render('SMS');
+        smsNotification = await prisma.notification.create({
+          data: {
+            ...baseData,
+            title: rendered.subject,
+            message: rendered.body,
+            channel: 'SMS',
+            status: 'PENDING', // SMS will be sent asynchronously
+            deliveryMode: smsDelivery.deliveryMode,
+            scheduledFor: smsDelivery.scheduledFor,
+          },
+        });
+
+        // Send SMS using SMS service unless it is deferred
+        if (smsDelivery.deliveryMode === 'IMMEDIATE' && !smsDelivery.scheduledFor) {
+          this.sendSms(smsNotification.id, notificationData.recipientPhone, rendered.body);
+        }
+      }
+
+      logger.info(
+        `Notification created successfully for user: ${notificationData.recipientId} (${channels.join(', ')})`
+      );
+      return { inAppNotification, emailNotification, smsNotification };
     } catch (error) {
       logger.error('Error creating notification:', error);
       throw error;
@@ -255,23 +368,69 @@ export class NotificationService {
     }
   }
 
+  /**
+   * Tell the assignee whether their completed task was approved or sent back for rework
+   */
+  static async notifyTaskApprovalDecision(
+    taskInstanceId: string,
+    assigneeId: string,
+    taskName: string,
+    approved: boolean,
+    approvalNotes?: string | null
+  ) {
+    try {
+      const assignee = await prisma.employee.findUnique({
+        where: { id: assigneeId },
+      });
+
+      if (!assignee) {
+        throw new Error('Assignee not found');
+      }
+
+      const notes = approvalNotes ? ` Notes: ${approvalNotes}` : '';
+
+      await this.createNotification({
+        type: approved ? 'TASK_APPROVED' : 'TASK_REJECTED',
+        title: approved ? 'Task Approved' : 'Task Needs Rework',
+        message: approved
+          ? `Your task ${taskName} has been approved.${notes}`
+          : `Your task ${taskName} was not approved and has been reopened.${notes}`,
+        recipientId: assigneeId,
+        recipientEmail: assignee.email,
+        taskInstanceId,
+        data: {
+          employeeName: `${assignee.firstName} ${assignee.lastName}`,
+          taskName,
+          approvalNotes: approvalNotes ?? null,
+        },
+      });
+    } catch (error) {
+      logger.error('Error sending task approval decision notification:', error);
+      throw error;
+    }
+  }
+
   /**
    * Get notifications for a user
    */
-  static async getUserNotifications(userId: string, page = 1, limit = 10) {
+  static async getUserNotifications(
+    userId: string,
+    page = 1,
+    limit = 10,
+    filters: NotificationFilters = {}
+  ) {
     try {
       const skip = (page - 1) * limit;
+      const where = this.buildFilterWhere(userId, filters);
 
       const [notifications, total] = await Promise.all([
         prisma.notification.findMany({
-          where: { recipientId: userId },
+          where,
           orderBy: { createdAt: 'desc' },
           skip,
           take: limit,
         }),
-        prisma.notification.count({
-          where: { recipientId: userId },
-        }),
+        prisma.notification.count({ where }),
       ]);
 
       return {
@@ -305,6 +464,10 @@ export class NotificationService {
         },
       });
 
+      if (notification.count > 0) {
+        this.pushUnreadCount(userId);
+      }
+
       return notification;
     } catch (error) {
       logger.error('Error marking notification as read:', error);
@@ -312,15 +475,192 @@ export class NotificationService {
     }
   }
 
+  /**
+   * Mark every unread notification as read
+   */
+  static async markAllAsRead(userId: string) {
+    return this.markAsReadBySelection(userId, {});
+  }
+
+  /**
+   * Mark unread notifications matching IDs and/or filters as read
+   */
+  static async markAsReadBySelection(userId: string, selection: BulkNotificationSelection) {
+    try {
+      // Undelivered (PENDING) email/SMS are left alone so they still go out
+      const result = await prisma.notification.updateMany({
+        where: {
+          ...this.buildSelectionWhere(userId, selection),
+          status: { in: ['SENT', 'DELIVERED'] },
+        },
+        data: {
+          status: 'READ',
+          readAt: new Date(),
+        },
+      });
+
+      if (result.count > 0) {
+        this.pushUnreadCount(userId);
+      }
+
+      logger.info(`Marked ${result.count} notifications as read for user: ${userId}`);
+      return { updated: result.count };
+    } catch (error) {
+      logger.error('Error marking notifications as read:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Archive notifications matching IDs and/or filters
+   */
+  static async archiveNotifications(userId: string, selection: BulkNotificationSelection) {
+    try {
+      const result = await prisma.notification.updateMany({
+        where: { ...this.buildSelectionWhere(userId, selection), archivedAt: null },
+        data: { archivedAt: new Date() },
+      });
+
+      if (result.count > 0) {
+        this.pushUnreadCount(userId);
+      }
+
+      logger.info(`Archived ${result.count} notifications for user: ${userId}`);
+      return { archived: result.count };
+    } catch (error) {
+      logger.error('Error archiving notifications:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete notifications matching IDs and/or filters
+   */
+  static async deleteNotifications(userId: string, selection: BulkNotificationSelection) {
+    try {
+      // Deleting also covers archived notifications unless the caller narrows the scope
+      const result = await prisma.notification.deleteMany({
+        where: this.buildSelectionWhere(userId, { archiveScope: 'include', ...selection }),
+      });
+
+      if (result.count > 0) {
+        this.pushUnreadCount(userId);
+      }
+
+      logger.info(`Deleted ${result.count} notifications for user: ${userId}`);
+      return { deleted: result.count };
+    } catch (error) {
+      logger.error('Error deleting notifications:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Archive (or purge) READ notifications older than the retention age. In archive mode,
+   * notifications that have been archived for longer than the same age are purged, so the
+   * table stays bounded either way.
+   */
+  static async applyRetentionPolicy(options: NotificationRetentionOptions = {}) {
+    try {
+      // Loaded on demand so importing the app doesn't require a fully configured environment
+      const { env } = await import('../config/env.js');
+      const olderThanDays = options.olderThanDays ?? env.NOTIFICATION_RETENTION_DAYS;
+      const mode = options.mode ?? env.NOTIFICATION_RETENTION_MODE;
+      const cutoff = new Date(Date.now() - olderThanDays * 24 * 60 * 60 * 1000);
+
+      const readWhere: Prisma.NotificationWhereInput = {
+        status: 'READ',
+        readAt: { lt: cutoff },
+        ...(mode === 'archive' ? { archivedAt: null } : {}),
+      };
+      const expiredArchiveWhere: Prisma.NotificationWhereInput = {
+        archivedAt: { lt: cutoff },
+      };
+
+      const [readCount, expiredArchiveCount] = await Promise.all([
+        prisma.notification.count({ where: readWhere }),
+        mode === 'archive' ? prisma.notification.count({ where: expiredArchiveWhere }) : 0,
+      ]);
+
+      const summary = {
+        mode,
+        olderThanDays,
+        cutoff,
+        dryRun: options.dryRun ?? false,
+        archived: mode === 'archive' ? readCount : 0,
+        purged: mode === 'purge' ? readCount : expiredArchiveCount,
+      };
+
+      if (options.dryRun) {
+        return summary;
+      }
+
+      if (mode === 'archive') {
+        // Purge first so rows archived in this run are not caught by the cutoff
+        const purged = await prisma.notification.deleteMany({ where: expiredArchiveWhere });
+        const archived = await prisma.notification.updateMany({
+          where: readWhere,
+          data: { archivedAt: new Date() },
+        });
+        summary.purged = purged.count;
+        summary.archived = archived.count;
+      } else {
+        const purged = await prisma.notification.deleteMany({ where: readWhere });
+        summary.purged = purged.count;
+      }
+
+      logger.info(
+        `Notification retention (${mode}, ${olderThanDays} days): archived ${summary.archived}, purged ${summary.purged}`
+      );
+      return summary;
+    } catch (error) {
+      logger.error('Error applying notification retention policy:', error);
+      throw error;
+    }
+  }
+
+  private static buildFilterWhere(
+    userId: string,
+    filters: NotificationFilters
+  ): Prisma.NotificationWhereInput {
+    return {
+      recipientId: userId,
+      type: filters.type,
+      status: filters.status,
+      channel: filters.channel,
+      workflowInstanceId: filters.workflowInstanceId,
+      createdAt:
+        filters.startDate || filters.endDate
+          ? { gte: filters.startDate, lte: filters.endDate }
+          : undefined,
+      archivedAt: {
+        exclude: null,
+        only: { not: null },
+        include: undefined,
+      }[filters.archiveScope ?? 'exclude'],
+    };
+  }
+
+  private static buildSelectionWhere(
+    userId: string,
+    selection: BulkNotificationSelection
+  ): Prisma.NotificationWhereInput {
+    return {
+      ...this.buildFilterWhere(userId, selection),
+      id: selection.ids ? { in: selection.ids } : undefined,
+    };
+  }
+
   /**
    * Get unread notification count
    */
-  static async getUnreadCount(userId: string) {
+  static async getUnreadCount(userId: string | string[]) {
     try {
       const count = await prisma.notification.count({
         where: {
-          recipientId: userId,
+          recipientId: Array.isArray(userId) ? { in: userId } : userId,
           status: { in: ['PENDING', 'SENT', 'DELIVERED'] },
+          archivedAt: null,
         },
       });
 
@@ -332,85 +672,96 @@ export class NotificationService {
   }
 
   /**
-   * Send email using email service
+   * One page of in-app notifications raised after a stream position, for replay on
+   * reconnect. Pass the last notification of a page as the next cursor.
    */
-  private static async sendEmail(notificationId: string, notificationData: NotificationData) {
+  static async getStreamBacklog(userIds: string[], since: StreamCursor, limit = 100) {
     try {
-      const { EmailService } = await import('./emailService');
-      let emailSent = false;
-
-      // Send appropriate email based on notification type
-      switch (notificationData.type) {
-        case 'WORKFLOW_ASSIGNED':
-          if (notificationData.recipientEmail && notificationData.data?.workflowName) {
-            emailSent = await EmailService.sendOnboardingWelcomeEmail(
-              notificationData.recipientEmail,
-              notificationData.data.employeeName || 'Employee',
-              notificationData.data.workflowName
-            );
-          }
-          break;
-
-        case 'TASK_ASSIGNED':
-          if (notificationData.recipientEmail && notificationData.data?.taskName) {
-            emailSent = await EmailService.sendTaskAssignmentEmail(
-              notificationData.recipientEmail,
-              notificationData.data.employeeName || 'Employee',
-              notificationData.data.taskName,
-              notificationData.data.dueDate ? new Date(notificationData.data.dueDate) : undefined
-            );
-          }
-          break;
-
-        case 'TASK_COMPLETED':
-        case 'MANAGER_ASSIGNED':
-        case 'APPROVAL_REQUIRED':
-          if (notificationData.recipientEmail) {
-            emailSent = await EmailService.sendManagerNotificationEmail(
-              notificationData.recipientEmail,
-              notificationData.data?.managerName || 'Manager',
-              notificationData.data?.employeeName || 'Employee',
-              notificationData.message
-            );
-          }
-          break;
-
-        case 'TASK_OVERDUE':
-          if (notificationData.recipientEmail && notificationData.data?.taskName) {
-            const daysOverdue = notificationData.data.daysOverdue || 1;
-            emailSent = await EmailService.sendTaskOverdueEmail(
-              notificationData.recipientEmail,
-              notificationData.data.employeeName || 'Employee',
-              notificationData.data.taskName,
-              daysOverdue
-            );
-          }
-          break;
-
-        default:
-          // For other notification types, send a generic email
-          if (notificationData.recipientEmail) {
-            emailSent = await EmailService.sendEmail({
-              to: notificationData.recipientEmail,
-              subject: notificationData.title,
-              html: `<p>${notificationData.message}</p>`,
-              text: notificationData.message,
-            });
-          }
-          break;
-      }
+      return await prisma.notification.findMany({
+        where: {
+          recipientId: { in: userIds },
+          channel: 'IN_APP',
+          OR: [
+            { createdAt: { gt: since.createdAt } },
+            ...(since.id ? [{ createdAt: since.createdAt, id: { gt: since.id } }] : []),
+          ],
+        },
+        orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+        take: limit,
+      });
+    } catch (error) {
+      logger.error('Error getting notification stream backlog:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Push the recipient's current unread count to their open streams
+   */
+  private static async pushUnreadCount(recipientId: string) {
+    if (!NotificationStreamService.hasSubscribers(recipientId)) return;
+
+    try {
+      const userIds = await NotificationPreferenceService.resolveUserIds(recipientId);
+      const unreadCount = await this.getUnreadCount(userIds);
+      NotificationStreamService.publishUnreadCount(recipientId, unreadCount);
+    } catch (error) {
+      logger.error(`Error pushing unread count to user: ${recipientId}`, error);
+    }
+  }
+
+  /**
+   * Variables available to notification templates: the notification data plus title and message
+   */
+  private static getTemplateVariables(notificationData: NotificationData): TemplateVariables {
+    const data = notificationData.data ?? {};
+
+    return {
+      employeeName: 'Employee',
+      managerName: 'Manager',
+      ...data,
+      ...notificationData.templateVariables,
+      title: notificationData.title,
+      message: notificationData.message,
+      recipientEmail: notificationData.recipientEmail,
+      dueDate: data.dueDate ? new Date(data.dueDate).toLocaleDateString() : undefined,
+      daysOverdue: data.daysOverdue ?? (notificationData.type === 'TASK_OVERDUE' ? 1 : undefined),
+    };
+  }
+
+  /**
+   * Send a rendered email using email service
+   */
+  private static async sendEmail(
+    notificationId: string,
+    recipientEmail: string,
+    rendered: Pick<RenderedNotification, 'subject' | 'body' | 'html'>
+  ) {
+    try {
+      const { EmailService } = await import('./emailService.js');
+      const result = await EmailService.sendEmail({
+        to: recipientEmail,
+        subject: rendered.subject,
+        html: rendered.html ?? rendered.body,
+        text: rendered.body,
+      });
 
-      // Update notification status based on email result
+      // Write the delivery result back to the notification
+      const deliveredAt = result.success ? new Date() : undefined;
       await prisma.notification.update({
         where: { id: notificationId },
         data: {
-          status: emailSent ? 'SENT' : 'FAILED',
-          sentAt: emailSent ? new Date() : undefined,
+          status: result.success ? 'DELIVERED' : 'FAILED',
+          sentAt: deliveredAt,
+          deliveredAt,
+          deliveryAttempts: result.attempts,
+          lastDeliveryError: result.success ? null : result.error,
+          providerMessageId: result.messageId,
         },
       });
 
-      if (emailSent) {
-        logger.info(`Email sent successfully for notification: ${notificationId}`);
+      if (result.success) {
+        logger.info(`Email delivered for notification: ${notificationId}`);
       } else {
         logger.error(`Failed to send email for notification: ${notificationId}`);
       }
@@ -418,34 +769,147 @@ export class NotificationService {
       logger.error('Error sending email:', error);
       await prisma.notification.update({
         where: { id: notificationId },
-        data: { status: 'FAILED' },
+        data: {
+          status: 'FAILED',
+          lastDeliveryError: error instanceof Error ? error.message : String(error),
+        },
       });
     }
   }
 
   /**
-   * Check for overdue tasks and send notifications
+   * Send SMS via SMS service and record the delivery status on the notification
    */
-  static async checkOverdueTasks() {
+  private static async sendSms(notificationId: string, recipientPhone: string, body: string) {
+    try {
+      const { SmsService } = await import('./smsService.js');
+      const result = await SmsService.sendSms({ to: recipientPhone, body });
+
+      // Local transports have no delivery receipts; acceptance counts as delivered
+      const deliveredAt = result.success ? new Date() : undefined;
+      await prisma.notification.update({
+        where: { id: notificationId },
+        data: {
+          status: result.success ? 'DELIVERED' : 'FAILED',
+          sentAt: deliveredAt,
+          deliveredAt,
+          deliveryAttempts: result.attempts,
+          lastDeliveryError: result.success ? null : result.error,
+          providerMessageId: result.messageId,
+        },
+      });
+
+      if (result.success) {
+        logger.info(`SMS delivered for notification: ${notificationId}`);
+      } else {
+        logger.error(`Failed to send SMS for notification: ${notificationId}`);
+      }
+    } catch (error) {
+      logger.error('Error sending SMS:', error);
+      await prisma.notification.update({
+        where: { id: notificationId },
+        data: {
+          status: 'FAILED',
+          lastDeliveryError: error instanceof Error ? error.message : String(error),
+        },
+      });
+    }
+  }
+
+  /**
+   * Send emails and SMS that were deferred by quiet hours and are now due
+   */
+  static async dispatchScheduledNotifications(now = new Date()) {
     try {
-      const overdueTasks = await prisma.taskInstance.findMany({
+      const due = await prisma.notification.findMany({
         where: {
-          status: { in: ['NOT_STARTED', 'IN_PROGRESS'] },
-          dueDate: { lt: new Date() },
+          status: 'PENDING',
+          deliveryMode: 'IMMEDIATE',
+          scheduledFor: { lte: now },
+          OR: [
+            { channel: 'EMAIL', recipientEmail: { not: null } },
+            { channel: 'SMS', recipientPhone: { not: null } },
+          ],
+        },
+        orderBy: { scheduledFor: 'asc' },
+        take: 100,
+      });
+
+      for (const notification of due) {
+        if (notification.channel === 'SMS' && notification.recipientPhone) {
+          await this.sendSms(notification.id, notification.recipientPhone, notification.message);
+        } else if (notification.channel === 'EMAIL' && notification.recipientEmail) {
+          await this.sendEmail(notification.id, notification.recipientEmail, {
+            subject: notification.title,
+            body: notification.message,
+            html: notification.htmlBody ?? undefined,
+          });
+        }
+      }
+
+      if (due.length > 0) {
+        logger.info(`Dispatched ${due.length} scheduled email/SMS notifications`);
+      }
+      return due.length;
+    } catch (error) {
+      logger.error('Error dispatching scheduled notifications:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Onboarding tasks past their due date. Tasks already flagged OVERDUE are only
+   * included on request so the overdue check doesn't notify twice. Tasks still blocked by
+   * their dependencies can't be started yet, so they are never overdue.
+   */
+  static async getOverdueTasks(
+    options: { employeeWhere?: Prisma.EmployeeWhereInput; includeFlagged?: boolean } = {}
+  ) {
+    const tasks = await prisma.taskInstance.findMany({
+      where: {
+        status: {
+          in: options.includeFlagged
+            ? ['NOT_STARTED', 'IN_PROGRESS', 'OVERDUE']
+            : ['NOT_STARTED', 'IN_PROGRESS'],
         },
-        include: {
-          workflowInstance: {
-            include: {
-              employee: true,
+        dueDate: { lt: new Date() },
+        workflowInstance: options.employeeWhere ? { employee: options.employeeWhere } : undefined,
+      },
+      include: {
+        workflowInstance: {
+          include: {
+            employee: true,
+            taskInstances: {
+              select: {
+                workflowTaskId: true,
+                status: true,
+                workflowTask: {
+                  select: { dependencies: true, globalTask: { select: { taskName: true } } },
+                },
+              },
             },
           },
-          workflowTask: {
-            include: {
-              globalTask: true,
-            },
+        },
+        workflowTask: {
+          include: {
+            globalTask: true,
           },
         },
-      });
+      },
+      orderBy: { dueDate: 'asc' },
+    });
+
+    return tasks.filter(
+      (task) => getBlockingDependencies(task, task.workflowInstance.taskInstances).length === 0
+    );
+  }
+
+  /**
+   * Check for overdue tasks and send notifications
+   */
+  static async checkOverdueTasks() {
+    try {
+      const overdueTasks = await this.getOverdueTasks();
 
       for (const task of overdueTasks) {
         // Calculate days overdue
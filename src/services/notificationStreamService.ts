@@ -0,0 +1,138 @@
+import { Response } from 'express';
+import { Notification } from '@prisma/client';
+import { logger } from '../utils/logger.js';
+
+const HEARTBEAT_INTERVAL_MS = 25 * 1000;
+
+interface StreamEvent {
+  event: string;
+  data: unknown;
+  id?: string;
+}
+
+/**
+ * Position in a recipient's notification stream. Creation times alone are not unique, so
+ * the notification ID breaks ties.
+ */
+export interface StreamCursor {
+  createdAt: Date;
+  id: string | null;
+}
+
+/**
+ * In-process registry of Server-Sent Events connections, keyed by recipient ID.
+ * A connection is registered under every ID its user can be addressed by (User ID and
+ * Employee ID). Connections are per server instance, so clients reconnect with
+ * Last-Event-ID to catch up on anything raised elsewhere.
+ */
+export class NotificationStreamService {
+  private static clients = new Map<string, Set<Response>>();
+
+  // Events held for connections that are still replaying their backlog
+  private static buffers = new Map<Response, StreamEvent[]>();
+
+  /**
+   * Event ID for a notification; replay resumes after this creation time and ID
+   */
+  static getEventId(notification: Pick<Notification, 'createdAt' | 'id'>): string {
+    return `${notification.createdAt.getTime()}-${notification.id}`;
+  }
+
+  /**
+   * Parse a Last-Event-ID back into the stream position to replay from. IDs issued before
+   * the notification ID was included carry only the creation time.
+   */
+  static parseEventId(eventId: string | undefined): StreamCursor | null {
+    const match = eventId?.match(/^(\d+)(?:-([\w-]+))?$/);
+    if (!match) return null;
+    return { createdAt: new Date(Number(match[1])), id: match[2] ?? null };
+  }
+
+  /**
+   * Write one SSE event to a connection
+   */
+  static send(res: Response, event: string, data: unknown, id?: string): void {
+    if (id) res.write(`id: ${id}\n`);
+    res.write(`event: ${event}\n`);
+    res.write(`data: ${JSON.stringify(data)}\n\n`);
+  }
+
+  /**
+   * Register a connection and keep it alive; returns the cleanup function. Events published
+   * to it are held until `release` so they can't interleave with the backlog replay.
+   */
+  static subscribe(userIds: string[], res: Response): () => void {
+    this.buffers.set(res, []);
+    for (const userId of userIds) {
+      const connections = this.clients.get(userId) ?? new Set<Response>();
+      connections.add(res);
+      this.clients.set(userId, connections);
+    }
+
+    // Comment lines keep proxies from closing idle connections
+    const heartbeat = setInterval(() => res.write(': ping\n\n'), HEARTBEAT_INTERVAL_MS);
+
+    return () => {
+      clearInterval(heartbeat);
+      this.buffers.delete(res);
+      for (const userId of userIds) {
+        const connections = this.clients.get(userId);
+        connections?.delete(res);
+        if (connections?.size === 0) this.clients.delete(userId);
+      }
+    };
+  }
+
+  /**
+   * Start live delivery on a subscribed connection, writing the events held while its
+   * backlog was replayed. Events whose ID was already replayed are skipped.
+   */
+  static release(res: Response, replayedIds: Set<string>): void {
+    const buffered = this.buffers.get(res) ?? [];
+    this.buffers.delete(res);
+
+    for (const { event, data, id } of buffered) {
+      if (id && replayedIds.has(id)) continue;
+      this.send(res, event, data, id);
+    }
+  }
+
+  static hasSubscribers(recipientId: string): boolean {
+    return this.clients.has(recipientId);
+  }
+
+  /**
+   * Push an event to every connection registered for a recipient
+   */
+  static publish(recipientId: string, event: string, data: unknown, id?: string): void {
+    const connections = this.clients.get(recipientId);
+    if (!connections) return;
+
+    for (const res of connections) {
+      const buffered = this.buffers.get(res);
+      if (buffered) {
+        buffered.push({ event, data, id });
+        continue;
+      }
+
+      try {
+        this.send(res, event, data, id);
+      } catch (error) {
+        logger.error(`Error pushing ${event} event to user: ${recipientId}`, error);
+      }
+    }
+  }
+
+  static publishNotification(notification: Notification): void {
+    this.publish(
+      notification.recipientId,
+      'notification',
+      notification,
+      this.getEventId(notification)
+    );
+  }
+
+  static publishUnreadCount(recipientId: string, unreadCount: number): void {
+    this.publish(recipientId, 'unread-count', { unreadCount });
+  }
+}
@@ -0,0 +1,522 @@
+import {
+  NotificationChannel,
+  NotificationTemplate,
+  NotificationType,
+  PrismaClient,
+} from '@prisma/client';
+import { logger } from '../utils/logger.js';
+
+const prisma = new PrismaClient();
+
+export const DEFAULT_TEMPLATE_LOCALE = 'en';
+
+export type TemplateVariables = Record<string, unknown>;
+
+export interface RenderedNotification {
+  subject: string;
+  body: string;
+  html?: string;
+  templateId: string | null;
+  source: 'DATABASE' | 'DEFAULT';
+}
+
+export interface NotificationTemplateInput {
+  type: NotificationType;
+  channel: NotificationChannel;
+  locale?: string;
+  name: string;
+  description?: string;
+  subject: string;
+  body: string;
+  htmlBody?: string | null;
+  isActive?: boolean;
+}
+
+export interface NotificationTemplateFilters {
+  type?: NotificationType;
+  channel?: NotificationChannel;
+  locale?: string;
+  isActive?: boolean;
+}
+
+export interface NotificationTemplatePreviewInput {
+  templateId?: string;
+  type?: NotificationType;
+  channel?: NotificationChannel;
+  locale?: string;
+  subject?: string;
+  body?: string;
+  htmlBody?: string;
+  data?: TemplateVariables;
+}
+
+interface TemplateContent {
+  subject: string;
+  body: string;
+  htmlBody?: string;
+}
+
+// Used by the preview endpoint when no sample data is supplied
+export const SAMPLE_TEMPLATE_VARIABLES: TemplateVariables = {
+  title: 'Sample Notification',
+  message: 'This is a sample notification message',
+  employeeName: 'Jane Doe',
+  managerName: 'John Smith',
+  workflowName: 'Engineering Onboarding',
+  taskName: 'Complete tax forms',
+  dueDate: '2025-01-31',
+  daysOverdue: 3,
+  leaveType: 'Annual Leave',
+  startDate: '2025-02-10',
+  endDate: '2025-02-12',
+  totalDays: 3,
+  status: 'PENDING',
+  daysUntilStart: 3,
+  workHandover: 'Sprint tickets reassigned to John; on-call swapped with Priya',
+  recipientName: 'John Smith',
+  frequencyLabel: 'daily',
+  periodLabel: '2025-02-09',
+  itemCount: 2,
+  digestHtml: '<h3>Pending Approvals (1)</h3><ul><li>Jane Doe: Annual Leave, 3 day(s)</li></ul>',
+  digestText: 'Pending Approvals (1)\n- Jane Doe: Annual Leave, 3 day(s)',
+};
+
+const EMAIL_LAYOUT_START =
+  '<div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">';
+const EMAIL_SIGNATURE = `
+  <p style="margin-top: 30px;">
+    Best regards,<br>
+    <strong>The HR Team</strong>
+  </p>
+</div>`;
+
+const MANAGER_UPDATE_EMAIL: TemplateContent = {
+  subject: 'Onboarding Update: {{employeeName}}',
+  htmlBody: `${EMAIL_LAYOUT_START}
+  <h2 style="color: #2563eb;">Onboarding Update 👥</h2>
+
+  <p>Hi {{managerName}},</p>
+
+  <p>This is an update regarding <strong>{{employeeName}}</strong>'s onboarding progress:</p>
+
+  <div style="background-color: #e0f2fe; padding: 20px; border-radius: 8px; margin: 20px 0; border-left: 4px solid #0288d1;">
+    <p style="color: #01579b; margin: 0;">{{message}}</p>
+  </div>
+
+  <p>You can view the complete onboarding progress in your manager dashboard.</p>
+${EMAIL_SIGNATURE}`,
+  body: 'Hi {{managerName}}, update for {{employeeName}}: {{message}}',
+};
+
+// SMS bodies are kept short; anything over SMS_MAX_SEGMENTS parts is truncated on render
+const LEAVE_SMS: TemplateContent = {
+  subject: '{{title}}',
+  body: '{{title}}: {{employeeName}}, {{leaveType}} {{startDate}} to {{endDate}} ({{totalDays}} day(s)). - HR Dashboard',
+};
+
+// Built-in templates used when no active database template exists, keyed by `${type}:${channel}`
+const DEFAULT_TEMPLATES: Record<string, TemplateContent> = {
+  'WORKFLOW_ASSIGNED:EMAIL': {
+    subject: 'Welcome to the team! Your onboarding journey begins',
+    htmlBody: `${EMAIL_LAYOUT_START}
+  <h2 style="color: #2563eb;">Welcome to the Team, {{employeeName}}! 🎉</h2>
+
+  <p>We're excited to have you join our organization! Your onboarding journey has officially begun.</p>
+
+  <div style="background-color: #f3f4f6; padding: 20px; border-radius: 8px; margin: 20px 0;">
+    <h3 style="color: #374151; margin-top: 0;">Your Onboarding Workflow</h3>
+    <p><strong>Workflow:</strong> {{workflowName}}</p>
+    <p>You'll receive notifications as new tasks become available. Please complete them in order to ensure a smooth onboarding experience.</p>
+  </div>
+
+  <h3 style="color: #374151;">What to Expect</h3>
+  <ul>
+    <li>📋 Complete required documentation</li>
+    <li>💻 Receive and set up your equipment</li>
+    <li>🎓 Complete mandatory training modules</li>
+    <li>👥 Meet your team and manager</li>
+  </ul>
+
+  <p>If you have any questions during your onboarding, don't hesitate to reach out to your manager or HR team.</p>
+${EMAIL_SIGNATURE}`,
+    body: 'Welcome to the team, {{employeeName}}! Your onboarding workflow "{{workflowName}}" has been assigned. Please complete the tasks as they become available.',
+  },
+  'TASK_ASSIGNED:EMAIL': {
+    subject: 'New Task Assigned: {{taskName}}',
+    htmlBody: `${EMAIL_LAYOUT_START}
+  <h2 style="color: #2563eb;">New Task Assigned 📋</h2>
+
+  <p>Hi {{employeeName}},</p>
+
+  <p>You have been assigned a new onboarding task:</p>
+
+  <div style="background-color: #fef3c7; padding: 20px; border-radius: 8px; margin: 20px 0; border-left: 4px solid #f59e0b;">
+    <h3 style="color: #92400e; margin-top: 0;">{{taskName}}</h3>
+    {{#dueDate}}<p style="color: #92400e;"><strong>Due Date:</strong> {{dueDate}}</p>{{/dueDate}}
+  </div>
+
+  <p>Please log into your onboarding dashboard to view the task details and complete it.</p>
+
+  <p>If you need any assistance, please contact your manager or HR team.</p>
+${EMAIL_SIGNATURE}`,
+    body: 'Hi {{employeeName}}, you have been assigned a new task: {{taskName}}{{#dueDate}} (Due: {{dueDate}}){{/dueDate}}. Please complete it in your onboarding dashboard.',
+  },
+  'TASK_OVERDUE:EMAIL': {
+    subject: '⚠️ Overdue Task: {{taskName}}',
+    htmlBody: `${EMAIL_LAYOUT_START}
+  <h2 style="color: #dc2626;">Task Overdue ⚠️</h2>
+
+  <p>Hi {{employeeName}},</p>
+
+  <p>Your onboarding task is now overdue:</p>
+
+  <div style="background-color: #fef2f2; padding: 20px; border-radius: 8px; margin: 20px 0; border-left: 4px solid #dc2626;">
+    <h3 style="color: #991b1b; margin-top: 0;">{{taskName}}</h3>
+    <p style="color: #991b1b;"><strong>Days Overdue:</strong> {{daysOverdue}}</p>
+  </div>
+
+  <p>Please complete this task as soon as possible to stay on track with your onboarding.</p>
+
+  <p>If you're experiencing any difficulties, please reach out to your manager or HR team immediately.</p>
+${EMAIL_SIGNATURE}`,
+    body: 'Hi {{employeeName}}, your task "{{taskName}}" is {{daysOverdue}} days overdue. Please complete it as soon as possible.',
+  },
+  'DIGEST:EMAIL': {
+    subject: 'Your {{frequencyLabel}} HR digest: {{itemCount}} item(s)',
+    htmlBody: `${EMAIL_LAYOUT_START}
+  <h2 style="color: #2563eb;">Your {{frequencyLabel}} Digest 📬</h2>
+
+  <p>Hi {{recipientName}},</p>
+
+  <p>Here is what needs your attention for {{periodLabel}}:</p>
+
+  {{{digestHtml}}}
+${EMAIL_SIGNATURE}`,
+    body: 'Hi {{recipientName}}, here is your {{frequencyLabel}} digest for {{periodLabel}}.\n\n{{digestText}}',
+  },
+  'LEAVE_REMINDER:EMAIL': {
+    subject: 'Upcoming Leave: {{employeeName}} from {{startDate}}',
+    htmlBody: `${EMAIL_LAYOUT_START}
+  <h2 style="color: #2563eb;">Upcoming Leave 🗓️</h2>
+
+  <p>{{message}}</p>
+
+  <div style="background-color: #f3f4f6; padding: 20px; border-radius: 8px; margin: 20px 0;">
+    <p><strong>Employee:</strong> {{employeeName}}</p>
+    <p><strong>Leave Type:</strong> {{leaveType}}</p>
+    <p><strong>Dates:</strong> {{startDate}} to {{endDate}} ({{totalDays}} day(s))</p>
+  </div>
+
+  {{#workHandover}}<h3 style="color: #374151;">Work Handover</h3>
+  <p style="white-space: pre-line;">{{workHandover}}</p>{{/workHandover}}
+${EMAIL_SIGNATURE}`,
+    body: '{{message}}{{#workHandover}}\n\nWork handover: {{workHandover}}{{/workHandover}}',
+  },
+  'LEAVE_BALANCE_EXPIRING:EMAIL': {
+    subject: '{{title}}',
+    htmlBody: `${EMAIL_LAYOUT_START}
+  <h2 style="color: #d97706;">Leave Expiring Soon ⏳</h2>
+
+  <p>Hi {{employeeName}},</p>
+
+  <div style="background-color: #fef3c7; padding: 20px; border-radius: 8px; margin: 20px 0; border-left: 4px solid #f59e0b;">
+    <p style="color: #92400e; margin: 0;">{{message}}</p>
+  </div>
+
+  <p>Apply for leave in the HR dashboard before these days expire.</p>
+${EMAIL_SIGNATURE}`,
+    body: 'Hi {{employeeName}}, {{message}}',
+  },
+  'LEAVE_ESCALATED:SMS': {
+    subject: '{{title}}',
+    body: "URGENT: {{employeeName}}'s {{leaveType}} request ({{startDate}} to {{endDate}}) is still awaiting approval and has been escalated to you. - HR Dashboard",
+  },
+  'LEAVE_APPLIED:SMS': LEAVE_SMS,
+  'LEAVE_PENDING_APPROVAL:SMS': LEAVE_SMS,
+  'LEAVE_APPROVED:SMS': LEAVE_SMS,
+  'LEAVE_REJECTED:SMS': LEAVE_SMS,
+  'LEAVE_CANCELLED:SMS': LEAVE_SMS,
+  'TASK_COMPLETED:EMAIL': MANAGER_UPDATE_EMAIL,
+  'MANAGER_ASSIGNED:EMAIL': MANAGER_UPDATE_EMAIL,
+  'APPROVAL_REQUIRED:EMAIL': MANAGER_UPDATE_EMAIL,
+};
+
+// Fallback for any type without a specific template: the caller's title and message
+const GENERIC_TEMPLATES: Record<NotificationChannel, TemplateContent> = {
+  IN_APP: { subject: '{{title}}', body: '{{message}}' },
+  EMAIL: { subject: '{{title}}', body: '{{message}}', htmlBody: '<p>{{message}}</p>' },
+  SMS: { subject: '{{title}}', body: '{{message}}' },
+};
+
+const SECTION_PATTERN = /\{\{#(\w+)\}\}([\s\S]*?)\{\{\/\1\}\}/g;
+// `{{{name}}}` inserts pre-rendered HTML as-is; `{{name}}` is escaped in HTML bodies
+const PLACEHOLDER_PATTERN = /\{\{\{\s*(\w+)\s*\}\}\}|\{\{\s*(\w+)\s*\}\}/g;
+
+export const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const hasValue = (value: unknown): boolean =>
+  value !== undefined && value !== null && value !== '' && value !== false;
+
+export class NotificationTemplateService {
+  /**
+   * Render a template string. `{{name}}` is replaced with the variable value (HTML-escaped
+   * when `escape` is set), `{{{name}}}` is never escaped, and `{{#name}}...{{/name}}` is
+   * kept only when the variable is set.
+   */
+  static renderString(template: string, variables: TemplateVariables, escape = false): string {
+    return template
+      .replace(SECTION_PATTERN, (_match, key: string, inner: string) =>
+        hasValue(variables[key]) ? inner : ''
+      )
+      .replace(PLACEHOLDER_PATTERN, (_match, rawKey: string | undefined, key: string) => {
+        const value = variables[rawKey ?? key];
+        if (value === undefined || value === null) return '';
+        const text = String(value);
+        return escape && !rawKey ? escapeHtml(text) : text;
+      });
+  }
+
+  /**
+   * List the variable names referenced by a template string
+   */
+  static extractVariables(template: string): string[] {
+    const names = new Set<string>();
+    for (const match of template.matchAll(SECTION_PATTERN)) names.add(match[1]);
+    for (const match of template.matchAll(PLACEHOLDER_PATTERN)) names.add(match[1] ?? match[2]);
+    return [...names];
+  }
+
+  /**
+   * Built-in content for a type and channel
+   */
+  static getDefaultTemplate(type: NotificationType, channel: NotificationChannel) {
+    return DEFAULT_TEMPLATES[`${type}:${channel}`] ?? GENERIC_TEMPLATES[channel];
+  }
+
+  /**
+   * The SMS service validates env when imported, so it is only loaded once SMS content is
+   * rendered; importing templates (and the app) must not require a configured environment
+   */
+  private static async loadSmsService() {
+    const { SmsService } = await import('./smsService.js');
+    return SmsService;
+  }
+
+  /**
+   * Find the active template for a type/channel, falling back to the default locale
+   */
+  static async findActiveTemplate(
+    type: NotificationType,
+    channel: NotificationChannel,
+    locale = DEFAULT_TEMPLATE_LOCALE
+  ): Promise<NotificationTemplate | null> {
+    const locales = [...new Set([locale, DEFAULT_TEMPLATE_LOCALE])];
+    const templates = await prisma.notificationTemplate.findMany({
+      where: { type, channel, locale: { in: locales }, isActive: true },
+    });
+
+    return (
+      templates.find((template) => template.locale === locale) ??
+      templates.find((template) => template.locale === DEFAULT_TEMPLATE_LOCALE) ??
+      null
+    );
+  }
+
+  /**
+   * Render the notification content for a channel from the database template,
+   * or the built-in default when none is configured
+   */
+  static async render(
+    type: NotificationType,
+    channel: NotificationChannel,
+    variables: TemplateVariables,
+    locale = DEFAULT_TEMPLATE_LOCALE
+  ): Promise<RenderedNotification> {
+    let template: NotificationTemplate | null = null;
+    try {
+      template = await this.findActiveTemplate(type, channel, locale);
+    } catch (error) {
+      logger.error(`Error loading notification template ${type}/${channel}/${locale}:`, error);
+    }
+
+    const content: TemplateContent = template
+      ? { subject: template.subject, body: template.body, htmlBody: template.htmlBody ?? undefined }
+      : this.getDefaultTemplate(type, channel);
+
+    // Emails always need an HTML part; wrap the plain-text body when the template has none
+    let html = content.htmlBody ? this.renderString(content.htmlBody, variables, true) : undefined;
+    if (!html && channel === 'EMAIL') {
+      html = `<p>${this.renderString(content.body, variables, true)}</p>`;
+    }
+
+    const body = this.renderString(content.body, variables);
+    const sms = channel === 'SMS' ? await this.loadSmsService() : null;
+
+    return {
+      subject: this.renderString(content.subject, variables),
+      body: sms ? sms.fitToSegments(body) : body,
+      html,
+      templateId: template?.id ?? null,
+      source: template ? 'DATABASE' : 'DEFAULT',
+    };
+  }
+
+  /**
+   * List notification templates
+   */
+  static async listTemplates(filters: NotificationTemplateFilters = {}) {
+    try {
+      return await prisma.notificationTemplate.findMany({
+        where: {
+          type: filters.type,
+          channel: filters.channel,
+          locale: filters.locale,
+          isActive: filters.isActive,
+        },
+        orderBy: [{ type: 'asc' }, { channel: 'asc' }, { locale: 'asc' }],
+      });
+    } catch (error) {
+      logger.error('Error listing notification templates:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a notification template by ID
+   */
+  static async getTemplateById(id: string) {
+    try {
+      const template = await prisma.notificationTemplate.findUnique({ where: { id } });
+
+      if (!template) {
+        throw new Error('Notification template not found');
+      }
+
+      return template;
+    } catch (error) {
+      logger.error('Error getting notification template:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Create a notification template
+   */
+  static async createTemplate(data: NotificationTemplateInput, userId?: string) {
+    try {
+      const template = await prisma.notificationTemplate.create({
+        data: {
+          ...data,
+          locale: data.locale ?? DEFAULT_TEMPLATE_LOCALE,
+          createdBy: userId,
+          updatedBy: userId,
+        },
+      });
+
+      logger.info(
+        `Notification template created: ${template.type}/${template.channel}/${template.locale}`
+      );
+      return template;
+    } catch (error) {
+      logger.error('Error creating notification template:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update a notification template
+   */
+  static async updateTemplate(
+    id: string,
+    data: Partial<NotificationTemplateInput>,
+    userId?: string
+  ) {
+    try {
+      await this.getTemplateById(id);
+
+      return await prisma.notificationTemplate.update({
+        where: { id },
+        data: { ...data, updatedBy: userId },
+      });
+    } catch (error) {
+      logger.error('Error updating notification template:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a notification template; the built-in default takes over again
+   */
+  static async deleteTemplate(id: string) {
+    try {
+      await this.getTemplateById(id);
+      await prisma.notificationTemplate.delete({ where: { id } });
+
+      return { message: 'Notification template deleted successfully' };
+    } catch (error) {
+      logger.error('Error deleting notification template:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Render a stored template, the built-in default or ad-hoc content against sample data
+   */
+  static async previewTemplate(input: NotificationTemplatePreviewInput) {
+    try {
+      let content: TemplateContent;
+      let channel = input.channel;
+
+      if (input.templateId) {
+        const template = await this.getTemplateById(input.templateId);
+        channel = template.channel;
+        content = {
+          subject: template.subject,
+          body: template.body,
+          htmlBody: template.htmlBody ?? undefined,
+        };
+      } else if (input.type && input.channel) {
+        const stored = await this.findActiveTemplate(input.type, input.channel, input.locale);
+        content = stored
+          ? { subject: stored.subject, body: stored.body, htmlBody: stored.htmlBody ?? undefined }
+          : this.getDefaultTemplate(input.type, input.channel);
+      } else {
+        content = { subject: '', body: '' };
+      }
+
+      // Ad-hoc content overrides the stored template so drafts can be previewed before saving
+      content = {
+        subject: input.subject ?? content.subject,
+        body: input.body ?? content.body,
+        htmlBody: input.htmlBody ?? content.htmlBody,
+      };
+
+      const variables = { ...SAMPLE_TEMPLATE_VARIABLES, ...input.data };
+      const referenced = this.extractVariables(
+        [content.subject, content.body, content.htmlBody ?? ''].join('\n')
+      );
+      const body = this.renderString(content.body, variables);
+      const sms = channel === 'SMS' ? await this.loadSmsService() : null;
+
+      return {
+        channel: channel ?? null,
+        subject: this.renderString(content.subject, variables),
+        body: sms ? sms.fitToSegments(body) : body,
+        html: content.htmlBody ? this.renderString(content.htmlBody, variables, true) : null,
+        // Length before truncation, so authors can see how far over the limit a draft is
+        sms: sms ? sms.getSegmentInfo(body) : null,
+        variables: referenced,
+        missingVariables: referenced.filter((name) => !(name in variables)),
+      };
+    } catch (error) {
+      logger.error('Error previewing notification template:', error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,167 @@
+import { logger } from '../utils/logger.js';
+import { env } from '../config/env.js';
+import { SmsTransport, createSmsTransport } from './smsTransport.js';
+
+export interface SmsData {
+  to: string;
+  body: string;
+}
+
+export interface SmsDeliveryResult {
+  success: boolean;
+  attempts: number;
+  transport: string;
+  messageId?: string;
+  error?: string;
+}
+
+export interface SmsSegmentInfo {
+  encoding: 'GSM-7' | 'UCS-2';
+  length: number;
+  segments: number;
+}
+
+// GSM 03.38 basic character set; anything outside it forces UCS-2 encoding
+const GSM_BASIC_CHARS =
+  '@£$¥èéùìòÇ\nØø\rÅåΔ_ΦΓΛΩΠΨΣΘΞÆæßÉ !"#¤%&\'()*+,-./0123456789:;<=>?¡ABCDEFGHIJKLMNOPQRSTUVWXYZÄÖÑÜ§¿abcdefghijklmnopqrstuvwxyzäöñüà';
+// Extension characters take two septets (escape + character)
+const GSM_EXTENDED_CHARS = '^{}\\[~]|€\f';
+
+// Single-part limit, and the per-part limit once a message is split (the rest is the UDH)
+const SEGMENT_LIMITS = {
+  'GSM-7': { single: 160, multi: 153 },
+  'UCS-2': { single: 70, multi: 67 },
+};
+
+const TRUNCATION_SUFFIX = '...';
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const isGsmCharacter = (char: string): boolean =>
+  GSM_BASIC_CHARS.includes(char) || GSM_EXTENDED_CHARS.includes(char);
+
+// Encoded length of one character: septets for GSM-7, UTF-16 code units for UCS-2
+const characterLength = (char: string, encoding: SmsSegmentInfo['encoding']): number => {
+  if (encoding === 'UCS-2') return char.length;
+  return GSM_EXTENDED_CHARS.includes(char) ? 2 : 1;
+};
+
+export class SmsService {
+  private static transport: SmsTransport | null = null;
+
+  private static getTransport(): SmsTransport {
+    if (!this.transport) {
+      this.transport = createSmsTransport(env);
+    }
+    return this.transport;
+  }
+
+  /**
+   * Encoding, encoded length and number of parts a message will be sent as
+   */
+  static getSegmentInfo(text: string): SmsSegmentInfo {
+    const chars = Array.from(text);
+    const encoding = chars.every(isGsmCharacter) ? 'GSM-7' : 'UCS-2';
+    const length = chars.reduce((total, char) => total + characterLength(char, encoding), 0);
+    const limits = SEGMENT_LIMITS[encoding];
+    const segments = length <= limits.single ? 1 : Math.ceil(length / limits.multi);
+
+    return { encoding, length, segments };
+  }
+
+  /**
+   * Truncate a message so it fits in at most `maxSegments` parts
+   */
+  static fitToSegments(text: string, maxSegments = env.SMS_MAX_SEGMENTS): string {
+    const info = this.getSegmentInfo(text);
+    if (info.segments <= maxSegments) return text;
+
+    const limits = SEGMENT_LIMITS[info.encoding];
+    const capacity =
+      (maxSegments <= 1 ? limits.single : limits.multi * maxSegments) - TRUNCATION_SUFFIX.length;
+
+    let length = 0;
+    let fitted = '';
+    for (const char of Array.from(text)) {
+      length += characterLength(char, info.encoding);
+      if (length > capacity) break;
+      fitted += char;
+    }
+    return `${fitted.trimEnd()}${TRUNCATION_SUFFIX}`;
+  }
+
+  /**
+   * Normalise a stored contact number to E.164. Numbers without a country code get
+   * SMS_DEFAULT_COUNTRY_CODE; returns null when the number can't be used.
+   */
+  static normalizePhoneNumber(phone: string | null | undefined): string | null {
+    if (!phone) return null;
+
+    const trimmed = phone.trim();
+    let digits = trimmed.replace(/\D/g, '');
+    if (!digits) return null;
+
+    if (trimmed.startsWith('+')) {
+      // Already international
+    } else if (trimmed.startsWith('00')) {
+      digits = digits.slice(2);
+    } else if (env.SMS_DEFAULT_COUNTRY_CODE) {
+      digits = `${env.SMS_DEFAULT_COUNTRY_CODE.slice(1)}${digits.replace(/^0+/, '')}`;
+    } else {
+      return null;
+    }
+
+    return /^[1-9]\d{7,14}$/.test(digits) ? `+${digits}` : null;
+  }
+
+  /**
+   * Send an SMS through the configured transport. Failed attempts are retried with
+   * exponential backoff up to SMS_MAX_ATTEMPTS.
+   */
+  static async sendSms(smsData: SmsData): Promise<SmsDeliveryResult> {
+    const transport = this.getTransport();
+    const maxAttempts = Math.max(env.SMS_MAX_ATTEMPTS, 1);
+
+    const to = this.normalizePhoneNumber(smsData.to);
+    if (!to) {
+      logger.error(`📱 ❌ Invalid phone number for SMS: ${smsData.to}`);
+      return {
+        success: false,
+        attempts: 0,
+        transport: transport.name,
+        error: `Invalid phone number: ${smsData.to}`,
+      };
+    }
+
+    const body = this.fitToSegments(smsData.body);
+    let lastError = '';
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      try {
+        const result = await transport.send({ from: env.SMS_FROM, to, body });
+
+        logger.info(
+          `📱 ✅ SMS sent to ${to} via ${transport.name} (attempt ${attempt}, id ${result.messageId})`
+        );
+        return {
+          success: true,
+          attempts: attempt,
+          transport: transport.name,
+          messageId: result.messageId,
+        };
+      } catch (error) {
+        lastError = error instanceof Error ? error.message : String(error);
+        logger.warn(
+          `📱 Attempt ${attempt}/${maxAttempts} to send SMS to ${to} failed: ${lastError}`
+        );
+
+        if (attempt < maxAttempts) {
+          await sleep(env.SMS_RETRY_BASE_DELAY_MS * 2 ** (attempt - 1));
+        }
+      }
+    }
+
+    logger.error(`📱 ❌ Failed to send SMS to ${to} after ${maxAttempts} attempts`);
+    return { success: false, attempts: maxAttempts, transport: transport.name, error: lastError };
+  }
+}
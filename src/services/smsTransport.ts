@@ -0,0 +1,72 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { Env } from '../config/env.js';
+import { logger } from '../utils/logger.js';
+
+export interface SmsMessage {
+  from: string;
+  to: string;
+  body: string;
+}
+
+export interface SmsTransportResult {
+  messageId: string;
+  accepted: boolean;
+}
+
+/**
+ * A delivery mechanism for outgoing SMS. Implementations throw on failure so the
+ * caller can decide whether to retry.
+ */
+export interface SmsTransport {
+  readonly name: string;
+  send(message: SmsMessage): Promise<SmsTransportResult>;
+}
+
+/**
+ * Appends each message as a JSON line to a per-day file instead of sending it.
+ * Intended for local development and testing.
+ */
+export class FileSmsTransport implements SmsTransport {
+  readonly name = 'file';
+
+  constructor(private readonly directory: string) {}
+
+  async send(message: SmsMessage): Promise<SmsTransportResult> {
+    const messageId = randomUUID();
+    const sentAt = new Date().toISOString();
+
+    await fs.mkdir(this.directory, { recursive: true });
+    const fileName = `${sentAt.split('T')[0]}.jsonl`;
+    await fs.appendFile(
+      path.join(this.directory, fileName),
+      `${JSON.stringify({ messageId, sentAt, ...message })}\n`
+    );
+
+    return { messageId, accepted: true };
+  }
+}
+
+/**
+ * Writes each message to the application log instead of sending it
+ */
+export class ConsoleSmsTransport implements SmsTransport {
+  readonly name = 'console';
+
+  async send(message: SmsMessage): Promise<SmsTransportResult> {
+    const messageId = randomUUID();
+    logger.info(`📱 SMS ${messageId} from ${message.from} to ${message.to}: ${message.body}`);
+    return { messageId, accepted: true };
+  }
+}
+
+export const createSmsTransport = (config: Env): SmsTransport => {
+  switch (config.SMS_TRANSPORT) {
+    case 'console':
+      return new ConsoleSmsTransport();
+    case 'file':
+    default:
+      return new FileSmsTransport(config.SMS_FILE_DIR);
+  }
+};
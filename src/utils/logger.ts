@@ -45,4 +45,8 @@ if (process.env.NODE_ENV !== 'production') {
   );
 }
 
-export { logger };
+// EventSource clients authenticate with ?access_token=; keep query-string tokens out of the logs
+const redactUrl = (url: string): string =>
+  url.replace(/([?&]access_token=)[^&#]*/gi, '$1[REDACTED]');
+
+export { logger, redactUrl };
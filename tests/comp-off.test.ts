@@ -0,0 +1,214 @@
+import { PrismaClient } from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime/library';
+import { leaveService } from '../src/modules/leaves/service.js';
+import { PrismaMock } from './helpers/prisma-mock.js';
+
+jest.mock('@prisma/client', () => {
+  const client = jest.requireActual('./helpers/prisma-mock').createPrismaMock();
+  return { ...jest.requireActual('@prisma/client'), PrismaClient: jest.fn(() => client) };
+});
+
+describe('Comp-Off Tests', () => {
+  const prisma = new PrismaClient() as unknown as PrismaMock;
+  const lastLeaveDate = new Date(Date.UTC(2026, 4, 20));
+
+  const credit = (id: string, remainingDays: number, overrides: Record<string, unknown> = {}) => ({
+    id,
+    employeeId: 'employee-1',
+    leaveBalanceId: 'balance-co',
+    earnedOn: new Date(Date.UTC(2026, 3, 4)),
+    days: new Decimal(1),
+    remainingDays: new Decimal(remainingDays),
+    expiresAt: new Date(Date.UTC(2026, 5, 3)),
+    ...overrides,
+  });
+
+  // The consumption helpers run inside request creation; call them directly
+  const consume = (requestedDays: number) =>
+    leaveService['consumeCompOffCredits'](
+      prisma as never,
+      'request-1',
+      'employee-1',
+      lastLeaveDate,
+      requestedDays
+    );
+  const validate = (requestedDays: number) =>
+    leaveService['validateCompOffCredits']('employee-1', lastLeaveDate, requestedDays);
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    prisma.compOffCredit.updateMany.mockResolvedValue({ count: 1 });
+  });
+
+  describe('consumeCompOffCredits', () => {
+    test('should spend the oldest credits first', async () => {
+      prisma.compOffCredit.findMany.mockResolvedValue([
+        credit('credit-old', 1),
+        credit('credit-new', 1),
+      ]);
+
+      await consume(1.5);
+
+      expect(prisma.compOffCredit.findMany).toHaveBeenCalledWith({
+        where: {
+          employeeId: 'employee-1',
+          remainingDays: { gt: 0 },
+          OR: [{ expiresAt: null }, { expiresAt: { gte: lastLeaveDate } }],
+        },
+        orderBy: [{ earnedOn: 'asc' }, { createdAt: 'asc' }],
+      });
+      expect(prisma.compOffCredit.updateMany.mock.calls.map(([args]) => args)).toEqual([
+        {
+          where: { id: 'credit-old', remainingDays: { gte: new Decimal(1) } },
+          data: { remainingDays: { decrement: new Decimal(1) } },
+        },
+        {
+          where: { id: 'credit-new', remainingDays: { gte: new Decimal(0.5) } },
+          data: { remainingDays: { decrement: new Decimal(0.5) } },
+        },
+      ]);
+      expect(prisma.compOffCreditUsage.create).toHaveBeenCalledWith({
+        data: { creditId: 'credit-new', leaveRequestId: 'request-1', days: new Decimal(0.5) },
+      });
+    });
+
+    test('should move on to the next credit when one was spent concurrently', async () => {
+      prisma.compOffCredit.findMany.mockResolvedValue([
+        credit('credit-raced', 1),
+        credit('credit-spare', 1),
+      ]);
+      prisma.compOffCredit.updateMany.mockResolvedValueOnce({ count: 0 });
+
+      await consume(1);
+
+      expect(prisma.compOffCreditUsage.create).toHaveBeenCalledTimes(1);
+      expect(prisma.compOffCreditUsage.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ creditId: 'credit-spare' }),
+      });
+    });
+
+    test('should fail when concurrent requests left too few days', async () => {
+      prisma.compOffCredit.findMany.mockResolvedValue([credit('credit-1', 1)]);
+      prisma.compOffCredit.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(consume(1)).rejects.toMatchObject({ statusCode: 409 });
+    });
+  });
+
+  describe('validateCompOffCredits', () => {
+    test('should accept requests covered by credits valid through the last day', async () => {
+      prisma.compOffCredit.findMany.mockResolvedValue([credit('credit-1', 1), credit('credit-2', 0.5)]);
+
+      await expect(validate(1.5)).resolves.toBeUndefined();
+    });
+
+    test('should reject requests the valid credits do not cover', async () => {
+      prisma.compOffCredit.findMany.mockResolvedValue([credit('credit-1', 1)]);
+
+      await expect(validate(2)).rejects.toMatchObject({
+        statusCode: 400,
+        message: expect.stringContaining('Available: 1 days, Requested: 2 days'),
+      });
+    });
+  });
+
+  describe('expireCompOffCredits', () => {
+    test('should expire the unused days and debit the comp-off balance', async () => {
+      prisma.compOffCredit.findMany.mockResolvedValue([credit('credit-1', 0.5)]);
+      prisma.leaveBalance.update.mockResolvedValue({
+        id: 'balance-co',
+        employeeId: 'employee-1',
+        availableBalance: new Decimal(1),
+      });
+
+      const result = await leaveService.expireCompOffCredits({ asOf: '2026-06-03' });
+
+      expect(result).toMatchObject({ creditsExpired: 1, totalExpiredDays: 0.5 });
+      expect(prisma.compOffCredit.findMany).toHaveBeenCalledWith({
+        where: { expiresAt: { lte: new Date('2026-06-03') }, remainingDays: { gt: 0 } },
+      });
+      expect(prisma.compOffCredit.update).toHaveBeenCalledWith({
+        where: { id: 'credit-1' },
+        data: expect.objectContaining({
+          remainingDays: 0,
+          expiredDays: { increment: new Decimal(0.5) },
+        }),
+      });
+      expect(prisma.leaveBalance.update).toHaveBeenCalledWith({
+        where: { id: 'balance-co' },
+        data: expect.objectContaining({
+          availableBalance: { decrement: new Decimal(0.5) },
+          expiredLeaves: { increment: new Decimal(0.5) },
+        }),
+      });
+      expect(prisma.leaveBalanceTransaction.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          type: 'EXPIRY',
+          days: new Decimal(-0.5),
+          referenceType: 'COMP_OFF_CREDIT',
+          referenceId: 'credit-1',
+        }),
+      });
+    });
+  });
+
+  describe('approveCompOffClaim', () => {
+    const claim = {
+      id: 'claim-1',
+      employeeId: 'employee-1',
+      workDate: new Date(Date.UTC(2026, 3, 4)),
+      dayType: 'WEEKEND',
+      days: new Decimal(1),
+      status: 'PENDING',
+      employee: { reportingManager: 'manager-1' },
+    };
+
+    beforeEach(() => {
+      jest.useFakeTimers({ now: new Date(Date.UTC(2026, 3, 10)), doNotFake: ['nextTick', 'setImmediate'] });
+      prisma.compOffClaim.findUnique.mockResolvedValue(claim);
+      prisma.employee.findUnique.mockResolvedValue({ id: 'manager-1' });
+      prisma.leavePolicy.findFirst.mockResolvedValue({ id: 'policy-co', expiryDays: 60 });
+      prisma.leaveBalance.upsert.mockResolvedValue({
+        id: 'balance-co',
+        employeeId: 'employee-1',
+        availableBalance: new Decimal(1),
+      });
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    test('should credit the balance with a credit that expires after the policy window', async () => {
+      await leaveService.approveCompOffClaim('claim-1', { action: 'APPROVE' }, 'user-1', 'MANAGER');
+
+      expect(prisma.compOffCredit.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          leaveBalanceId: 'balance-co',
+          remainingDays: new Decimal(1),
+          expiresAt: new Date(Date.UTC(2026, 5, 3)),
+        }),
+      });
+      expect(prisma.leaveBalanceTransaction.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ type: 'ACCRUAL', referenceType: 'COMP_OFF_CLAIM' }),
+      });
+    });
+
+    test('should refuse claims already past their expiry window', async () => {
+      jest.setSystemTime(new Date(Date.UTC(2026, 5, 4)));
+
+      await expect(
+        leaveService.approveCompOffClaim('claim-1', { action: 'APPROVE' }, 'user-1', 'MANAGER')
+      ).rejects.toMatchObject({ statusCode: 400 });
+      expect(prisma.compOffCredit.create).not.toHaveBeenCalled();
+    });
+
+    test('should only let the reporting manager approve', async () => {
+      prisma.employee.findUnique.mockResolvedValue({ id: 'manager-2' });
+
+      await expect(
+        leaveService.approveCompOffClaim('claim-1', { action: 'APPROVE' }, 'user-2', 'MANAGER')
+      ).rejects.toMatchObject({ statusCode: 403 });
+    });
+  });
+});
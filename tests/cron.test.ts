@@ -0,0 +1,83 @@
+import { getNextCronTime, parseCronExpression } from '../src/utils/cron.js';
+
+describe('Cron Expression Tests', () => {
+  describe('parseCronExpression', () => {
+    test('should expand wildcards, lists, ranges and steps', () => {
+      const schedule = parseCronExpression('*/15 9-11 1,15 * 1-5');
+
+      expect([...schedule.minutes]).toEqual([0, 15, 30, 45]);
+      expect([...schedule.hours]).toEqual([9, 10, 11]);
+      expect([...schedule.daysOfMonth]).toEqual([1, 15]);
+      expect(schedule.months.size).toBe(12);
+      expect([...schedule.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+      expect(schedule.anyDayOfMonth).toBe(false);
+      expect(schedule.anyDayOfWeek).toBe(false);
+    });
+
+    test('should treat a stepped start value as running to the end of the range', () => {
+      const schedule = parseCronExpression('5/20 * * * *');
+
+      expect([...schedule.minutes]).toEqual([5, 25, 45]);
+    });
+
+    test('should treat day-of-week 7 as Sunday', () => {
+      const schedule = parseCronExpression('0 0 * * 7');
+
+      expect(schedule.daysOfWeek.has(0)).toBe(true);
+    });
+
+    test('should resolve aliases', () => {
+      const schedule = parseCronExpression('@daily');
+
+      expect([...schedule.minutes]).toEqual([0]);
+      expect([...schedule.hours]).toEqual([0]);
+      expect(schedule.anyDayOfMonth).toBe(true);
+      expect(schedule.anyDayOfWeek).toBe(true);
+    });
+
+    test('should reject malformed expressions', () => {
+      expect(() => parseCronExpression('0 0 * *')).toThrow('must have 5 fields');
+      expect(() => parseCronExpression('60 * * * *')).toThrow('out of range');
+      expect(() => parseCronExpression('*/0 * * * *')).toThrow('Invalid cron step');
+      expect(() => parseCronExpression('0 5-2 * * *')).toThrow('Invalid cron range');
+      expect(() => parseCronExpression('a * * * *')).toThrow('out of range');
+    });
+  });
+
+  describe('getNextCronTime', () => {
+    test('should return the next matching minute strictly after the start time', () => {
+      const from = new Date(2026, 0, 5, 10, 15, 30);
+
+      expect(getNextCronTime('*/15 * * * *', from)).toEqual(new Date(2026, 0, 5, 10, 30));
+      expect(getNextCronTime('15 10 * * *', from)).toEqual(new Date(2026, 0, 6, 10, 15));
+    });
+
+    test('should roll over to the next month and year', () => {
+      const from = new Date(2026, 11, 31, 23, 59);
+
+      expect(getNextCronTime('@monthly', from)).toEqual(new Date(2027, 0, 1, 0, 0));
+      expect(getNextCronTime('0 0 1 3 *', from)).toEqual(new Date(2027, 2, 1, 0, 0));
+    });
+
+    test('should run on either restricted day-of-month or day-of-week', () => {
+      // Monday 5 January 2026; the 10th is a Saturday
+      const from = new Date(2026, 0, 5, 12, 0);
+
+      expect(getNextCronTime('0 9 10 * 5', from)).toEqual(new Date(2026, 0, 9, 9, 0));
+      expect(getNextCronTime('0 9 10 * *', from)).toEqual(new Date(2026, 0, 10, 9, 0));
+    });
+
+    test('should accept a parsed schedule', () => {
+      const schedule = parseCronExpression('@weekly');
+      const from = new Date(2026, 0, 5, 12, 0);
+
+      expect(getNextCronTime(schedule, from)).toEqual(new Date(2026, 0, 11, 0, 0));
+    });
+
+    test('should throw for dates that never occur', () => {
+      expect(() => getNextCronTime('0 0 31 2 *', new Date(2026, 0, 1))).toThrow(
+        'Cron expression never matches'
+      );
+    });
+  });
+});
@@ -0,0 +1,30 @@
+// In-memory stand-in for PrismaClient used by service unit tests. Every model method
+// (prisma.leaveBalance.update, ...) is a jest mock created on first access, and
+// interactive transactions run their callback against the same client.
+export type PrismaMock = Record<string, Record<string, jest.Mock>>;
+
+export const createPrismaMock = (): PrismaMock => {
+  const models = new Map<string, Record<string, jest.Mock>>();
+
+  const createModel = () =>
+    new Proxy({} as Record<string, jest.Mock>, {
+      get(methods, method: string) {
+        if (!(method in methods)) methods[method] = jest.fn();
+        return methods[method];
+      },
+    });
+
+  const client: PrismaMock = new Proxy({} as PrismaMock, {
+    get(_target, key) {
+      if (key === '$transaction') {
+        return (arg: unknown) =>
+          typeof arg === 'function' ? arg(client) : Promise.all(arg as Promise<unknown>[]);
+      }
+      if (typeof key !== 'string' || key === 'then') return undefined;
+      if (!models.has(key)) models.set(key, createModel());
+      return models.get(key);
+    },
+  });
+
+  return client;
+};
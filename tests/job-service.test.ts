@@ -0,0 +1,151 @@
+import { PrismaClient } from '@prisma/client';
+import { JobService } from '../src/modules/jobs/service.js';
+
+// Job runs and locks are kept in jest mocks; no database is needed. Every PrismaClient
+// is the same mock so the test can reach the service's client.
+jest.mock('@prisma/client', () => {
+  const client = {
+    jobRun: {
+      create: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+      findMany: jest.fn(),
+    },
+    jobLock: {
+      create: jest.fn(),
+      updateMany: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+  };
+  return { ...jest.requireActual('@prisma/client'), PrismaClient: jest.fn(() => client) };
+});
+jest.mock('../src/modules/jobs/definitions', () => ({ scheduledJobs: [] }));
+
+describe('Job Service Tests', () => {
+  const mockPrisma = new PrismaClient() as unknown as {
+    jobRun: Record<'create' | 'update' | 'updateMany' | 'findMany', jest.Mock>;
+    jobLock: Record<'create' | 'updateMany' | 'deleteMany', jest.Mock>;
+  };
+  const lockTtlMs = 60 * 1000;
+  const now = new Date('2026-04-01T01:00:00.000Z');
+  const slot = new Date('2026-04-01T00:50:00.000Z');
+
+  const runningRun = (overrides: Record<string, unknown> = {}) => ({
+    id: 'run-1',
+    jobName: 'fiscal-year-rollover',
+    status: 'RUNNING',
+    trigger: 'SCHEDULE',
+    scheduledFor: slot,
+    instanceId: 'crashed-host:1:abcd',
+    startedAt: new Date(now.getTime() - 10 * 60 * 1000),
+    heartbeatAt: null,
+    ...overrides,
+  });
+
+  let handler: jest.Mock;
+  let service: JobService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    handler = jest.fn().mockResolvedValue({ done: true });
+    service = new JobService([
+      { name: 'fiscal-year-rollover', description: 'Rollover', schedule: '50 0 * * *', lockTtlMs, handler },
+    ]);
+
+    mockPrisma.jobRun.create.mockImplementation(({ data }) =>
+      Promise.resolve({ id: 'run-2', startedAt: new Date(), ...data })
+    );
+    mockPrisma.jobRun.update.mockImplementation(({ data }) => Promise.resolve({ id: 'run-2', ...data }));
+    mockPrisma.jobLock.create.mockResolvedValue({});
+    mockPrisma.jobLock.updateMany.mockResolvedValue({ count: 1 });
+    mockPrisma.jobLock.deleteMany.mockResolvedValue({ count: 1 });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('sweepStaleRuns', () => {
+    test('should fail a run without a recent heartbeat and re-run its slot', async () => {
+      mockPrisma.jobRun.findMany.mockResolvedValue([runningRun()]);
+      mockPrisma.jobRun.updateMany.mockResolvedValue({ count: 1 });
+
+      await service.sweepStaleRuns(now);
+
+      expect(mockPrisma.jobRun.updateMany).toHaveBeenCalledWith({
+        where: { id: 'run-1', status: 'RUNNING', heartbeatAt: null },
+        data: expect.objectContaining({ status: 'FAILED', scheduledFor: null }),
+      });
+      await new Promise((resolve) => setImmediate(resolve));
+      expect(mockPrisma.jobRun.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          jobName: 'fiscal-year-rollover',
+          trigger: 'SCHEDULE',
+          scheduledFor: slot,
+        }),
+      });
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+
+    test('should leave runs with a recent heartbeat alone', async () => {
+      mockPrisma.jobRun.findMany.mockResolvedValue([
+        runningRun({ heartbeatAt: new Date(now.getTime() - lockTtlMs / 3) }),
+      ]);
+
+      await service.sweepStaleRuns(now);
+
+      expect(mockPrisma.jobRun.updateMany).not.toHaveBeenCalled();
+      expect(mockPrisma.jobRun.create).not.toHaveBeenCalled();
+    });
+
+    test('should not re-run a slot another instance already recovered', async () => {
+      mockPrisma.jobRun.findMany.mockResolvedValue([runningRun()]);
+      mockPrisma.jobRun.updateMany.mockResolvedValue({ count: 0 });
+
+      await service.sweepStaleRuns(now);
+
+      expect(mockPrisma.jobRun.create).not.toHaveBeenCalled();
+    });
+
+    test('should fail stale on-demand runs without re-running them', async () => {
+      mockPrisma.jobRun.findMany.mockResolvedValue([
+        runningRun({ trigger: 'MANUAL', scheduledFor: null }),
+      ]);
+      mockPrisma.jobRun.updateMany.mockResolvedValue({ count: 1 });
+
+      await service.sweepStaleRuns(now);
+
+      expect(mockPrisma.jobRun.updateMany).toHaveBeenCalledTimes(1);
+      expect(mockPrisma.jobRun.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('runJob', () => {
+    test('should renew the lock and heartbeat while the handler runs', async () => {
+      jest.useFakeTimers();
+      let finish: (value: unknown) => void = () => undefined;
+      handler.mockReturnValue(new Promise((resolve) => (finish = resolve)));
+
+      const run = service.runJob('fiscal-year-rollover');
+      await jest.advanceTimersByTimeAsync(lockTtlMs / 3);
+
+      expect(mockPrisma.jobLock.updateMany).toHaveBeenCalledWith({
+        where: { jobName: 'fiscal-year-rollover', lockedBy: service.instanceId },
+        data: { expiresAt: expect.any(Date) },
+      });
+      expect(mockPrisma.jobRun.update).toHaveBeenCalledWith({
+        where: { id: 'run-2' },
+        data: { heartbeatAt: expect.any(Date) },
+      });
+
+      finish({ done: true });
+      await run;
+      mockPrisma.jobLock.updateMany.mockClear();
+      await jest.advanceTimersByTimeAsync(lockTtlMs);
+
+      // The heartbeat stops with the run
+      expect(mockPrisma.jobLock.updateMany).not.toHaveBeenCalled();
+      expect(mockPrisma.jobLock.deleteMany).toHaveBeenCalled();
+    });
+  });
+});
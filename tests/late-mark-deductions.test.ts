@@ -0,0 +1,199 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime/library';
+import { attendanceService } from '../src/modules/attendance/service.js';
+import { PrismaMock } from './helpers/prisma-mock.js';
+
+jest.mock('@prisma/client', () => {
+  const client = jest.requireActual('./helpers/prisma-mock').createPrismaMock();
+  return { ...jest.requireActual('@prisma/client'), PrismaClient: jest.fn(() => client) };
+});
+
+describe('Late Mark Deduction Tests', () => {
+  const prisma = new PrismaClient() as unknown as PrismaMock;
+
+  const lateMarkRules = {
+    enabled: true,
+    allowedLatePerPeriod: 2,
+    deduction: { lateCount: 3, deductDays: 1, leaveType: 'CASUAL' },
+  };
+
+  // One late check-in per day from March 1st, 2026
+  const lateRecords = (count: number, employeeId = 'employee-1') =>
+    Array.from({ length: count }, (_, i) => ({
+      id: `${employeeId}-record-${i + 1}`,
+      employeeId,
+      date: new Date(Date.UTC(2026, 2, i + 1)),
+      isLate: true,
+    }));
+
+  const apply = (dryRun = false) =>
+    attendanceService.applyLateMarkDeductions({ year: 2026, month: 3, dryRun }, 'admin-1');
+
+  const balanceOf = (days: number) => ({
+    id: 'balance-cl',
+    employeeId: 'employee-1',
+    availableBalance: new Decimal(days),
+  });
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    prisma.leaveSettings.findFirst.mockResolvedValue({ fiscalYearStart: '01-04', lateMarkRules });
+    prisma.lateMarkDeduction.count.mockResolvedValue(0);
+    prisma.lateMarkDeduction.create.mockImplementation(({ data }) =>
+      Promise.resolve({ id: `deduction-${data.blockNumber}`, ...data })
+    );
+    prisma.leaveBalance.findFirst.mockResolvedValue(balanceOf(10));
+    prisma.leaveBalance.findUniqueOrThrow.mockResolvedValue(balanceOf(10));
+    prisma.leaveBalance.update.mockResolvedValue(balanceOf(9));
+  });
+
+  describe('applyLateMarkDeductions', () => {
+    test('should deduct one block for every lateCount marks beyond the allowance', async () => {
+      // 2 allowed + 7 chargeable = 2 full blocks, the 9th mark starts a third
+      prisma.attendanceRecord.findMany.mockResolvedValue(lateRecords(9));
+
+      const result = await apply();
+
+      expect(result.deductions).toHaveLength(2);
+      expect(result.deductions[0]).toMatchObject({
+        blockNumber: 1,
+        days: 1,
+        status: 'APPLIED',
+        lateMarkDates: ['2026-03-03', '2026-03-04', '2026-03-05'],
+      });
+      expect(result.deductions[1]).toMatchObject({
+        blockNumber: 2,
+        lateMarkDates: ['2026-03-06', '2026-03-07', '2026-03-08'],
+      });
+      // March 2026 falls in the fiscal year that started in April 2025
+      expect(prisma.leaveBalance.findFirst).toHaveBeenCalledWith({
+        where: { employeeId: 'employee-1', fiscalYear: 2025, policy: { leaveType: 'CASUAL' } },
+      });
+      expect(prisma.leaveBalance.update).toHaveBeenCalledWith({
+        where: { id: 'balance-cl' },
+        data: expect.objectContaining({
+          usedLeaves: { increment: new Decimal(1) },
+          availableBalance: { decrement: new Decimal(1) },
+        }),
+      });
+      expect(prisma.leaveBalanceTransaction.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          type: 'DEBIT',
+          days: new Decimal(-1),
+          referenceType: 'LATE_MARK_DEDUCTION',
+          referenceId: 'deduction-1',
+        }),
+      });
+    });
+
+    test('should not deduct anything within the allowance or a partial block', async () => {
+      prisma.attendanceRecord.findMany.mockResolvedValue(lateRecords(4));
+
+      const result = await apply();
+
+      expect(result.deductions).toEqual([]);
+      expect(prisma.lateMarkDeduction.create).not.toHaveBeenCalled();
+      expect(prisma.leaveBalance.update).not.toHaveBeenCalled();
+    });
+
+    test('should cap the deduction at the available balance', async () => {
+      prisma.attendanceRecord.findMany.mockResolvedValue(lateRecords(8));
+      prisma.leaveBalance.findUniqueOrThrow
+        .mockResolvedValueOnce(balanceOf(0.5))
+        .mockResolvedValueOnce(balanceOf(0));
+
+      const result = await apply();
+
+      expect(result.deductions.map((d) => [d.days, d.status])).toEqual([
+        [0.5, 'PARTIAL'],
+        [0, 'NO_BALANCE'],
+      ]);
+      // The empty block is still recorded so it is not charged again later
+      expect(prisma.lateMarkDeduction.create).toHaveBeenCalledTimes(2);
+      expect(prisma.leaveBalance.update).toHaveBeenCalledTimes(1);
+      expect(prisma.leaveBalanceTransaction.create).toHaveBeenCalledTimes(1);
+    });
+
+    test('should record blocks without a balance as NO_BALANCE', async () => {
+      prisma.attendanceRecord.findMany.mockResolvedValue(lateRecords(5));
+      prisma.leaveBalance.findFirst.mockResolvedValue(null);
+
+      const result = await apply();
+
+      expect(result.deductions).toEqual([expect.objectContaining({ days: 0, status: 'NO_BALANCE' })]);
+      expect(prisma.leaveBalance.update).not.toHaveBeenCalled();
+    });
+
+    test('should only apply blocks not already deducted for the period', async () => {
+      prisma.attendanceRecord.findMany.mockResolvedValue(lateRecords(11));
+      prisma.lateMarkDeduction.count.mockResolvedValue(2);
+
+      const result = await apply();
+
+      expect(result.deductions.map((d) => d.blockNumber)).toEqual([3]);
+      expect(prisma.lateMarkDeduction.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          blockNumber: 3,
+          attendanceRecordIds: ['employee-1-record-9', 'employee-1-record-10', 'employee-1-record-11'],
+        }),
+      });
+    });
+
+    test('should skip a block a concurrent run already applied', async () => {
+      prisma.attendanceRecord.findMany.mockResolvedValue(lateRecords(8));
+      prisma.lateMarkDeduction.create
+        .mockRejectedValueOnce(
+          new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+            code: 'P2002',
+            clientVersion: 'test',
+          })
+        )
+        .mockImplementation(({ data }) =>
+          Promise.resolve({ id: `deduction-${data.blockNumber}`, ...data })
+        );
+
+      const result = await apply();
+
+      expect(result.deductions.map((d) => d.blockNumber)).toEqual([2]);
+      expect(prisma.leaveBalance.update).toHaveBeenCalledTimes(1);
+    });
+
+    test('should count blocks per employee', async () => {
+      prisma.attendanceRecord.findMany.mockResolvedValue([
+        ...lateRecords(5, 'employee-1'),
+        ...lateRecords(4, 'employee-2'),
+      ]);
+
+      const result = await apply();
+
+      expect(result.deductions.map((d) => d.employeeId)).toEqual(['employee-1']);
+    });
+
+    test('should project the balance without writing on a dry run', async () => {
+      prisma.attendanceRecord.findMany.mockResolvedValue(lateRecords(11));
+      prisma.leaveBalance.findFirst.mockResolvedValue(balanceOf(1.5));
+
+      const result = await apply(true);
+
+      expect(result.deductions.map((d) => [d.days, d.status])).toEqual([
+        [1, 'APPLIED'],
+        [0.5, 'PARTIAL'],
+        [0, 'NO_BALANCE'],
+      ]);
+      expect(prisma.lateMarkDeduction.create).not.toHaveBeenCalled();
+      expect(prisma.leaveBalance.update).not.toHaveBeenCalled();
+    });
+
+    test('should do nothing when deductions are not configured', async () => {
+      prisma.leaveSettings.findFirst.mockResolvedValue({
+        fiscalYearStart: '01-04',
+        lateMarkRules: { ...lateMarkRules, deduction: undefined },
+      });
+
+      const result = await apply();
+
+      expect(result.deductions).toEqual([]);
+      expect(prisma.attendanceRecord.findMany).not.toHaveBeenCalled();
+    });
+  });
+});
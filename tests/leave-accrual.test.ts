@@ -0,0 +1,210 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime/library';
+import { leaveService } from '../src/modules/leaves/service.js';
+import { PrismaMock } from './helpers/prisma-mock.js';
+
+jest.mock('@prisma/client', () => {
+  const client = jest.requireActual('./helpers/prisma-mock').createPrismaMock();
+  return { ...jest.requireActual('@prisma/client'), PrismaClient: jest.fn(() => client) };
+});
+
+describe('Monthly Accrual Tests', () => {
+  const prisma = new PrismaClient() as unknown as PrismaMock;
+
+  const policy = (overrides: Record<string, unknown> = {}) => ({
+    id: 'policy-cl',
+    code: 'CL',
+    creditType: 'MONTHLY',
+    quota: 12,
+    accrualRate: null,
+    lwpAccrualMode: 'PRORATE',
+    applicableDepartments: [],
+    applicableLocations: [],
+    ...overrides,
+  });
+
+  const employee = (overrides: Record<string, unknown> = {}) => ({
+    id: 'employee-1',
+    hireDate: new Date(Date.UTC(2024, 0, 15)),
+    department: 'Engineering',
+    workLocation: 'Pune',
+    ...overrides,
+  });
+
+  // June 2026 has 30 days and falls in fiscal year 2026
+  const accrue = (dryRun = false) =>
+    leaveService.runMonthlyAccrual({ year: 2026, month: 6, dryRun }, 'admin-1');
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    prisma.leaveSettings.findFirst.mockResolvedValue({ fiscalYearStart: '01-04' });
+    prisma.leavePolicy.findMany.mockResolvedValue([policy()]);
+    prisma.employee.findMany.mockResolvedValue([employee()]);
+    prisma.leaveRequest.findMany.mockResolvedValue([]);
+    prisma.leaveBalance.findUnique.mockResolvedValue({
+      id: 'balance-cl',
+      totalEntitlement: new Decimal(2),
+    });
+    prisma.leaveBalanceTransaction.findUnique.mockResolvedValue(null);
+    prisma.leaveBalance.update.mockImplementation(({ where }) =>
+      Promise.resolve({ id: where.id, employeeId: 'employee-1', availableBalance: new Decimal(3) })
+    );
+  });
+
+  describe('runMonthlyAccrual', () => {
+    test('should credit a twelfth of the yearly quota', async () => {
+      const result = await accrue();
+
+      expect(result.fiscalYear).toBe(2026);
+      expect(result.items[0]).toMatchObject({ monthlyRate: 1, credit: 1, action: 'CREDIT' });
+      expect(prisma.leaveBalance.update).toHaveBeenCalledWith({
+        where: { id: 'balance-cl' },
+        data: expect.objectContaining({
+          totalEntitlement: { increment: new Decimal(1) },
+          availableBalance: { increment: new Decimal(1) },
+        }),
+      });
+      expect(prisma.leaveBalanceTransaction.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          type: 'ACCRUAL',
+          days: new Decimal(1),
+          periodStart: new Date(Date.UTC(2026, 5, 1)),
+          periodEnd: new Date(Date.UTC(2026, 5, 30)),
+        }),
+      });
+    });
+
+    test('should use the accrual rate when the policy sets one', async () => {
+      prisma.leavePolicy.findMany.mockResolvedValue([
+        policy({ creditType: 'EARNED', quota: 30, accrualRate: new Decimal(1.5) }),
+      ]);
+
+      const result = await accrue();
+
+      expect(result.items[0]).toMatchObject({ monthlyRate: 1.5, credit: 1.5 });
+    });
+
+    test('should prorate the month for employees hired mid-month', async () => {
+      prisma.employee.findMany.mockResolvedValue([
+        employee({ hireDate: new Date(Date.UTC(2026, 5, 16)) }),
+      ]);
+      prisma.leaveBalance.findUnique.mockResolvedValue(null);
+      prisma.leaveBalance.create.mockResolvedValue({ id: 'balance-new' });
+
+      const result = await accrue();
+
+      expect(result.items[0]).toMatchObject({ eligibleDays: 15, daysInMonth: 30, credit: 0.5 });
+      expect(prisma.leaveBalance.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ employeeId: 'employee-1', fiscalYear: 2026 }),
+      });
+      expect(result.items[0].balanceId).toBe('balance-new');
+    });
+
+    test('should prorate EARNED credits by approved LWP days in the month', async () => {
+      prisma.leavePolicy.findMany.mockResolvedValue([
+        policy({ creditType: 'EARNED', accrualRate: new Decimal(1.5) }),
+      ]);
+      // 10 of the 12 LWP days fall in June
+      prisma.leaveRequest.findMany.mockResolvedValue([
+        {
+          employeeId: 'employee-1',
+          startDate: new Date(Date.UTC(2026, 4, 30)),
+          endDate: new Date(Date.UTC(2026, 5, 10)),
+          totalDays: new Decimal(12),
+        },
+      ]);
+
+      const result = await accrue();
+
+      expect(result.items[0]).toMatchObject({ lwpDays: 10, credit: 1, action: 'CREDIT' });
+    });
+
+    test('should skip EARNED credits for months with LWP when the policy says so', async () => {
+      prisma.leavePolicy.findMany.mockResolvedValue([
+        policy({ creditType: 'EARNED', lwpAccrualMode: 'SKIP' }),
+      ]);
+      prisma.leaveRequest.findMany.mockResolvedValue([
+        {
+          employeeId: 'employee-1',
+          startDate: new Date(Date.UTC(2026, 5, 3)),
+          endDate: new Date(Date.UTC(2026, 5, 3)),
+          totalDays: new Decimal(1),
+        },
+      ]);
+
+      const result = await accrue();
+
+      expect(result.items[0]).toMatchObject({ credit: 0, action: 'SKIP_LWP' });
+      expect(prisma.leaveBalance.update).not.toHaveBeenCalled();
+    });
+
+    test('should not reduce MONTHLY credits for LWP', async () => {
+      prisma.leaveRequest.findMany.mockResolvedValue([
+        {
+          employeeId: 'employee-1',
+          startDate: new Date(Date.UTC(2026, 5, 1)),
+          endDate: new Date(Date.UTC(2026, 5, 15)),
+          totalDays: new Decimal(15),
+        },
+      ]);
+
+      const result = await accrue();
+
+      expect(result.items[0]).toMatchObject({ lwpDays: 0, credit: 1 });
+    });
+
+    test('should cap the entitlement at the yearly quota', async () => {
+      prisma.leaveBalance.findUnique
+        .mockResolvedValueOnce({ id: 'balance-cl', totalEntitlement: new Decimal(11.5) })
+        .mockResolvedValueOnce({ id: 'balance-cl-2', totalEntitlement: new Decimal(12) });
+      prisma.employee.findMany.mockResolvedValue([employee(), employee({ id: 'employee-2' })]);
+
+      const result = await accrue();
+
+      expect(result.items.map((i) => [i.credit, i.action])).toEqual([
+        [0.5, 'CREDIT'],
+        [0, 'SKIP_QUOTA_REACHED'],
+      ]);
+      expect(prisma.leaveBalance.update).toHaveBeenCalledTimes(1);
+    });
+
+    test('should not credit a month twice', async () => {
+      prisma.leaveBalanceTransaction.findUnique.mockResolvedValue({ days: new Decimal(1) });
+
+      const result = await accrue();
+
+      expect(prisma.leaveBalanceTransaction.findUnique).toHaveBeenCalledWith({
+        where: {
+          leaveBalanceId_type_periodStart: {
+            leaveBalanceId: 'balance-cl',
+            type: 'ACCRUAL',
+            periodStart: new Date(Date.UTC(2026, 5, 1)),
+          },
+        },
+      });
+      expect(result.summary).toMatchObject({ credited: 0, skippedAlreadyAccrued: 1 });
+      expect(prisma.leaveBalance.update).not.toHaveBeenCalled();
+    });
+
+    test('should treat a concurrent run crediting the same month as already accrued', async () => {
+      prisma.leaveBalanceTransaction.create.mockRejectedValue(
+        new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+          code: 'P2002',
+          clientVersion: 'test',
+        })
+      );
+
+      const result = await accrue();
+
+      expect(result.items[0].action).toBe('SKIP_ALREADY_ACCRUED');
+    });
+
+    test('should not write anything on a dry run', async () => {
+      const result = await accrue(true);
+
+      expect(result.summary).toMatchObject({ credited: 1, totalCredited: 1 });
+      expect(prisma.leaveBalance.update).not.toHaveBeenCalled();
+      expect(prisma.leaveBalanceTransaction.create).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,282 @@
+import { PrismaClient } from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime/library';
+import { leaveService } from '../src/modules/leaves/service.js';
+import { PrismaMock } from './helpers/prisma-mock.js';
+
+jest.mock('@prisma/client', () => {
+  const client = jest.requireActual('./helpers/prisma-mock').createPrismaMock();
+  return { ...jest.requireActual('@prisma/client'), PrismaClient: jest.fn(() => client) };
+});
+
+describe('Leave Encashment Tests', () => {
+  const prisma = new PrismaClient() as unknown as PrismaMock;
+
+  const settings = (overrides: Record<string, unknown> = {}) => ({
+    fiscalYearStart: '01-04',
+    encashmentEnabled: true,
+    encashmentPeriod: 'YEARLY',
+    encashmentCalculation: 'BASIC_SALARY',
+    encashmentDaysPerMonth: 30,
+    maxEncashmentPercent: null,
+    hrCanForceApprove: false,
+    ...overrides,
+  });
+
+  const policy = (overrides: Record<string, unknown> = {}) => ({
+    id: 'policy-el',
+    name: 'Earned Leave',
+    code: 'EL',
+    leaveType: 'EARNED_LEAVE',
+    isActive: true,
+    encashable: true,
+    encashLimitPerYear: 10,
+    ...overrides,
+  });
+
+  const balance = (overrides: Record<string, unknown> = {}) => ({
+    id: 'balance-el',
+    employeeId: 'employee-1',
+    availableBalance: new Decimal(20),
+    encashedThisYear: new Decimal(0),
+    ...overrides,
+  });
+
+  // Employees are looked up by id for approvers and by salary grade for the rate
+  const employees: Record<string, { id: string }> = {
+    'user-employee': { id: 'employee-1' },
+    'user-manager': { id: 'manager-1' },
+    'user-hr': { id: 'hr-1' },
+  };
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    jest.useFakeTimers({
+      now: new Date(Date.UTC(2026, 10, 10)),
+      doNotFake: ['nextTick', 'setImmediate'],
+    });
+    prisma.employee.findUnique.mockImplementation(({ where, select }) =>
+      Promise.resolve(
+        select?.salaryGrade ? { salaryGrade: 'G5' } : (employees[where.id ?? where.supabaseId] ?? null)
+      )
+    );
+    prisma.leaveSettings.findFirst.mockResolvedValue(settings());
+    prisma.leavePolicy.findUnique.mockResolvedValue(policy());
+    prisma.leaveBalance.findUnique.mockResolvedValue(balance());
+    prisma.leaveEncashmentRequest.findFirst.mockResolvedValue(null);
+    prisma.leaveEncashmentRequest.aggregate.mockResolvedValue({ _sum: { days: null } });
+    prisma.salaryGrade.findFirst.mockResolvedValue({
+      code: 'G5',
+      basicMonthlySalary: new Decimal(30000),
+      grossMonthlySalary: new Decimal(45000),
+      currency: 'INR',
+    });
+    prisma.leaveEncashmentRequest.create.mockImplementation(({ data }) => Promise.resolve(data));
+    prisma.leaveEncashmentRequest.update.mockImplementation(({ data }) => Promise.resolve(data));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('createEncashmentRequest', () => {
+    const create = (days: number) =>
+      leaveService.createEncashmentRequest({ policyId: 'policy-el', days }, 'user-employee');
+
+    test('should create a request for the current encashment period', async () => {
+      prisma.leaveSettings.findFirst.mockResolvedValue(settings({ encashmentPeriod: 'HALF_YEARLY' }));
+
+      await create(4);
+
+      // November is the eighth month of the fiscal year that started in April
+      expect(prisma.leaveEncashmentRequest.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            employeeId: 'employee-1',
+            leaveBalanceId: 'balance-el',
+            fiscalYear: 2026,
+            period: '2026-H2',
+            days: new Decimal(4),
+          }),
+        })
+      );
+    });
+
+    test('should refuse when encashment is disabled or the policy is not encashable', async () => {
+      prisma.leaveSettings.findFirst.mockResolvedValueOnce(settings({ encashmentEnabled: false }));
+      await expect(create(1)).rejects.toThrow('Leave encashment is not enabled');
+
+      prisma.leavePolicy.findUnique.mockResolvedValueOnce(policy({ encashable: false }));
+      await expect(create(1)).rejects.toThrow('Earned Leave is not encashable');
+    });
+
+    test('should allow one request per policy and period', async () => {
+      prisma.leaveEncashmentRequest.findFirst.mockResolvedValue({ id: 'existing' });
+
+      await expect(create(1)).rejects.toThrow('already exists for period 2026');
+    });
+
+    test('should count pending requests and earlier encashments against the yearly limit', async () => {
+      prisma.leaveBalance.findUnique.mockResolvedValue(
+        balance({ encashedThisYear: new Decimal(5) })
+      );
+      prisma.leaveEncashmentRequest.aggregate.mockResolvedValue({
+        _sum: { days: new Decimal(3) },
+      });
+
+      await expect(create(3)).rejects.toThrow('Remaining this year: 5 day(s)');
+      await expect(create(2)).resolves.toBeDefined();
+    });
+
+    test('should cap the request at the configured share of the available balance', async () => {
+      prisma.leaveSettings.findFirst.mockResolvedValue(settings({ maxEncashmentPercent: 25 }));
+
+      await expect(create(6)).rejects.toThrow('Cannot encash more than 25%');
+      await expect(create(5)).resolves.toBeDefined();
+    });
+
+    test('should not encash more than the available balance', async () => {
+      prisma.leaveBalance.findUnique.mockResolvedValue(
+        balance({ availableBalance: new Decimal(2) })
+      );
+
+      await expect(create(3)).rejects.toThrow('Insufficient balance');
+    });
+  });
+
+  describe('approveEncashmentRequest', () => {
+    const request = (overrides: Record<string, unknown> = {}) => ({
+      id: 'encashment-1',
+      employeeId: 'employee-1',
+      leaveBalanceId: 'balance-el',
+      days: new Decimal(2.5),
+      status: 'PENDING',
+      managerApprovalStatus: null,
+      employee: { reportingManager: 'manager-1' },
+      policy: policy(),
+      ...overrides,
+    });
+
+    const approve = (userId: string, userRole: string) =>
+      leaveService.approveEncashmentRequest(
+        'encashment-1',
+        { action: 'APPROVE' },
+        userId,
+        userRole
+      );
+
+    beforeEach(() => {
+      prisma.leaveEncashmentRequest.findUnique.mockResolvedValue(request());
+      prisma.leaveBalance.update.mockResolvedValue(
+        balance({ availableBalance: new Decimal(17.5) })
+      );
+    });
+
+    test('should record the manager decision without debiting the balance', async () => {
+      const result = await approve('user-manager', 'MANAGER');
+
+      expect(result).toMatchObject({ managerApprovalStatus: 'APPROVED', managerApprovedBy: 'manager-1' });
+      expect(result).not.toHaveProperty('status');
+      expect(prisma.leaveBalance.update).not.toHaveBeenCalled();
+    });
+
+    test('should only let the reporting manager decide, and only once', async () => {
+      prisma.employee.findUnique.mockImplementation(({ where }) =>
+        Promise.resolve(where.id === 'user-other' ? { id: 'manager-2' } : null)
+      );
+      await expect(approve('user-other', 'MANAGER')).rejects.toMatchObject({ statusCode: 403 });
+
+      prisma.leaveEncashmentRequest.findUnique.mockResolvedValue(
+        request({ managerApprovalStatus: 'APPROVED' })
+      );
+      prisma.employee.findUnique.mockResolvedValue({ id: 'manager-1' });
+      await expect(approve('user-manager', 'MANAGER')).rejects.toThrow('awaiting HR approval');
+    });
+
+    test('should not let employees approve their own request', async () => {
+      await expect(approve('user-employee', 'ADMIN')).rejects.toMatchObject({ statusCode: 403 });
+    });
+
+    test('should require the manager decision before HR approval unless HR may force it', async () => {
+      await expect(approve('user-hr', 'ADMIN')).rejects.toThrow('Manager approval is required');
+
+      prisma.leaveSettings.findFirst.mockResolvedValue(settings({ hrCanForceApprove: true }));
+      await expect(approve('user-hr', 'ADMIN')).resolves.toMatchObject({ status: 'APPROVED' });
+    });
+
+    test('should debit the balance and create the payroll line on HR approval', async () => {
+      prisma.leaveEncashmentRequest.findUnique.mockResolvedValue(
+        request({ managerApprovalStatus: 'APPROVED' })
+      );
+
+      const result = await approve('user-hr', 'ADMIN');
+
+      expect(prisma.leaveBalance.update).toHaveBeenCalledWith({
+        where: { id: 'balance-el' },
+        data: expect.objectContaining({
+          availableBalance: { decrement: new Decimal(2.5) },
+          encashedThisYear: { increment: new Decimal(2.5) },
+        }),
+      });
+      expect(prisma.leaveBalanceTransaction.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          type: 'ENCASHMENT',
+          days: new Decimal(-2.5),
+          balanceAfter: new Decimal(17.5),
+          referenceType: 'ENCASHMENT_REQUEST',
+          referenceId: 'encashment-1',
+        }),
+      });
+      // 30000 basic salary over 30 days
+      expect(prisma.encashmentPayrollLine.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          encashmentRequestId: 'encashment-1',
+          payPeriod: '2026-11',
+          leaveType: 'EARNED_LEAVE',
+          dailyRate: new Decimal(1000),
+          amount: new Decimal(2500),
+          currency: 'INR',
+        }),
+      });
+      expect(result).toMatchObject({
+        status: 'APPROVED',
+        hrApprovalStatus: 'APPROVED',
+        finalApprovedBy: 'hr-1',
+        salaryGrade: 'G5',
+      });
+    });
+
+    test('should compute the daily rate from the configured salary basis and month length', async () => {
+      prisma.leaveEncashmentRequest.findUnique.mockResolvedValue(
+        request({ managerApprovalStatus: 'APPROVED', days: new Decimal(2) })
+      );
+      prisma.leaveSettings.findFirst.mockResolvedValue(
+        settings({ encashmentCalculation: 'GROSS_SALARY', encashmentDaysPerMonth: 26 })
+      );
+
+      await approve('user-hr', 'ADMIN');
+
+      expect(prisma.encashmentPayrollLine.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          dailyRate: new Decimal(1730.77),
+          amount: new Decimal(3461.54),
+        }),
+      });
+    });
+
+    test('should re-check the limits at approval time', async () => {
+      prisma.leaveEncashmentRequest.findUnique.mockResolvedValue(
+        request({ managerApprovalStatus: 'APPROVED' })
+      );
+      prisma.leaveBalance.findUnique.mockResolvedValue(
+        balance({ encashedThisYear: new Decimal(9) })
+      );
+
+      await expect(approve('user-hr', 'ADMIN')).rejects.toThrow('Encashment limit exceeded');
+      expect(prisma.leaveEncashmentRequest.aggregate).toHaveBeenCalledWith({
+        where: { leaveBalanceId: 'balance-el', status: 'PENDING', id: { not: 'encashment-1' } },
+        _sum: { days: true },
+      });
+      expect(prisma.leaveBalance.update).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,259 @@
+import { PrismaClient } from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime/library';
+import { leaveService } from '../src/modules/leaves/service.js';
+import { getYearlyResetRules } from '../src/config/leavePolicy.js';
+import { PrismaMock } from './helpers/prisma-mock.js';
+
+jest.mock('@prisma/client', () => {
+  const client = jest.requireActual('./helpers/prisma-mock').createPrismaMock();
+  return { ...jest.requireActual('@prisma/client'), PrismaClient: jest.fn(() => client) };
+});
+jest.mock('../src/config/leavePolicy', () => ({ getYearlyResetRules: jest.fn() }));
+
+describe('Leave Rollover Tests', () => {
+  const prisma = new PrismaClient() as unknown as PrismaMock;
+
+  const policy = (overrides: Record<string, unknown> = {}) => ({
+    id: 'policy-el',
+    code: 'EL',
+    leaveType: 'EARNED_LEAVE',
+    quota: 12,
+    creditType: 'YEARLY',
+    carryForward: true,
+    maxCarryForward: 10,
+    carryForwardExpiry: 90,
+    isActive: true,
+    ...overrides,
+  });
+
+  const balance = (overrides: Record<string, unknown> = {}) => ({
+    id: 'balance-2025',
+    employeeId: 'employee-1',
+    policyId: 'policy-el',
+    fiscalYear: 2025,
+    totalEntitlement: new Decimal(12),
+    usedLeaves: new Decimal(0),
+    pendingLeaves: new Decimal(0),
+    availableBalance: new Decimal(8),
+    carriedForward: new Decimal(0),
+    expiredLeaves: new Decimal(0),
+    rolledOverAt: null,
+    carryForwardExpiredAt: null,
+    policy: policy(),
+    ...overrides,
+  });
+
+  const ledgerEntries = () =>
+    prisma.leaveBalanceTransaction.create.mock.calls.map(([{ data }]) => ({
+      type: data.type,
+      days: new Decimal(data.days).toNumber(),
+    }));
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    (getYearlyResetRules as jest.Mock).mockReturnValue({
+      carryForwardLimits: { EL: 6 },
+      noCarryForwardLeaves: ['CL'],
+    });
+    prisma.leaveSettings.findFirst.mockResolvedValue({ fiscalYearStart: '01-04' });
+    prisma.leaveBalance.findUnique.mockResolvedValue(null);
+    prisma.leaveBalance.updateMany.mockResolvedValue({ count: 1 });
+    prisma.leaveBalance.create.mockImplementation(({ data }) =>
+      Promise.resolve({ id: 'balance-2026', ...data })
+    );
+    prisma.leaveBalance.update.mockImplementation(({ where, data }) =>
+      Promise.resolve({ id: where.id, employeeId: 'employee-1', availableBalance: new Decimal(0), ...data })
+    );
+  });
+
+  describe('runFiscalYearRollover', () => {
+    test('should carry the remaining days up to the lowest limit and lapse the rest', async () => {
+      prisma.leaveBalance.findMany.mockResolvedValue([balance()]);
+
+      const result = await leaveService.runFiscalYearRollover(
+        { fromFiscalYear: 2025, dryRun: false },
+        'admin-1'
+      );
+
+      expect(result.items[0]).toMatchObject({
+        action: 'OPEN',
+        carriedForward: 6,
+        lapsed: 2,
+        newEntitlement: 12,
+        newAvailable: 18,
+        carryForwardExpiresAt: new Date(Date.UTC(2026, 3, 1) + 90 * 24 * 60 * 60 * 1000),
+      });
+      expect(prisma.leaveBalance.updateMany).toHaveBeenCalledWith({
+        where: { id: 'balance-2025', rolledOverAt: null },
+        data: expect.objectContaining({ lapsedLeaves: new Decimal(2) }),
+      });
+      expect(prisma.leaveBalance.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          fiscalYear: 2026,
+          totalEntitlement: new Decimal(12),
+          carriedForward: new Decimal(6),
+          availableBalance: new Decimal(18),
+        }),
+      });
+      expect(ledgerEntries()).toEqual([
+        { type: 'ACCRUAL', days: 12 },
+        { type: 'CARRY_FORWARD', days: 6 },
+      ]);
+    });
+
+    test('should lapse everything and write off deficits for policies that do not carry', async () => {
+      prisma.leaveBalance.findMany.mockResolvedValue([
+        balance({ policy: policy({ code: 'CL' }) }),
+        balance({
+          id: 'balance-sl',
+          availableBalance: new Decimal(-2),
+          policy: policy({ id: 'policy-sl', code: 'SL', carryForward: false }),
+        }),
+      ]);
+
+      const result = await leaveService.runFiscalYearRollover(
+        { fromFiscalYear: 2025, dryRun: false },
+        'admin-1'
+      );
+
+      expect(result.items[0]).toMatchObject({ carriedForward: 0, lapsed: 8, newAvailable: 12 });
+      expect(result.items[1]).toMatchObject({
+        carriedForward: 0,
+        lapsed: 0,
+        deficitWrittenOff: 2,
+        newAvailable: 12,
+      });
+      expect(ledgerEntries().map((entry) => entry.type)).toEqual(['ACCRUAL', 'ACCRUAL']);
+    });
+
+    test('should carry a deficit into the next year where days may carry', async () => {
+      prisma.leaveBalance.findMany.mockResolvedValue([
+        balance({ availableBalance: new Decimal(-3) }),
+      ]);
+
+      const result = await leaveService.runFiscalYearRollover(
+        { fromFiscalYear: 2025, dryRun: false },
+        'admin-1'
+      );
+
+      expect(result.items[0]).toMatchObject({
+        carriedForward: -3,
+        lapsed: 0,
+        deficitWrittenOff: 0,
+        newAvailable: 9,
+        carryForwardExpiresAt: null,
+      });
+      expect(ledgerEntries()).toEqual([
+        { type: 'ACCRUAL', days: 12 },
+        { type: 'CARRY_FORWARD', days: -3 },
+      ]);
+    });
+
+    test('should merge into a balance already opened, keeping the earlier expiry', async () => {
+      const earlierExpiry = new Date(Date.UTC(2026, 4, 1));
+      prisma.leaveBalance.findMany.mockResolvedValue([balance()]);
+      prisma.leaveBalance.findUnique.mockResolvedValue({
+        id: 'balance-2026',
+        carriedForward: new Decimal(0),
+        availableBalance: new Decimal(12),
+        carryForwardExpiresAt: earlierExpiry,
+      });
+
+      const result = await leaveService.runFiscalYearRollover(
+        { fromFiscalYear: 2025, dryRun: false },
+        'admin-1'
+      );
+
+      expect(result.summary).toMatchObject({ opened: 0, merged: 1 });
+      expect(prisma.leaveBalance.create).not.toHaveBeenCalled();
+      expect(prisma.leaveBalance.update).toHaveBeenCalledWith({
+        where: { id: 'balance-2026' },
+        data: expect.objectContaining({
+          carriedForward: { increment: new Decimal(6) },
+          availableBalance: { increment: new Decimal(6) },
+          carryForwardExpiresAt: earlierExpiry,
+        }),
+      });
+      // The opening entitlement was already credited when the target was opened
+      expect(ledgerEntries()).toEqual([{ type: 'CARRY_FORWARD', days: 6 }]);
+    });
+
+    test('should skip balances that were already rolled over', async () => {
+      prisma.leaveBalance.findMany.mockResolvedValue([
+        balance({ rolledOverAt: new Date(Date.UTC(2026, 3, 1)) }),
+        balance({ id: 'balance-raced' }),
+      ]);
+      // A concurrent run claimed the second balance first
+      prisma.leaveBalance.updateMany.mockResolvedValue({ count: 0 });
+
+      const result = await leaveService.runFiscalYearRollover(
+        { fromFiscalYear: 2025, dryRun: false },
+        'admin-1'
+      );
+
+      expect(result.summary).toMatchObject({ skippedAlreadyRolled: 2, totalCarriedForward: 0 });
+      expect(prisma.leaveBalance.updateMany).toHaveBeenCalledTimes(1);
+      expect(prisma.leaveBalance.create).not.toHaveBeenCalled();
+      expect(prisma.leaveBalanceTransaction.create).not.toHaveBeenCalled();
+    });
+
+    test('should not write anything on a dry run', async () => {
+      prisma.leaveBalance.findMany.mockResolvedValue([balance()]);
+
+      const result = await leaveService.runFiscalYearRollover(
+        { fromFiscalYear: 2025, dryRun: true },
+        'admin-1'
+      );
+
+      expect(result.summary).toMatchObject({ opened: 1, totalCarriedForward: 6, totalLapsed: 2 });
+      expect(prisma.leaveBalance.updateMany).not.toHaveBeenCalled();
+      expect(prisma.leaveBalance.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('expireCarriedForwardLeaves', () => {
+    const asOf = '2026-07-01';
+
+    test('should expire carried days not consumed by used or pending leave', async () => {
+      const carried = balance({
+        id: 'balance-2026',
+        fiscalYear: 2026,
+        carriedForward: new Decimal(5),
+        usedLeaves: new Decimal(2),
+        pendingLeaves: new Decimal(1),
+        availableBalance: new Decimal(14),
+      });
+      prisma.leaveBalance.findMany.mockResolvedValue([{ id: 'balance-2026' }]);
+      prisma.leaveBalance.findUnique.mockResolvedValue(carried);
+      prisma.leaveBalance.findUniqueOrThrow.mockResolvedValue({
+        ...carried,
+        availableBalance: new Decimal(12),
+      });
+
+      const result = await leaveService.expireCarriedForwardLeaves({ asOf });
+
+      expect(result).toMatchObject({ balancesExpired: 1, totalExpiredDays: 2 });
+      expect(prisma.leaveBalance.updateMany).toHaveBeenCalledWith({
+        where: { id: 'balance-2026', carryForwardExpiredAt: null },
+        data: expect.objectContaining({
+          availableBalance: { decrement: new Decimal(2) },
+          expiredLeaves: { increment: new Decimal(2) },
+        }),
+      });
+      expect(ledgerEntries()).toEqual([{ type: 'EXPIRY', days: -2 }]);
+    });
+
+    test('should not expire a balance twice', async () => {
+      prisma.leaveBalance.findMany.mockResolvedValue([{ id: 'balance-2026' }]);
+      prisma.leaveBalance.findUnique.mockResolvedValue(
+        balance({ carriedForward: new Decimal(5), carryForwardExpiredAt: new Date() })
+      );
+
+      const result = await leaveService.expireCarriedForwardLeaves({ asOf });
+
+      expect(result.balancesExpired).toBe(0);
+      expect(prisma.leaveBalance.updateMany).not.toHaveBeenCalled();
+      expect(prisma.leaveBalanceTransaction.create).not.toHaveBeenCalled();
+    });
+  });
+});
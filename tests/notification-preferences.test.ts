@@ -0,0 +1,120 @@
+import { NotificationPreferenceService } from '../src/services/notificationPreferenceService.js';
+
+// Only the time helpers are exercised; none of them touch the database
+jest.mock('@prisma/client', () => ({
+  ...jest.requireActual('@prisma/client'),
+  PrismaClient: jest.fn(() => ({})),
+}));
+
+describe('Notification Preference Tests', () => {
+  describe('isWithinQuietHours', () => {
+    const quietHours = {
+      quietHoursEnabled: true,
+      quietHoursStart: '22:00',
+      quietHoursEnd: '07:00',
+      timezone: 'UTC',
+    };
+
+    test('should handle windows that wrap past midnight', () => {
+      const at = (time: string) => new Date(`2026-01-05T${time}:00.000Z`);
+
+      expect(NotificationPreferenceService.isWithinQuietHours(quietHours, at('22:00'))).toBe(true);
+      expect(NotificationPreferenceService.isWithinQuietHours(quietHours, at('02:30'))).toBe(true);
+      expect(NotificationPreferenceService.isWithinQuietHours(quietHours, at('07:00'))).toBe(false);
+      expect(NotificationPreferenceService.isWithinQuietHours(quietHours, at('12:00'))).toBe(false);
+    });
+
+    test('should handle windows within a single day', () => {
+      const settings = { ...quietHours, quietHoursStart: '12:00', quietHoursEnd: '14:00' };
+
+      expect(
+        NotificationPreferenceService.isWithinQuietHours(
+          settings,
+          new Date('2026-01-05T13:59:00.000Z')
+        )
+      ).toBe(true);
+      expect(
+        NotificationPreferenceService.isWithinQuietHours(
+          settings,
+          new Date('2026-01-05T14:00:00.000Z')
+        )
+      ).toBe(false);
+    });
+
+    test('should evaluate the window in the user timezone', () => {
+      const settings = { ...quietHours, timezone: 'Asia/Kolkata' };
+
+      // 17:00 UTC is 22:30 in India
+      expect(
+        NotificationPreferenceService.isWithinQuietHours(
+          settings,
+          new Date('2026-01-05T17:00:00.000Z')
+        )
+      ).toBe(true);
+      expect(
+        NotificationPreferenceService.isWithinQuietHours(
+          settings,
+          new Date('2026-01-05T15:00:00.000Z')
+        )
+      ).toBe(false);
+    });
+
+    test('should never be quiet when disabled or when start equals end', () => {
+      const night = new Date('2026-01-05T23:00:00.000Z');
+
+      expect(
+        NotificationPreferenceService.isWithinQuietHours(
+          { ...quietHours, quietHoursEnabled: false },
+          night
+        )
+      ).toBe(false);
+      expect(
+        NotificationPreferenceService.isWithinQuietHours(
+          { ...quietHours, quietHoursEnd: '22:00' },
+          night
+        )
+      ).toBe(false);
+    });
+  });
+
+  describe('getNextLocalTime', () => {
+    test('should return the next occurrence later the same day', () => {
+      expect(
+        NotificationPreferenceService.getNextLocalTime(
+          '07:00',
+          'UTC',
+          new Date('2026-01-05T02:30:45.000Z')
+        )
+      ).toEqual(new Date('2026-01-05T07:00:00.000Z'));
+    });
+
+    test('should roll over to the next day once the time has passed', () => {
+      expect(
+        NotificationPreferenceService.getNextLocalTime(
+          '07:00',
+          'UTC',
+          new Date('2026-01-05T07:00:00.000Z')
+        )
+      ).toEqual(new Date('2026-01-06T07:00:00.000Z'));
+    });
+
+    test('should interpret the time in the given timezone', () => {
+      // 07:00 in India is 01:30 UTC
+      expect(
+        NotificationPreferenceService.getNextLocalTime(
+          '07:00',
+          'Asia/Kolkata',
+          new Date('2026-01-05T20:00:00.000Z')
+        )
+      ).toEqual(new Date('2026-01-06T01:30:00.000Z'));
+      // 07:00 in New York is 12:00 UTC in winter
+      expect(
+        NotificationPreferenceService.getNextLocalTime(
+          '07:00',
+          'America/New_York',
+          new Date('2026-01-05T10:00:00.000Z')
+        )
+      ).toEqual(new Date('2026-01-05T12:00:00.000Z'));
+    });
+  });
+});
@@ -0,0 +1,142 @@
+import { NotificationTemplate } from '@prisma/client';
+import { NotificationTemplateService } from '../src/services/notificationTemplateService.js';
+
+const mockFindMany = jest.fn();
+
+// Template lookups are answered from the fixtures below; no database is needed
+jest.mock('@prisma/client', () => ({
+  ...jest.requireActual('@prisma/client'),
+  PrismaClient: jest.fn(() => ({
+    notificationTemplate: { findMany: (...args: unknown[]) => mockFindMany(...args) },
+  })),
+}));
+
+describe('Notification Template Tests', () => {
+  const template = (overrides: Partial<NotificationTemplate>): NotificationTemplate => ({
+    id: 'template-en',
+    type: 'LEAVE_APPROVED',
+    channel: 'EMAIL',
+    locale: 'en',
+    name: 'Leave approved',
+    description: null,
+    subject: 'Approved: {{leaveType}}',
+    body: 'Hi {{employeeName}}, your leave is approved.{{#comments}} Note: {{comments}}{{/comments}}',
+    htmlBody: '<p>Hi {{employeeName}}</p>{{{approvalLink}}}',
+    isActive: true,
+    createdBy: null,
+    updatedBy: null,
+    createdAt: new Date('2026-01-01T00:00:00.000Z'),
+    updatedAt: new Date('2026-01-01T00:00:00.000Z'),
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    mockFindMany.mockReset();
+  });
+
+  describe('render', () => {
+    test('should render the active database template, escaping HTML variables', async () => {
+      mockFindMany.mockResolvedValue([template({})]);
+
+      const rendered = await NotificationTemplateService.render('LEAVE_APPROVED', 'EMAIL', {
+        leaveType: 'Casual Leave',
+        employeeName: '<Asha>',
+        approvalLink: '<a href="/leaves/1">View</a>',
+      });
+
+      expect(rendered).toEqual({
+        subject: 'Approved: Casual Leave',
+        body: 'Hi <Asha>, your leave is approved.',
+        html: '<p>Hi &lt;Asha&gt;</p><a href="/leaves/1">View</a>',
+        templateId: 'template-en',
+        source: 'DATABASE',
+      });
+    });
+
+    test('should keep optional sections only when the variable is set', async () => {
+      mockFindMany.mockResolvedValue([template({})]);
+
+      const rendered = await NotificationTemplateService.render('LEAVE_APPROVED', 'EMAIL', {
+        employeeName: 'Asha',
+        comments: 'Enjoy your break',
+      });
+
+      expect(rendered.body).toBe('Hi Asha, your leave is approved. Note: Enjoy your break');
+    });
+
+    test('should prefer the requested locale and fall back to the default locale', async () => {
+      mockFindMany.mockResolvedValue([
+        template({}),
+        template({ id: 'template-hi', locale: 'hi', subject: 'Swikrit: {{leaveType}}' }),
+      ]);
+
+      const hindi = await NotificationTemplateService.render(
+        'LEAVE_APPROVED',
+        'EMAIL',
+        { leaveType: 'CL' },
+        'hi'
+      );
+      expect(hindi).toMatchObject({ subject: 'Swikrit: CL', templateId: 'template-hi' });
+      expect(mockFindMany).toHaveBeenCalledWith({
+        where: {
+          type: 'LEAVE_APPROVED',
+          channel: 'EMAIL',
+          locale: { in: ['hi', 'en'] },
+          isActive: true,
+        },
+      });
+
+      mockFindMany.mockResolvedValue([template({})]);
+      const french = await NotificationTemplateService.render(
+        'LEAVE_APPROVED',
+        'EMAIL',
+        { leaveType: 'CL' },
+        'fr'
+      );
+      expect(french).toMatchObject({ subject: 'Approved: CL', templateId: 'template-en' });
+    });
+
+    test('should fall back to the built-in template when none is configured', async () => {
+      mockFindMany.mockResolvedValue([]);
+
+      const rendered = await NotificationTemplateService.render('TASK_COMPLETED', 'EMAIL', {
+        managerName: 'Ravi',
+        employeeName: 'Asha',
+        message: 'All tasks done',
+      });
+
+      expect(rendered.source).toBe('DEFAULT');
+      expect(rendered.templateId).toBeNull();
+      expect(rendered.subject).toBe('Onboarding Update: Asha');
+      expect(rendered.body).toBe('Hi Ravi, update for Asha: All tasks done');
+      expect(rendered.html).toContain('All tasks done');
+    });
+
+    test('should fall back to the built-in template when the lookup fails', async () => {
+      mockFindMany.mockRejectedValue(new Error('connection refused'));
+
+      const rendered = await NotificationTemplateService.render('SYSTEM_ALERT', 'IN_APP', {
+        title: 'Maintenance',
+        message: 'Tonight at 10 PM',
+      });
+
+      expect(rendered).toEqual({
+        subject: 'Maintenance',
+        body: 'Tonight at 10 PM',
+        html: undefined,
+        templateId: null,
+        source: 'DEFAULT',
+      });
+    });
+
+    test('should wrap the plain-text body for emails without an HTML part', async () => {
+      mockFindMany.mockResolvedValue([template({ htmlBody: null })]);
+
+      const rendered = await NotificationTemplateService.render('LEAVE_APPROVED', 'EMAIL', {
+        employeeName: 'A & B',
+      });
+
+      expect(rendered.html).toBe('<p>Hi A &amp; B, your leave is approved.</p>');
+    });
+  });
+});
@@ -0,0 +1,146 @@
+import { Employee } from '@prisma/client';
+import {
+  evaluateConditions,
+  parseConditionalLogic,
+} from '../src/modules/onboarding/conditions.js';
+import { ConditionalLogicType } from '../src/modules/onboarding/schema.js';
+
+describe('Onboarding Condition Tests', () => {
+  const employee = {
+    employmentType: 'FULL_TIME',
+    department: 'Engineering',
+    jobTitle: 'Software Engineer',
+    workLocation: 'Bangalore',
+    hireDate: new Date('2026-03-15T00:00:00.000Z'),
+    salaryGrade: 'G4',
+    skills: ['TypeScript', 'PostgreSQL'],
+    panNumber: 'ABCDE1234F',
+  } as unknown as Employee;
+
+  const rule = (overrides: Partial<ConditionalLogicType>): ConditionalLogicType => ({
+    conditionType: 'DEPARTMENT',
+    conditionOperator: 'EQUALS',
+    conditionValue: 'Engineering',
+    ...overrides,
+  });
+
+  describe('parseConditionalLogic', () => {
+    test('should treat anything but a list of rules as no rules', () => {
+      expect(parseConditionalLogic(null)).toEqual([]);
+      expect(parseConditionalLogic({ conditionType: 'DEPARTMENT' })).toEqual([]);
+      expect(parseConditionalLogic([rule({})])).toHaveLength(1);
+    });
+  });
+
+  describe('evaluateConditions', () => {
+    test('should match when there are no rules', () => {
+      expect(evaluateConditions([], employee)).toEqual({ matched: true, results: [], reason: null });
+    });
+
+    test('should compare strings ignoring case', () => {
+      const result = evaluateConditions([rule({ conditionValue: 'engineering' })], employee);
+
+      expect(result.matched).toBe(true);
+      expect(result.results[0].field).toBe('department');
+    });
+
+    test('should support list operators with arrays and comma separated values', () => {
+      expect(
+        evaluateConditions(
+          [rule({ conditionType: 'EMPLOYEE_TYPE', conditionOperator: 'IN', conditionValue: 'CONTRACT, FULL_TIME' })],
+          employee
+        ).matched
+      ).toBe(true);
+      expect(
+        evaluateConditions(
+          [rule({ conditionType: 'LOCATION', conditionOperator: 'NOT_IN', conditionValue: ['Pune', 'Delhi'] })],
+          employee
+        ).matched
+      ).toBe(true);
+      expect(
+        evaluateConditions(
+          [rule({ conditionType: 'ROLE', conditionOperator: 'CONTAINS', conditionValue: 'engineer' })],
+          employee
+        ).matched
+      ).toBe(true);
+    });
+
+    test('should compare hire dates by calendar day', () => {
+      const after = rule({
+        conditionType: 'HIRE_DATE',
+        conditionOperator: 'GREATER_THAN',
+        conditionValue: '2026-03-14',
+      });
+      const before = rule({
+        conditionType: 'HIRE_DATE',
+        conditionOperator: 'LESS_THAN',
+        conditionValue: '2026-03-15',
+      });
+
+      expect(evaluateConditions([after], employee).matched).toBe(true);
+      expect(evaluateConditions([before], employee).matched).toBe(false);
+      expect(
+        evaluateConditions([rule({ conditionType: 'HIRE_DATE', conditionValue: '2026-03-15' })], employee)
+          .matched
+      ).toBe(true);
+    });
+
+    test('should read allowlisted CUSTOM fields, including array fields', () => {
+      const result = evaluateConditions(
+        [
+          rule({ conditionType: 'CUSTOM', field: 'salaryGrade', conditionValue: 'g4' }),
+          rule({ conditionType: 'CUSTOM', field: 'skills', conditionValue: 'typescript' }),
+        ],
+        employee
+      );
+
+      expect(result.matched).toBe(true);
+    });
+
+    test('should treat CUSTOM fields outside the allowlist as unset', () => {
+      const legacyRule = {
+        conditionType: 'CUSTOM',
+        field: 'panNumber',
+        conditionOperator: 'EQUALS',
+        conditionValue: 'ABCDE1234F',
+      } as unknown as ConditionalLogicType;
+
+      const result = evaluateConditions([legacyRule], employee);
+
+      expect(result.matched).toBe(false);
+      expect(result.results[0].actualValue).toBeUndefined();
+    });
+
+    test('should only let missing values satisfy negative conditions', () => {
+      const unset = { ...employee, salaryGrade: null } as Employee;
+
+      expect(
+        evaluateConditions([rule({ conditionType: 'CUSTOM', field: 'salaryGrade' })], unset).matched
+      ).toBe(false);
+      expect(
+        evaluateConditions(
+          [rule({ conditionType: 'CUSTOM', field: 'salaryGrade', conditionOperator: 'NOT_EQUALS' })],
+          unset
+        ).matched
+      ).toBe(true);
+    });
+
+    test('should describe failed rules without employee values', () => {
+      const result = evaluateConditions(
+        [
+          rule({ conditionValue: ['Sales', 'Finance'], conditionOperator: 'IN' }),
+          rule({ conditionType: 'CUSTOM', field: 'salaryGrade', conditionValue: 'G7' }),
+          rule({ conditionType: 'LOCATION', conditionValue: 'Pune', description: 'Pune office only' }),
+        ],
+        employee
+      );
+
+      expect(result.matched).toBe(false);
+      expect(result.reason).toBe(
+        'Conditions not met: DEPARTMENT IN [Sales, Finance]; CUSTOM salaryGrade EQUALS G7; Pune office only'
+      );
+      expect(result.reason).not.toContain('Engineering');
+      expect(result.reason).not.toContain('G4');
+    });
+  });
+});
@@ -0,0 +1,75 @@
+import { TaskInstanceStatus } from '@prisma/client';
+import {
+  DependencyTaskInstance,
+  findDependencyCycle,
+  getBlockingDependencies,
+  withDependencyState,
+} from '../src/modules/onboarding/dependencies.js';
+
+describe('Onboarding Dependency Tests', () => {
+  const taskInstance = (
+    workflowTaskId: string,
+    status: TaskInstanceStatus,
+    dependencies: string[] = []
+  ): DependencyTaskInstance => ({
+    workflowTaskId,
+    status,
+    workflowTask: { dependencies, globalTask: { taskName: `Task ${workflowTaskId}` } },
+  });
+
+  describe('findDependencyCycle', () => {
+    const tasks = [
+      { id: 'a', dependencies: [] },
+      { id: 'b', dependencies: ['a'] },
+      { id: 'c', dependencies: ['b'] },
+      { id: 'd', dependencies: [] },
+    ];
+
+    test('should allow dependencies that keep the graph acyclic', () => {
+      expect(findDependencyCycle(tasks, 'c', 'd')).toBeNull();
+      expect(findDependencyCycle(tasks, 'd', 'c')).toBeNull();
+    });
+
+    test('should return the cycle a new dependency would close', () => {
+      expect(findDependencyCycle(tasks, 'a', 'c')).toEqual(['a', 'c', 'b', 'a']);
+    });
+
+    test('should reject a task depending on itself', () => {
+      expect(findDependencyCycle(tasks, 'a', 'a')).toEqual(['a', 'a']);
+    });
+  });
+
+  describe('getBlockingDependencies', () => {
+    test('should block on dependencies that are not completed or skipped', () => {
+      const task = taskInstance('c', 'NOT_STARTED', ['a', 'b']);
+      const siblings = [taskInstance('a', 'IN_PROGRESS'), taskInstance('b', 'COMPLETED'), task];
+
+      expect(getBlockingDependencies(task, siblings)).toEqual([
+        { workflowTaskId: 'a', taskName: 'Task a', status: 'IN_PROGRESS' },
+      ]);
+    });
+
+    test('should not block on skipped dependencies or ones without a task instance', () => {
+      const task = taskInstance('c', 'NOT_STARTED', ['a', 'missing']);
+      const siblings = [taskInstance('a', 'SKIPPED'), task];
+
+      expect(getBlockingDependencies(task, siblings)).toEqual([]);
+    });
+  });
+
+  describe('withDependencyState', () => {
+    test('should mark open tasks with outstanding dependencies as blocked', () => {
+      const [first, second, third] = withDependencyState([
+        taskInstance('a', 'NOT_STARTED'),
+        taskInstance('b', 'NOT_STARTED', ['a']),
+        taskInstance('c', 'CANCELLED', ['a']),
+      ]);
+
+      expect(first).toMatchObject({ dependencyState: 'UNLOCKED', isBlocked: false, blockedBy: [] });
+      expect(second).toMatchObject({ dependencyState: 'BLOCKED', isBlocked: true });
+      expect(second.blockedBy.map((dependency) => dependency.workflowTaskId)).toEqual(['a']);
+      // Closed tasks are never shown as blocked
+      expect(third).toMatchObject({ dependencyState: 'UNLOCKED', isBlocked: false });
+    });
+  });
+});